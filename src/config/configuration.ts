@@ -1,4 +1,33 @@
 export default () => ({
   port: parseInt(process.env.PORT || '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
+  analysisJobs: {
+    concurrency: parseInt(process.env.ANALYSIS_JOB_CONCURRENCY || '2', 10),
+    maxQueued: parseInt(process.env.ANALYSIS_JOB_MAX_QUEUED || '20', 10),
+    retentionMinutes: parseInt(
+      process.env.ANALYSIS_JOB_RETENTION_MINUTES || '60',
+      10,
+    ),
+  },
+  analysisHistory: {
+    // Unset means ~/.git-analyzer/history, shared with the CLI
+    directory: process.env.ANALYSIS_HISTORY_DIR || undefined,
+    maxRuns: parseInt(process.env.ANALYSIS_HISTORY_MAX_RUNS || '100', 10),
+  },
+  analysisCache: {
+    // Only the CLI caches by default; the API caches when this is "true"
+    enabled: process.env.ANALYSIS_CACHE_ENABLED === 'true',
+    // Unset means ~/.git-analyzer/cache, shared with the CLI
+    directory: process.env.ANALYSIS_CACHE_DIR || undefined,
+  },
+  localRepositories: {
+    // Unset means the API rejects repositoryPath; local paths must resolve inside this directory
+    root: process.env.LOCAL_REPOSITORY_ROOT || undefined,
+  },
+  fileScan: {
+    // Unset means one worker per core beyond the first, up to 4
+    workers: process.env.SCAN_WORKERS
+      ? parseInt(process.env.SCAN_WORKERS, 10)
+      : undefined,
+  },
 });
@@ -0,0 +1,92 @@
+import {
+  AnalysisPhase,
+  AnalysisProgressEvent,
+} from '../routes/dto/analysis-progress.dto';
+
+const PHASE_LABELS: Partial<Record<AnalysisPhase, string>> = {
+  [AnalysisPhase.CLONE]: '📥 Cloning repository...',
+  [AnalysisPhase.HISTORY]: '📜 Fetching commit history...',
+};
+
+/**
+ * Renders analysis progress events as terminal status lines
+ */
+export class ConsoleProgressRenderer {
+  private lastScanPercentage = 0;
+
+  /**
+   * Writes the status line for a progress event to stdout
+   * @param event Progress event
+   */
+  render(event: AnalysisProgressEvent): void {
+    if (event.phase === AnalysisPhase.OPEN) {
+      if (event.state === 'completed') {
+        this.write(`✓ Opened local repository ${event.repoPath}\n`);
+      }
+      return;
+    }
+
+    if (event.phase === AnalysisPhase.SCAN) {
+      this.renderScan(event);
+      return;
+    }
+
+    const label = PHASE_LABELS[event.phase];
+    const seconds = Math.floor(event.elapsedMs / 1000);
+    switch (event.state) {
+      case 'started':
+        this.write(label!);
+        break;
+      case 'running':
+        this.write(`\r${label} ${seconds}s`);
+        break;
+      case 'completed':
+        this.write(`\r${this.describeCompletion(event)} (${seconds}s)\n`);
+        break;
+    }
+  }
+
+  /**
+   * Renders the file scan, updating the line every 10% to avoid too much output
+   * @param event Scan progress event
+   */
+  private renderScan(event: AnalysisProgressEvent): void {
+    const { state, filesScanned = 0, totalFiles = 0 } = event;
+    const percentage = event.percentage ?? 0;
+
+    if (state === 'started') {
+      this.lastScanPercentage = 0;
+      this.write('📝 Analyzing source files...\n');
+      return;
+    }
+
+    const isDone = state === 'completed';
+    if (
+      totalFiles > 0 &&
+      (isDone ||
+        (percentage >= this.lastScanPercentage + 10 &&
+          filesScanned < totalFiles))
+    ) {
+      this.write(
+        `\r📝 Analyzing source files... ${filesScanned}/${totalFiles} files (${percentage}%)`,
+      );
+      this.lastScanPercentage = percentage;
+      if (isDone) {
+        this.write('\n');
+      }
+    }
+  }
+
+  /**
+   * Builds the completion message of a timed phase
+   */
+  private describeCompletion(event: AnalysisProgressEvent): string {
+    return event.phase === AnalysisPhase.CLONE
+      ? '✓ Repository cloned successfully'
+      : `✓ Loaded ${event.commits} commits`;
+  }
+
+  private write(text: string): void {
+    process.stdout.write(text);
+  }
+}
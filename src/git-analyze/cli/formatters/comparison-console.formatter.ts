@@ -0,0 +1,204 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  IndicatorDelta,
+  ReportComparison,
+} from '../../routes/dto/report-comparison.dto';
+import {
+  describeCommitFilter,
+  describeThreshold,
+  formatDelta,
+  movesTowardsAI,
+} from './formatter-utils';
+
+const TABLE_STYLE = {
+  head: ['cyan'],
+  border: ['gray'],
+};
+
+export class ComparisonConsoleFormatter {
+  /**
+   * Formats a comparison of two analysis reports for console output
+   * @param data Report comparison
+   * @returns Formatted string for console display
+   */
+  format(data: ReportComparison): string {
+    const { before, after } = data;
+
+    // Create summary table of both reports
+    const summaryTable = new Table({
+      head: [
+        chalk.bold.blue('Metric'),
+        chalk.bold.blue('Before'),
+        chalk.bold.blue('After'),
+        chalk.bold.blue('Change'),
+      ],
+      style: TABLE_STYLE,
+    });
+
+    summaryTable.push(
+      [
+        'Repository',
+        chalk.green(before.repository),
+        chalk.green(after.repository),
+        '',
+      ],
+      ['Branch', chalk.yellow(before.branch), chalk.yellow(after.branch), ''],
+    );
+
+    const beforeFilter = describeCommitFilter(before.commitFilter);
+    const afterFilter = describeCommitFilter(after.commitFilter);
+    if (beforeFilter || afterFilter) {
+      summaryTable.push([
+        'Commit Range',
+        chalk.yellow(beforeFilter || '-'),
+        chalk.yellow(afterFilter || '-'),
+        '',
+      ]);
+    }
+
+    summaryTable.push(
+      [
+        'Total Commits',
+        before.totalCommits.toString(),
+        after.totalCommits.toString(),
+        formatDelta(after.totalCommits - before.totalCommits),
+      ],
+      [
+        'Contributors',
+        before.contributors.toString(),
+        after.contributors.toString(),
+        formatDelta(after.contributors - before.contributors),
+      ],
+    );
+
+    if (before.aiScore !== undefined && after.aiScore !== undefined) {
+      const delta = data.aiScoreDelta ?? 0;
+      const deltaColor =
+        delta > 0 ? chalk.red : delta < 0 ? chalk.green : chalk.gray;
+      summaryTable.push([
+        'AI Likelihood Score',
+        `${before.aiScore}/100`,
+        `${after.aiScore}/100`,
+        deltaColor.bold(formatDelta(delta)),
+      ]);
+    }
+
+    summaryTable.push([
+      'Analyzed At',
+      chalk.gray(before.analyzedAt),
+      chalk.gray(after.analyzedAt),
+      '',
+    ]);
+
+    // Create indicator delta table
+    let indicatorsTable = '';
+    if (data.indicators.length > 0) {
+      const indicatorsTableObj = new Table({
+        head: [
+          chalk.bold.blue('AI Indicator'),
+          chalk.bold.blue('Before'),
+          chalk.bold.blue('After'),
+          chalk.bold.blue('Change'),
+          chalk.bold.blue('Threshold'),
+        ],
+        style: TABLE_STYLE,
+      });
+
+      data.indicators.forEach((indicator) => {
+        indicatorsTableObj.push([
+          indicator.label,
+          indicator.formattedBefore ?? chalk.gray('-'),
+          indicator.formattedAfter ?? chalk.gray('-'),
+          this.formatIndicatorDelta(indicator),
+          this.formatThreshold(indicator),
+        ]);
+      });
+
+      indicatorsTable = `\n${chalk.bold.blue('🤖 AI Assistance Indicators:')}\n${indicatorsTableObj.toString()}`;
+    }
+
+    // Call out the indicators that crossed their threshold
+    const crossed = data.indicators.filter((indicator) => indicator.crossing);
+    const crossingLines = crossed
+      .map((indicator) =>
+        indicator.crossing === 'raised'
+          ? chalk.red(`   ⚠️  ${indicator.label} crossed its threshold`)
+          : chalk.green(
+              `   ✅ ${indicator.label} fell back within its threshold`,
+            ),
+      )
+      .join('\n');
+    const crossingsSection =
+      crossed.length > 0
+        ? `\n${chalk.bold.blue('🚦 Threshold Crossings:')}\n${crossingLines}`
+        : `\n${chalk.gray('No indicator crossed its threshold.')}`;
+
+    // Create contributor changes table
+    let contributorsTable = '';
+    if (data.contributors.length > 0) {
+      const contributorsTableObj = new Table({
+        head: [
+          chalk.bold.blue('Contributor'),
+          chalk.bold.blue('Status'),
+          chalk.bold.blue('Before'),
+          chalk.bold.blue('After'),
+          chalk.bold.blue('Change'),
+        ],
+        style: TABLE_STYLE,
+      });
+
+      data.contributors.forEach((contributor) => {
+        const statusColor =
+          contributor.status === 'added'
+            ? chalk.green
+            : contributor.status === 'removed'
+              ? chalk.red
+              : chalk.yellow;
+        contributorsTableObj.push([
+          contributor.email,
+          statusColor(contributor.status),
+          contributor.commitsBefore.toString(),
+          contributor.commitsAfter.toString(),
+          formatDelta(contributor.commitDelta),
+        ]);
+      });
+
+      contributorsTable = `\n${chalk.bold.blue('👥 Contributor Changes:')}\n${contributorsTableObj.toString()}`;
+    }
+
+    // Header
+    const header = chalk.bold.blue('📊 Git Analysis Report Comparison');
+    const separator = '━'.repeat(50);
+
+    return `${header}\n${separator}\n${summaryTable.toString()}${indicatorsTable}${crossingsSection}${contributorsTable}\n${separator}`;
+  }
+
+  /**
+   * Colors a change red when it moves towards AI assistance, green when it moves away
+   */
+  private formatIndicatorDelta(indicator: IndicatorDelta): string {
+    if (indicator.delta === undefined) {
+      return chalk.gray('-');
+    }
+    const text = formatDelta(indicator.delta, indicator.unit);
+    if (!indicator.threshold || indicator.delta === 0) {
+      return text;
+    }
+    return movesTowardsAI(indicator) ? chalk.red(text) : chalk.green(text);
+  }
+
+  private formatThreshold(indicator: IndicatorDelta): string {
+    if (!indicator.threshold) {
+      return chalk.gray('-');
+    }
+    const threshold = describeThreshold(indicator.threshold, indicator.unit);
+    if (indicator.crossing === 'raised') {
+      return chalk.bold.red(`${threshold} ⚠️ crossed`);
+    }
+    if (indicator.crossing === 'cleared') {
+      return chalk.bold.green(`${threshold} ✅ cleared`);
+    }
+    return threshold;
+  }
+}
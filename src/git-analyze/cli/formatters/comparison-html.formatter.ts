@@ -0,0 +1,339 @@
+import {
+  ComparedReport,
+  IndicatorDelta,
+  ReportComparison,
+} from '../../routes/dto/report-comparison.dto';
+import {
+  describeCommitFilter,
+  describeThreshold,
+  formatDelta,
+  movesTowardsAI,
+} from './formatter-utils';
+
+export class ComparisonHtmlFormatter {
+  /**
+   * Formats a comparison of two analysis reports as HTML
+   * @param data Report comparison
+   * @returns HTML string
+   */
+  format(data: ReportComparison): string {
+    const { before, after } = data;
+    const title =
+      before.repository === after.repository
+        ? before.repository
+        : `${before.repository} vs ${after.repository}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Git Analysis Comparison - ${title}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 1200px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f8f9fa;
+        }
+        .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 30px;
+            border-radius: 10px;
+            margin-bottom: 30px;
+            text-align: center;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 2.5em;
+        }
+        .header p {
+            margin: 10px 0 0 0;
+            opacity: 0.9;
+        }
+        .section {
+            background: white;
+            border-radius: 10px;
+            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+            overflow: hidden;
+            margin-bottom: 30px;
+        }
+        .section h3 {
+            background: linear-gradient(135deg, #764ba2 0%, #667eea 100%);
+            color: white;
+            margin: 0;
+            padding: 20px;
+            font-size: 1.2em;
+        }
+        .section p, .section ul {
+            margin: 0;
+            padding: 20px 40px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            padding: 15px;
+            text-align: left;
+            border-bottom: 1px solid #eee;
+        }
+        th {
+            background-color: #f8f9fa;
+            font-weight: 600;
+            color: #2c3e50;
+        }
+        .towards-ai {
+            color: #e74c3c;
+            font-weight: bold;
+        }
+        .away-from-ai {
+            color: #27ae60;
+            font-weight: bold;
+        }
+        .footer {
+            text-align: center;
+            color: #7f8c8d;
+            font-size: 0.9em;
+            margin-top: 30px;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>📊 Git Analysis Comparison</h1>
+        <p>Before: ${this.describeReport(before)}</p>
+        <p>After: ${this.describeReport(after)}</p>
+    </div>
+
+    ${this.generateSummary(data)}
+
+    ${this.generateCrossings(data)}
+
+    ${this.generateIndicators(data)}
+
+    ${this.generateContributors(data)}
+
+    <div class="footer">
+        <p>Before analyzed on ${new Date(before.analyzedAt).toLocaleString()} • After analyzed on ${new Date(after.analyzedAt).toLocaleString()}</p>
+    </div>
+</body>
+</html>`;
+  }
+
+  private describeReport(report: ComparedReport): string {
+    const commitFilter = describeCommitFilter(report.commitFilter);
+    return `${report.repository} • Branch: ${report.branch}${commitFilter ? ` • Commits: ${commitFilter}` : ''}`;
+  }
+
+  private generateSummary(data: ReportComparison): string {
+    const { before, after, aiScoreDelta } = data;
+    const rows = [
+      [
+        'Total Commits',
+        before.totalCommits.toLocaleString(),
+        after.totalCommits.toLocaleString(),
+        `<td>${formatDelta(after.totalCommits - before.totalCommits)}</td>`,
+      ],
+      [
+        'Contributors',
+        before.contributors.toLocaleString(),
+        after.contributors.toLocaleString(),
+        `<td>${formatDelta(after.contributors - before.contributors)}</td>`,
+      ],
+      ...(aiScoreDelta !== undefined
+        ? [
+            [
+              'AI Likelihood Score',
+              `${before.aiScore}/100`,
+              `${after.aiScore}/100`,
+              this.deltaCell(
+                formatDelta(aiScoreDelta),
+                aiScoreDelta > 0,
+                aiScoreDelta < 0,
+              ),
+            ],
+          ]
+        : []),
+    ]
+      .map(
+        ([label, beforeValue, afterValue, change]) => `
+          <tr>
+            <td>${label}</td>
+            <td>${beforeValue}</td>
+            <td>${afterValue}</td>
+            ${change}
+          </tr>
+        `,
+      )
+      .join('');
+
+    return `
+    <div class="section">
+        <h3>📈 Summary</h3>
+        <table>
+            <thead>
+                <tr>
+                    <th>Metric</th>
+                    <th>Before</th>
+                    <th>After</th>
+                    <th>Change</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${rows}
+            </tbody>
+        </table>
+    </div>`;
+  }
+
+  /**
+   * Lists the indicators that crossed their threshold, the headline of a comparison
+   */
+  private generateCrossings(data: ReportComparison): string {
+    const crossed = data.indicators.filter((indicator) => indicator.crossing);
+    const content =
+      crossed.length > 0
+        ? `<ul>${crossed
+            .map((indicator) =>
+              indicator.crossing === 'raised'
+                ? `<li class="towards-ai">⚠️ ${indicator.label} crossed its threshold (${indicator.formattedBefore} → ${indicator.formattedAfter})</li>`
+                : `<li class="away-from-ai">✅ ${indicator.label} fell back within its threshold (${indicator.formattedBefore} → ${indicator.formattedAfter})</li>`,
+            )
+            .join('')}</ul>`
+        : '<p>No indicator crossed its threshold.</p>';
+
+    return `
+    <div class="section">
+        <h3>🚦 Threshold Crossings</h3>
+        ${content}
+    </div>`;
+  }
+
+  /**
+   * Renders the value of each indicator in both reports, coloring changes towards AI assistance red
+   */
+  private generateIndicators(data: ReportComparison): string {
+    if (data.indicators.length === 0) {
+      return '';
+    }
+
+    const rows = data.indicators
+      .map(
+        (indicator) => `
+          <tr>
+            <td>${indicator.label}</td>
+            <td>${(indicator.formattedBefore ?? '-').replace(/\n/g, '<br>')}</td>
+            <td>${(indicator.formattedAfter ?? '-').replace(/\n/g, '<br>')}</td>
+            ${this.indicatorDeltaCell(indicator)}
+            <td>${this.describeIndicatorThreshold(indicator)}</td>
+          </tr>
+        `,
+      )
+      .join('');
+
+    return `
+    <div class="section">
+        <h3>🤖 AI Assistance Indicators</h3>
+        <table>
+            <thead>
+                <tr>
+                    <th>AI Indicator</th>
+                    <th>Before</th>
+                    <th>After</th>
+                    <th>Change</th>
+                    <th>Threshold</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${rows}
+            </tbody>
+        </table>
+    </div>`;
+  }
+
+  private generateContributors(data: ReportComparison): string {
+    if (data.contributors.length === 0) {
+      return '';
+    }
+
+    const rows = data.contributors
+      .map(
+        (contributor) => `
+          <tr>
+            <td>${contributor.email}</td>
+            <td>${contributor.name}</td>
+            <td>${contributor.status}</td>
+            <td>${contributor.commitsBefore.toLocaleString()}</td>
+            <td>${contributor.commitsAfter.toLocaleString()}</td>
+            <td>${formatDelta(contributor.commitDelta)}</td>
+          </tr>
+        `,
+      )
+      .join('');
+
+    return `
+    <div class="section">
+        <h3>👥 Contributor Changes</h3>
+        <table>
+            <thead>
+                <tr>
+                    <th>Email</th>
+                    <th>Name</th>
+                    <th>Status</th>
+                    <th>Before</th>
+                    <th>After</th>
+                    <th>Change</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${rows}
+            </tbody>
+        </table>
+    </div>`;
+  }
+
+  private indicatorDeltaCell(indicator: IndicatorDelta): string {
+    if (indicator.delta === undefined) {
+      return '<td>-</td>';
+    }
+    const towardsAI = movesTowardsAI(indicator);
+    return this.deltaCell(
+      formatDelta(indicator.delta, indicator.unit),
+      towardsAI,
+      Boolean(indicator.threshold) && indicator.delta !== 0 && !towardsAI,
+    );
+  }
+
+  private deltaCell(
+    text: string,
+    towardsAI: boolean,
+    awayFromAI: boolean,
+  ): string {
+    if (towardsAI) {
+      return `<td class="towards-ai">${text}</td>`;
+    }
+    return awayFromAI
+      ? `<td class="away-from-ai">${text}</td>`
+      : `<td>${text}</td>`;
+  }
+
+  private describeIndicatorThreshold(indicator: IndicatorDelta): string {
+    if (!indicator.threshold) {
+      return '-';
+    }
+    const threshold = describeThreshold(indicator.threshold, indicator.unit)
+      .replace('<', '&lt;')
+      .replace('>', '&gt;');
+    if (indicator.crossing === 'raised') {
+      return `<span class="towards-ai">⚠️ ${threshold}</span>`;
+    }
+    return indicator.crossing === 'cleared'
+      ? `<span class="away-from-ai">✅ ${threshold}</span>`
+      : threshold;
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  ComparedReport,
+  IndicatorDelta,
+  ReportComparison,
+} from '../../routes/dto/report-comparison.dto';
+import {
+  describeCommitFilter,
+  describeThreshold,
+  escapeMarkdown,
+  formatDelta,
+  markdownTable,
+  movesTowardsAI,
+} from './formatter-utils';
+
+export class ComparisonMarkdownFormatter {
+  /**
+   * Formats a comparison of two analysis reports as GitHub-flavoured Markdown
+   * @param data Report comparison
+   * @returns Markdown string
+   */
+  format(data: ReportComparison): string {
+    return [
+      '# 📊 Git Analysis Report Comparison',
+      this.generateSummary(data),
+      this.generateCrossings(data),
+      this.generateIndicators(data),
+      this.generateContributors(data),
+      `_Before analyzed at: ${data.before.analyzedAt} · After analyzed at: ${data.after.analyzedAt}_`,
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+      .concat('\n');
+  }
+
+  private generateSummary(data: ReportComparison): string {
+    const { before, after } = data;
+    const rows: string[][] = [
+      ['Repository', before.repository, after.repository, ''],
+      ['Branch', `\`${before.branch}\``, `\`${after.branch}\``, ''],
+      ...(before.commitFilter || after.commitFilter
+        ? [
+            [
+              'Commit Range',
+              this.describeRange(before),
+              this.describeRange(after),
+              '',
+            ],
+          ]
+        : []),
+      [
+        'Total Commits',
+        before.totalCommits.toLocaleString(),
+        after.totalCommits.toLocaleString(),
+        formatDelta(after.totalCommits - before.totalCommits),
+      ],
+      [
+        'Contributors',
+        before.contributors.toLocaleString(),
+        after.contributors.toLocaleString(),
+        formatDelta(after.contributors - before.contributors),
+      ],
+      ...(data.aiScoreDelta !== undefined
+        ? [
+            [
+              'AI Likelihood Score',
+              `${before.aiScore}/100`,
+              `${after.aiScore}/100`,
+              `${data.aiScoreDelta > 0 ? '🔺' : data.aiScoreDelta < 0 ? '🔻' : ''} ${formatDelta(data.aiScoreDelta)}`.trim(),
+            ],
+          ]
+        : []),
+    ];
+
+    return `## Summary\n\n${markdownTable(['Metric', 'Before', 'After', 'Change'], rows)}`;
+  }
+
+  /**
+   * Lists the indicators that crossed their threshold, the headline of a comparison
+   */
+  private generateCrossings(data: ReportComparison): string {
+    const crossed = data.indicators.filter((indicator) => indicator.crossing);
+    if (crossed.length === 0) {
+      return '## 🚦 Threshold Crossings\n\nNo indicator crossed its threshold.';
+    }
+
+    const lines = crossed.map((indicator) => {
+      const values = `${escapeMarkdown(indicator.formattedBefore ?? '-')} → ${escapeMarkdown(indicator.formattedAfter ?? '-')}`;
+      const threshold = indicator.threshold
+        ? `, threshold ${escapeMarkdown(describeThreshold(indicator.threshold, indicator.unit))}`
+        : '';
+      return indicator.crossing === 'raised'
+        ? `- ⚠️ **${escapeMarkdown(indicator.label)}** crossed its threshold (${values}${threshold})`
+        : `- ✅ **${escapeMarkdown(indicator.label)}** fell back within its threshold (${values}${threshold})`;
+    });
+
+    return `## 🚦 Threshold Crossings\n\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Renders the value of each indicator in both reports, with the change and its direction
+   */
+  private generateIndicators(data: ReportComparison): string {
+    if (data.indicators.length === 0) {
+      return '';
+    }
+
+    const table = markdownTable(
+      ['AI Indicator', 'Before', 'After', 'Change', 'Threshold'],
+      data.indicators.map((indicator) => [
+        indicator.label,
+        indicator.formattedBefore ?? '-',
+        indicator.formattedAfter ?? '-',
+        this.describeIndicatorDelta(indicator),
+        this.describeIndicatorThreshold(indicator),
+      ]),
+    );
+
+    return `## 🤖 AI Assistance Indicators
+
+${table}
+
+_🔺 towards AI assistance, 🔻 away from it; ⚠️ crossed the threshold, ✅ fell back within it_`;
+  }
+
+  private generateContributors(data: ReportComparison): string {
+    if (data.contributors.length === 0) {
+      return '';
+    }
+
+    const table = markdownTable(
+      ['Contributor', 'Status', 'Before', 'After', 'Change'],
+      data.contributors.map((contributor) => [
+        contributor.email,
+        contributor.status,
+        contributor.commitsBefore.toLocaleString(),
+        contributor.commitsAfter.toLocaleString(),
+        formatDelta(contributor.commitDelta),
+      ]),
+    );
+
+    return `## 👥 Contributor Changes\n\n${table}`;
+  }
+
+  private describeRange(report: ComparedReport): string {
+    return describeCommitFilter(report.commitFilter) || '-';
+  }
+
+  private describeIndicatorDelta(indicator: IndicatorDelta): string {
+    if (indicator.delta === undefined) {
+      return '-';
+    }
+    const text = formatDelta(indicator.delta, indicator.unit);
+    if (!indicator.threshold || indicator.delta === 0) {
+      return text;
+    }
+    return `${movesTowardsAI(indicator) ? '🔺' : '🔻'} ${text}`;
+  }
+
+  private describeIndicatorThreshold(indicator: IndicatorDelta): string {
+    if (!indicator.threshold) {
+      return '-';
+    }
+    const threshold = describeThreshold(indicator.threshold, indicator.unit);
+    if (indicator.crossing === 'raised') {
+      return `⚠️ ${threshold}`;
+    }
+    return indicator.crossing === 'cleared' ? `✅ ${threshold}` : threshold;
+  }
+}
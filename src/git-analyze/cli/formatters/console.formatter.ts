@@ -1,6 +1,17 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
 import { AnalyzeResponseDto } from '../../routes/dto/analyze-response.dto';
+import {
+  describeBotActivity,
+  describeCommitFilter,
+  describeConfig,
+  describeFileScan,
+  describeMergedIdentities,
+  exceedsThreshold,
+  getIndicatorLabel,
+  getLanguageIndicatorNames,
+  isIndicatorRaised,
+} from './formatter-utils';
 
 export class ConsoleFormatter {
   /**
@@ -23,6 +34,19 @@ export class ConsoleFormatter {
     mainTable.push(
       ['Repository', chalk.green(repository)],
       ['Branch', chalk.yellow(branch)],
+    );
+
+    const commitFilter = describeCommitFilter(data.commitFilter);
+    if (commitFilter) {
+      mainTable.push(['Commit Range', chalk.yellow(commitFilter)]);
+    }
+
+    const config = describeConfig(data.config);
+    if (config.length > 0) {
+      mainTable.push(['Configuration', chalk.yellow(config.join('\n'))]);
+    }
+
+    mainTable.push(
       ['Total Commits', chalk.bold(metrics.totalCommits.toString())],
       ['Contributors', chalk.bold(metrics.contributors.toString())],
       ['Development Duration', chalk.bold(metrics.duration)],
@@ -32,6 +56,11 @@ export class ConsoleFormatter {
       ['Top Contributor', chalk.cyan(metrics.topContributor)],
     );
 
+    const fileScan = describeFileScan(metrics.fileScan);
+    if (fileScan) {
+      mainTable.push(['Source Files', chalk.gray(fileScan)]);
+    }
+
     // Create contributors table if there are multiple contributors
     let contributorsTable = '';
     if (metrics.contributorStats.length > 1) {
@@ -65,6 +94,62 @@ export class ConsoleFormatter {
       contributorsTable = `\n${chalk.bold.blue('Contributors Breakdown:')}\n${contributorsTableObj.toString()}`;
     }
 
+    // List the contributors counted under several identities
+    let identityMergesTable = '';
+    if (metrics.identityMerges && metrics.identityMerges.length > 0) {
+      const identityMergesTableObj = new Table({
+        head: [
+          chalk.bold.blue('Contributor'),
+          chalk.bold.blue('Merged Identities'),
+        ],
+        style: {
+          head: ['cyan'],
+          border: ['gray'],
+        },
+        colWidths: [35, 55],
+        wordWrap: true,
+      });
+
+      metrics.identityMerges.forEach((merge) => {
+        identityMergesTableObj.push([
+          `${merge.name} <${merge.email}>`,
+          chalk.gray(describeMergedIdentities(merge)),
+        ]);
+      });
+
+      identityMergesTable = `\n${chalk.bold.blue('Merged Identities:')}\n${identityMergesTableObj.toString()}`;
+    }
+
+    // Bot commits are reported apart from the contributors
+    let botActivityTable = '';
+    if (metrics.botActivity) {
+      const botTableObj = new Table({
+        head: [
+          chalk.bold.blue('Bot'),
+          chalk.bold.blue('Account'),
+          chalk.bold.blue('Commits'),
+          chalk.bold.blue('Lines Added'),
+          chalk.bold.blue('Matched By'),
+        ],
+        style: {
+          head: ['cyan'],
+          border: ['gray'],
+        },
+      });
+
+      metrics.botActivity.accounts.forEach((account) => {
+        botTableObj.push([
+          account.bot,
+          account.email,
+          account.commitCount.toString(),
+          account.insertions.toString(),
+          account.matchedBy,
+        ]);
+      });
+
+      botActivityTable = `\n${chalk.bold.blue('Bot Activity:')} ${chalk.gray(describeBotActivity(metrics.botActivity))}\n${botTableObj.toString()}`;
+    }
+
     // Create AI Indicators table
     let aiIndicatorsTable = '';
     if (metrics.aiIndicators) {
@@ -82,67 +167,152 @@ export class ConsoleFormatter {
         wordWrap: true,
       });
 
-      const ai = metrics.aiIndicators;
-      const firstCommitValue = ai.firstCommitAnalysis.value;
-      const firstCommitStatus = firstCommitValue.isSuspicious
-        ? chalk.red('⚠️  Suspicious')
-        : chalk.green('✓ Normal');
-
-      aiTable.push(
-        [
-          'Avg Lines/Commit',
-          chalk.bold(`${ai.avgLinesPerCommit.value}`),
-          chalk.gray(ai.avgLinesPerCommit.description),
-        ],
-        [
-          'Large Commits %',
-          chalk.bold(`${ai.largeCommitPercentage.value}%`),
-          chalk.gray(ai.largeCommitPercentage.description),
-        ],
-        [
-          'First Commit Size',
-          `${chalk.bold(`${firstCommitValue.lines}`)} lines - ${firstCommitStatus}`,
-          chalk.gray(ai.firstCommitAnalysis.description),
-        ],
-        [
-          'Avg Files/Commit',
-          chalk.bold(`${ai.avgFilesPerCommit.value}`),
-          chalk.gray(ai.avgFilesPerCommit.description),
-        ],
-        [
-          'Commit Msg Patterns %',
-          chalk.bold(`${ai.commitMessagePatterns.value}%`),
-          chalk.gray(ai.commitMessagePatterns.description),
-        ],
-        [
-          'Bursty Commits %',
-          chalk.bold(`${ai.burstyCommitPercentage.value}%`),
-          chalk.gray(ai.burstyCommitPercentage.description),
-        ],
-        [
-          'Test File Ratio %',
-          chalk.bold(`${ai.testFileRatio.value}%`),
-          chalk.gray(ai.testFileRatio.description),
+      Object.entries(metrics.aiIndicators).forEach(([id, indicator]) => {
+        const highlight = isIndicatorRaised(metrics, id)
+          ? chalk.bold.red
+          : chalk.bold;
+        aiTable.push([
+          indicator.label,
+          highlight(indicator.formattedValue),
+          chalk.gray(indicator.description),
+        ]);
+      });
+
+      aiIndicatorsTable = `\n${chalk.bold.blue('🤖 AI Assistance Indicators:')}\n${aiTable.toString()}`;
+    }
+
+    // Create contributor-by-indicator table if there are multiple contributors
+    let contributorIndicatorsTable = '';
+    if (
+      metrics.contributorIndicators &&
+      metrics.contributorIndicators.length > 1
+    ) {
+      const indicatorNames = Object.keys(
+        metrics.contributorIndicators[0].indicators,
+      );
+      const indicatorsTableObj = new Table({
+        head: [
+          chalk.bold.blue('Contributor'),
+          chalk.bold.blue('Commits'),
+          ...indicatorNames.map((name) =>
+            chalk.bold.blue(getIndicatorLabel(metrics, name, true)),
+          ),
         ],
-        [
-          'Code Comment Ratio %',
-          chalk.bold(`${ai.codeCommentRatio.value}%`),
-          chalk.gray(ai.codeCommentRatio.description),
+        style: {
+          head: ['cyan'],
+          border: ['gray'],
+        },
+      });
+
+      metrics.contributorIndicators.forEach((contributor) => {
+        indicatorsTableObj.push([
+          contributor.email,
+          contributor.commitCount.toString(),
+          ...indicatorNames.map((name) => {
+            const value = contributor.indicators[name];
+            return exceedsThreshold(
+              value,
+              metrics.aiIndicators?.[name]?.threshold,
+            )
+              ? chalk.yellow(`${value}`)
+              : `${value}`;
+          }),
+        ]);
+      });
+
+      contributorIndicatorsTable = `\n${chalk.bold.blue('🧑‍💻 AI Indicators by Contributor:')}\n${indicatorsTableObj.toString()}`;
+    }
+
+    // Create language-by-indicator table, each value compared against the language's baseline
+    let languageIndicatorsTable = '';
+    if (metrics.languageIndicators && metrics.languageIndicators.length > 0) {
+      const indicatorNames = getLanguageIndicatorNames(
+        metrics.languageIndicators,
+      );
+      const languagesTableObj = new Table({
+        head: [
+          chalk.bold.blue('Language'),
+          chalk.bold.blue('Files'),
+          chalk.bold.blue('Lines'),
+          ...indicatorNames.map((name) =>
+            chalk.bold.blue(getIndicatorLabel(metrics, name, true)),
+          ),
         ],
-        [
-          'Non-typical Expr. %',
-          chalk.bold(`${ai.codeNonTypicalExpressionRatio.value}%`),
-          chalk.gray(ai.codeNonTypicalExpressionRatio.description),
+        style: {
+          head: ['cyan'],
+          border: ['gray'],
+        },
+      });
+
+      metrics.languageIndicators.forEach((row) => {
+        languagesTableObj.push([
+          row.language,
+          row.files.toString(),
+          row.lines.toString(),
+          ...indicatorNames.map((name) => {
+            const indicator = row.indicators[name];
+            if (!indicator) {
+              return chalk.gray('-');
+            }
+            return exceedsThreshold(indicator.value, indicator.threshold)
+              ? chalk.yellow(indicator.formattedValue)
+              : indicator.formattedValue;
+          }),
+        ]);
+      });
+
+      languageIndicatorsTable = `\n${chalk.bold.blue('🗂️  AI Indicators by Language:')}\n${languagesTableObj.toString()}`;
+    }
+
+    // Create AI likelihood score table
+    let aiScoreTable = '';
+    if (metrics.aiScore) {
+      const score = metrics.aiScore;
+      const scoreTable = new Table({
+        head: [
+          chalk.bold.blue('AI Indicator'),
+          chalk.bold.blue('Signal'),
+          chalk.bold.blue('Weight'),
+          chalk.bold.blue('Points'),
         ],
-      );
+        style: {
+          head: ['cyan'],
+          border: ['gray'],
+        },
+      });
 
-      aiIndicatorsTable = `\n${chalk.bold.blue('🤖 AI Assistance Indicators:')}\n${aiTable.toString()}`;
+      score.contributions.forEach((contribution) => {
+        scoreTable.push([
+          getIndicatorLabel(metrics, contribution.indicator),
+          `${contribution.signal}%`,
+          contribution.weight.toString(),
+          chalk.bold(contribution.contribution.toString()),
+        ]);
+      });
+
+      const scoreColor =
+        score.value >= 60
+          ? chalk.red
+          : score.value >= 30
+            ? chalk.yellow
+            : chalk.green;
+
+      aiScoreTable = `\n${chalk.bold.blue('🎯 AI Likelihood Score:')} ${scoreColor.bold(`${score.value}/100`)} ${chalk.gray(`(${score.confidence} confidence)`)}\n${scoreTable.toString()}`;
+    }
+
+    // Describe when the AI score shifted
+    let changePointLine = '';
+    const timeSeries = metrics.timeSeries;
+    if (timeSeries?.changePoint) {
+      const { period, scoreBefore, scoreAfter } = timeSeries.changePoint;
+      const direction = scoreAfter > scoreBefore ? chalk.red : chalk.green;
+      changePointLine = `\n${chalk.bold.blue('📈 AI Score Change Point:')} ${chalk.bold(period)} ${direction(`${scoreBefore} → ${scoreAfter}`)} ${chalk.gray(`(average ${timeSeries.interval}ly score before / after)`)}`;
     }
 
     // Header
     const header = chalk.bold.blue('📊 Git Repository Analysis Report');
     const separator = '━'.repeat(50);
 
-    return `${header}\n${separator}\n${mainTable.toString()}${contributorsTable}${aiIndicatorsTable}\n${separator}\n${chalk.gray(`Analyzed at: ${data.analyzedAt}`)}`;
+    return `${header}\n${separator}\n${mainTable.toString()}${contributorsTable}${identityMergesTable}${botActivityTable}${aiIndicatorsTable}${contributorIndicatorsTable}${languageIndicatorsTable}${aiScoreTable}${changePointLine}\n${separator}\n${chalk.gray(`Analyzed at: ${data.analyzedAt}`)}`;
   }
 }
@@ -0,0 +1,257 @@
+import { CommitHistoryFilter } from '../../services/git.service';
+export { exceedsThreshold } from '../../services/metrics/metric-plugin';
+import {
+  AIIndicatorName,
+  AppliedConfig,
+  BotActivity,
+  FileScanSummary,
+  GitMetrics,
+  IdentityMerge,
+  LanguageIndicators,
+  MetricThreshold,
+  MetricUnit,
+} from '../../routes/dto/analyze-response.dto';
+import { IndicatorDelta } from '../../routes/dto/report-comparison.dto';
+import { BatchAnalysisResponseDto } from '../../routes/dto/batch-analysis.dto';
+
+/**
+ * Suffix of values in each unit
+ */
+const UNIT_SUFFIXES: Record<MetricUnit, string> = {
+  lines: ' lines',
+  files: ' files',
+  percent: '%',
+};
+
+/**
+ * Describes a commit filter in a single human-readable line
+ * @param filter Date window and commit range
+ * @returns Description (e.g., "v1.0..HEAD, since 2024-01-01"), or empty string when nothing is filtered
+ */
+export function describeCommitFilter(filter?: CommitHistoryFilter): string {
+  if (!filter) {
+    return '';
+  }
+
+  const { since, until, fromRef, toRef } = filter;
+  const range = fromRef ? `${fromRef}..${toRef || 'HEAD'}` : toRef;
+
+  return [range, since && `since ${since}`, until && `until ${until}`]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Describes the applied project configuration, one setting per line
+ * @param config Applied project configuration
+ * @returns Source file followed by each non-empty setting, or no lines without a configuration
+ */
+export function describeConfig(config?: AppliedConfig): string[] {
+  if (!config) {
+    return [];
+  }
+
+  const thresholds = Object.entries(config.thresholds)
+    .map(([id, value]) => `${id}=${value}`)
+    .join(', ');
+  const aliases = Object.values(config.identities?.aliases ?? {}).flat();
+
+  return [
+    config.source,
+    thresholds && `Thresholds: ${thresholds}`,
+    config.disabledIndicators.length > 0 &&
+      `Disabled: ${config.disabledIndicators.join(', ')}`,
+    config.skip.length > 0 && `Skip: ${config.skip.join(', ')}`,
+    aliases.length > 0 && `Identity aliases: ${aliases.length}`,
+    config.identities?.mergeByName && 'Merge identities by name',
+    config.formats && `Formats: ${config.formats.join(', ')}`,
+  ].filter((line): line is string => Boolean(line));
+}
+
+/**
+ * Describes the identities merged into a contributor in a single line
+ * @param merge Contributor whose commits were written under several emails
+ * @returns Description (e.g., "jane@old.example.com (alias, 3 commits), jane@work.example.com (name, 1 commit)")
+ */
+export function describeMergedIdentities(merge: IdentityMerge): string {
+  return merge.identities
+    .map(
+      ({ email, source, commitCount }) =>
+        `${email} (${source}, ${commitCount} ${commitCount === 1 ? 'commit' : 'commits'})`,
+    )
+    .join(', ');
+}
+
+/**
+ * Summarizes the bot activity in a single line
+ * @param activity Commits made by bot accounts
+ * @returns Description (e.g., "12 commits (8.5%) by 2 bot accounts, excluded from the AI indicators")
+ */
+export function describeBotActivity(activity: BotActivity): string {
+  const { commitCount, commitPercentage, accounts, excluded } = activity;
+  return `${commitCount} ${commitCount === 1 ? 'commit' : 'commits'} (${commitPercentage}%) by ${accounts.length} bot ${accounts.length === 1 ? 'account' : 'accounts'}, ${excluded ? 'excluded from' : 'included in'} the AI indicators`;
+}
+
+/**
+ * Describes the file scan in a single human-readable line
+ * @param summary Scanned files and exclusions
+ * @returns Description (e.g., "42 scanned, 13 excluded (gitignore: 10 files, 1 directory; generated header: 3 files)"), or empty string without a scan
+ */
+export function describeFileScan(summary?: FileScanSummary): string {
+  if (!summary) {
+    return '';
+  }
+
+  const plural = (count: number, noun: string, nouns: string) =>
+    `${count} ${count === 1 ? noun : nouns}`;
+  const excluded = summary.exclusions.reduce(
+    (sum, { files, directories }) => sum + files + directories,
+    0,
+  );
+  const reasons = summary.exclusions
+    .map(({ reason, files, directories }) => {
+      const counts = [
+        files > 0 && plural(files, 'file', 'files'),
+        directories > 0 && plural(directories, 'directory', 'directories'),
+      ].filter(Boolean);
+      return `${reason.replace('-', ' ')}: ${counts.join(', ')}`;
+    })
+    .join('; ');
+
+  return excluded > 0
+    ? `${summary.scannedFiles} scanned, ${excluded} excluded (${reasons})`
+    : `${summary.scannedFiles} scanned`;
+}
+
+/**
+ * Gets the display label of an indicator from the analysis results
+ * @param metrics Calculated metrics
+ * @param id Indicator ID
+ * @param short Whether to use the compact label
+ * @returns Label, or the ID when the indicator is not part of the results
+ */
+export function getIndicatorLabel(
+  metrics: GitMetrics,
+  id: AIIndicatorName,
+  short = false,
+): string {
+  const indicator = metrics.aiIndicators?.[id];
+  return (short ? indicator?.shortLabel : indicator?.label) ?? id;
+}
+
+/**
+ * Gets the indicators reported for at least one language
+ * @param languages Indicators by language
+ * @returns Indicator IDs in the order they first appear
+ */
+export function getLanguageIndicatorNames(
+  languages: LanguageIndicators[],
+): AIIndicatorName[] {
+  return [...new Set(languages.flatMap((row) => Object.keys(row.indicators)))];
+}
+
+/**
+ * Checks whether an indicator pushed the AI score at least as far as a value at its threshold
+ * @param metrics Calculated metrics
+ * @param id Indicator ID
+ * @returns True when the indicator's AI signal is 50% or more
+ */
+export function isIndicatorRaised(
+  metrics: GitMetrics,
+  id: AIIndicatorName,
+): boolean {
+  const contribution = metrics.aiScore?.contributions.find(
+    (c) => c.indicator === id,
+  );
+  return (contribution?.signal ?? 0) >= 50;
+}
+
+/**
+ * Describes the AI side of a threshold
+ * @param threshold Indicator threshold
+ * @param unit Unit of the indicator
+ * @returns Description (e.g., "> 30%")
+ */
+export function describeThreshold(
+  threshold: MetricThreshold,
+  unit: MetricUnit,
+): string {
+  return `${threshold.direction === 'above' ? '>' : '<'} ${threshold.value}${UNIT_SUFFIXES[unit]}`;
+}
+
+/**
+ * Formats a change with its sign and unit
+ * @param delta Change of a value
+ * @param unit Unit of the value
+ * @returns Signed text (e.g., "+2.5%", "-120 lines", "±0")
+ */
+export function formatDelta(delta: number, unit?: MetricUnit): string {
+  if (delta === 0) {
+    return '±0';
+  }
+  return `${delta > 0 ? '+' : ''}${delta}${unit ? UNIT_SUFFIXES[unit] : ''}`;
+}
+
+/**
+ * Checks whether an indicator moved towards the AI side of its threshold
+ * @param indicator Indicator delta
+ * @returns True when the change suggests more AI assistance; false without a delta or threshold
+ */
+export function movesTowardsAI(indicator: IndicatorDelta): boolean {
+  const { delta, threshold } = indicator;
+  if (!delta || !threshold) {
+    return false;
+  }
+  return threshold.direction === 'above' ? delta > 0 : delta < 0;
+}
+
+/**
+ * Orders the completed repositories of a batch for the leaderboard
+ * @param data Batch results
+ * @returns Indexes in `repositories`, in the order of the first ranking (the AI score when available), then any others in manifest order
+ */
+export function getLeaderboardRepositories(
+  data: BatchAnalysisResponseDto,
+): number[] {
+  return [
+    ...new Set([
+      ...(data.leaderboard[0]?.entries.map((entry) => entry.repositoryIndex) ??
+        []),
+      ...data.repositories.flatMap((repository, index) =>
+        repository.status === 'completed' ? [index] : [],
+      ),
+    ]),
+  ];
+}
+
+/**
+ * Builds a Markdown table, escaping every cell
+ * @param head Column headings
+ * @param rows Cells of each row
+ * @returns Markdown table
+ */
+export function markdownTable(head: string[], rows: string[][]): string {
+  const line = (cells: string[]) =>
+    `| ${cells.map((cell) => escapeMarkdown(cell)).join(' | ')} |`;
+  return [
+    line(head),
+    `|${head.map(() => '---').join('|')}|`,
+    ...rows.map(line),
+  ].join('\n');
+}
+
+/**
+ * Escapes text for a Markdown table cell or list item: pipes would end the
+ * cell, ampersands and angle brackets would start HTML entities and tags, and
+ * line breaks would end the row
+ * @param text Plain text
+ * @returns Escaped text
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/\|/g, '\\|')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>');
+}
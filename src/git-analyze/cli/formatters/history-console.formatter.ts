@@ -0,0 +1,63 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { AnalysisHistoryDto } from '../../routes/dto/analysis-history.dto';
+import { formatDelta } from './formatter-utils';
+
+export class HistoryConsoleFormatter {
+  /**
+   * Formats the recorded runs of a repository for console output
+   * @param data Analysis history
+   * @returns Formatted string for console display
+   */
+  format(data: AnalysisHistoryDto): string {
+    const table = new Table({
+      head: [
+        chalk.bold.blue('Run'),
+        chalk.bold.blue('Analyzed At'),
+        chalk.bold.blue('Branch'),
+        chalk.bold.blue('Commit'),
+        chalk.bold.blue('Commits'),
+        chalk.bold.blue('AI Score'),
+        chalk.bold.blue('vs Baseline'),
+      ],
+      style: {
+        head: ['cyan'],
+        border: ['gray'],
+      },
+    });
+
+    data.runs.forEach((run) => {
+      let change = chalk.gray('-');
+      if (run.isBaseline) {
+        change = chalk.cyan('📌 baseline');
+      } else if (run.aiScoreDelta !== undefined) {
+        const text = formatDelta(run.aiScoreDelta);
+        change =
+          run.aiScoreDelta > 0
+            ? chalk.red(text)
+            : run.aiScoreDelta < 0
+              ? chalk.green(text)
+              : text;
+      }
+
+      table.push([
+        `#${run.id}`,
+        new Date(run.analyzedAt).toLocaleString(),
+        run.branch,
+        run.headCommit ? run.headCommit.slice(0, 7) : chalk.gray('-'),
+        run.totalCommits.toLocaleString(),
+        run.aiScore !== undefined ? `${run.aiScore}/100` : chalk.gray('-'),
+        change,
+      ]);
+    });
+
+    const header = `${chalk.bold.blue(`📚 Analysis History: ${data.repository}`)} ${chalk.gray(`(${data.repositoryId})`)}`;
+    const separator = '━'.repeat(50);
+    const footer =
+      data.baselineRunId === undefined
+        ? 'No baseline set; mark one with --set-baseline <run>'
+        : `Baseline: run #${data.baselineRunId}`;
+
+    return `${header}\n${separator}\n${data.runs.length > 0 ? table.toString() : chalk.gray('No runs match')}\n${separator}\n${chalk.gray(footer)}`;
+  }
+}
@@ -2,6 +2,31 @@ import {
   AnalyzeResponseDto,
   GitMetrics,
 } from '../../routes/dto/analyze-response.dto';
+import { TimeSeriesInterval } from '../../routes/dto/analyze-request.dto';
+import {
+  describeBotActivity,
+  describeCommitFilter,
+  describeConfig,
+  describeFileScan,
+  describeMergedIdentities,
+  exceedsThreshold,
+  getIndicatorLabel,
+  getLanguageIndicatorNames,
+  isIndicatorRaised,
+} from './formatter-utils';
+
+/**
+ * Line colors of the indicator series in the time series chart
+ */
+const SERIES_COLORS = [
+  '#e74c3c',
+  '#f39c12',
+  '#3498db',
+  '#27ae60',
+  '#16a085',
+  '#8e44ad',
+  '#d35400',
+];
 
 export class HtmlFormatter {
   /**
@@ -11,6 +36,9 @@ export class HtmlFormatter {
    */
   format(data: AnalyzeResponseDto): string {
     const { repository, branch, metrics, analyzedAt } = data;
+    const commitFilter = describeCommitFilter(data.commitFilter);
+    const config = describeConfig(data.config);
+    const fileScan = describeFileScan(metrics.fileScan);
 
     return `<!DOCTYPE html>
 <html lang="en">
@@ -168,15 +196,12 @@ export class HtmlFormatter {
         .suspicious {
             color: #e74c3c;
         }
-        .normal {
-            color: #27ae60;
-        }
     </style>
 </head>
 <body>
     <div class="header">
         <h1>📊 Git Repository Analysis</h1>
-        <p>${repository} • Branch: ${branch}</p>
+        <p>${repository} • Branch: ${branch}${commitFilter ? ` • Commits: ${commitFilter}` : ''}</p>${config.length > 0 ? `\n        <p>Configuration: ${config.join(' • ')}</p>` : ''}${fileScan ? `\n        <p>Source files: ${fileScan}</p>` : ''}
     </div>
 
     <div class="metrics-grid">
@@ -221,8 +246,20 @@ export class HtmlFormatter {
 
     ${this.generateContributorsTable(metrics)}
 
+    ${this.generateIdentityMerges(metrics)}
+
+    ${this.generateBotActivity(metrics)}
+
     ${this.generateAIIndicators(metrics)}
 
+    ${this.generateContributorIndicatorsTable(metrics)}
+
+    ${this.generateLanguageIndicatorsTable(metrics)}
+
+    ${this.generateTimeSeriesChart(metrics)}
+
+    ${this.generateAIScore(metrics)}
+
     <div class="footer">
         <p>Report generated on ${new Date(analyzedAt).toLocaleString()}</p>
         <div>
@@ -284,94 +321,374 @@ export class HtmlFormatter {
     </div>`;
   }
 
-  private generateAIIndicators(metrics: GitMetrics): string {
-    if (!metrics.aiIndicators) {
+  private generateIdentityMerges(metrics: GitMetrics): string {
+    if (!metrics.identityMerges || metrics.identityMerges.length === 0) {
       return '';
     }
 
-    const ai = metrics.aiIndicators;
-    const firstCommitValue = ai.firstCommitAnalysis.value as {
-      lines: number;
-      isSuspicious: boolean;
-    };
-    const firstCommitStatus = firstCommitValue.isSuspicious
-      ? '<span class="suspicious">⚠️ Suspicious</span>'
-      : '<span class="normal">✓ Normal</span>';
+    const mergeRows = metrics.identityMerges
+      .map(
+        (merge) => `
+          <tr>
+            <td>${merge.name}</td>
+            <td>${merge.email}</td>
+            <td>${describeMergedIdentities(merge)}</td>
+          </tr>
+        `,
+      )
+      .join('');
 
     return `
-    <div class="ai-indicators">
-        <h3>🤖 AI Assistance Indicators</h3>
+    <div class="contributors-table">
+        <h3>🔗 Merged Identities</h3>
+        <table>
+            <thead>
+                <tr>
+                    <th>Name</th>
+                    <th>Email</th>
+                    <th>Merged Identities</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${mergeRows}
+            </tbody>
+        </table>
+    </div>`;
+  }
 
-        <div class="ai-metric">
-            <div class="ai-metric-header">
-                <span class="ai-metric-name">Avg Lines/Commit</span>
-                <span class="ai-metric-value">${ai.avgLinesPerCommit.value}</span>
-            </div>
-            <div class="ai-metric-description">${ai.avgLinesPerCommit.description}</div>
-        </div>
+  private generateBotActivity(metrics: GitMetrics): string {
+    if (!metrics.botActivity) {
+      return '';
+    }
 
-        <div class="ai-metric">
-            <div class="ai-metric-header">
-                <span class="ai-metric-name">Large Commits %</span>
-                <span class="ai-metric-value">${ai.largeCommitPercentage.value}%</span>
-            </div>
-            <div class="ai-metric-description">${ai.largeCommitPercentage.description}</div>
-        </div>
+    const botRows = metrics.botActivity.accounts
+      .map(
+        (account) => `
+          <tr>
+            <td>${account.bot}</td>
+            <td>${account.email}</td>
+            <td>${account.commitCount.toLocaleString()}</td>
+            <td>${account.insertions.toLocaleString()}</td>
+            <td>${account.matchedBy}</td>
+          </tr>
+        `,
+      )
+      .join('');
 
-        <div class="ai-metric">
-            <div class="ai-metric-header">
-                <span class="ai-metric-name">First Commit Size</span>
-                <span class="ai-metric-value">${firstCommitValue.lines} lines ${firstCommitStatus}</span>
-            </div>
-            <div class="ai-metric-description">${ai.firstCommitAnalysis.description}</div>
-        </div>
+    return `
+    <div class="contributors-table">
+        <h3>🛠️ Bot Activity</h3>
+        <p>${describeBotActivity(metrics.botActivity)}</p>
+        <table>
+            <thead>
+                <tr>
+                    <th>Bot</th>
+                    <th>Account</th>
+                    <th>Commits</th>
+                    <th>Lines Added</th>
+                    <th>Matched By</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${botRows}
+            </tbody>
+        </table>
+    </div>`;
+  }
 
-        <div class="ai-metric">
-            <div class="ai-metric-header">
-                <span class="ai-metric-name">Avg Files/Commit</span>
-                <span class="ai-metric-value">${ai.avgFilesPerCommit.value}</span>
-            </div>
-            <div class="ai-metric-description">${ai.avgFilesPerCommit.description}</div>
-        </div>
+  private generateAIIndicators(metrics: GitMetrics): string {
+    if (!metrics.aiIndicators) {
+      return '';
+    }
 
+    const indicatorBlocks = Object.entries(metrics.aiIndicators)
+      .map(
+        ([id, indicator]) => `
         <div class="ai-metric">
             <div class="ai-metric-header">
-                <span class="ai-metric-name">Commit Msg Patterns %</span>
-                <span class="ai-metric-value">${ai.commitMessagePatterns.value}%</span>
+                <span class="ai-metric-name">${indicator.label}</span>
+                <span class="ai-metric-value ${isIndicatorRaised(metrics, id) ? 'suspicious' : ''}">${indicator.formattedValue.replace(/\n/g, '<br>')}</span>
             </div>
-            <div class="ai-metric-description">${ai.commitMessagePatterns.description}</div>
+            <div class="ai-metric-description">${indicator.description}</div>
         </div>
+`,
+      )
+      .join('');
 
-        <div class="ai-metric">
-            <div class="ai-metric-header">
-                <span class="ai-metric-name">Bursty Commits %</span>
-                <span class="ai-metric-value">${ai.burstyCommitPercentage.value}%</span>
-            </div>
-            <div class="ai-metric-description">${ai.burstyCommitPercentage.description}</div>
-        </div>
+    return `
+    <div class="ai-indicators">
+        <h3>🤖 AI Assistance Indicators</h3>
+${indicatorBlocks}
+    </div>`;
+  }
+
+  private generateContributorIndicatorsTable(metrics: GitMetrics): string {
+    if (
+      !metrics.contributorIndicators ||
+      metrics.contributorIndicators.length <= 1
+    ) {
+      return '';
+    }
+
+    const indicatorNames = Object.keys(
+      metrics.contributorIndicators[0].indicators,
+    );
+    const headerCells = indicatorNames
+      .map((name) => `<th>${getIndicatorLabel(metrics, name, true)}</th>`)
+      .join('');
+    const rows = metrics.contributorIndicators
+      .map((contributor) => {
+        const cells = indicatorNames
+          .map((name) => {
+            const value = contributor.indicators[name];
+            return exceedsThreshold(
+              value,
+              metrics.aiIndicators?.[name]?.threshold,
+            )
+              ? `<td class="suspicious">${value}</td>`
+              : `<td>${value}</td>`;
+          })
+          .join('');
+        return `
+          <tr>
+            <td>${contributor.email}</td>
+            <td>${contributor.commitCount.toLocaleString()}</td>
+            ${cells}
+          </tr>
+        `;
+      })
+      .join('');
+
+    return `
+    <div class="contributors-table">
+        <h3>🧑‍💻 AI Indicators by Contributor</h3>
+        <table>
+            <thead>
+                <tr>
+                    <th>Contributor</th>
+                    <th>Commits</th>
+                    ${headerCells}
+                </tr>
+            </thead>
+            <tbody>
+                ${rows}
+            </tbody>
+        </table>
+    </div>`;
+  }
+
+  /**
+   * Renders the file-based indicators of each language, flagging values beyond the language's baseline
+   */
+  private generateLanguageIndicatorsTable(metrics: GitMetrics): string {
+    if (
+      !metrics.languageIndicators ||
+      metrics.languageIndicators.length === 0
+    ) {
+      return '';
+    }
+
+    const indicatorNames = getLanguageIndicatorNames(
+      metrics.languageIndicators,
+    );
+    const headerCells = indicatorNames
+      .map((name) => `<th>${getIndicatorLabel(metrics, name, true)}</th>`)
+      .join('');
+    const rows = metrics.languageIndicators
+      .map((row) => {
+        const cells = indicatorNames
+          .map((name) => {
+            const indicator = row.indicators[name];
+            if (!indicator) {
+              return '<td>-</td>';
+            }
+            return exceedsThreshold(indicator.value, indicator.threshold)
+              ? `<td class="suspicious">${indicator.formattedValue}</td>`
+              : `<td>${indicator.formattedValue}</td>`;
+          })
+          .join('');
+        return `
+          <tr>
+            <td>${row.language}</td>
+            <td>${row.files.toLocaleString()}</td>
+            <td>${row.lines.toLocaleString()}</td>
+            ${cells}
+          </tr>
+        `;
+      })
+      .join('');
+
+    return `
+    <div class="contributors-table">
+        <h3>🗂️ AI Indicators by Language</h3>
+        <table>
+            <thead>
+                <tr>
+                    <th>Language</th>
+                    <th>Files</th>
+                    <th>Lines</th>
+                    ${headerCells}
+                </tr>
+            </thead>
+            <tbody>
+                ${rows}
+            </tbody>
+        </table>
+    </div>`;
+  }
+
+  /**
+   * Renders the AI score and the percentage indicators per period as an inline SVG line chart
+   */
+  private generateTimeSeriesChart(metrics: GitMetrics): string {
+    const timeSeries = metrics.timeSeries;
+    if (!timeSeries || timeSeries.buckets.length < 2) {
+      return '';
+    }
+
+    const width = 1000;
+    const height = 320;
+    const padding = { top: 20, right: 20, bottom: 50, left: 40 };
+    const plotWidth = width - padding.left - padding.right;
+    const plotHeight = height - padding.top - padding.bottom;
+    const { buckets, changePoint } = timeSeries;
+
+    const x = (index: number) =>
+      padding.left + (index / (buckets.length - 1)) * plotWidth;
+    const y = (value: number) =>
+      padding.top + plotHeight - (Math.min(value, 100) / 100) * plotHeight;
+
+    const series: Array<{
+      label: string;
+      color: string;
+      width: number;
+      values: number[];
+    }> = [
+      {
+        label: 'AI Score',
+        color: '#764ba2',
+        width: 3,
+        values: buckets.map((bucket) => bucket.aiScore),
+      },
+      // Only percentages share the 0-100 scale of the score
+      ...Object.keys(buckets[0].indicators)
+        .filter((name) => metrics.aiIndicators?.[name]?.unit === 'percent')
+        .map((name, index) => ({
+          label: getIndicatorLabel(metrics, name, true),
+          color: SERIES_COLORS[index % SERIES_COLORS.length],
+          width: 1.5,
+          values: buckets.map((bucket) => bucket.indicators[name]),
+        })),
+    ];
+
+    const lines = series
+      .map(
+        ({ color, width: strokeWidth, values }) =>
+          `<polyline fill="none" stroke="${color}" stroke-width="${strokeWidth}" points="${values
+            .map((value, index) => `${x(index)},${y(value)}`)
+            .join(' ')}" />`,
+      )
+      .join('\n            ');
+
+    const gridLines = [0, 25, 50, 75, 100]
+      .map(
+        (value) =>
+          `<line x1="${padding.left}" x2="${width - padding.right}" y1="${y(value)}" y2="${y(value)}" stroke="#eee" />` +
+          `<text x="${padding.left - 8}" y="${y(value) + 4}" text-anchor="end" font-size="11" fill="#7f8c8d">${value}</text>`,
+      )
+      .join('\n            ');
+
+    // Label at most ~12 periods to keep the axis readable
+    const labelStep = Math.ceil(buckets.length / 12);
+    const periodLabels = buckets
+      .map((bucket, index) =>
+        index % labelStep === 0
+          ? `<text x="${x(index)}" y="${height - padding.bottom + 20}" text-anchor="middle" font-size="11" fill="#7f8c8d">${bucket.period}</text>`
+          : '',
+      )
+      .join('');
+
+    const changePointIndex = changePoint
+      ? buckets.findIndex((bucket) => bucket.period === changePoint.period)
+      : -1;
+    const changePointMarker =
+      changePointIndex >= 0
+        ? `<line x1="${x(changePointIndex)}" x2="${x(changePointIndex)}" y1="${padding.top}" y2="${padding.top + plotHeight}" stroke="#e74c3c" stroke-dasharray="6,4" />`
+        : '';
+
+    const legend = series
+      .map(
+        ({ label, color }) =>
+          `<span style="color: ${color}; margin-right: 15px;">■ ${label}</span>`,
+      )
+      .join('');
+
+    const changePointDescription = changePoint
+      ? `Change point at ${changePoint.period}: average AI score ${changePoint.scoreBefore} before, ${changePoint.scoreAfter} from then on.`
+      : 'No significant shift in the AI score was detected.';
+
+    return `
+    <div class="ai-indicators">
+        <h3>📈 AI Indicators per ${timeSeries.interval === TimeSeriesInterval.WEEK ? 'Week' : 'Month'}</h3>
 
         <div class="ai-metric">
-            <div class="ai-metric-header">
-                <span class="ai-metric-name">Test File Ratio %</span>
-                <span class="ai-metric-value">${ai.testFileRatio.value}%</span>
-            </div>
-            <div class="ai-metric-description">${ai.testFileRatio.description}</div>
+            <svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="AI indicator time series">
+            ${gridLines}
+            ${changePointMarker}
+            ${lines}
+            ${periodLabels}
+            </svg>
+            <div class="ai-metric-description">${legend}</div>
+            <div class="ai-metric-description">${changePointDescription}</div>
         </div>
+    </div>`;
+  }
+
+  private generateAIScore(metrics: GitMetrics): string {
+    if (!metrics.aiScore) {
+      return '';
+    }
+
+    const score = metrics.aiScore;
+    const contributionRows = score.contributions
+      .map(
+        (contribution) => `
+          <tr>
+            <td>${getIndicatorLabel(metrics, contribution.indicator)}</td>
+            <td>${contribution.signal}%</td>
+            <td>${contribution.weight}</td>
+            <td class="percentage">${contribution.contribution}</td>
+          </tr>
+        `,
+      )
+      .join('');
+
+    return `
+    <div class="ai-indicators">
+        <h3>🎯 AI Likelihood Score</h3>
 
         <div class="ai-metric">
             <div class="ai-metric-header">
-                <span class="ai-metric-name">Code Comment Ratio %</span>
-                <span class="ai-metric-value">${ai.codeCommentRatio.value}%</span>
+                <span class="ai-metric-name">Composite Score</span>
+                <span class="ai-metric-value ${score.value >= 60 ? 'suspicious' : ''}">${score.value}/100 (${score.confidence} confidence)</span>
             </div>
-            <div class="ai-metric-description">${ai.codeCommentRatio.description}</div>
+            <div class="ai-metric-description">${score.description}</div>
         </div>
 
-        <div class="ai-metric">
-            <div class="ai-metric-header">
-                <span class="ai-metric-name">Non-typical Expressions %</span>
-                <span class="ai-metric-value">${ai.codeNonTypicalExpressionRatio.value}%</span>
-            </div>
-            <div class="ai-metric-description">${ai.codeNonTypicalExpressionRatio.description}</div>
+        <div class="contributors-table">
+            <table>
+                <thead>
+                    <tr>
+                        <th>Indicator</th>
+                        <th>Signal</th>
+                        <th>Weight</th>
+                        <th>Points</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${contributionRows}
+                </tbody>
+            </table>
         </div>
     </div>`;
   }
@@ -0,0 +1,89 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { BatchAnalysisResponseDto } from '../../routes/dto/batch-analysis.dto';
+import { getLeaderboardRepositories } from './formatter-utils';
+
+const TABLE_STYLE = {
+  head: ['cyan'],
+  border: ['gray'],
+};
+
+export class LeaderboardConsoleFormatter {
+  /**
+   * Formats batch results for console output: the status of each repository,
+   * then the leaderboard with the value and rank of each repository per indicator
+   * @param data Batch results
+   * @returns Formatted string for console display
+   */
+  format(data: BatchAnalysisResponseDto): string {
+    // Create repositories table, in manifest order
+    const repositoriesTable = new Table({
+      head: [
+        chalk.bold.blue('Repository'),
+        chalk.bold.blue('Status'),
+        chalk.bold.blue('Commits'),
+        chalk.bold.blue('Duration'),
+      ],
+      style: TABLE_STYLE,
+      colWidths: [30, 50, 10, 10],
+      wordWrap: true,
+    });
+
+    data.repositories.forEach((repository) => {
+      repositoriesTable.push([
+        repository.name,
+        repository.status === 'completed'
+          ? chalk.green('✅ completed')
+          : chalk.red(`❌ ${repository.error}`),
+        repository.result
+          ? repository.result.metrics.totalCommits.toString()
+          : chalk.gray('-'),
+        `${(repository.durationMs / 1000).toFixed(1)}s`,
+      ]);
+    });
+
+    // Create leaderboard, one column per ranking
+    let leaderboardTable = '';
+    const leaderboardRepositories = getLeaderboardRepositories(data);
+    if (leaderboardRepositories.length > 0 && data.leaderboard.length > 0) {
+      const leaderboardTableObj = new Table({
+        head: [
+          chalk.bold.blue('Repository'),
+          ...data.leaderboard.map((ranking) =>
+            chalk.bold.blue(ranking.shortLabel),
+          ),
+        ],
+        style: TABLE_STYLE,
+      });
+
+      leaderboardRepositories.forEach((index) => {
+        leaderboardTableObj.push([
+          data.repositories[index].name,
+          ...data.leaderboard.map((ranking) => {
+            const entry = ranking.entries.find(
+              (e) => e.repositoryIndex === index,
+            );
+            if (!entry) {
+              return chalk.gray('-');
+            }
+            const text = `${entry.formattedValue} ${chalk.gray(`#${entry.rank}`)}`;
+            return entry.exceedsThreshold ? chalk.yellow(text) : text;
+          }),
+        ]);
+      });
+
+      leaderboardTable = `\n\n${chalk.bold.blue('🏆 Leaderboard')} ${chalk.gray('(#1 is the most AI-like; yellow values are beyond the threshold)')}\n${leaderboardTableObj.toString()}`;
+    }
+
+    const failed = data.repositories.filter(
+      (repository) => repository.status === 'failed',
+    ).length;
+    const summary = `${data.repositories.length - failed} of ${data.repositories.length} repositories analyzed${failed > 0 ? `, ${failed} failed` : ''}`;
+
+    // Header
+    const header = chalk.bold.blue('📊 Git Repository Batch Analysis');
+    const separator = '━'.repeat(50);
+
+    return `${header}\n${separator}\n${repositoriesTable.toString()}${leaderboardTable}\n${separator}\n${chalk.gray(`${summary} • Analyzed at: ${data.analyzedAt}`)}`;
+  }
+}
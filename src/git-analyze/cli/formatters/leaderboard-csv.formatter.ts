@@ -0,0 +1,60 @@
+import { BatchAnalysisResponseDto } from '../../routes/dto/batch-analysis.dto';
+
+export class LeaderboardCsvFormatter {
+  /**
+   * Formats batch results as CSV for spreadsheets: one row per repository in
+   * manifest order, with the numeric value and rank of each ranking
+   * @param data Batch results
+   * @returns CSV string with a header row
+   */
+  format(data: BatchAnalysisResponseDto): string {
+    const head = [
+      'repository',
+      'source',
+      'branch',
+      'status',
+      'error',
+      'commits',
+      'contributors',
+      'durationMs',
+      ...data.leaderboard.flatMap((ranking) => [
+        ranking.indicator,
+        `${ranking.indicator}Rank`,
+      ]),
+    ];
+
+    const rows = data.repositories.map((repository, index) => {
+      const metrics = repository.result?.metrics;
+      return [
+        repository.name,
+        repository.source,
+        repository.branch ?? '',
+        repository.status,
+        repository.error ?? '',
+        metrics ? metrics.totalCommits.toString() : '',
+        metrics ? metrics.contributors.toString() : '',
+        repository.durationMs.toString(),
+        ...data.leaderboard.flatMap((ranking) => {
+          const entry = ranking.entries.find(
+            (e) => e.repositoryIndex === index,
+          );
+          return entry
+            ? [entry.value.toString(), entry.rank.toString()]
+            : ['', ''];
+        }),
+      ];
+    });
+
+    return [head, ...rows]
+      .map((cells) => cells.map((cell) => this.escape(cell)).join(','))
+      .join('\n')
+      .concat('\n');
+  }
+
+  /**
+   * Quotes a cell holding a separator, quote or line break, doubling its quotes
+   */
+  private escape(cell: string): string {
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }
+}
@@ -0,0 +1,223 @@
+import {
+  BatchAnalysisResponseDto,
+  IndicatorRanking,
+} from '../../routes/dto/batch-analysis.dto';
+import {
+  describeThreshold,
+  getLeaderboardRepositories,
+} from './formatter-utils';
+
+export class LeaderboardHtmlFormatter {
+  /**
+   * Formats batch results as HTML
+   * @param data Batch results
+   * @returns HTML string
+   */
+  format(data: BatchAnalysisResponseDto): string {
+    const failed = data.repositories.filter(
+      (repository) => repository.status === 'failed',
+    ).length;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Git Analysis Leaderboard</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 1200px;
+            margin: 0 auto;
+            padding: 20px;
+            background-color: #f8f9fa;
+        }
+        .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 30px;
+            border-radius: 10px;
+            margin-bottom: 30px;
+            text-align: center;
+        }
+        .header h1 {
+            margin: 0;
+            font-size: 2.5em;
+        }
+        .header p {
+            margin: 10px 0 0 0;
+            opacity: 0.9;
+        }
+        .section {
+            background: white;
+            border-radius: 10px;
+            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+            overflow-x: auto;
+            margin-bottom: 30px;
+        }
+        .section h3 {
+            background: linear-gradient(135deg, #764ba2 0%, #667eea 100%);
+            color: white;
+            margin: 0;
+            padding: 20px;
+            font-size: 1.2em;
+        }
+        .section p {
+            margin: 0;
+            padding: 20px 40px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            padding: 15px;
+            text-align: left;
+            border-bottom: 1px solid #eee;
+        }
+        th {
+            background-color: #f8f9fa;
+            font-weight: 600;
+            color: #2c3e50;
+        }
+        .rank {
+            color: #7f8c8d;
+            font-size: 0.85em;
+        }
+        .exceeded {
+            color: #e74c3c;
+            font-weight: bold;
+        }
+        .completed {
+            color: #27ae60;
+            font-weight: bold;
+        }
+        .failed {
+            color: #e74c3c;
+        }
+        .footer {
+            text-align: center;
+            color: #7f8c8d;
+            font-size: 0.9em;
+            margin-top: 30px;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>🏆 Git Analysis Leaderboard</h1>
+        <p>${data.repositories.length - failed} of ${data.repositories.length} repositories analyzed${failed > 0 ? ` • ${failed} failed` : ''}</p>
+    </div>
+
+    ${this.generateLeaderboard(data)}
+
+    ${this.generateRepositories(data)}
+
+    <div class="footer">
+        <p>Analyzed on ${new Date(data.analyzedAt).toLocaleString()}</p>
+    </div>
+</body>
+</html>`;
+  }
+
+  /**
+   * Renders one row per repository and one column per ranking, the most AI-like repositories first
+   */
+  private generateLeaderboard(data: BatchAnalysisResponseDto): string {
+    const leaderboardRepositories = getLeaderboardRepositories(data);
+    if (leaderboardRepositories.length === 0 || data.leaderboard.length === 0) {
+      return '';
+    }
+
+    const rows = leaderboardRepositories
+      .map(
+        (index) => `
+          <tr>
+            <td>${data.repositories[index].name}</td>
+            ${data.leaderboard.map((ranking) => this.leaderboardCell(ranking, index)).join('')}
+          </tr>
+        `,
+      )
+      .join('');
+
+    return `
+    <div class="section">
+        <h3>🤖 Leaderboard</h3>
+        <p>#1 is the most AI-like repository for each indicator. Values beyond the threshold are highlighted.</p>
+        <table>
+            <thead>
+                <tr>
+                    <th>Repository</th>
+                    ${data.leaderboard.map((ranking) => `<th title="${this.describeRanking(ranking)}">${ranking.shortLabel}</th>`).join('')}
+                </tr>
+            </thead>
+            <tbody>
+                ${rows}
+            </tbody>
+        </table>
+    </div>`;
+  }
+
+  private generateRepositories(data: BatchAnalysisResponseDto): string {
+    const rows = data.repositories
+      .map(
+        (repository) => `
+          <tr>
+            <td>${repository.name}</td>
+            <td>${repository.source}${repository.branch ? ` (${repository.branch})` : ''}</td>
+            ${
+              repository.status === 'completed'
+                ? '<td class="completed">✅ Completed</td>'
+                : `<td class="failed">❌ ${repository.error}</td>`
+            }
+            <td>${repository.result ? repository.result.metrics.totalCommits.toLocaleString() : '-'}</td>
+            <td>${(repository.durationMs / 1000).toFixed(1)}s</td>
+          </tr>
+        `,
+      )
+      .join('');
+
+    return `
+    <div class="section">
+        <h3>📁 Repositories</h3>
+        <table>
+            <thead>
+                <tr>
+                    <th>Repository</th>
+                    <th>Source</th>
+                    <th>Status</th>
+                    <th>Commits</th>
+                    <th>Duration</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${rows}
+            </tbody>
+        </table>
+    </div>`;
+  }
+
+  private leaderboardCell(ranking: IndicatorRanking, index: number): string {
+    const entry = ranking.entries.find((e) => e.repositoryIndex === index);
+    if (!entry) {
+      return '<td>-</td>';
+    }
+    const content = `${entry.formattedValue} <span class="rank">#${entry.rank}</span>`;
+    return entry.exceedsThreshold
+      ? `<td class="exceeded">${content}</td>`
+      : `<td>${content}</td>`;
+  }
+
+  private describeRanking(ranking: IndicatorRanking): string {
+    return ranking.threshold && ranking.unit
+      ? `${ranking.label} (threshold ${describeThreshold(
+          ranking.threshold,
+          ranking.unit,
+        )
+          .replace('<', '&lt;')
+          .replace('>', '&gt;')})`
+      : ranking.label;
+  }
+}
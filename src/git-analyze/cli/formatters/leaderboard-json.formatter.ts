@@ -0,0 +1,12 @@
+import { BatchAnalysisResponseDto } from '../../routes/dto/batch-analysis.dto';
+
+export class LeaderboardJsonFormatter {
+  /**
+   * Formats batch results as JSON, including the full results of each repository
+   * @param data Batch results
+   * @returns JSON string
+   */
+  format(data: BatchAnalysisResponseDto): string {
+    return JSON.stringify(data, null, 2);
+  }
+}
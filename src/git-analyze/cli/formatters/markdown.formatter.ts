@@ -0,0 +1,323 @@
+import {
+  AIIndicatorMetric,
+  AnalyzeResponseDto,
+  GitMetrics,
+} from '../../routes/dto/analyze-response.dto';
+import {
+  describeBotActivity,
+  describeCommitFilter,
+  describeConfig,
+  describeFileScan,
+  describeMergedIdentities,
+  describeThreshold,
+  escapeMarkdown,
+  exceedsThreshold,
+  getIndicatorLabel,
+  getLanguageIndicatorNames,
+  isIndicatorRaised,
+  markdownTable,
+} from './formatter-utils';
+
+export class MarkdownFormatter {
+  /**
+   * Formats analysis results as GitHub-flavoured Markdown, for pull requests, issues and wikis
+   * @param data Analysis results
+   * @returns Markdown string
+   */
+  format(data: AnalyzeResponseDto): string {
+    const { metrics } = data;
+
+    return [
+      '# 📊 Git Repository Analysis Report',
+      this.generateSummary(data),
+      this.generateAIScore(metrics),
+      this.generateAIIndicators(metrics),
+      this.generateContributorsTable(metrics),
+      this.generateBotActivity(metrics),
+      this.generateContributorIndicatorsTable(metrics),
+      this.generateLanguageIndicatorsTable(metrics),
+      this.generateTimeSeries(metrics),
+      `_Analyzed at: ${data.analyzedAt}_`,
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+      .concat('\n');
+  }
+
+  private generateSummary(data: AnalyzeResponseDto): string {
+    const { repository, branch, metrics } = data;
+    const commitFilter = describeCommitFilter(data.commitFilter);
+    const config = describeConfig(data.config);
+    const fileScan = describeFileScan(metrics.fileScan);
+
+    const rows: string[][] = [
+      ['Repository', repository],
+      ['Branch', `\`${branch}\``],
+      ...(commitFilter ? [['Commit Range', commitFilter]] : []),
+      ...(config.length > 0 ? [['Configuration', config.join('\n')]] : []),
+      ['Total Commits', metrics.totalCommits.toLocaleString()],
+      ['Contributors', metrics.contributors.toLocaleString()],
+      ['Development Duration', metrics.duration],
+      ['First Commit', metrics.firstCommit],
+      ['Last Commit', metrics.lastCommit],
+      ['Avg Commits/Day', metrics.avgCommitsPerDay.toString()],
+      ['Top Contributor', metrics.topContributor],
+      ...(fileScan ? [['Source Files', fileScan]] : []),
+    ];
+
+    return `## Summary\n\n${markdownTable(['Metric', 'Value'], rows)}`;
+  }
+
+  /**
+   * Renders the AI score, with the points of each indicator in a collapsible section
+   */
+  private generateAIScore(metrics: GitMetrics): string {
+    if (!metrics.aiScore) {
+      return '';
+    }
+
+    const score = metrics.aiScore;
+    const icon = score.value >= 60 ? '🔴' : score.value >= 30 ? '🟡' : '🟢';
+    const contributions = markdownTable(
+      ['Indicator', 'Signal', 'Weight', 'Points'],
+      score.contributions.map((contribution) => [
+        getIndicatorLabel(metrics, contribution.indicator),
+        `${contribution.signal}%`,
+        contribution.weight.toString(),
+        contribution.contribution.toString(),
+      ]),
+    );
+
+    return `## 🎯 AI Likelihood Score: ${icon} ${score.value}/100 (${score.confidence} confidence)
+
+${score.description}
+
+${this.details('Score breakdown', contributions)}`;
+  }
+
+  /**
+   * Renders the indicators with a status icon against their threshold, and their descriptions in a collapsible section
+   */
+  private generateAIIndicators(metrics: GitMetrics): string {
+    if (!metrics.aiIndicators) {
+      return '';
+    }
+
+    const indicators = Object.entries(metrics.aiIndicators);
+    const table = markdownTable(
+      ['Status', 'AI Indicator', 'Value', 'Threshold'],
+      indicators.map(([id, indicator]) => [
+        this.statusIcon(metrics, id, indicator),
+        indicator.label,
+        indicator.formattedValue,
+        indicator.threshold
+          ? describeThreshold(indicator.threshold, indicator.unit)
+          : '-',
+      ]),
+    );
+    const descriptions = indicators
+      .map(
+        ([, indicator]) =>
+          `- **${escapeMarkdown(indicator.label)}**: ${escapeMarkdown(indicator.description)}`,
+      )
+      .join('\n');
+
+    return `## 🤖 AI Assistance Indicators
+
+${table}
+
+_⚠️ at or beyond the threshold, ✅ within the threshold, ➖ no threshold_
+
+${this.details('Indicator descriptions', descriptions)}`;
+  }
+
+  private generateContributorsTable(metrics: GitMetrics): string {
+    if (metrics.contributorStats.length <= 1) {
+      return '';
+    }
+
+    const table = markdownTable(
+      ['Rank', 'Email', 'Name', 'Commits', 'Percentage'],
+      metrics.contributorStats.map((contributor, index) => [
+        `#${index + 1}`,
+        contributor.email,
+        contributor.name,
+        contributor.commitCount.toLocaleString(),
+        `${((contributor.commitCount / metrics.totalCommits) * 100).toFixed(1)}%`,
+      ]),
+    );
+
+    return `## 👥 Contributors\n\n${table}${this.generateIdentityMerges(metrics)}`;
+  }
+
+  /**
+   * Lists the bot accounts and their commits
+   */
+  private generateBotActivity(metrics: GitMetrics): string {
+    if (!metrics.botActivity) {
+      return '';
+    }
+
+    const table = markdownTable(
+      ['Bot', 'Account', 'Commits', 'Lines Added', 'Matched By'],
+      metrics.botActivity.accounts.map((account) => [
+        account.bot,
+        account.email,
+        account.commitCount.toLocaleString(),
+        account.insertions.toLocaleString(),
+        account.matchedBy,
+      ]),
+    );
+
+    return `## 🛠️ Bot Activity\n\n${describeBotActivity(metrics.botActivity)}.\n\n${table}`;
+  }
+
+  /**
+   * Lists the contributors counted under several identities, below the contributors table
+   */
+  private generateIdentityMerges(metrics: GitMetrics): string {
+    if (!metrics.identityMerges || metrics.identityMerges.length === 0) {
+      return '';
+    }
+
+    const table = markdownTable(
+      ['Name', 'Email', 'Merged Identities'],
+      metrics.identityMerges.map((merge) => [
+        merge.name,
+        merge.email,
+        describeMergedIdentities(merge),
+      ]),
+    );
+
+    return `\n\n### Merged Identities\n\n${table}`;
+  }
+
+  /**
+   * Renders the commit-based indicators of each contributor in a collapsible section, flagging values beyond the threshold
+   */
+  private generateContributorIndicatorsTable(metrics: GitMetrics): string {
+    if (
+      !metrics.contributorIndicators ||
+      metrics.contributorIndicators.length <= 1
+    ) {
+      return '';
+    }
+
+    const indicatorNames = Object.keys(
+      metrics.contributorIndicators[0].indicators,
+    );
+    const table = markdownTable(
+      [
+        'Contributor',
+        'Commits',
+        ...indicatorNames.map((name) => getIndicatorLabel(metrics, name, true)),
+      ],
+      metrics.contributorIndicators.map((contributor) => [
+        contributor.email,
+        contributor.commitCount.toLocaleString(),
+        ...indicatorNames.map((name) => {
+          const value = contributor.indicators[name];
+          return exceedsThreshold(
+            value,
+            metrics.aiIndicators?.[name]?.threshold,
+          )
+            ? `⚠️ ${value}`
+            : `${value}`;
+        }),
+      ]),
+    );
+
+    return this.details('🧑‍💻 AI Indicators by Contributor', table);
+  }
+
+  /**
+   * Renders the file-based indicators of each language in a collapsible section, flagging values beyond the language's baseline
+   */
+  private generateLanguageIndicatorsTable(metrics: GitMetrics): string {
+    if (
+      !metrics.languageIndicators ||
+      metrics.languageIndicators.length === 0
+    ) {
+      return '';
+    }
+
+    const indicatorNames = getLanguageIndicatorNames(
+      metrics.languageIndicators,
+    );
+    const table = markdownTable(
+      [
+        'Language',
+        'Files',
+        'Lines',
+        ...indicatorNames.map((name) => getIndicatorLabel(metrics, name, true)),
+      ],
+      metrics.languageIndicators.map((row) => [
+        row.language,
+        row.files.toLocaleString(),
+        row.lines.toLocaleString(),
+        ...indicatorNames.map((name) => {
+          const indicator = row.indicators[name];
+          if (!indicator) {
+            return '-';
+          }
+          return exceedsThreshold(indicator.value, indicator.threshold)
+            ? `⚠️ ${indicator.formattedValue}`
+            : indicator.formattedValue;
+        }),
+      ]),
+    );
+
+    return this.details('🗂️ AI Indicators by Language', table);
+  }
+
+  /**
+   * Renders the AI score of each period in a collapsible section, after the change point if one was detected
+   */
+  private generateTimeSeries(metrics: GitMetrics): string {
+    const timeSeries = metrics.timeSeries;
+    if (!timeSeries || timeSeries.buckets.length < 2) {
+      return '';
+    }
+
+    const { changePoint } = timeSeries;
+    const table = markdownTable(
+      ['Period', 'Commits', 'AI Score'],
+      timeSeries.buckets.map((bucket) => [
+        bucket.period === changePoint?.period
+          ? `**${bucket.period}** 📈`
+          : bucket.period,
+        bucket.commitCount.toLocaleString(),
+        bucket.aiScore.toString(),
+      ]),
+    );
+    const changePointDescription = changePoint
+      ? `Change point at **${changePoint.period}**: average AI score ${changePoint.scoreBefore} before, ${changePoint.scoreAfter} from then on.`
+      : 'No significant shift in the AI score was detected.';
+
+    return this.details(
+      `📈 AI Score per ${timeSeries.interval}`,
+      `${changePointDescription}\n\n${table}`,
+    );
+  }
+
+  /**
+   * Picks the status icon of an indicator: raised when it pushed the AI score at least as far as a value at its threshold
+   */
+  private statusIcon(
+    metrics: GitMetrics,
+    id: string,
+    indicator: AIIndicatorMetric,
+  ): string {
+    if (isIndicatorRaised(metrics, id)) {
+      return '⚠️';
+    }
+    return indicator.threshold ? '✅' : '➖';
+  }
+
+  /**
+   * Wraps content in a collapsible section; the blank lines let GitHub render the Markdown inside it
+   */
+  private details(summary: string, content: string): string {
+    return `<details>\n<summary>${summary}</summary>\n\n${content}\n\n</details>`;
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  AnalyzeResponseDto,
+  FindingSeverity,
+  IndicatorFinding,
+} from '../../routes/dto/analyze-response.dto';
+
+/**
+ * Location of a SARIF result: a file region and/or a commit
+ */
+interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: { startLine: number };
+  };
+  logicalLocations?: Array<{ name: string; kind: string }>;
+}
+
+/**
+ * SARIF result for one finding
+ */
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: FindingSeverity;
+  message: { text: string };
+  locations: SarifLocation[];
+}
+
+export class SarifFormatter {
+  /**
+   * Formats analysis results as a SARIF 2.1.0 log for code-scanning
+   * dashboards: one rule per AI indicator, and one result per commit or file
+   * finding
+   * @param data Analysis results
+   * @returns SARIF JSON string
+   */
+  format(data: AnalyzeResponseDto): string {
+    const { repository, branch, metrics } = data;
+    const indicators = Object.entries(metrics.aiIndicators ?? {});
+    const ruleIds = indicators.map(([id]) => id);
+
+    const rules = indicators.map(([id, indicator]) => ({
+      id,
+      // Rule names are identifiers, e.g. "LargeCommitPercentage"
+      name: id.charAt(0).toUpperCase() + id.slice(1),
+      shortDescription: { text: indicator.label },
+      fullDescription: { text: indicator.description },
+      defaultConfiguration: { level: 'warning' },
+      properties: {
+        unit: indicator.unit,
+        ...(indicator.threshold && { threshold: indicator.threshold }),
+      },
+    }));
+
+    const results = (metrics.findings ?? [])
+      .filter((finding) => ruleIds.includes(finding.indicator))
+      .map(
+        (finding): SarifResult => ({
+          ruleId: finding.indicator,
+          ruleIndex: ruleIds.indexOf(finding.indicator),
+          level: finding.severity,
+          message: { text: finding.message },
+          locations: [this.toLocation(finding)],
+        }),
+      );
+
+    const log = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'git-analyzer',
+              rules,
+            },
+          },
+          results,
+          properties: {
+            repository,
+            branch,
+            analyzedAt: data.analyzedAt,
+            ...(metrics.aiScore && { aiScore: metrics.aiScore.value }),
+          },
+        },
+      ],
+    };
+
+    return JSON.stringify(log, null, 2);
+  }
+
+  /**
+   * Locates a finding in the repository: its file (relative to the
+   * repository root) and line, and its commit as a logical location
+   */
+  private toLocation(finding: IndicatorFinding): SarifLocation {
+    return {
+      ...(finding.file && {
+        physicalLocation: {
+          artifactLocation: { uri: finding.file, uriBaseId: '%SRCROOT%' },
+          ...(finding.line && { region: { startLine: finding.line } }),
+        },
+      }),
+      ...(finding.commit && {
+        logicalLocations: [{ name: finding.commit, kind: 'commit' }],
+      }),
+    };
+  }
+}
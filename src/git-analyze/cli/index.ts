@@ -1,25 +1,51 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
-import { AnalyzerService } from '../services/analyzer.service';
-import { GitService } from '../services/git.service';
-import { TempService } from '../services/temp.service';
-import { BasicMetricsService } from '../services/metrics/basic-metrics.service';
-import { GitSizeService } from '../services/metrics/ai-indicators/git-size.service';
-import { GitMessagesService } from '../services/metrics/ai-indicators/git-messages.service';
-import { GitTimingService } from '../services/metrics/ai-indicators/git-timing.service';
-import { CodeQualityService } from '../services/metrics/ai-indicators/code-quality.service';
-import { CodeCommentAnalysisService } from '../services/metrics/ai-indicators/code-comment-analysis.service';
-import { CodeNonTypicalExpressionsService } from '../services/metrics/ai-indicators/code-non-typical-expressions.service';
-import { FileSystemScannerService } from '../services/metrics/ai-indicators/file-system-scanner.service';
+import { NestFactory } from '@nestjs/core';
+import { AnalysisOptions, AnalyzerService } from '../services/analyzer.service';
+import { AnalysisModule } from '../services/analysis.module';
+import { AIScoreWeights } from '../services/metrics/ai-score.service';
+import {
+  PolicyRule,
+  PolicyService,
+  PolicyViolation,
+} from '../services/policy.service';
+import { ReportComparisonService } from '../services/report-comparison.service';
+import { BatchAnalysisService } from '../services/batch-analysis.service';
+import { AnalysisHistoryService } from '../services/analysis-history.service';
+import {
+  AnalysisCacheService,
+  DEFAULT_CACHE_MAX_AGE_DAYS,
+} from '../services/analysis-cache.service';
+import { ConsoleProgressRenderer } from './console-progress.renderer';
 import { ConsoleFormatter } from './formatters/console.formatter';
 import { JsonFormatter } from './formatters/json.formatter';
 import { HtmlFormatter } from './formatters/html.formatter';
+import { MarkdownFormatter } from './formatters/markdown.formatter';
+import { SarifFormatter } from './formatters/sarif.formatter';
+import { ComparisonConsoleFormatter } from './formatters/comparison-console.formatter';
+import { ComparisonMarkdownFormatter } from './formatters/comparison-markdown.formatter';
+import { ComparisonHtmlFormatter } from './formatters/comparison-html.formatter';
+import { LeaderboardConsoleFormatter } from './formatters/leaderboard-console.formatter';
+import { LeaderboardJsonFormatter } from './formatters/leaderboard-json.formatter';
+import { LeaderboardHtmlFormatter } from './formatters/leaderboard-html.formatter';
+import { LeaderboardCsvFormatter } from './formatters/leaderboard-csv.formatter';
+import { HistoryConsoleFormatter } from './formatters/history-console.formatter';
+import {
+  describeCommitFilter,
+  formatDelta,
+} from './formatters/formatter-utils';
 import { AnalyzeResponseDto } from '../routes/dto/analyze-response.dto';
-import { OutputFormat } from '../routes/dto/analyze-request.dto';
+import { ReportComparison } from '../routes/dto/report-comparison.dto';
+import { BatchAnalysisResponseDto } from '../routes/dto/batch-analysis.dto';
+import { AnalysisRunDto } from '../routes/dto/analysis-history.dto';
+import {
+  OutputFormat,
+  TimeSeriesInterval,
+} from '../routes/dto/analyze-request.dto';
 
 interface Formatter {
   format: (data: AnalyzeResponseDto) => string;
@@ -34,9 +60,52 @@ const FORMATTERS: Record<OutputFormat, FormatterConfig> = {
   [OutputFormat.CONSOLE]: { formatter: ConsoleFormatter, extension: 'txt' },
   [OutputFormat.JSON]: { formatter: JsonFormatter, extension: 'json' },
   [OutputFormat.HTML]: { formatter: HtmlFormatter, extension: 'html' },
+  [OutputFormat.MARKDOWN]: { formatter: MarkdownFormatter, extension: 'md' },
+  [OutputFormat.SARIF]: { formatter: SarifFormatter, extension: 'sarif' },
   [OutputFormat.ALL]: { formatter: ConsoleFormatter, extension: 'txt' }, // placeholder, not used
 };
 
+/**
+ * Output formats of the compare command
+ */
+type ComparisonFormat =
+  | OutputFormat.CONSOLE
+  | OutputFormat.MARKDOWN
+  | OutputFormat.HTML;
+
+const COMPARISON_FORMATTERS: Record<
+  ComparisonFormat,
+  new () => { format: (data: ReportComparison) => string }
+> = {
+  [OutputFormat.CONSOLE]: ComparisonConsoleFormatter,
+  [OutputFormat.MARKDOWN]: ComparisonMarkdownFormatter,
+  [OutputFormat.HTML]: ComparisonHtmlFormatter,
+};
+
+/**
+ * Output formats of the analyze-batch command
+ */
+const BATCH_FORMATTERS = {
+  console: LeaderboardConsoleFormatter,
+  json: LeaderboardJsonFormatter,
+  html: LeaderboardHtmlFormatter,
+  csv: LeaderboardCsvFormatter,
+} satisfies Record<
+  string,
+  new () => { format: (data: BatchAnalysisResponseDto) => string }
+>;
+
+type BatchFormat = keyof typeof BATCH_FORMATTERS;
+
+/**
+ * Process exit codes, so CI can tell a policy violation from a failed analysis
+ */
+const EXIT_CODES = {
+  SUCCESS: 0,
+  ANALYSIS_ERROR: 1,
+  POLICY_VIOLATION: 2,
+} as const;
+
 const program = new Command();
 
 program
@@ -49,81 +118,778 @@ program
 program
   .command('analyze')
   .description('Analyze a Git repository')
-  .argument('<repository-url>', 'Git repository URL to analyze')
-  .option('-b, --branch <branch>', 'Branch to analyze', 'main')
+  .argument(
+    '<repository>',
+    'Git repository URL to clone, or path to a local working tree or bare repository',
+  )
+  .option(
+    '-b, --branch <branch>',
+    'Branch to analyze (default: main when cloning, HEAD for local paths)',
+  )
   .option(
     '-f, --format <format>',
-    `Output format (${Object.values(OutputFormat).join(', ')})`,
-    OutputFormat.CONSOLE,
+    `Output format (${Object.values(OutputFormat).join(', ')}; default: the formats of the project configuration, or console)`,
+    parseOutputFormat,
+  )
+  .option(
+    '-o, --output <path>',
+    'Output file path (for json/html/markdown/sarif formats)',
+  )
+  .option(
+    '--since <date>',
+    'Only analyze commits after this date (e.g. 2024-01-01, "3 months ago")',
+  )
+  .option('--until <date>', 'Only analyze commits before this date')
+  .option(
+    '--from-ref <ref>',
+    'Only analyze commits after this ref (exclusive range start)',
+  )
+  .option(
+    '--to-ref <ref>',
+    'Only analyze commits up to this ref (inclusive range end)',
+  )
+  .option(
+    '--score-weights <weights>',
+    'AI score weight overrides (e.g. "largeCommitPercentage=2,codeCommentRatio=0")',
+    parseScoreWeights,
+  )
+  .option(
+    '--interval <interval>',
+    `Time series bucket size (${Object.values(TimeSeriesInterval).join(', ')})`,
+    parseInterval,
+    TimeSeriesInterval.MONTH,
+  )
+  .option(
+    '-c, --config <path>',
+    'Project configuration file (default: .gitanalyzerrc at the repository root)',
+  )
+  .option(
+    '--merge-by-name',
+    'Count authors whose names match once case, accents and punctuation are ignored as one contributor (default: identities.mergeByName of the project configuration)',
+  )
+  .option(
+    '--include-bots',
+    'Keep the commits of bot accounts (Dependabot, Renovate, release bots...) in the AI indicators and the score',
+  )
+  .option(
+    '--workers <count>',
+    'Worker threads for the file scan (default: one per extra CPU core, up to 4; 0 scans on the main thread)',
+    parseWorkerCount,
+  )
+  .option(
+    '--fail-on <rules>',
+    'Exit with code 2 when an indicator crosses a limit (e.g. "largeCommitPercentage>20,codeCommentRatio>35")',
+  )
+  .option(
+    '--policy <path>',
+    'JSON policy file with --fail-on rules (e.g. {"failOn": ["aiScore>=60"]})',
+  )
+  .option(
+    '--no-history',
+    'Do not save the results to the analysis history (~/.git-analyzer/history)',
+  )
+  .option(
+    '--no-cache',
+    'Analyze every commit and file again instead of reusing the results of earlier runs (~/.git-analyzer/cache)',
   )
-  .option('-o, --output <path>', 'Output file path (for json/html formats)')
   .action(
     async (
-      repositoryUrl: string,
-      options: { branch: string; format: string; output?: string },
+      repository: string,
+      options: {
+        branch?: string;
+        format?: OutputFormat;
+        output?: string;
+        since?: string;
+        until?: string;
+        fromRef?: string;
+        toRef?: string;
+        scoreWeights?: AIScoreWeights;
+        interval: TimeSeriesInterval;
+        config?: string;
+        mergeByName?: boolean;
+        includeBots?: boolean;
+        workers?: number;
+        failOn?: string;
+        policy?: string;
+        history: boolean;
+        cache: boolean;
+      },
     ) => {
       try {
+        // Existing paths are opened in place, anything else is cloned
+        const isLocal = fs.existsSync(repository);
+        const branch = options.branch ?? (isLocal ? 'HEAD' : 'main');
+
         console.log(chalk.blue('🔍 Starting Git repository analysis...'));
-        console.log(chalk.gray(`Repository: ${repositoryUrl}`));
-        console.log(chalk.gray(`Branch: ${options.branch}`));
-        console.log(chalk.gray(`Format: ${options.format}`));
+        console.log(
+          chalk.gray(
+            `Repository: ${isLocal ? path.resolve(repository) : repository}`,
+          ),
+        );
+        console.log(chalk.gray(`Branch: ${branch}`));
+        console.log(chalk.gray(`Format: ${options.format ?? 'default'}`));
+        if (options.config) {
+          console.log(chalk.gray(`Config: ${path.resolve(options.config)}`));
+        }
+        const { since, until, fromRef, toRef } = options;
+        const filter = { since, until, fromRef, toRef };
+        const progressRenderer = new ConsoleProgressRenderer();
+        const analysisOptions: AnalysisOptions = {
+          filter,
+          scoreWeights: options.scoreWeights,
+          interval: options.interval,
+          configPath: options.config,
+          mergeByName: options.mergeByName,
+          includeBots: options.includeBots,
+          scanWorkers: options.workers,
+          cache: options.cache,
+          onProgress: (event) => progressRenderer.render(event),
+        };
+        const filterDescription = describeCommitFilter(filter);
+        if (filterDescription) {
+          console.log(chalk.gray(`Commits: ${filterDescription}`));
+        }
         console.log('');
 
-        // Initialize services
-        const tempService = new TempService();
-        const gitService = new GitService(tempService);
-        const basicMetricsService = new BasicMetricsService();
-        const gitSizeService = new GitSizeService();
-        const gitMessagesService = new GitMessagesService();
-        const gitTimingService = new GitTimingService();
-        const codeQualityService = new CodeQualityService();
-        const fileSystemScannerService = new FileSystemScannerService();
-        const codeCommentAnalysisService = new CodeCommentAnalysisService();
-        const codeNonTypicalExpressionsService =
-          new CodeNonTypicalExpressionsService();
-        const analyzerService = new AnalyzerService(
-          gitService,
-          tempService,
-          basicMetricsService,
-          gitSizeService,
-          gitMessagesService,
-          gitTimingService,
-          codeQualityService,
-          fileSystemScannerService,
-          codeCommentAnalysisService,
-          codeNonTypicalExpressionsService,
-        );
+        // Initialize services (metric plugins are discovered by the registry)
+        const app = await NestFactory.createApplicationContext(AnalysisModule, {
+          logger: false,
+        });
+        const analyzerService = app.get(AnalyzerService);
+        const policyService = app.get(PolicyService);
+
+        // Validate policy rules before spending time on the analysis
+        const rules: PolicyRule[] = [
+          ...(options.policy
+            ? policyService.loadPolicyFile(options.policy)
+            : []),
+          ...(options.failOn ? policyService.parseRules(options.failOn) : []),
+        ];
 
         // Perform analysis
-        const result = await analyzerService.analyzeRepository(
-          repositoryUrl,
-          options.branch,
-        );
+        const result = isLocal
+          ? await analyzerService.analyzeLocalRepository(
+              repository,
+              options.branch,
+              analysisOptions,
+            )
+          : await analyzerService.analyzeRepository(
+              repository,
+              branch,
+              analysisOptions,
+            );
+        const violations = policyService.evaluate(result, rules);
+        const recordedRun = options.history
+          ? recordHistory(app.get(AnalysisHistoryService), result)
+          : undefined;
 
-        // Format and output results
-        handleOutput(result, options.format, options.output);
+        await app.close();
+
+        // Format and output results (an explicit --format wins over the configuration)
+        handleOutput(
+          result,
+          options.format
+            ? [options.format]
+            : (result.config?.formats ?? [OutputFormat.CONSOLE]),
+          options.output,
+        );
 
         console.log(chalk.green('✅ Analysis completed successfully!'));
+
+        if (recordedRun) {
+          reportRecordedRun(recordedRun);
+        }
+
+        if (rules.length > 0) {
+          reportPolicy(policyService, rules, violations);
+        }
+        if (violations.length > 0) {
+          process.exit(EXIT_CODES.POLICY_VIOLATION);
+        }
       } catch (error) {
         console.error(
           chalk.red('❌ Analysis failed:'),
           (error as Error).message,
         );
-        process.exit(1);
+        process.exit(EXIT_CODES.ANALYSIS_ERROR);
+      }
+    },
+  );
+
+program
+  .command('compare')
+  .description(
+    'Compare two JSON analysis reports, e.g. a repository before and after adopting an AI assistant, or the repositories of two teams',
+  )
+  .argument('<before>', 'Baseline report (written with --format json)')
+  .argument('<after>', 'Report to compare against the baseline')
+  .option(
+    '-f, --format <format>',
+    `Output format (${Object.keys(COMPARISON_FORMATTERS).join(', ')})`,
+    parseComparisonFormat,
+    OutputFormat.CONSOLE,
+  )
+  .option('-o, --output <path>', 'Output file path')
+  .action(
+    async (
+      beforePath: string,
+      afterPath: string,
+      options: { format: ComparisonFormat; output?: string },
+    ) => {
+      try {
+        // The registry reads structured indicator values as numbers
+        const app = await NestFactory.createApplicationContext(AnalysisModule, {
+          logger: false,
+        });
+        const comparisonService = app.get(ReportComparisonService);
+        const comparison = comparisonService.compare(
+          comparisonService.loadReport(beforePath),
+          comparisonService.loadReport(afterPath),
+        );
+        await app.close();
+
+        const content = new COMPARISON_FORMATTERS[options.format]().format(
+          comparison,
+        );
+        if (options.output) {
+          const fullPath = path.resolve(options.output);
+          fs.writeFileSync(fullPath, content);
+          console.log(chalk.green(`📄 Output saved to: ${fullPath}`));
+        } else {
+          console.log(content);
+        }
+      } catch (error) {
+        console.error(
+          chalk.red('❌ Comparison failed:'),
+          (error as Error).message,
+        );
+        process.exit(EXIT_CODES.ANALYSIS_ERROR);
       }
     },
   );
 
+program
+  .command('analyze-batch')
+  .description(
+    'Analyze the repositories listed in a YAML or JSON manifest and rank them by each AI indicator',
+  )
+  .argument(
+    '<manifest>',
+    'Manifest listing the repositories (url or path, and optional branch, config and name)',
+  )
+  .option(
+    '-f, --format <format>',
+    `Output format (${Object.keys(BATCH_FORMATTERS).join(', ')})`,
+    parseBatchFormat,
+    'console',
+  )
+  .option('-o, --output <path>', 'Output file path')
+  .option(
+    '--concurrency <count>',
+    "Repositories analyzed at the same time (default: the manifest's, else 2)",
+    parsePositiveInteger,
+  )
+  .option(
+    '--workers <count>',
+    'Worker threads for the file scan of each repository (0 scans on the main thread)',
+    parseWorkerCount,
+  )
+  .option('--no-history', 'Do not save the results to the analysis history')
+  .option(
+    '--no-cache',
+    'Analyze every commit and file again instead of reusing the results of earlier runs',
+  )
+  .action(
+    async (
+      manifestPath: string,
+      options: {
+        format: BatchFormat;
+        output?: string;
+        concurrency?: number;
+        workers?: number;
+        history: boolean;
+        cache: boolean;
+      },
+    ) => {
+      try {
+        const app = await NestFactory.createApplicationContext(AnalysisModule, {
+          logger: false,
+        });
+        const batchService = app.get(BatchAnalysisService);
+        const manifest = batchService.loadManifest(manifestPath);
+
+        console.log(chalk.blue('🔍 Starting Git repository batch analysis...'));
+        console.log(chalk.gray(`Manifest: ${path.resolve(manifestPath)}`));
+        console.log(
+          chalk.gray(`Repositories: ${manifest.repositories.length}`),
+        );
+        console.log('');
+
+        const batch = await batchService.analyzeBatch(manifest, {
+          concurrency: options.concurrency,
+          scanWorkers: options.workers,
+          cache: options.cache,
+          onRepositoryDone: (repository, done, total) => {
+            const progress = chalk.gray(`[${done}/${total}]`);
+            console.log(
+              repository.status === 'completed'
+                ? `${progress} ${chalk.green('✅')} ${repository.name}`
+                : `${progress} ${chalk.red('❌')} ${repository.name}: ${chalk.red(repository.error)}`,
+            );
+          },
+        });
+        const recordedRuns = options.history
+          ? batch.repositories.filter(
+              (repository) =>
+                repository.result &&
+                recordHistory(
+                  app.get(AnalysisHistoryService),
+                  repository.result,
+                ),
+            ).length
+          : 0;
+        await app.close();
+        console.log('');
+
+        const content = new BATCH_FORMATTERS[options.format]().format(batch);
+        if (options.output) {
+          const fullPath = path.resolve(options.output);
+          fs.writeFileSync(fullPath, content);
+          console.log(chalk.green(`📄 Output saved to: ${fullPath}`));
+        } else {
+          console.log(content);
+        }
+
+        // Individual failures are reported, only a batch with no results fails
+        if (
+          batch.repositories.every(
+            (repository) => repository.status === 'failed',
+          )
+        ) {
+          console.error(chalk.red('❌ Every repository failed to analyze'));
+          process.exit(EXIT_CODES.ANALYSIS_ERROR);
+        }
+        console.log(chalk.green('✅ Batch analysis completed!'));
+        if (recordedRuns > 0) {
+          console.log(
+            chalk.gray(`📚 Saved ${recordedRuns} runs to the analysis history`),
+          );
+        }
+      } catch (error) {
+        console.error(
+          chalk.red('❌ Batch analysis failed:'),
+          (error as Error).message,
+        );
+        process.exit(EXIT_CODES.ANALYSIS_ERROR);
+      }
+    },
+  );
+
+program
+  .command('history')
+  .description(
+    'List the recorded analyses of a repository, mark the baseline, or show how a run differs from it',
+  )
+  .argument(
+    '<repository>',
+    'Repository ID as reported by analyze (e.g. "github.com/octocat/Hello-World", or the path of a local repository), or its name when a single repository has it (e.g. "octocat/Hello-World")',
+  )
+  .option('-b, --branch <branch>', 'Only list runs of this branch')
+  .option(
+    '-n, --limit <count>',
+    'Only list the most recent runs',
+    parsePositiveInteger,
+  )
+  .option(
+    '--set-baseline <run>',
+    'Mark a run as the baseline later runs are compared with',
+    parsePositiveInteger,
+  )
+  .option(
+    '--run <run>',
+    'Show how a run differs from the baseline',
+    parsePositiveInteger,
+  )
+  .option('-f, --format <format>', 'Output format (console, json)', 'console')
+  .action(
+    async (
+      repository: string,
+      options: {
+        branch?: string;
+        limit?: number;
+        setBaseline?: number;
+        run?: number;
+        format: string;
+      },
+    ) => {
+      try {
+        if (!['console', 'json'].includes(options.format)) {
+          throw new Error(
+            `Unsupported format: ${options.format} (expected console or json)`,
+          );
+        }
+
+        // The registry reads structured indicator values as numbers for the baseline comparison
+        const app = await NestFactory.createApplicationContext(AnalysisModule, {
+          logger: false,
+        });
+        const historyService = app.get(AnalysisHistoryService);
+
+        // A name only stands for a repository when a single one has it
+        const repositoryIds = historyService.findRepositoryIds(repository);
+        if (repositoryIds.length > 1) {
+          await app.close();
+          throw new Error(
+            `Several repositories are named ${repository}; pass the repository ID of one of them: ${repositoryIds.join(', ')}`,
+          );
+        }
+        const repositoryId = repositoryIds[0] ?? repository;
+
+        if (options.setBaseline !== undefined) {
+          const baseline = historyService.setBaseline(
+            repositoryId,
+            options.setBaseline,
+          );
+          if (!baseline) {
+            throw new Error(
+              `No run ${options.setBaseline} of ${repository} in the analysis history`,
+            );
+          }
+          console.log(
+            chalk.green(
+              `📌 Run #${baseline.id} (${new Date(baseline.analyzedAt).toLocaleString()}) is now the baseline of ${repository}`,
+            ),
+          );
+        }
+
+        if (options.run !== undefined) {
+          const run = historyService.getRun(repositoryId, options.run);
+          await app.close();
+          if (!run) {
+            throw new Error(
+              `No run ${options.run} of ${repository} in the analysis history`,
+            );
+          }
+          if (options.format === 'json') {
+            console.log(JSON.stringify(run, null, 2));
+          } else if (run.baselineComparison) {
+            console.log(
+              new ComparisonConsoleFormatter().format(run.baselineComparison),
+            );
+          } else {
+            console.log(
+              chalk.gray(
+                run.isBaseline
+                  ? `Run #${run.id} is the baseline`
+                  : `No baseline set for ${repository}; mark one with --set-baseline <run>`,
+              ),
+            );
+          }
+          return;
+        }
+
+        const history = historyService.getHistory(repositoryId, {
+          branch: options.branch,
+          limit: options.limit,
+        });
+        await app.close();
+        if (!history) {
+          throw new Error(`No recorded runs of ${repository}`);
+        }
+        console.log(
+          options.format === 'json'
+            ? JSON.stringify(history, null, 2)
+            : new HistoryConsoleFormatter().format(history),
+        );
+      } catch (error) {
+        console.error(
+          chalk.red('❌ History failed:'),
+          (error as Error).message,
+        );
+        process.exit(EXIT_CODES.ANALYSIS_ERROR);
+      }
+    },
+  );
+
+program
+  .command('cache-prune')
+  .description(
+    'Remove commits and file analyses that recent runs have not used from the analysis cache',
+  )
+  .option(
+    '--max-age <days>',
+    'Remove entries not used for this many days',
+    parsePositiveInteger,
+    DEFAULT_CACHE_MAX_AGE_DAYS,
+  )
+  .option('--all', 'Remove every entry')
+  .action(async (options: { maxAge: number; all?: boolean }) => {
+    try {
+      const app = await NestFactory.createApplicationContext(AnalysisModule, {
+        logger: false,
+      });
+      const cacheService = app.get(AnalysisCacheService);
+      const result = cacheService.prune({
+        maxAgeDays: options.maxAge,
+        all: options.all,
+      });
+      await app.close();
+
+      console.log(
+        chalk.green(
+          `🧹 Removed ${result.removedEntries.toLocaleString()} cache entries (${formatBytes(result.removedBytes)})`,
+        ),
+      );
+      console.log(
+        chalk.gray(
+          `${result.remainingEntries.toLocaleString()} entries (${formatBytes(result.remainingBytes)}) remain in ${cacheService.getDirectory()}`,
+        ),
+      );
+    } catch (error) {
+      console.error(
+        chalk.red('❌ Cache prune failed:'),
+        (error as Error).message,
+      );
+      process.exit(EXIT_CODES.ANALYSIS_ERROR);
+    }
+  });
+
+/**
+ * Parses "indicator=weight" pairs into score weight overrides
+ * @param value Comma-separated list of pairs
+ * @returns Weight overrides (names and values are validated by AIScoreService)
+ */
+function parseScoreWeights(value: string): AIScoreWeights {
+  return Object.fromEntries(
+    value
+      .split(',')
+      .map((pair) => pair.trim())
+      .filter((pair) => pair.length > 0)
+      .map((pair) => {
+        const [name, weight] = pair.split('=').map((part) => part.trim());
+        if (!name || weight === undefined || weight === '') {
+          throw new InvalidArgumentError(
+            `Expected "indicator=weight", got "${pair}"`,
+          );
+        }
+        return [name, Number(weight)];
+      }),
+  );
+}
+
+/**
+ * Parses the time series bucket size
+ * @param value Interval name
+ * @returns Time series interval
+ */
+function parseInterval(value: string): TimeSeriesInterval {
+  const intervals = Object.values(TimeSeriesInterval) as string[];
+  if (!intervals.includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${intervals.join(', ')}`);
+  }
+  return value as TimeSeriesInterval;
+}
+
+/**
+ * Parses the output format of the analyze command, so an unknown format is
+ * rejected before the analysis runs
+ * @param value Format name
+ * @returns Output format
+ */
+function parseOutputFormat(value: string): OutputFormat {
+  const formats = Object.values(OutputFormat) as string[];
+  if (!formats.includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${formats.join(', ')}`);
+  }
+  return value as OutputFormat;
+}
+
+/**
+ * Parses the output format of the compare command
+ * @param value Format name
+ * @returns Comparison format
+ */
+function parseComparisonFormat(value: string): ComparisonFormat {
+  const formats = Object.keys(COMPARISON_FORMATTERS);
+  if (!formats.includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${formats.join(', ')}`);
+  }
+  return value as ComparisonFormat;
+}
+
+/**
+ * Parses the output format of the analyze-batch command
+ * @param value Format name
+ * @returns Batch format
+ */
+function parseBatchFormat(value: string): BatchFormat {
+  const formats = Object.keys(BATCH_FORMATTERS);
+  if (!formats.includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${formats.join(', ')}`);
+  }
+  return value as BatchFormat;
+}
+
+/**
+ * Parses a count or run number
+ * @param value Number
+ * @returns Positive integer
+ */
+function parsePositiveInteger(value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new InvalidArgumentError('Expected a positive integer');
+  }
+  return number;
+}
+
+/**
+ * Parses the number of file scan worker threads
+ * @param value Worker count
+ * @returns Non-negative integer
+ */
+function parseWorkerCount(value: string): number {
+  const workers = Number(value);
+  if (!Number.isInteger(workers) || workers < 0) {
+    throw new InvalidArgumentError('Expected a non-negative integer');
+  }
+  return workers;
+}
+
+/**
+ * Formats a size for display
+ * @param bytes Size in bytes
+ * @returns Size in B, KB or MB
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  return bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Prints the outcome of the policy check
+ * @param policyService Policy service, for formatting rules
+ * @param rules Evaluated rules
+ * @param violations Violated rules
+ */
+function reportPolicy(
+  policyService: PolicyService,
+  rules: PolicyRule[],
+  violations: PolicyViolation[],
+): void {
+  if (violations.length === 0) {
+    console.log(
+      chalk.green(
+        `✅ Policy check passed (${rules.length} ${rules.length === 1 ? 'rule' : 'rules'})`,
+      ),
+    );
+    return;
+  }
+
+  console.error(
+    chalk.red(
+      `❌ Policy check failed: ${violations.length} of ${rules.length} rules violated`,
+    ),
+  );
+  violations.forEach(({ rule, value, label }) => {
+    console.error(
+      chalk.red(
+        `   ${label}: ${Number(value.toFixed(2))} (rule: ${policyService.formatRule(rule)})`,
+      ),
+    );
+  });
+}
+
+/**
+ * Saves results to the analysis history; a failed write is reported as a
+ * warning rather than failing the analysis
+ * @param historyService History store
+ * @param result Analysis results
+ * @returns The recorded run, or undefined when it could not be saved
+ */
+function recordHistory(
+  historyService: AnalysisHistoryService,
+  result: AnalyzeResponseDto,
+): AnalysisRunDto | undefined {
+  try {
+    return historyService.record(result);
+  } catch (error) {
+    console.warn(chalk.yellow(`⚠️  ${(error as Error).message}`));
+    return undefined;
+  }
+}
+
+/**
+ * Prints the number of a recorded run and, when a baseline is set, the AI
+ * score change and threshold crossings since the baseline
+ * @param run Recorded run
+ */
+function reportRecordedRun(run: AnalysisRunDto): void {
+  console.log(chalk.gray(`📚 Saved as run #${run.id} of ${run.repository}`));
+  const comparison = run.baselineComparison;
+  if (!comparison) {
+    return;
+  }
+
+  const scoreChange =
+    comparison.aiScoreDelta !== undefined
+      ? `: AI score ${comparison.before.aiScore}/100 → ${comparison.after.aiScore}/100 (${formatDelta(comparison.aiScoreDelta)})`
+      : '';
+  console.log(
+    chalk.blue(
+      `📌 Since baseline run #${run.baselineRunId} (${new Date(comparison.before.analyzedAt).toLocaleString()})${scoreChange}`,
+    ),
+  );
+  comparison.indicators
+    .filter((indicator) => indicator.crossing)
+    .forEach((indicator) => {
+      console.log(
+        indicator.crossing === 'raised'
+          ? chalk.red(
+              `   ⚠️  ${indicator.label} crossed its threshold (${indicator.formattedBefore} → ${indicator.formattedAfter})`,
+            )
+          : chalk.green(
+              `   ✅ ${indicator.label} fell back within its threshold (${indicator.formattedBefore} → ${indicator.formattedAfter})`,
+            ),
+      );
+    });
+  console.log(
+    chalk.gray(
+      `   Details: git-analyzer history "${run.repositoryId}" --run ${run.id}`,
+    ),
+  );
+}
+
+/**
+ * Writes the results in each requested format
+ * @param result Analysis results
+ * @param requestedFormats Output formats ("all" expands to console, json, html, markdown and sarif)
+ * @param outputPath File path for a single format, or directory for several
+ */
 function handleOutput(
   result: AnalyzeResponseDto,
-  format: string,
+  requestedFormats: OutputFormat[],
   outputPath?: string,
 ): void {
-  const outputFormat = format as OutputFormat;
-  const formats =
-    outputFormat === OutputFormat.ALL
-      ? [OutputFormat.CONSOLE, OutputFormat.JSON, OutputFormat.HTML]
-      : [outputFormat];
+  const formats = [
+    ...new Set(
+      requestedFormats.flatMap((format) =>
+        format === OutputFormat.ALL
+          ? [
+              OutputFormat.CONSOLE,
+              OutputFormat.JSON,
+              OutputFormat.HTML,
+              OutputFormat.MARKDOWN,
+              OutputFormat.SARIF,
+            ]
+          : [format],
+      ),
+    ),
+  ];
 
   for (const fmt of formats) {
     const formatterConfig = FORMATTERS[fmt];
@@ -163,12 +929,12 @@ function handleOutput(
 // Handle uncaught errors
 process.on('uncaughtException', (error) => {
   console.error(chalk.red('❌ Uncaught Exception:'), error.message);
-  process.exit(1);
+  process.exit(EXIT_CODES.ANALYSIS_ERROR);
 });
 
 process.on('unhandledRejection', (reason) => {
   console.error(chalk.red('❌ Unhandled Rejection:'), reason);
-  process.exit(1);
+  process.exit(EXIT_CODES.ANALYSIS_ERROR);
 });
 
 // Parse command line arguments
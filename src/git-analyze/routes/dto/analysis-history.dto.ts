@@ -0,0 +1,46 @@
+import { IsInt, Min } from 'class-validator';
+import { AnalyzeResponseDto } from './analyze-response.dto';
+import { ReportComparison } from './report-comparison.dto';
+
+/**
+ * Recorded analysis run, without its results
+ */
+export interface AnalysisRunSummary {
+  /** Sequential number of the run within its repository's history */
+  id: number;
+  repository: string;
+  /** Repository ID the history is kept under: the repositoryId of the analysis results */
+  repositoryId: string;
+  branch: string;
+  headCommit?: string;
+  analyzedAt: string;
+  totalCommits: number;
+  aiScore?: number;
+  isBaseline: boolean;
+  /** Change of the AI score since the baseline run, when both have one */
+  aiScoreDelta?: number;
+}
+
+/**
+ * Recorded analysis run with its results, diffed against the baseline run
+ * when one is set (and is not this run)
+ */
+export interface AnalysisRunDto extends AnalysisRunSummary {
+  result: AnalyzeResponseDto;
+  baselineRunId?: number;
+  baselineComparison?: ReportComparison;
+}
+
+export interface AnalysisHistoryDto {
+  repository: string;
+  repositoryId: string;
+  baselineRunId?: number;
+  /** Runs, oldest first */
+  runs: AnalysisRunSummary[];
+}
+
+export class SetBaselineRequestDto {
+  @IsInt()
+  @Min(1)
+  runId: number;
+}
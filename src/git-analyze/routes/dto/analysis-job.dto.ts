@@ -0,0 +1,31 @@
+import { AnalysisProgressEvent } from './analysis-progress.dto';
+
+export enum AnalysisJobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface AnalysisJobDto {
+  id: string;
+  status: AnalysisJobStatus;
+  /** 1-based position in the queue, only set while the job is queued */
+  queuePosition?: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Failure message, only set for failed jobs */
+  error?: string;
+  /** Latest progress reported by the analysis, once it has started */
+  progress?: AnalysisProgressEvent;
+}
+
+/**
+ * Server-sent event of a job: its status whenever it changes, and the
+ * analysis progress while it runs
+ */
+export type AnalysisJobEvent =
+  | { type: 'status'; data: AnalysisJobDto }
+  | { type: 'progress'; data: AnalysisProgressEvent };
@@ -0,0 +1,34 @@
+export enum AnalysisPhase {
+  CLONE = 'clone',
+  OPEN = 'open',
+  HISTORY = 'history',
+  SCAN = 'scan',
+}
+
+/**
+ * "started" when a phase begins, "running" while it makes progress and
+ * "completed" once it has finished
+ */
+export type AnalysisPhaseState = 'started' | 'running' | 'completed';
+
+export interface AnalysisProgressEvent {
+  phase: AnalysisPhase;
+  state: AnalysisPhaseState;
+  /** Milliseconds since the phase started */
+  elapsedMs: number;
+  /** Share of the phase that is done (0-100), when it can be measured */
+  percentage?: number;
+  /** Source files analyzed so far (scan phase) */
+  filesScanned?: number;
+  /** Source files to analyze (scan phase) */
+  totalFiles?: number;
+  /** Commits loaded (completed history phase) */
+  commits?: number;
+  /** Repository root on disk (completed open phase) */
+  repoPath?: string;
+}
+
+/**
+ * Receives progress events while an analysis runs
+ */
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void;
@@ -1,23 +1,84 @@
-import { IsUrl, IsOptional, IsEnum, IsString } from 'class-validator';
+import {
+  IsUrl,
+  IsOptional,
+  IsEnum,
+  IsString,
+  IsNotEmpty,
+  IsObject,
+  IsBoolean,
+  Matches,
+  ValidateIf,
+} from 'class-validator';
 
 export enum OutputFormat {
   CONSOLE = 'console',
   JSON = 'json',
   HTML = 'html',
+  MARKDOWN = 'markdown',
+  SARIF = 'sarif',
   ALL = 'all',
 }
 
+export enum TimeSeriesInterval {
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
 export class AnalyzeRequestDto {
+  @ValidateIf((o: AnalyzeRequestDto) => !o.repositoryPath)
   @IsUrl({}, { message: 'Repository URL must be a valid URL' })
-  repositoryUrl: string;
+  repositoryUrl?: string;
+
+  @ValidateIf((o: AnalyzeRequestDto) => !o.repositoryUrl)
+  @IsString()
+  @IsNotEmpty({
+    message: 'Either repositoryUrl or repositoryPath must be provided',
+  })
+  repositoryPath?: string;
+
+  @IsOptional()
+  @IsString()
+  branch?: string;
+
+  @IsOptional()
+  @IsString()
+  since?: string;
+
+  @IsOptional()
+  @IsString()
+  until?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^[^-]/, { message: 'fromRef must not start with "-"' })
+  fromRef?: string;
 
   @IsOptional()
   @IsString()
-  branch?: string = 'main';
+  @Matches(/^[^-]/, { message: 'toRef must not start with "-"' })
+  toRef?: string;
+
+  @IsOptional()
+  @IsObject()
+  scoreWeights?: Record<string, number>;
+
+  @IsOptional()
+  @IsEnum(TimeSeriesInterval, {
+    message: 'Interval must be one of: week, month',
+  })
+  interval?: TimeSeriesInterval;
+
+  @IsOptional()
+  @IsBoolean()
+  mergeByName?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  includeBots?: boolean;
 
   @IsOptional()
   @IsEnum(OutputFormat, {
-    message: 'Format must be one of: console, json, html, all',
+    message: 'Format must be one of: console, json, html, markdown, sarif, all',
   })
   format?: OutputFormat = OutputFormat.JSON;
 
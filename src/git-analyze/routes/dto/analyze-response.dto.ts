@@ -1,3 +1,6 @@
+import { CommitHistoryFilter } from '../../services/git.service';
+import { OutputFormat, TimeSeriesInterval } from './analyze-request.dto';
+
 export interface MetricResult<T = any> {
   value: number;
   details?: T;
@@ -10,24 +13,248 @@ export interface ContributorStats {
   commitCount: number;
 }
 
-export interface AIIndicatorMetric<T = number> {
+/**
+ * Numeric values of the indicators that can be attributed to a subset of
+ * commits, keyed by indicator ID
+ */
+export type CommitIndicatorValues = Record<AIIndicatorName, number>;
+
+/**
+ * Rule that counted an author identity as another contributor: the
+ * repository's mailmap, an alias of the project configuration, or the same
+ * normalised name
+ */
+export type IdentityMergeSource = 'mailmap' | 'alias' | 'name';
+
+/**
+ * Email of the history counted as another contributor
+ */
+export interface MergedIdentity {
+  /** Name most commits of the email were written with */
+  name: string;
+  email: string;
+  commitCount: number;
+  source: IdentityMergeSource;
+}
+
+/**
+ * Contributor whose commits were written under several emails
+ */
+export interface IdentityMerge {
+  /** Name and email the contributor is reported under */
+  name: string;
+  email: string;
+  /** Emails counted as this contributor, most commits first */
+  identities: MergedIdentity[];
+}
+
+/**
+ * What classified an account as a bot: a known bot account, a "[bot]"
+ * suffix on its name or email, or a bot signature in a commit message
+ */
+export type BotMatch = 'account' | 'suffix' | 'message';
+
+/**
+ * Bot account and its commits
+ */
+export interface BotAccount {
+  /** Bot name from the catalogue, or the account name when it is unknown */
+  bot: string;
+  name: string;
+  email: string;
+  commitCount: number;
+  /** Lines added by the bot's commits */
+  insertions: number;
+  matchedBy: BotMatch;
+}
+
+/**
+ * Commits made by bot accounts (Dependabot, Renovate, release bots...)
+ */
+export interface BotActivity {
+  commitCount: number;
+  /** Share of all commits */
+  commitPercentage: number;
+  /** Whether bot commits were left out of the AI indicators and the score */
+  excluded: boolean;
+  /** Bot accounts, most commits first */
+  accounts: BotAccount[];
+}
+
+export interface ContributorIndicators extends ContributorStats {
+  indicators: CommitIndicatorValues;
+}
+
+export interface LanguageIndicator {
+  value: number;
+  /** Value as shown in reports */
+  formattedValue: string;
+  /** Baseline of the language, in place of the overall threshold where its code differs */
+  threshold?: MetricThreshold;
+}
+
+export interface LanguageIndicators {
+  /** Language name (e.g., "TypeScript") */
+  language: string;
+  /** Scanned source files of the language */
+  files: number;
+  /** Lines of the scanned files */
+  lines: number;
+  /** File-based indicators that can be split by language, keyed by indicator ID */
+  indicators: Record<AIIndicatorName, LanguageIndicator>;
+}
+
+export interface TimeSeriesBucket {
+  period: string;
+  start: string;
+  commitCount: number;
+  indicators: CommitIndicatorValues;
+  aiScore: number;
+}
+
+export interface TimeSeriesChangePoint {
+  period: string;
+  start: string;
+  scoreBefore: number;
+  scoreAfter: number;
+}
+
+export interface AITimeSeries {
+  interval: TimeSeriesInterval;
+  buckets: TimeSeriesBucket[];
+  changePoint?: TimeSeriesChangePoint;
+}
+
+export type MetricUnit = 'lines' | 'files' | 'percent';
+
+export interface MetricThreshold {
+  value: number;
+  /** Whether values above or below the threshold suggest AI assistance */
+  direction: 'above' | 'below';
+}
+
+export interface AIIndicatorMetric<T = unknown> {
   value: T;
+  label: string;
+  /** Compact label for table columns and chart legends */
+  shortLabel: string;
+  unit: MetricUnit;
+  /** Value as shown in reports */
+  formattedValue: string;
+  threshold?: MetricThreshold;
+  description: string;
+}
+
+export interface AIToolDetection {
+  tool: string;
+  commits: number;
+  authors: number;
+}
+
+export interface AIToolSignatureAnalysis {
+  commitPercentage: number;
+  authorPercentage: number;
+  tools: AIToolDetection[];
+}
+
+/**
+ * Commit whose lines were added faster than a plausible human rate
+ */
+export interface FastCommit {
+  hash: string;
+  author: string;
+  /** Lines added by the commit */
+  insertions: number;
+  /** Minutes since the author's previous commit */
+  minutes: number;
+  linesPerMinute: number;
+}
+
+export interface TypingSpeedAnalysis {
+  /** Percentage of the measured commits added faster than a plausible human rate */
+  fastCommitPercentage: number;
+  /** Commits following another commit of their author closely enough to be timed; merges are left out */
+  measuredCommits: number;
+  /** Fastest of the fast commits, fastest first */
+  fastestCommits: FastCommit[];
+}
+
+/**
+ * Severity of a finding: "error" from twice its threshold, "warning" beyond
+ * it, "note" for items reported without exceeding a threshold of their own
+ */
+export type FindingSeverity = 'error' | 'warning' | 'note';
+
+/**
+ * Individual commit or file behind an AI indicator
+ */
+export interface IndicatorFinding {
+  /** ID of the indicator the finding belongs to */
+  indicator: AIIndicatorName;
+  severity: FindingSeverity;
+  message: string;
+  /** Commit hash, for commit-based indicators */
+  commit?: string;
+  /** Path relative to the repository root of the analyzed file, for file-based indicators */
+  file?: string;
+  /** 1-based line of the finding in the file */
+  line?: number;
+}
+
+export interface FirstCommitAnalysis {
+  lines: number;
+  isSuspicious: boolean;
+}
+
+/**
+ * ID of a registered metric plugin (e.g. "avgLinesPerCommit")
+ */
+export type AIIndicatorName = string;
+
+/**
+ * Indicators of every registered metric plugin, keyed by ID in registration order
+ */
+export type AIIndicators = Record<AIIndicatorName, AIIndicatorMetric>;
+
+export type AIScoreConfidence = 'low' | 'medium' | 'high';
+
+export interface AIScoreContribution {
+  indicator: AIIndicatorName;
+  signal: number;
+  weight: number;
+  contribution: number;
+}
+
+export interface AIScore {
+  value: number;
+  confidence: AIScoreConfidence;
+  contributions: AIScoreContribution[];
   description: string;
 }
 
-export interface AIIndicators {
-  avgLinesPerCommit: AIIndicatorMetric<number>;
-  largeCommitPercentage: AIIndicatorMetric<number>;
-  firstCommitAnalysis: AIIndicatorMetric<{
-    lines: number;
-    isSuspicious: boolean;
-  }>;
-  avgFilesPerCommit: AIIndicatorMetric<number>;
-  commitMessagePatterns: AIIndicatorMetric<number>;
-  burstyCommitPercentage: AIIndicatorMetric<number>;
-  testFileRatio: AIIndicatorMetric<number>;
-  codeCommentRatio: AIIndicatorMetric<number>;
-  codeNonTypicalExpressionRatio: AIIndicatorMetric<number>;
+/**
+ * Why a source file or directory was left out of the file scan
+ */
+export type ScanExclusionReason =
+  | 'skip-pattern'
+  | 'gitignore'
+  | 'linguist-vendored'
+  | 'linguist-generated'
+  | 'generated-header';
+
+export interface ScanExclusion {
+  reason: ScanExclusionReason;
+  /** Source files with an extension supported by the file-based indicators */
+  files: number;
+  /** Directories pruned without being read */
+  directories: number;
+}
+
+export interface FileScanSummary {
+  /** Source files passed to the file-based indicators */
+  scannedFiles: number;
+  /** Exclusions by reason; reasons that excluded nothing are omitted */
+  exclusions: ScanExclusion[];
 }
 
 export interface GitMetrics {
@@ -39,12 +266,57 @@ export interface GitMetrics {
   avgCommitsPerDay: number;
   topContributor: string;
   contributorStats: ContributorStats[];
+  /** Contributors whose commits were written under several emails */
+  identityMerges?: IdentityMerge[];
+  /** Commits made by bot accounts, present when there are any */
+  botActivity?: BotActivity;
+  contributorIndicators?: ContributorIndicators[];
+  languageIndicators?: LanguageIndicators[];
   aiIndicators?: AIIndicators;
+  aiScore?: AIScore;
+  timeSeries?: AITimeSeries;
+  /** Commits and files behind the indicators that report individual items */
+  findings?: IndicatorFinding[];
+  fileScan?: FileScanSummary;
+}
+
+/**
+ * Identity merging settings of the project configuration
+ */
+export interface IdentityConfig {
+  /** Alias emails keyed by the email their commits are counted under */
+  aliases?: Record<string, string[]>;
+  /** Merges the authors whose names are the same once normalised (case, accents, punctuation) */
+  mergeByName?: boolean;
+}
+
+/**
+ * Settings of the project configuration file that the analysis applied
+ */
+export interface AppliedConfig {
+  /** Configuration file, relative to the repository root when found there */
+  source: string;
+  /** Threshold overrides keyed by indicator ID */
+  thresholds: Record<AIIndicatorName, number>;
+  /** Indicators left out of the analysis and the score */
+  disabledIndicators: AIIndicatorName[];
+  /** Glob patterns of files left out of the file scan */
+  skip: string[];
+  /** How author identities are merged into contributors */
+  identities?: IdentityConfig;
+  /** Default output formats of the CLI */
+  formats?: OutputFormat[];
 }
 
 export interface AnalyzeResponseDto {
   repository: string;
+  /** Stable identity of the repository: its URL's host and path (e.g. "github.com/octocat/Hello-World"), or the real path of a local repository */
+  repositoryId?: string;
   branch: string;
+  /** Commit at the tip of the analyzed history */
+  headCommit?: string;
   metrics: GitMetrics;
   analyzedAt: string;
+  commitFilter?: CommitHistoryFilter;
+  config?: AppliedConfig;
 }
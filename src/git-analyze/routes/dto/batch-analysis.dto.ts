@@ -0,0 +1,120 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  AIIndicatorName,
+  AnalyzeResponseDto,
+  MetricThreshold,
+  MetricUnit,
+} from './analyze-response.dto';
+
+/**
+ * Most repositories a batch analyzes at the same time; each analysis clones
+ * and scans a repository
+ */
+export const MAX_BATCH_CONCURRENCY = 10;
+
+/**
+ * Repository of a batch manifest
+ */
+export class BatchRepositoryDto {
+  @ValidateIf((o: BatchRepositoryDto) => !o.path)
+  @IsUrl({}, { message: 'Repository url must be a valid URL' })
+  url?: string;
+
+  @ValidateIf((o: BatchRepositoryDto) => !o.url)
+  @IsString()
+  @IsNotEmpty({ message: 'Either url or path must be provided' })
+  path?: string;
+
+  @IsOptional()
+  @IsString()
+  branch?: string;
+
+  /** Project configuration file, in place of the repository's own */
+  @IsOptional()
+  @IsString()
+  config?: string;
+
+  /** Name in the leaderboard (default: the repository name, with the branch if given) */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+}
+
+/**
+ * Batch manifest, also the body of the batch endpoint
+ */
+export class AnalyzeBatchRequestDto {
+  @IsArray()
+  @ArrayNotEmpty({ message: 'repositories must list at least one repository' })
+  @ValidateNested({ each: true })
+  @Type(() => BatchRepositoryDto)
+  repositories: BatchRepositoryDto[];
+
+  /** Repositories analyzed at the same time (at most MAX_BATCH_CONCURRENCY) */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_BATCH_CONCURRENCY)
+  concurrency?: number;
+}
+
+export type BatchRepositoryStatus = 'completed' | 'failed';
+
+export interface BatchRepositoryResult {
+  name: string;
+  /** URL or path from the manifest */
+  source: string;
+  branch?: string;
+  status: BatchRepositoryStatus;
+  /** Analysis results of a completed repository */
+  result?: AnalyzeResponseDto;
+  /** Failure message of a failed repository */
+  error?: string;
+  durationMs: number;
+}
+
+export interface LeaderboardEntry {
+  /** 1-based; repositories with equal values share a rank */
+  rank: number;
+  name: string;
+  /** Position of the repository in `repositories`; names may repeat, e.g. two checkouts named "api" */
+  repositoryIndex: number;
+  value: number;
+  formattedValue: string;
+  exceedsThreshold: boolean;
+}
+
+/**
+ * Completed repositories ranked by an indicator, the most AI-like first
+ */
+export interface IndicatorRanking {
+  /** Indicator ID, or "aiScore" for the composite score */
+  indicator: AIIndicatorName;
+  label: string;
+  shortLabel: string;
+  unit?: MetricUnit;
+  threshold?: MetricThreshold;
+  entries: LeaderboardEntry[];
+}
+
+export interface BatchAnalysisResponseDto {
+  analyzedAt: string;
+  /** Repositories in manifest order */
+  repositories: BatchRepositoryResult[];
+  /** Rankings by AI score, then by each indicator */
+  leaderboard: IndicatorRanking[];
+}
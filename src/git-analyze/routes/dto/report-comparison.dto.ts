@@ -0,0 +1,69 @@
+import { CommitHistoryFilter } from '../../services/git.service';
+import {
+  AIIndicatorName,
+  MetricThreshold,
+  MetricUnit,
+} from './analyze-response.dto';
+
+/**
+ * Headline figures of one of the compared reports
+ */
+export interface ComparedReport {
+  repository: string;
+  branch: string;
+  analyzedAt: string;
+  commitFilter?: CommitHistoryFilter;
+  totalCommits: number;
+  contributors: number;
+  /** AI likelihood score, when the report has one */
+  aiScore?: number;
+}
+
+/**
+ * "raised" when an indicator moved beyond its threshold, "cleared" when it
+ * moved back within it
+ */
+export type ThresholdCrossing = 'raised' | 'cleared';
+
+export interface IndicatorDelta {
+  indicator: AIIndicatorName;
+  label: string;
+  shortLabel: string;
+  unit: MetricUnit;
+  /** Numeric value before, missing when the report lacks the indicator */
+  before?: number;
+  /** Numeric value after, missing when the report lacks the indicator */
+  after?: number;
+  /** Values as shown in the reports */
+  formattedBefore?: string;
+  formattedAfter?: string;
+  /** after - before, when both reports have the indicator */
+  delta?: number;
+  /** Threshold of the after report, or of the before report without the indicator after */
+  threshold?: MetricThreshold;
+  /** Set when the indicator crossed its threshold between the reports */
+  crossing?: ThresholdCrossing;
+}
+
+export type ContributorChangeStatus = 'added' | 'removed' | 'changed';
+
+export interface ContributorChange {
+  email: string;
+  name: string;
+  status: ContributorChangeStatus;
+  commitsBefore: number;
+  commitsAfter: number;
+  /** commitsAfter - commitsBefore */
+  commitDelta: number;
+}
+
+export interface ReportComparison {
+  before: ComparedReport;
+  after: ComparedReport;
+  /** Change of the AI likelihood score, when both reports have one */
+  aiScoreDelta?: number;
+  /** Indicators of either report, in the order of the after report */
+  indicators: IndicatorDelta[];
+  /** Contributors who appeared, left or whose commit count changed */
+  contributors: ContributorChange[];
+}
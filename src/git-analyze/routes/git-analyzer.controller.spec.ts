@@ -1,15 +1,37 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { GitAnalyzerController } from './git-analyzer.controller';
+import { ConfigService } from '@nestjs/config';
 import { AnalyzerService } from '../services/analyzer.service';
+import { AnalysisJobService } from '../services/analysis-job.service';
+import { BatchAnalysisService } from '../services/batch-analysis.service';
+import { AnalysisHistoryService } from '../services/analysis-history.service';
+import { GitService } from '../services/git.service';
+import { TempService } from '../services/temp.service';
 import { AnalyzeRequestDto, OutputFormat } from './dto/analyze-request.dto';
 import { AnalyzeResponseDto } from './dto/analyze-response.dto';
-import { HttpException, HttpStatus } from '@nestjs/common';
+import { AnalysisJobStatus } from './dto/analysis-job.dto';
+import {
+  AnalyzeBatchRequestDto,
+  BatchAnalysisResponseDto,
+} from './dto/batch-analysis.dto';
+import { AnalysisRunSummary } from './dto/analysis-history.dto';
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 describe('GitAnalyzerController', () => {
   let controller: GitAnalyzerController;
   let service: AnalyzerService;
+  let batchService: BatchAnalysisService;
+  let historyService: AnalysisHistoryService;
+  let jobService: AnalysisJobService;
+  let localRepositoryRoot: string | undefined;
 
   beforeEach(async () => {
+    localRepositoryRoot = '/srv/checkouts';
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [GitAnalyzerController],
       providers: [
@@ -17,6 +39,34 @@ describe('GitAnalyzerController', () => {
           provide: AnalyzerService,
           useValue: {
             analyzeRepository: jest.fn(),
+            analyzeLocalRepository: jest.fn(),
+          },
+        },
+        {
+          provide: BatchAnalysisService,
+          useValue: { analyzeBatch: jest.fn() },
+        },
+        {
+          provide: AnalysisHistoryService,
+          useValue: {
+            record: jest.fn(),
+            findRepositoryIds: jest.fn(),
+            getHistory: jest.fn(),
+            getRun: jest.fn(),
+            setBaseline: jest.fn(),
+          },
+        },
+        AnalysisJobService,
+        GitService,
+        TempService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'localRepositories.root'
+                ? localRepositoryRoot
+                : undefined,
+            ),
           },
         },
       ],
@@ -24,12 +74,24 @@ describe('GitAnalyzerController', () => {
 
     controller = module.get<GitAnalyzerController>(GitAnalyzerController);
     service = module.get<AnalyzerService>(AnalyzerService);
+    batchService = module.get<BatchAnalysisService>(BatchAnalysisService);
+    historyService = module.get<AnalysisHistoryService>(AnalysisHistoryService);
+    jobService = module.get<AnalysisJobService>(AnalysisJobService);
   });
 
   afterEach(() => {
     jest.clearAllMocks();
   });
 
+  const catchError = (call: () => unknown): HttpException => {
+    try {
+      call();
+    } catch (error) {
+      return error as HttpException;
+    }
+    throw new Error('Expected an exception');
+  };
+
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
@@ -78,8 +140,115 @@ describe('GitAnalyzerController', () => {
       expect(service.analyzeRepository).toHaveBeenCalledWith(
         request.repositoryUrl,
         request.branch,
+        expect.objectContaining({ filter: {} }),
       );
       expect(result).toEqual(expectedResponse);
+      expect(historyService.record).toHaveBeenCalledWith(expectedResponse);
+    });
+
+    it('should respond with the results when they cannot be saved to the history', async () => {
+      const response = {
+        repository: 'user/repo',
+        branch: 'main',
+      } as AnalyzeResponseDto;
+      jest.spyOn(service, 'analyzeRepository').mockResolvedValue(response);
+      jest.spyOn(historyService, 'record').mockImplementation(() => {
+        throw new Error('Failed to write analysis history: EACCES');
+      });
+      const warn = jest
+        .spyOn(Logger.prototype, 'warn')
+        .mockImplementation(() => undefined);
+
+      await expect(
+        controller.analyzeRepository({
+          repositoryUrl: 'https://github.com/user/repo.git',
+        }),
+      ).resolves.toBe(response);
+      expect(warn).toHaveBeenCalledWith(
+        'Failed to write analysis history: EACCES',
+      );
+    });
+
+    it('should analyze a local repository path in place', async () => {
+      const request: AnalyzeRequestDto = {
+        repositoryPath: '/srv/checkouts/monorepo',
+        branch: 'develop',
+        format: OutputFormat.JSON,
+      };
+
+      const expectedResponse: AnalyzeResponseDto = {
+        repository: 'monorepo',
+        branch: 'develop',
+        metrics: {
+          totalCommits: 0,
+          contributors: 0,
+          firstCommit: '',
+          lastCommit: '',
+          duration: '0 days 0 hours 0 minutes',
+          avgCommitsPerDay: 0,
+          topContributor: '',
+          contributorStats: [],
+        },
+        analyzedAt: '2024-01-10T00:00:00.000Z',
+      };
+
+      jest
+        .spyOn(service, 'analyzeLocalRepository')
+        .mockResolvedValue(expectedResponse);
+
+      const result = await controller.analyzeRepository(request);
+
+      expect(service.analyzeLocalRepository).toHaveBeenCalledWith(
+        '/srv/checkouts/monorepo',
+        'develop',
+        expect.objectContaining({ filter: {} }),
+      );
+      expect(service.analyzeRepository).not.toHaveBeenCalled();
+      expect(result).toEqual(expectedResponse);
+    });
+
+    it('should pass the commit range and date window to the analysis', async () => {
+      const request: AnalyzeRequestDto = {
+        repositoryUrl: 'https://github.com/user/repo.git',
+        branch: 'main',
+        since: '2024-07-01',
+        until: '2024-09-30',
+        fromRef: 'v1.0.0',
+        toRef: 'v2.0.0',
+      };
+
+      await controller.analyzeRepository(request);
+
+      expect(service.analyzeRepository).toHaveBeenCalledWith(
+        'https://github.com/user/repo.git',
+        'main',
+        expect.objectContaining({
+          filter: {
+            since: '2024-07-01',
+            until: '2024-09-30',
+            fromRef: 'v1.0.0',
+            toRef: 'v2.0.0',
+          },
+        }),
+      );
+    });
+
+    it('should pass score weight overrides to the analysis', async () => {
+      const request: AnalyzeRequestDto = {
+        repositoryUrl: 'https://github.com/user/repo.git',
+        scoreWeights: { codeCommentRatio: 3, firstCommitAnalysis: 0 },
+      };
+
+      await controller.analyzeRepository(request);
+
+      expect(service.analyzeRepository).toHaveBeenCalledWith(
+        'https://github.com/user/repo.git',
+        undefined,
+        expect.objectContaining({
+          filter: {},
+          scoreWeights: { codeCommentRatio: 3, firstCommitAnalysis: 0 },
+        }),
+      );
     });
 
     it('should handle analysis errors with proper HTTP exception', async () => {
@@ -113,6 +282,31 @@ describe('GitAnalyzerController', () => {
       }
     });
 
+    it('should wait its turn in the job queue and respond with 503 when it is full', async () => {
+      jest
+        .spyOn(service, 'analyzeRepository')
+        .mockReturnValue(new Promise(() => {}));
+      const request: AnalyzeRequestDto = {
+        repositoryUrl: 'https://github.com/user/repo.git',
+      };
+      for (let i = 0; i < 22; i++) {
+        void controller.analyzeRepository(request);
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(service.analyzeRepository).toHaveBeenCalledTimes(2);
+      const error = await controller.analyzeRepository(request).then(
+        () => undefined,
+        (rejected: HttpException) => rejected,
+      );
+      expect(error?.getStatus()).toBe(HttpStatus.SERVICE_UNAVAILABLE);
+      expect(error?.getResponse()).toEqual({
+        message: 'Analysis queue is full',
+        error: expect.any(String),
+        statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+      });
+    });
+
     it('should handle validation errors', async () => {
       const request: AnalyzeRequestDto = {
         repositoryUrl: 'invalid-url',
@@ -131,6 +325,372 @@ describe('GitAnalyzerController', () => {
     });
   });
 
+  describe('local paths', () => {
+    const localRequest = (repositoryPath: string): AnalyzeRequestDto => ({
+      repositoryPath,
+      format: OutputFormat.JSON,
+    });
+
+    /**
+     * Captures the HTTP exception of a rejected controller call
+     */
+    const rejection = (call: Promise<unknown>) =>
+      call.then(
+        () => {
+          throw new Error('Expected a rejection');
+        },
+        (error: HttpException) => error,
+      );
+
+    it('should resolve relative paths inside LOCAL_REPOSITORY_ROOT', async () => {
+      await controller.analyzeRepository(localRequest('team/app'));
+
+      expect(service.analyzeLocalRepository).toHaveBeenCalledWith(
+        '/srv/checkouts/team/app',
+        undefined,
+        expect.objectContaining({ filter: {} }),
+      );
+    });
+
+    it('should reject local paths when LOCAL_REPOSITORY_ROOT is not set', async () => {
+      localRepositoryRoot = undefined;
+
+      const error = await rejection(
+        controller.analyzeRepository(localRequest('/srv/checkouts/app')),
+      );
+
+      expect(error.getStatus()).toBe(HttpStatus.FORBIDDEN);
+      expect(error.getResponse()).toMatchObject({
+        message: 'Local path not allowed',
+      });
+      expect(service.analyzeLocalRepository).not.toHaveBeenCalled();
+    });
+
+    it.each(['/etc', '../../etc', '/srv/checkouts-other/app'])(
+      'should reject %s outside LOCAL_REPOSITORY_ROOT',
+      async (repositoryPath) => {
+        const error = await rejection(
+          controller.analyzeRepository(localRequest(repositoryPath)),
+        );
+
+        expect(error.getStatus()).toBe(HttpStatus.FORBIDDEN);
+        expect(service.analyzeLocalRepository).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should reject symbolic links leading outside LOCAL_REPOSITORY_ROOT', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-root-'));
+      try {
+        fs.mkdirSync(path.join(tempDir, 'root'));
+        fs.mkdirSync(path.join(tempDir, 'outside'));
+        fs.symlinkSync(
+          path.join(tempDir, 'outside'),
+          path.join(tempDir, 'root', 'link'),
+        );
+        localRepositoryRoot = path.join(tempDir, 'root');
+
+        const error = await rejection(
+          controller.analyzeRepository(localRequest('link')),
+        );
+
+        expect(error.getStatus()).toBe(HttpStatus.FORBIDDEN);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject directories of a repository outside LOCAL_REPOSITORY_ROOT', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-root-'));
+      try {
+        execFileSync('git', ['init', '--quiet', tempDir]);
+        fs.mkdirSync(path.join(tempDir, 'root', 'plain'), { recursive: true });
+        localRepositoryRoot = path.join(tempDir, 'root');
+
+        for (const repositoryPath of ['plain', '.']) {
+          const error = await rejection(
+            controller.analyzeRepository(localRequest(repositoryPath)),
+          );
+
+          expect(error.getStatus()).toBe(HttpStatus.FORBIDDEN);
+          expect(error.getResponse()).toMatchObject({
+            error: `${repositoryPath} is inside a repository outside LOCAL_REPOSITORY_ROOT`,
+          });
+        }
+        expect(service.analyzeLocalRepository).not.toHaveBeenCalled();
+
+        // A repository of its own inside the root is allowed
+        execFileSync('git', [
+          'init',
+          '--quiet',
+          path.join(tempDir, 'root', 'plain'),
+        ]);
+        await controller.analyzeRepository(localRequest('plain'));
+
+        expect(service.analyzeLocalRepository).toHaveBeenCalledWith(
+          fs.realpathSync(path.join(tempDir, 'root', 'plain')),
+          undefined,
+          expect.objectContaining({ filter: {} }),
+        );
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject jobs and batches with paths outside LOCAL_REPOSITORY_ROOT', async () => {
+      expect(
+        (
+          await rejection(controller.submitJob(localRequest('/etc')))
+        ).getStatus(),
+      ).toBe(HttpStatus.FORBIDDEN);
+
+      const error = await rejection(
+        controller.analyzeBatch({
+          repositories: [
+            { url: 'https://github.com/user/repo.git', config: '/etc/passwd' },
+          ],
+        }),
+      );
+      expect(error.getStatus()).toBe(HttpStatus.FORBIDDEN);
+      expect(batchService.analyzeBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('jobs', () => {
+    const request: AnalyzeRequestDto = {
+      repositoryUrl: 'https://github.com/user/repo.git',
+      branch: 'main',
+      format: OutputFormat.JSON,
+    };
+    const response = {
+      repository: 'user/repo',
+      branch: 'main',
+      metrics: {},
+      analyzedAt: '2024-01-10T00:00:00.000Z',
+    } as AnalyzeResponseDto;
+
+    /**
+     * Lets queued job callbacks run
+     */
+    const flushJobs = () => new Promise((resolve) => setImmediate(resolve));
+
+    it('should return the job immediately and the result once completed', async () => {
+      jest.spyOn(service, 'analyzeRepository').mockResolvedValue(response);
+
+      const job = await controller.submitJob(request);
+
+      expect(job).toEqual({
+        id: expect.any(String),
+        status: AnalysisJobStatus.RUNNING,
+        createdAt: expect.any(String),
+        startedAt: expect.any(String),
+      });
+      expect(service.analyzeRepository).toHaveBeenCalledWith(
+        request.repositoryUrl,
+        request.branch,
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
+      );
+
+      await flushJobs();
+
+      expect(controller.getJob(job.id).status).toBe(
+        AnalysisJobStatus.COMPLETED,
+      );
+      expect(controller.getJobResult(job.id)).toBe(response);
+    });
+
+    it('should respond with 409 while the result is not ready', async () => {
+      jest
+        .spyOn(service, 'analyzeRepository')
+        .mockReturnValue(new Promise(() => {}));
+
+      const job = await controller.submitJob(request);
+      const error = catchError(() => controller.getJobResult(job.id));
+
+      expect(error.getStatus()).toBe(HttpStatus.CONFLICT);
+      expect(error.getResponse()).toEqual({
+        message: 'Analysis job is running',
+        status: AnalysisJobStatus.RUNNING,
+        statusCode: HttpStatus.CONFLICT,
+      });
+    });
+
+    it('should report failed analyses like the synchronous endpoint', async () => {
+      jest
+        .spyOn(service, 'analyzeRepository')
+        .mockRejectedValue(new Error('Analysis failed: Repository not found'));
+
+      const job = await controller.submitJob(request);
+      await flushJobs();
+
+      expect(controller.getJob(job.id)).toMatchObject({
+        status: AnalysisJobStatus.FAILED,
+        error: 'Analysis failed: Repository not found',
+      });
+      const error = catchError(() => controller.getJobResult(job.id));
+      expect(error.getStatus()).toBe(HttpStatus.BAD_REQUEST);
+      expect(error.getResponse()).toEqual({
+        message: 'Analysis failed',
+        error: 'Analysis failed: Repository not found',
+        statusCode: HttpStatus.BAD_REQUEST,
+      });
+    });
+
+    it('should cancel a job and abort its analysis', async () => {
+      let signal: AbortSignal | undefined;
+      jest
+        .spyOn(service, 'analyzeRepository')
+        .mockImplementation((_url, _branch, options) => {
+          signal = options?.signal;
+          return new Promise(() => {});
+        });
+
+      const job = await controller.submitJob(request);
+      const cancelled = controller.cancelJob(job.id);
+
+      expect(cancelled.status).toBe(AnalysisJobStatus.CANCELLED);
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should respond with 404 for unknown jobs', () => {
+      expect(catchError(() => controller.getJob('missing')).getStatus()).toBe(
+        HttpStatus.NOT_FOUND,
+      );
+      expect(
+        catchError(() => controller.getJobResult('missing')).getStatus(),
+      ).toBe(HttpStatus.NOT_FOUND);
+      expect(
+        catchError(() => controller.cancelJob('missing')).getStatus(),
+      ).toBe(HttpStatus.NOT_FOUND);
+    });
+  });
+
+  describe('analyzeBatch', () => {
+    it('should analyze the repositories of the request', async () => {
+      const request: AnalyzeBatchRequestDto = {
+        repositories: [
+          { url: 'https://github.com/user/repo.git' },
+          { path: '/srv/checkouts/other', branch: 'develop' },
+        ],
+        concurrency: 2,
+      };
+      const response: BatchAnalysisResponseDto = {
+        analyzedAt: '2024-01-10T00:00:00.000Z',
+        repositories: [],
+        leaderboard: [],
+      };
+      jest.spyOn(batchService, 'analyzeBatch').mockResolvedValue(response);
+
+      await expect(controller.analyzeBatch(request)).resolves.toBe(response);
+      expect(batchService.analyzeBatch).toHaveBeenCalledWith(request, {
+        runAnalysis: expect.any(Function),
+      });
+    });
+
+    it('should run each analysis through the job queue', async () => {
+      const result = { repository: 'user/repo' } as AnalyzeResponseDto;
+      const analysis = jest.fn().mockResolvedValue(result);
+      jest
+        .spyOn(batchService, 'analyzeBatch')
+        .mockImplementation(async (_manifest, options) => {
+          await options!.runAnalysis!(analysis);
+          return {
+            analyzedAt: '2024-01-10T00:00:00.000Z',
+            repositories: [],
+            leaderboard: [],
+          };
+        });
+      jest.spyOn(jobService, 'run');
+
+      await controller.analyzeBatch({
+        repositories: [{ url: 'https://github.com/user/repo.git' }],
+      });
+
+      expect(jobService.run).toHaveBeenCalledTimes(1);
+      expect(analysis).toHaveBeenCalledWith(expect.any(AbortSignal));
+    });
+  });
+
+  describe('history', () => {
+    const run: AnalysisRunSummary = {
+      id: 2,
+      repository: 'user/repo',
+      repositoryId: 'github.com/user/repo',
+      branch: 'main',
+      analyzedAt: '2024-01-10T00:00:00.000Z',
+      totalCommits: 10,
+      isBaseline: true,
+    };
+
+    it('should list the runs of a repository', () => {
+      const history = {
+        repository: 'user/repo',
+        repositoryId: 'github.com/user/repo',
+        runs: [run],
+      };
+      jest
+        .spyOn(historyService, 'findRepositoryIds')
+        .mockReturnValue(['github.com/user/repo']);
+      jest.spyOn(historyService, 'getHistory').mockReturnValue(history);
+
+      expect(controller.getHistory('user/repo', 'main', 5)).toBe(history);
+      expect(historyService.findRepositoryIds).toHaveBeenCalledWith(
+        'user/repo',
+      );
+      expect(historyService.getHistory).toHaveBeenCalledWith(
+        'github.com/user/repo',
+        { branch: 'main', limit: 5 },
+      );
+    });
+
+    it('should mark a run as the baseline', () => {
+      jest
+        .spyOn(historyService, 'findRepositoryIds')
+        .mockReturnValue(['github.com/user/repo']);
+      jest.spyOn(historyService, 'setBaseline').mockReturnValue(run);
+
+      expect(controller.setBaseline('user/repo', { runId: 2 })).toBe(run);
+      expect(historyService.setBaseline).toHaveBeenCalledWith(
+        'github.com/user/repo',
+        2,
+      );
+    });
+
+    it('should respond with 409 for names of several repositories', () => {
+      jest
+        .spyOn(historyService, 'findRepositoryIds')
+        .mockReturnValue(['/srv/a/api', '/srv/b/api']);
+
+      const error = catchError(() => controller.getHistory('api'));
+
+      expect(error.getStatus()).toBe(HttpStatus.CONFLICT);
+      expect(error.getResponse()).toMatchObject({
+        error:
+          'Several repositories are named api; use the repositoryId of one of them: /srv/a/api, /srv/b/api',
+      });
+      expect(historyService.getHistory).not.toHaveBeenCalled();
+    });
+
+    it('should respond with 404 for unknown repositories and runs', () => {
+      jest
+        .spyOn(historyService, 'findRepositoryIds')
+        .mockImplementation((repository) =>
+          repository === 'missing' ? [] : [repository],
+        );
+
+      expect(
+        catchError(() => controller.getHistory('missing')).getStatus(),
+      ).toBe(HttpStatus.NOT_FOUND);
+      expect(
+        catchError(() => controller.getHistoryRun('user/repo', 9)).getStatus(),
+      ).toBe(HttpStatus.NOT_FOUND);
+      expect(
+        catchError(() =>
+          controller.setBaseline('user/repo', { runId: 9 }),
+        ).getStatus(),
+      ).toBe(HttpStatus.NOT_FOUND);
+    });
+  });
+
   describe('healthCheck', () => {
     it('should return health status', () => {
       const result = controller.healthCheck();
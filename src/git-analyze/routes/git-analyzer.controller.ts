@@ -1,42 +1,283 @@
 import {
   Controller,
   Post,
+  Get,
+  Put,
+  Delete,
   Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  Logger,
+  Sse,
+  MessageEvent,
+  HttpCode,
   HttpStatus,
   HttpException,
 } from '@nestjs/common';
-import { AnalyzerService } from '../services/analyzer.service';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnalysisOptions, AnalyzerService } from '../services/analyzer.service';
+import { Observable } from 'rxjs';
+import { AnalysisJobService } from '../services/analysis-job.service';
+import { BatchAnalysisService } from '../services/batch-analysis.service';
+import { AnalysisHistoryService } from '../services/analysis-history.service';
+import { GitService } from '../services/git.service';
 import { AnalyzeRequestDto } from './dto/analyze-request.dto';
-import { AnalyzeResponseDto } from './dto/analyze-response.dto';
+import { AnalyzeBatchRequestDto } from './dto/batch-analysis.dto';
+import type { BatchAnalysisResponseDto } from './dto/batch-analysis.dto';
+import type { AnalyzeResponseDto } from './dto/analyze-response.dto';
+import type { AnalysisJobDto } from './dto/analysis-job.dto';
+import { SetBaselineRequestDto } from './dto/analysis-history.dto';
+import type {
+  AnalysisHistoryDto,
+  AnalysisRunDto,
+  AnalysisRunSummary,
+} from './dto/analysis-history.dto';
+import type { AnalysisProgressListener } from './dto/analysis-progress.dto';
+import { AnalysisJobStatus } from './dto/analysis-job.dto';
 
 @Controller('git-analyzer')
 export class GitAnalyzerController {
-  constructor(private readonly analyzerService: AnalyzerService) {}
+  private readonly logger = new Logger(GitAnalyzerController.name);
+
+  constructor(
+    private readonly analyzerService: AnalyzerService,
+    private readonly analysisJobService: AnalysisJobService,
+    private readonly batchAnalysisService: BatchAnalysisService,
+    private readonly analysisHistoryService: AnalysisHistoryService,
+    private readonly gitService: GitService,
+    private readonly configService: ConfigService,
+  ) {}
 
   /**
-   * Analyzes a Git repository
+   * Analyzes a Git repository, either cloned from a URL or opened in place from a local path,
+   * and responds once the analysis has finished; the analysis waits its turn in the job queue
    * @param request Analysis request
    * @returns Analysis results
+   * @throws HttpException 403 if the request has a local path outside LOCAL_REPOSITORY_ROOT
+   * @throws HttpException 503 if the job queue is full
    */
   @Post('analyze')
   async analyzeRepository(
     @Body() request: AnalyzeRequestDto,
   ): Promise<AnalyzeResponseDto> {
+    const checkedRequest = await this.checkLocalPath(request);
+    let analysis: Promise<AnalyzeResponseDto>;
     try {
-      return await this.analyzerService.analyzeRepository(
-        request.repositoryUrl,
-        request.branch,
+      analysis = this.analysisJobService.run((signal, onProgress) =>
+        this.runAnalysis(checkedRequest, signal, onProgress),
       );
     } catch (error) {
+      throw this.queueFull(error as Error);
+    }
+
+    try {
+      return await analysis;
+    } catch (error) {
+      throw this.analysisFailed(error as Error);
+    }
+  }
+
+  /**
+   * Analyzes several repositories, a bounded number at a time, and responds
+   * with the result of each and a leaderboard once all have finished; failed
+   * repositories are reported in place of their results. Each repository's
+   * analysis waits its turn in the job queue, and fails if the queue is full
+   * @param request Repositories to analyze, as in a batch manifest
+   * @returns Batch results and leaderboard
+   * @throws HttpException 403 if a repository or configuration path is outside LOCAL_REPOSITORY_ROOT
+   */
+  @Post('analyze-batch')
+  async analyzeBatch(
+    @Body() request: AnalyzeBatchRequestDto,
+  ): Promise<BatchAnalysisResponseDto> {
+    const checkedRequest: AnalyzeBatchRequestDto = {
+      ...request,
+      repositories: await Promise.all(
+        request.repositories.map(async (repository) => ({
+          ...repository,
+          ...(repository.path && {
+            path: await this.resolveLocalRepository(repository.path),
+          }),
+          ...(repository.config && {
+            config: this.resolveLocalPath(repository.config),
+          }),
+        })),
+      ),
+    };
+
+    let batch: BatchAnalysisResponseDto;
+    try {
+      batch = await this.batchAnalysisService.analyzeBatch(checkedRequest, {
+        runAnalysis: (analysis) =>
+          this.analysisJobService.run((signal) => analysis(signal)),
+      });
+    } catch (error) {
+      throw this.analysisFailed(error as Error);
+    }
+
+    batch.repositories.forEach(
+      (repository) =>
+        repository.result && this.recordHistory(repository.result),
+    );
+    return batch;
+  }
+
+  /**
+   * Queues an analysis and responds immediately with the job
+   * @param request Analysis request
+   * @returns Queued job
+   * @throws HttpException 403 if the request has a local path outside LOCAL_REPOSITORY_ROOT
+   * @throws HttpException 503 if the job queue is full
+   */
+  @Post('jobs')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async submitJob(@Body() request: AnalyzeRequestDto): Promise<AnalysisJobDto> {
+    const checkedRequest = await this.checkLocalPath(request);
+    try {
+      return this.analysisJobService.submit((signal, onProgress) =>
+        this.runAnalysis(checkedRequest, signal, onProgress),
+      );
+    } catch (error) {
+      throw this.queueFull(error as Error);
+    }
+  }
+
+  /**
+   * Gets the status of an analysis job
+   * @param id Job ID
+   * @returns Job status
+   */
+  @Get('jobs/:id')
+  getJob(@Param('id') id: string): AnalysisJobDto {
+    return this.findJob(id);
+  }
+
+  /**
+   * Streams the status and progress of an analysis job as server-sent events
+   * ("status" and "progress"); the stream ends once the job has finished
+   * @param id Job ID
+   * @returns Event stream
+   */
+  @Sse('jobs/:id/events')
+  streamJobEvents(@Param('id') id: string): Observable<MessageEvent> {
+    const events = this.analysisJobService.watch(id);
+    if (!events) {
+      throw this.jobNotFound(id);
+    }
+    return events;
+  }
+
+  /**
+   * Gets the results of a completed analysis job
+   * @param id Job ID
+   * @returns Analysis results
+   */
+  @Get('jobs/:id/result')
+  getJobResult(@Param('id') id: string): AnalyzeResponseDto {
+    const job = this.findJob(id);
+
+    if (job.status === AnalysisJobStatus.FAILED) {
+      throw this.analysisFailed(new Error(job.error));
+    }
+
+    const result = this.analysisJobService.getResult(id);
+    if (!result) {
       throw new HttpException(
         {
-          message: 'Analysis failed',
-          error: (error as Error).message,
-          statusCode: HttpStatus.BAD_REQUEST,
+          message: `Analysis job is ${job.status}`,
+          status: job.status,
+          statusCode: HttpStatus.CONFLICT,
         },
-        HttpStatus.BAD_REQUEST,
+        HttpStatus.CONFLICT,
       );
     }
+
+    return result;
+  }
+
+  /**
+   * Cancels a queued or running analysis job
+   * @param id Job ID
+   * @returns Updated job status
+   */
+  @Delete('jobs/:id')
+  cancelJob(@Param('id') id: string): AnalysisJobDto {
+    const job = this.analysisJobService.cancel(id);
+    if (!job) {
+      throw this.jobNotFound(id);
+    }
+    return job;
+  }
+
+  /**
+   * Lists the recorded analysis runs of a repository
+   * @param repository Repository ID, or repository name as reported in the results (URL-encode "owner/name")
+   * @param branch Optional branch filter
+   * @param limit Optional number of most recent runs
+   * @returns Runs, oldest first, with their AI score change since the baseline
+   * @throws HttpException 409 if several repositories have the name
+   */
+  @Get('repositories/:repository/history')
+  getHistory(
+    @Param('repository') repository: string,
+    @Query('branch') branch?: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ): AnalysisHistoryDto {
+    const history = this.analysisHistoryService.getHistory(
+      this.findHistoryRepository(repository),
+      { branch, limit },
+    );
+    if (!history) {
+      throw this.historyNotFound(repository);
+    }
+    return history;
+  }
+
+  /**
+   * Gets a recorded analysis run with its results
+   * @param repository Repository ID or name
+   * @param runId Run number
+   * @returns The run, diffed against the baseline when one is set
+   * @throws HttpException 409 if several repositories have the name
+   */
+  @Get('repositories/:repository/history/:runId')
+  getHistoryRun(
+    @Param('repository') repository: string,
+    @Param('runId', ParseIntPipe) runId: number,
+  ): AnalysisRunDto {
+    const run = this.analysisHistoryService.getRun(
+      this.findHistoryRepository(repository),
+      runId,
+    );
+    if (!run) {
+      throw this.runNotFound(repository, runId);
+    }
+    return run;
+  }
+
+  /**
+   * Marks a recorded run as the baseline later runs are diffed against
+   * @param repository Repository ID or name
+   * @param request Run number
+   * @returns The baseline run
+   * @throws HttpException 409 if several repositories have the name
+   */
+  @Put('repositories/:repository/baseline')
+  setBaseline(
+    @Param('repository') repository: string,
+    @Body() request: SetBaselineRequestDto,
+  ): AnalysisRunSummary {
+    const run = this.analysisHistoryService.setBaseline(
+      this.findHistoryRepository(repository),
+      request.runId,
+    );
+    if (!run) {
+      throw this.runNotFound(repository, request.runId);
+    }
+    return run;
   }
 
   /**
@@ -50,4 +291,285 @@ export class GitAnalyzerController {
       timestamp: new Date().toISOString(),
     };
   }
+
+  /**
+   * Runs an analysis request against a remote URL or local path
+   * @param request Analysis request
+   * @param signal Optional signal that stops the analysis when aborted
+   * @param onProgress Optional progress listener
+   * @returns Analysis results
+   */
+  private async runAnalysis(
+    request: AnalyzeRequestDto,
+    signal?: AbortSignal,
+    onProgress?: AnalysisProgressListener,
+  ): Promise<AnalyzeResponseDto> {
+    const {
+      since,
+      until,
+      fromRef,
+      toRef,
+      scoreWeights,
+      interval,
+      mergeByName,
+      includeBots,
+    } = request;
+    const options: AnalysisOptions = {
+      filter: { since, until, fromRef, toRef },
+      scoreWeights,
+      interval,
+      mergeByName,
+      includeBots,
+      ...(signal && { signal }),
+      ...(onProgress && { onProgress }),
+    };
+
+    const result = request.repositoryPath
+      ? await this.analyzerService.analyzeLocalRepository(
+          request.repositoryPath,
+          request.branch,
+          options,
+        )
+      : await this.analyzerService.analyzeRepository(
+          request.repositoryUrl!,
+          request.branch,
+          options,
+        );
+
+    this.recordHistory(result);
+    return result;
+  }
+
+  /**
+   * Resolves the local path of an analysis request, if it has one
+   * @param request Analysis request
+   * @returns The request, with its repositoryPath resolved inside the root
+   */
+  private async checkLocalPath(
+    request: AnalyzeRequestDto,
+  ): Promise<AnalyzeRequestDto> {
+    return request.repositoryPath
+      ? {
+          ...request,
+          repositoryPath: await this.resolveLocalRepository(
+            request.repositoryPath,
+          ),
+        }
+      : request;
+  }
+
+  /**
+   * Resolves a repository path sent by a client like resolveLocalPath, then
+   * checks the repository git opens from it: from a directory that is not a
+   * repository itself, git looks upward and may find one above the root
+   * @param localPath Repository path from the request
+   * @returns Absolute path inside the root
+   * @throws HttpException 403 if the path or its repository is outside the root
+   */
+  private async resolveLocalRepository(localPath: string): Promise<string> {
+    const resolved = this.resolveLocalPath(localPath);
+
+    let repoPath: string;
+    try {
+      ({ repoPath } = await this.gitService.openRepository(resolved));
+    } catch {
+      // Not a repository at all; the analysis reports it
+      return resolved;
+    }
+
+    if (!this.isInsideRoot(this.localRoot(), this.realPath(repoPath))) {
+      throw this.localPathForbidden(
+        `${localPath} is inside a repository outside LOCAL_REPOSITORY_ROOT`,
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Resolves a path sent by a client against LOCAL_REPOSITORY_ROOT, following
+   * symbolic links, so clients can only reach the directories the server
+   * shares. Relative paths are relative to the root.
+   * @param localPath Path from the request
+   * @returns Absolute path inside the root
+   * @throws HttpException 403 if local paths are disabled or the path resolves outside the root
+   */
+  private resolveLocalPath(localPath: string): string {
+    const realRoot = this.localRoot();
+    const resolved = this.realPath(path.resolve(realRoot, localPath));
+    if (!this.isInsideRoot(realRoot, resolved)) {
+      throw this.localPathForbidden(
+        `${localPath} is outside LOCAL_REPOSITORY_ROOT`,
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Gets LOCAL_REPOSITORY_ROOT with its symbolic links followed
+   * @throws HttpException 403 if local paths are disabled
+   */
+  private localRoot(): string {
+    const root = this.configService.get<string>('localRepositories.root');
+    if (!root) {
+      throw this.localPathForbidden(
+        'Local paths are disabled; set LOCAL_REPOSITORY_ROOT to allow them',
+      );
+    }
+    return this.realPath(path.resolve(root));
+  }
+
+  /**
+   * Checks whether a resolved path is the root or lies below it
+   */
+  private isInsideRoot(realRoot: string, resolved: string): boolean {
+    const relative = path.relative(realRoot, resolved);
+    return !(
+      relative === '..' ||
+      relative.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relative)
+    );
+  }
+
+  /**
+   * Follows symbolic links; paths that do not exist are kept as they are,
+   * for the analysis to report
+   */
+  private realPath(localPath: string): string {
+    try {
+      return fs.realpathSync(localPath);
+    } catch {
+      return localPath;
+    }
+  }
+
+  /**
+   * Saves results to the analysis history; a failed write is logged rather
+   * than failing the analysis
+   */
+  private recordHistory(result: AnalyzeResponseDto): void {
+    try {
+      this.analysisHistoryService.record(result);
+    } catch (error) {
+      this.logger.warn((error as Error).message);
+    }
+  }
+
+  /**
+   * Resolves the repository of a history route to the ID its runs are kept
+   * under; a name only resolves when a single repository has it
+   * @throws HttpException 404 without recorded runs, 409 if several repositories have the name
+   */
+  private findHistoryRepository(repository: string): string {
+    const repositoryIds =
+      this.analysisHistoryService.findRepositoryIds(repository);
+    if (repositoryIds.length === 0) {
+      throw this.historyNotFound(repository);
+    }
+    if (repositoryIds.length > 1) {
+      throw new HttpException(
+        {
+          message: 'Ambiguous repository name',
+          error: `Several repositories are named ${repository}; use the repositoryId of one of them: ${repositoryIds.join(', ')}`,
+          statusCode: HttpStatus.CONFLICT,
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+    return repositoryIds[0];
+  }
+
+  /**
+   * Gets a job or responds with 404
+   */
+  private findJob(id: string): AnalysisJobDto {
+    const job = this.analysisJobService.getJob(id);
+    if (!job) {
+      throw this.jobNotFound(id);
+    }
+    return job;
+  }
+
+  /**
+   * Builds the 400 response for a failed analysis
+   */
+  private analysisFailed(error: Error): HttpException {
+    return new HttpException(
+      {
+        message: 'Analysis failed',
+        error: error.message,
+        statusCode: HttpStatus.BAD_REQUEST,
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+
+  /**
+   * Builds the 503 response for an analysis the job queue has no room for
+   */
+  private queueFull(error: Error): HttpException {
+    return new HttpException(
+      {
+        message: 'Analysis queue is full',
+        error: error.message,
+        statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+      },
+      HttpStatus.SERVICE_UNAVAILABLE,
+    );
+  }
+
+  /**
+   * Builds the 403 response for a local path the client may not analyze
+   */
+  private localPathForbidden(error: string): HttpException {
+    return new HttpException(
+      {
+        message: 'Local path not allowed',
+        error,
+        statusCode: HttpStatus.FORBIDDEN,
+      },
+      HttpStatus.FORBIDDEN,
+    );
+  }
+
+  /**
+   * Builds the 404 response for a repository without recorded runs
+   */
+  private historyNotFound(repository: string): HttpException {
+    return new HttpException(
+      {
+        message: 'Analysis history not found',
+        error: `No recorded runs of ${repository}`,
+        statusCode: HttpStatus.NOT_FOUND,
+      },
+      HttpStatus.NOT_FOUND,
+    );
+  }
+
+  /**
+   * Builds the 404 response for an unknown or pruned run
+   */
+  private runNotFound(repository: string, runId: number): HttpException {
+    return new HttpException(
+      {
+        message: 'Analysis run not found',
+        error: `No run ${runId} of ${repository}`,
+        statusCode: HttpStatus.NOT_FOUND,
+      },
+      HttpStatus.NOT_FOUND,
+    );
+  }
+
+  /**
+   * Builds the 404 response for an unknown or expired job
+   */
+  private jobNotFound(id: string): HttpException {
+    return new HttpException(
+      {
+        message: 'Analysis job not found',
+        error: `No job with id ${id}`,
+        statusCode: HttpStatus.NOT_FOUND,
+      },
+      HttpStatus.NOT_FOUND,
+    );
+  }
 }
@@ -0,0 +1,114 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisCacheService } from './analysis-cache.service';
+import { CommitInfo } from './git.service';
+
+describe('AnalysisCacheService', () => {
+  let directory: string;
+
+  const createService = () =>
+    new AnalysisCacheService({
+      get: (key: string) => ({ 'analysisCache.directory': directory })[key],
+    } as unknown as ConfigService);
+
+  const commit: CommitInfo = {
+    hash: 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678',
+    author: 'Jane',
+    email: 'jane@example.com',
+    date: new Date('2024-06-01T10:00:00.000Z'),
+    message: 'Add parser',
+    body: '',
+    filesChanged: 1,
+    insertions: 120,
+    deletions: 4,
+    files: ['src/parser.ts'],
+  };
+
+  /** Backdates every entry of the cache */
+  const age = (days: number) => {
+    const time = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    (fs.readdirSync(directory, { recursive: true }) as string[])
+      .map((entry) => path.join(directory, entry))
+      .filter((entry) => fs.statSync(entry).isFile())
+      .forEach((entry) => fs.utimesSync(entry, time, time));
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should store commits and file analyses by hash', () => {
+    const service = createService();
+    const analysis = { generated: false, lines: 3, results: { 'a:v1': 2 } };
+    service.setCommit(commit);
+    service.setFileAnalysis('ce0136250', '.ts', analysis);
+
+    // Another instance reads the same store, as later runs do
+    const reader = createService();
+    expect(reader.getCommit(commit.hash)).toEqual(commit);
+    expect(reader.getFileAnalysis('ce0136250', '.ts')).toEqual(analysis);
+    expect(reader.getFileAnalysis('ce0136250', '.py')).toBeUndefined();
+    expect(reader.getCommit('ffff')).toBeUndefined();
+    expect(
+      fs.existsSync(
+        path.join(directory, 'v2', 'commits', 'a1', `${commit.hash}.json`),
+      ),
+    ).toBe(true);
+  });
+
+  it('should treat unreadable entries as missing', () => {
+    const entryDirectory = path.join(directory, 'v2', 'commits', 'a1');
+    fs.mkdirSync(entryDirectory, { recursive: true });
+    fs.writeFileSync(
+      path.join(entryDirectory, `${commit.hash}.json`),
+      '{"hash": ',
+    );
+
+    expect(createService().getCommit(commit.hash)).toBeUndefined();
+  });
+
+  it('should prune the entries not used recently', () => {
+    const service = createService();
+    service.setCommit(commit);
+    service.setCommit({ ...commit, hash: 'b2c3d4' });
+    age(40);
+
+    // Reading an entry marks it as used
+    service.getCommit(commit.hash);
+    const result = service.prune({ maxAgeDays: 30 });
+
+    expect(result).toMatchObject({ removedEntries: 1, remainingEntries: 1 });
+    expect(result.removedBytes).toBeGreaterThan(0);
+    expect(service.getCommit(commit.hash)).toEqual(commit);
+    expect(service.getCommit('b2c3d4')).toBeUndefined();
+    // Emptied shard directories are removed, and recreated on the next write
+    expect(fs.existsSync(path.join(directory, 'v2', 'commits', 'b2'))).toBe(
+      false,
+    );
+    service.setCommit({ ...commit, hash: 'b2c3d4' });
+    expect(service.getCommit('b2c3d4')).toBeDefined();
+  });
+
+  it('should prune every entry', () => {
+    const service = createService();
+    service.setCommit(commit);
+    service.setFileAnalysis('ce0136250', '.ts', {
+      generated: true,
+      lines: 0,
+      results: {},
+    });
+
+    expect(service.prune({ all: true })).toMatchObject({
+      removedEntries: 2,
+      remainingEntries: 0,
+      remainingBytes: 0,
+    });
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommitCache, CommitInfo } from './git.service';
+import {
+  FileAnalysisCache,
+  FileContentAnalysis,
+} from './metrics/ai-indicators/file-system-scanner.service';
+
+/**
+ * Directory of the cache when ANALYSIS_CACHE_DIR is not set
+ */
+export const DEFAULT_CACHE_DIRECTORY = path.join(
+  os.homedir(),
+  '.git-analyzer',
+  'cache',
+);
+
+/**
+ * Entries unused for longer than this are removed by prune() unless told otherwise
+ */
+export const DEFAULT_CACHE_MAX_AGE_DAYS = 30;
+
+/**
+ * Layout of the entries; bumped when the parsing of commits changes, so
+ * entries written by older versions are no longer read
+ */
+const CACHE_VERSION = 'v2';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CachePruneOptions {
+  /** Removes the entries not used for this many days (default: DEFAULT_CACHE_MAX_AGE_DAYS) */
+  maxAgeDays?: number;
+  /** Removes every entry */
+  all?: boolean;
+}
+
+export interface CachePruneResult {
+  removedEntries: number;
+  removedBytes: number;
+  remainingEntries: number;
+  remainingBytes: number;
+}
+
+/**
+ * Persistent, content-addressed cache of analysis data shared by all
+ * repositories: parsed commits keyed by commit hash, and file content
+ * analyses keyed by blob hash and extension. Entries never go stale, since
+ * their keys cover their contents; reading an entry marks it as used, so
+ * prune() removes only what recent runs did not need. The cache is best
+ * effort: unreadable entries count as missing and failed writes are ignored.
+ */
+@Injectable()
+export class AnalysisCacheService implements CommitCache, FileAnalysisCache {
+  private readonly directory: string;
+
+  /** Shard directories known to exist, so they are created once per process */
+  private readonly createdDirectories = new Set<string>();
+
+  /**
+   * @param configService Application configuration (absent in the CLI), read for analysisCache.directory
+   */
+  constructor(@Optional() configService?: ConfigService) {
+    this.directory =
+      configService?.get<string>('analysisCache.directory') ??
+      DEFAULT_CACHE_DIRECTORY;
+  }
+
+  /**
+   * Gets a parsed commit
+   * @param hash Full commit hash
+   * @returns The commit, or undefined when it is not cached
+   */
+  getCommit(hash: string): CommitInfo | undefined {
+    const commit = this.read<CommitInfo>(this.getEntryPath('commits', hash));
+    return commit && { ...commit, date: new Date(commit.date) };
+  }
+
+  /**
+   * Stores a parsed commit
+   * @param commit Commit with its diff stats
+   */
+  setCommit(commit: CommitInfo): void {
+    this.write(this.getEntryPath('commits', commit.hash), commit);
+  }
+
+  /**
+   * Gets the analysis of a file content
+   * @param blobHash Hash of the content
+   * @param extension File extension
+   * @returns The analysis, or undefined when it is not cached
+   */
+  getFileAnalysis(
+    blobHash: string,
+    extension: string,
+  ): FileContentAnalysis | undefined {
+    return this.read<FileContentAnalysis>(
+      this.getEntryPath('files', blobHash, extension),
+    );
+  }
+
+  /**
+   * Stores the analysis of a file content
+   * @param blobHash Hash of the content
+   * @param extension File extension
+   * @param analysis Analysis of the content
+   */
+  setFileAnalysis(
+    blobHash: string,
+    extension: string,
+    analysis: FileContentAnalysis,
+  ): void {
+    this.write(this.getEntryPath('files', blobHash, extension), analysis);
+  }
+
+  /**
+   * Removes the entries not used recently, or all of them
+   * @param options Maximum age of the entries kept, or whether to remove all
+   * @returns Number and size of the removed and remaining entries
+   * @throws Error if the cache directory cannot be read or an entry cannot be removed
+   */
+  prune(options: CachePruneOptions = {}): CachePruneResult {
+    const cutoff = options.all
+      ? Infinity
+      : Date.now() -
+        (options.maxAgeDays ?? DEFAULT_CACHE_MAX_AGE_DAYS) * DAY_MS;
+    const result: CachePruneResult = {
+      removedEntries: 0,
+      removedBytes: 0,
+      remainingEntries: 0,
+      remainingBytes: 0,
+    };
+
+    /** Prunes a directory and returns whether it is left empty */
+    const pruneDirectory = (directory: string): boolean => {
+      const entries = fs.readdirSync(directory, { withFileTypes: true });
+      let remaining = entries.length;
+
+      entries.forEach((entry) => {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          if (pruneDirectory(entryPath)) {
+            fs.rmdirSync(entryPath);
+            remaining--;
+          }
+          return;
+        }
+
+        const { size, mtimeMs } = fs.statSync(entryPath);
+        if (mtimeMs < cutoff) {
+          fs.rmSync(entryPath, { force: true });
+          result.removedEntries++;
+          result.removedBytes += size;
+          remaining--;
+        } else {
+          result.remainingEntries++;
+          result.remainingBytes += size;
+        }
+      });
+
+      return remaining === 0;
+    };
+
+    try {
+      if (fs.existsSync(this.directory)) {
+        pruneDirectory(this.directory);
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to prune analysis cache ${this.directory}: ${(error as Error).message}`,
+      );
+    }
+
+    // Pruned shard directories may have to be created again
+    this.createdDirectories.clear();
+    return result;
+  }
+
+  /**
+   * Gets the directory holding the cache
+   * @returns Absolute path
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Reads an entry and marks it as used
+   * @returns The entry, or undefined when it is missing or unreadable
+   */
+  private read<T>(entryPath: string): T | undefined {
+    try {
+      const entry = JSON.parse(fs.readFileSync(entryPath, 'utf8')) as T;
+      const now = new Date();
+      fs.utimesSync(entryPath, now, now);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes an entry through a temporary file, so concurrent analyses never
+   * read a partial entry
+   */
+  private write(entryPath: string, value: unknown): void {
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+
+    try {
+      const directory = path.dirname(entryPath);
+      if (!this.createdDirectories.has(directory)) {
+        fs.mkdirSync(directory, { recursive: true });
+        this.createdDirectories.add(directory);
+      }
+      fs.writeFileSync(tempPath, JSON.stringify(value));
+      fs.renameSync(tempPath, entryPath);
+    } catch {
+      fs.rmSync(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Entries are spread over directories named after the first two hex digits
+   * of their hash, so no directory grows too large
+   */
+  private getEntryPath(
+    kind: 'commits' | 'files',
+    hash: string,
+    extension = '',
+  ): string {
+    return path.join(
+      this.directory,
+      CACHE_VERSION,
+      kind,
+      hash.slice(0, 2),
+      `${hash}${extension}.json`,
+    );
+  }
+}
@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisHistoryService } from './analysis-history.service';
+import { AnalysisModule } from './analysis.module';
+import { ReportComparisonService } from './report-comparison.service';
+import {
+  MetricRegistryService,
+  MetricValues,
+} from './metrics/metric-registry.service';
+import {
+  AIScore,
+  AnalyzeResponseDto,
+} from '../routes/dto/analyze-response.dto';
+
+describe('AnalysisHistoryService', () => {
+  let directory: string;
+  let registry: MetricRegistryService;
+  let reportComparisonService: ReportComparisonService;
+
+  const createService = (maxRuns?: number) =>
+    new AnalysisHistoryService(reportComparisonService, {
+      get: (key: string) =>
+        ({
+          'analysisHistory.directory': directory,
+          'analysisHistory.maxRuns': maxRuns,
+        })[key],
+    } as unknown as ConfigService);
+
+  const createResult = (
+    overrides: Partial<AnalyzeResponseDto> = {},
+    values: MetricValues = {},
+    aiScore?: number,
+  ): AnalyzeResponseDto =>
+    ({
+      repository: 'acme/api',
+      repositoryId: 'github.com/acme/api',
+      branch: 'main',
+      headCommit: 'a1b2c3d',
+      analyzedAt: '2024-06-01T00:00:00.000Z',
+      metrics: {
+        totalCommits: 10,
+        contributors: 2,
+        contributorStats: [],
+        aiIndicators: registry.toIndicators(values),
+        ...(aiScore !== undefined && {
+          aiScore: { value: aiScore } as AIScore,
+        }),
+      },
+      ...overrides,
+    }) as AnalyzeResponseDto;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AnalysisModule],
+    }).compile();
+    await module.init();
+
+    registry = module.get<MetricRegistryService>(MetricRegistryService);
+    reportComparisonService = module.get<ReportComparisonService>(
+      ReportComparisonService,
+    );
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should record runs and list them, oldest first', () => {
+    const service = createService();
+    service.record(createResult());
+    service.record(
+      createResult({
+        branch: 'develop',
+        headCommit: 'e4f5a6b',
+        analyzedAt: '2024-06-02T00:00:00.000Z',
+      }),
+    );
+    service.record(createResult({ analyzedAt: '2024-06-03T00:00:00.000Z' }));
+
+    // Another instance reads the same store, as the CLI and the API do
+    const history = createService().getHistory('github.com/acme/api');
+    expect(history).toEqual({
+      repository: 'acme/api',
+      repositoryId: 'github.com/acme/api',
+      runs: [
+        expect.objectContaining({
+          id: 1,
+          branch: 'main',
+          headCommit: 'a1b2c3d',
+        }),
+        expect.objectContaining({
+          id: 2,
+          branch: 'develop',
+          headCommit: 'e4f5a6b',
+          analyzedAt: '2024-06-02T00:00:00.000Z',
+          totalCommits: 10,
+          isBaseline: false,
+        }),
+        expect.objectContaining({ id: 3, branch: 'main' }),
+      ],
+    });
+    expect(
+      service
+        .getHistory('github.com/acme/api', { branch: 'main', limit: 1 })
+        ?.runs.map((run) => run.id),
+    ).toEqual([3]);
+    expect(fs.readdirSync(directory)).toEqual([
+      expect.stringMatching(/^acme%2Fapi~[0-9a-f]{12}\.json$/),
+    ]);
+    expect(service.getHistory('github.com/acme/web')).toBeUndefined();
+  });
+
+  it('should keep repositories sharing a name apart', () => {
+    const service = createService();
+    service.record(createResult({}, {}, 30));
+    service.record(
+      createResult({ repositoryId: 'gitlab.example.com/acme/api' }, {}, 60),
+    );
+    service.record(createResult({}, {}, 40));
+    service.setBaseline('github.com/acme/api', 1);
+
+    expect(
+      service.getHistory('github.com/acme/api')?.runs.map((run) => run.id),
+    ).toEqual([1, 2]);
+    expect(service.getHistory('gitlab.example.com/acme/api')).toMatchObject({
+      repository: 'acme/api',
+      runs: [{ id: 1, aiScore: 60, isBaseline: false }],
+    });
+    expect(
+      service.getHistory('gitlab.example.com/acme/api')?.baselineRunId,
+    ).toBeUndefined();
+
+    expect(service.findRepositoryIds('github.com/acme/api')).toEqual([
+      'github.com/acme/api',
+    ]);
+    expect(service.findRepositoryIds('acme/api').sort()).toEqual([
+      'github.com/acme/api',
+      'gitlab.example.com/acme/api',
+    ]);
+    expect(service.findRepositoryIds('acme/web')).toEqual([]);
+  });
+
+  it('should keep results without a repository ID under their name', () => {
+    const service = createService();
+    service.record(createResult({ repositoryId: undefined }));
+
+    expect(service.findRepositoryIds('acme/api')).toEqual(['acme/api']);
+    expect(service.getHistory('acme/api')?.runs).toHaveLength(1);
+  });
+
+  it('should diff later runs against the baseline', () => {
+    const service = createService();
+    service.record(createResult({}, { largeCommitPercentage: 5 }, 30));
+    service.record(createResult({}, { largeCommitPercentage: 8 }, 35));
+
+    expect(service.setBaseline('github.com/acme/api', 1)).toMatchObject({
+      id: 1,
+      isBaseline: true,
+    });
+    expect(service.setBaseline('github.com/acme/api', 9)).toBeUndefined();
+
+    const run = service.record(
+      createResult({}, { largeCommitPercentage: 25 }, 52.5),
+    );
+    expect(run).toMatchObject({
+      id: 3,
+      aiScore: 52.5,
+      aiScoreDelta: 22.5,
+      baselineRunId: 1,
+    });
+    expect(run.baselineComparison?.aiScoreDelta).toBe(22.5);
+    expect(
+      run.baselineComparison?.indicators.find(
+        (indicator) => indicator.indicator === 'largeCommitPercentage',
+      ),
+    ).toMatchObject({ before: 5, after: 25, delta: 20, crossing: 'raised' });
+
+    expect(service.getHistory('github.com/acme/api')).toMatchObject({
+      baselineRunId: 1,
+      runs: [
+        { id: 1, isBaseline: true },
+        { id: 2, isBaseline: false, aiScoreDelta: 5 },
+        { id: 3, isBaseline: false, aiScoreDelta: 22.5 },
+      ],
+    });
+    expect(
+      service.getRun('github.com/acme/api', 1)?.baselineComparison,
+    ).toBeUndefined();
+    expect(
+      service.getRun('github.com/acme/api', 2)?.result.metrics.aiScore?.value,
+    ).toBe(35);
+    expect(service.getRun('github.com/acme/api', 9)).toBeUndefined();
+  });
+
+  it('should drop the oldest runs beyond the limit but keep the baseline', () => {
+    const service = createService(2);
+    service.record(createResult());
+    service.setBaseline('github.com/acme/api', 1);
+    service.record(createResult());
+    service.record(createResult());
+    service.record(createResult());
+
+    expect(
+      service.getHistory('github.com/acme/api')?.runs.map((run) => run.id),
+    ).toEqual([1, 4]);
+  });
+
+  it('should reject a corrupted history file', () => {
+    const hash = createHash('sha1')
+      .update('github.com/acme/api')
+      .digest('hex')
+      .slice(0, 12);
+    fs.writeFileSync(
+      path.join(directory, `acme%2Fapi~${hash}.json`),
+      '{"runs": [',
+    );
+
+    expect(() => createService().getHistory('github.com/acme/api')).toThrow(
+      'Failed to read analysis history',
+    );
+  });
+});
@@ -0,0 +1,329 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AnalysisHistoryDto,
+  AnalysisRunDto,
+  AnalysisRunSummary,
+} from '../routes/dto/analysis-history.dto';
+import { AnalyzeResponseDto } from '../routes/dto/analyze-response.dto';
+import { ReportComparisonService } from './report-comparison.service';
+
+/**
+ * Directory of the history store when ANALYSIS_HISTORY_DIR is not set
+ */
+export const DEFAULT_HISTORY_DIRECTORY = path.join(
+  os.homedir(),
+  '.git-analyzer',
+  'history',
+);
+
+/**
+ * Runs kept per repository when ANALYSIS_HISTORY_MAX_RUNS is not set
+ */
+export const DEFAULT_HISTORY_MAX_RUNS = 100;
+
+interface StoredRun {
+  id: number;
+  branch: string;
+  headCommit?: string;
+  analyzedAt: string;
+  result: AnalyzeResponseDto;
+}
+
+/**
+ * Contents of a repository's history file
+ */
+interface HistoryFile {
+  /** Repository name, as reported in the analysis results */
+  repository: string;
+  /** Repository ID the history is kept under */
+  repositoryId: string;
+  baselineRunId?: number;
+  nextRunId: number;
+  runs: StoredRun[];
+}
+
+export interface HistoryQuery {
+  /** Only runs of this branch */
+  branch?: string;
+  /** Only the most recent runs */
+  limit?: number;
+}
+
+@Injectable()
+export class AnalysisHistoryService {
+  private readonly directory: string;
+  private readonly maxRuns: number;
+
+  /**
+   * @param reportComparisonService Diffs runs against the baseline
+   * @param configService Application configuration (absent in the CLI), read for analysisHistory.directory and analysisHistory.maxRuns
+   */
+  constructor(
+    private readonly reportComparisonService: ReportComparisonService,
+    @Optional() configService?: ConfigService,
+  ) {
+    this.directory =
+      configService?.get<string>('analysisHistory.directory') ??
+      DEFAULT_HISTORY_DIRECTORY;
+    this.maxRuns = Math.max(
+      1,
+      configService?.get<number>('analysisHistory.maxRuns') ??
+        DEFAULT_HISTORY_MAX_RUNS,
+    );
+  }
+
+  /**
+   * Saves the results of an analysis as the next run of its repository. The
+   * oldest runs beyond the retention limit are dropped, except the baseline.
+   * Runs are kept per repository ID, so repositories sharing a name (two
+   * checkouts named "api", or owner/name on two hosts) have their own history.
+   * @param result Analysis results
+   * @returns The recorded run, diffed against the baseline when one is set
+   * @throws Error if the history file cannot be read or written
+   */
+  record(result: AnalyzeResponseDto): AnalysisRunDto {
+    // Results without an ID are kept under their name
+    const repositoryId = result.repositoryId ?? result.repository;
+    const history = this.read(repositoryId) ?? {
+      repository: result.repository,
+      repositoryId,
+      nextRunId: 1,
+      runs: [],
+    };
+
+    const run: StoredRun = {
+      id: history.nextRunId++,
+      branch: result.branch,
+      ...(result.headCommit && { headCommit: result.headCommit }),
+      analyzedAt: result.analyzedAt,
+      result,
+    };
+    history.runs.push(run);
+
+    const excess = history.runs.length - this.maxRuns;
+    if (excess > 0) {
+      const dropped = new Set(
+        history.runs
+          .filter((stored) => stored.id !== history.baselineRunId)
+          .slice(0, excess)
+          .map((stored) => stored.id),
+      );
+      history.runs = history.runs.filter((stored) => !dropped.has(stored.id));
+    }
+
+    this.write(history);
+    return this.toRunDto(history, run);
+  }
+
+  /**
+   * Finds the repositories a name or ID refers to in the history
+   * @param repository Repository ID, or repository name as reported in the analysis results
+   * @returns The ID itself when it has a history, else the IDs of the repositories with that name
+   * @throws Error if a history file cannot be read
+   */
+  findRepositoryIds(repository: string): string[] {
+    if (this.read(repository)) {
+      return [repository];
+    }
+
+    const name = encodeURIComponent(repository);
+    return this.listFiles()
+      .filter((file) => file.name === name)
+      .map((file) => this.readFile(file.filePath).repositoryId);
+  }
+
+  /**
+   * Lists the recorded runs of a repository
+   * @param repository Repository ID
+   * @param query Optional branch and limit
+   * @returns Runs, oldest first, or undefined when the repository has no history
+   * @throws Error if the history file cannot be read
+   */
+  getHistory(
+    repository: string,
+    query: HistoryQuery = {},
+  ): AnalysisHistoryDto | undefined {
+    const history = this.read(repository);
+    if (!history) {
+      return undefined;
+    }
+
+    const runs = history.runs.filter(
+      (run) => !query.branch || run.branch === query.branch,
+    );
+
+    return {
+      repository: history.repository,
+      repositoryId: history.repositoryId,
+      ...(history.baselineRunId !== undefined && {
+        baselineRunId: history.baselineRunId,
+      }),
+      runs: runs
+        .slice(query.limit ? -query.limit : 0)
+        .map((run) => this.toSummary(history, run)),
+    };
+  }
+
+  /**
+   * Gets a recorded run with its results
+   * @param repository Repository ID
+   * @param runId Run number
+   * @returns The run, diffed against the baseline when one is set, or undefined for unknown runs
+   * @throws Error if the history file cannot be read
+   */
+  getRun(repository: string, runId: number): AnalysisRunDto | undefined {
+    const history = this.read(repository);
+    const run = history?.runs.find((stored) => stored.id === runId);
+    return history && run && this.toRunDto(history, run);
+  }
+
+  /**
+   * Marks a run as the baseline of its repository; later runs are diffed against it
+   * @param repository Repository ID
+   * @param runId Run number
+   * @returns The baseline run, or undefined for unknown runs
+   * @throws Error if the history file cannot be read or written
+   */
+  setBaseline(
+    repository: string,
+    runId: number,
+  ): AnalysisRunSummary | undefined {
+    const history = this.read(repository);
+    const run = history?.runs.find((stored) => stored.id === runId);
+    if (!history || !run) {
+      return undefined;
+    }
+
+    history.baselineRunId = runId;
+    this.write(history);
+    return this.toSummary(history, run);
+  }
+
+  private toSummary(history: HistoryFile, run: StoredRun): AnalysisRunSummary {
+    const aiScore = run.result.metrics.aiScore?.value;
+    const baselineScore =
+      this.getBaseline(history)?.result.metrics.aiScore?.value;
+
+    return {
+      id: run.id,
+      repository: history.repository,
+      repositoryId: history.repositoryId,
+      branch: run.branch,
+      ...(run.headCommit && { headCommit: run.headCommit }),
+      analyzedAt: run.analyzedAt,
+      totalCommits: run.result.metrics.totalCommits,
+      ...(aiScore !== undefined && { aiScore }),
+      isBaseline: run.id === history.baselineRunId,
+      ...(aiScore !== undefined &&
+        baselineScore !== undefined &&
+        run.id !== history.baselineRunId && {
+          aiScoreDelta: Math.round((aiScore - baselineScore) * 100) / 100,
+        }),
+    };
+  }
+
+  private toRunDto(history: HistoryFile, run: StoredRun): AnalysisRunDto {
+    const baseline = this.getBaseline(history);
+    return {
+      ...this.toSummary(history, run),
+      result: run.result,
+      ...(baseline &&
+        baseline.id !== run.id && {
+          baselineRunId: baseline.id,
+          baselineComparison: this.reportComparisonService.compare(
+            baseline.result,
+            run.result,
+          ),
+        }),
+    };
+  }
+
+  private getBaseline(history: HistoryFile): StoredRun | undefined {
+    return history.runs.find((run) => run.id === history.baselineRunId);
+  }
+
+  /**
+   * Reads a repository's history file
+   * @param repositoryId Repository ID
+   * @returns The history, or undefined when the repository has none
+   */
+  private read(repositoryId: string): HistoryFile | undefined {
+    const hash = this.hashId(repositoryId);
+    const file = this.listFiles().find((candidate) => candidate.hash === hash);
+    const history = file && this.readFile(file.filePath);
+    return history?.repositoryId === repositoryId ? history : undefined;
+  }
+
+  private readFile(filePath: string): HistoryFile {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as HistoryFile;
+    } catch (error) {
+      throw new Error(
+        `Failed to read analysis history ${filePath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Writes a repository's history file, through a temporary file so an
+   * interrupted write leaves the previous history in place
+   */
+  private write(history: HistoryFile): void {
+    const filePath = this.getFilePath(history);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(history));
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true });
+      throw new Error(
+        `Failed to write analysis history ${filePath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * One file per repository ID, named after the repository and a hash of
+   * the ID, so both lookups only list the directory. The name is encoded
+   * so "owner/name" stays in the directory.
+   */
+  private getFilePath(history: HistoryFile): string {
+    return path.join(
+      this.directory,
+      `${encodeURIComponent(history.repository)}~${this.hashId(history.repositoryId)}.json`,
+    );
+  }
+
+  /**
+   * Lists the history files with the encoded repository name and ID hash of each
+   */
+  private listFiles(): Array<{ name: string; hash: string; filePath: string }> {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.directory).flatMap((file) => {
+      const match = /^(.+)~([0-9a-f]{12})\.json$/.exec(file);
+      return match
+        ? [
+            {
+              name: match[1],
+              hash: match[2],
+              filePath: path.join(this.directory, file),
+            },
+          ]
+        : [];
+    });
+  }
+
+  private hashId(repositoryId: string): string {
+    return createHash('sha1').update(repositoryId).digest('hex').slice(0, 12);
+  }
+}
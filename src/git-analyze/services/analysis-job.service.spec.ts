@@ -0,0 +1,315 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { lastValueFrom, toArray } from 'rxjs';
+import { ConfigService } from '@nestjs/config';
+import { AnalysisJobService } from './analysis-job.service';
+import { AnalyzeResponseDto } from '../routes/dto/analyze-response.dto';
+import { AnalysisJobStatus } from '../routes/dto/analysis-job.dto';
+import {
+  AnalysisPhase,
+  AnalysisProgressEvent,
+  AnalysisProgressListener,
+} from '../routes/dto/analysis-progress.dto';
+
+/**
+ * Creates a task whose completion is controlled by the test
+ */
+const deferredTask = () => {
+  let resolve!: (result: AnalyzeResponseDto) => void;
+  let reject!: (error: Error) => void;
+  let signal: AbortSignal | undefined;
+  let onProgress: AnalysisProgressListener | undefined;
+  const task = jest.fn(
+    (taskSignal: AbortSignal, progressListener: AnalysisProgressListener) => {
+      signal = taskSignal;
+      onProgress = progressListener;
+      return new Promise<AnalyzeResponseDto>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+    },
+  );
+
+  return {
+    task,
+    resolve: (result: AnalyzeResponseDto) => resolve(result),
+    reject: (error: Error) => reject(error),
+    signal: () => signal,
+    progress: (event: AnalysisProgressEvent) => onProgress?.(event),
+  };
+};
+
+/**
+ * Lets settled task promises update their jobs
+ */
+const flushJobs = () => new Promise((resolve) => setImmediate(resolve));
+
+const RESULT = { repository: 'user/repo' } as AnalyzeResponseDto;
+
+const SCAN_PROGRESS: AnalysisProgressEvent = {
+  phase: AnalysisPhase.SCAN,
+  state: 'running',
+  elapsedMs: 1200,
+  percentage: 50,
+  filesScanned: 10,
+  totalFiles: 20,
+};
+
+describe('AnalysisJobService', () => {
+  let service: AnalysisJobService;
+
+  const createService = async (config: Record<string, number> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalysisJobService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    return module.get<AnalysisJobService>(AnalysisJobService);
+  };
+
+  beforeEach(async () => {
+    service = await createService({
+      'analysisJobs.concurrency': 1,
+      'analysisJobs.maxQueued': 2,
+    });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should run a job and keep its result', async () => {
+    const { task, resolve } = deferredTask();
+
+    const job = service.submit(task);
+    expect(job.status).toBe(AnalysisJobStatus.RUNNING);
+    expect(service.getResult(job.id)).toBeUndefined();
+
+    resolve(RESULT);
+    await flushJobs();
+
+    expect(service.getJob(job.id)).toMatchObject({
+      status: AnalysisJobStatus.COMPLETED,
+      startedAt: expect.any(String),
+      finishedAt: expect.any(String),
+    });
+    expect(service.getResult(job.id)).toBe(RESULT);
+  });
+
+  it('should record the error of a failed job', async () => {
+    const { task, reject } = deferredTask();
+
+    const job = service.submit(task);
+    reject(new Error('Analysis failed: boom'));
+    await flushJobs();
+
+    expect(service.getJob(job.id)).toMatchObject({
+      status: AnalysisJobStatus.FAILED,
+      error: 'Analysis failed: boom',
+    });
+    expect(service.getResult(job.id)).toBeUndefined();
+  });
+
+  it('should not run more jobs than the configured concurrency', async () => {
+    const first = deferredTask();
+    const second = deferredTask();
+
+    const firstJob = service.submit(first.task);
+    const secondJob = service.submit(second.task);
+
+    expect(secondJob).toMatchObject({
+      status: AnalysisJobStatus.QUEUED,
+      queuePosition: 1,
+    });
+    expect(second.task).not.toHaveBeenCalled();
+
+    first.resolve(RESULT);
+    await flushJobs();
+
+    expect(service.getJob(firstJob.id)?.status).toBe(
+      AnalysisJobStatus.COMPLETED,
+    );
+    expect(service.getJob(secondJob.id)?.status).toBe(
+      AnalysisJobStatus.RUNNING,
+    );
+    expect(second.task).toHaveBeenCalled();
+  });
+
+  it('should reject jobs when the queue is full', () => {
+    service.submit(deferredTask().task);
+    service.submit(deferredTask().task);
+    service.submit(deferredTask().task);
+
+    expect(() => service.submit(deferredTask().task)).toThrow(
+      'Analysis queue is full (2 jobs waiting)',
+    );
+  });
+
+  describe('run', () => {
+    it('should wait in the same queue as submitted jobs and resolve with the result', async () => {
+      const submitted = deferredTask();
+      const waited = deferredTask();
+      service.submit(submitted.task);
+
+      const result = service.run(waited.task);
+      expect(waited.task).not.toHaveBeenCalled();
+
+      submitted.resolve(RESULT);
+      await flushJobs();
+      expect(waited.task).toHaveBeenCalled();
+
+      waited.resolve(RESULT);
+      await expect(result).resolves.toBe(RESULT);
+    });
+
+    it('should reject with the error of a failed analysis', async () => {
+      const { task, reject } = deferredTask();
+
+      const result = service.run(task);
+      reject(new Error('Analysis failed: boom'));
+
+      await expect(result).rejects.toThrow('Analysis failed: boom');
+    });
+
+    it('should throw right away when the queue is full', () => {
+      service.submit(deferredTask().task);
+      service.submit(deferredTask().task);
+      service.submit(deferredTask().task);
+
+      expect(() => service.run(deferredTask().task)).toThrow(
+        'Analysis queue is full (2 jobs waiting)',
+      );
+    });
+  });
+
+  it('should remove cancelled jobs from the queue', () => {
+    service.submit(deferredTask().task);
+    const queued = deferredTask();
+    const queuedJob = service.submit(queued.task);
+    const nextJob = service.submit(deferredTask().task);
+
+    expect(service.cancel(queuedJob.id)?.status).toBe(
+      AnalysisJobStatus.CANCELLED,
+    );
+    expect(service.getJob(nextJob.id)?.queuePosition).toBe(1);
+    expect(queued.task).not.toHaveBeenCalled();
+  });
+
+  it('should abort running jobs, drop their result and free the slot', async () => {
+    const running = deferredTask();
+    const next = deferredTask();
+    const runningJob = service.submit(running.task);
+    service.submit(next.task);
+
+    service.cancel(runningJob.id);
+    expect(running.signal()?.aborted).toBe(true);
+    expect(next.task).not.toHaveBeenCalled();
+
+    running.resolve(RESULT);
+    await flushJobs();
+
+    expect(service.getJob(runningJob.id)?.status).toBe(
+      AnalysisJobStatus.CANCELLED,
+    );
+    expect(service.getResult(runningJob.id)).toBeUndefined();
+    expect(next.task).toHaveBeenCalled();
+  });
+
+  it('should leave finished jobs unchanged when cancelled', async () => {
+    const { task, resolve } = deferredTask();
+    const job = service.submit(task);
+    resolve(RESULT);
+    await flushJobs();
+
+    expect(service.cancel(job.id)?.status).toBe(AnalysisJobStatus.COMPLETED);
+    expect(service.cancel('missing')).toBeUndefined();
+  });
+
+  it('should forget finished jobs after the retention period', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    try {
+      service = await createService({ 'analysisJobs.retentionMinutes': 1 });
+      const { task, resolve } = deferredTask();
+      const job = service.submit(task);
+      resolve(RESULT);
+      await flushJobs();
+
+      jest.setSystemTime(Date.now() + 59 * 1000);
+      expect(service.getJob(job.id)).toBeDefined();
+
+      jest.setSystemTime(Date.now() + 2 * 1000);
+      expect(service.getJob(job.id)).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should keep the latest progress of a running job', () => {
+    const { task, progress } = deferredTask();
+    const job = service.submit(task);
+
+    progress(SCAN_PROGRESS);
+
+    expect(service.getJob(job.id)?.progress).toEqual(SCAN_PROGRESS);
+  });
+
+  it('should stream status and progress events until the job finishes', async () => {
+    const { task, progress, resolve } = deferredTask();
+    const job = service.submit(task);
+    progress({ ...SCAN_PROGRESS, state: 'started', percentage: undefined });
+
+    const events = lastValueFrom(service.watch(job.id)!.pipe(toArray()));
+    progress(SCAN_PROGRESS);
+    resolve(RESULT);
+
+    expect(
+      (await events).map((event) =>
+        event.type === 'status'
+          ? [event.type, event.data.status]
+          : [event.type, event.data.state],
+      ),
+    ).toEqual([
+      ['progress', 'started'],
+      ['status', AnalysisJobStatus.RUNNING],
+      ['progress', 'running'],
+      ['status', AnalysisJobStatus.COMPLETED],
+    ]);
+  });
+
+  it('should replay the final status for finished jobs', async () => {
+    const { task, resolve } = deferredTask();
+    const job = service.submit(task);
+    resolve(RESULT);
+    await flushJobs();
+
+    const events = await lastValueFrom(service.watch(job.id)!.pipe(toArray()));
+
+    expect(events).toEqual([
+      {
+        type: 'status',
+        data: expect.objectContaining({ status: AnalysisJobStatus.COMPLETED }),
+      },
+    ]);
+    expect(service.watch('missing')).toBeUndefined();
+  });
+
+  it('should cancel unfinished jobs on shutdown', () => {
+    const running = deferredTask();
+    const runningJob = service.submit(running.task);
+    const queuedJob = service.submit(deferredTask().task);
+
+    service.onModuleDestroy();
+
+    expect(running.signal()?.aborted).toBe(true);
+    expect(service.getJob(runningJob.id)?.status).toBe(
+      AnalysisJobStatus.CANCELLED,
+    );
+    expect(service.getJob(queuedJob.id)).toMatchObject({
+      status: AnalysisJobStatus.CANCELLED,
+    });
+  });
+});
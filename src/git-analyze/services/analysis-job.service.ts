@@ -0,0 +1,281 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Observable, Subject, concat, lastValueFrom, of } from 'rxjs';
+import { AnalyzeResponseDto } from '../routes/dto/analyze-response.dto';
+import {
+  AnalysisJobDto,
+  AnalysisJobEvent,
+  AnalysisJobStatus,
+} from '../routes/dto/analysis-job.dto';
+import {
+  AnalysisProgressEvent,
+  AnalysisProgressListener,
+} from '../routes/dto/analysis-progress.dto';
+
+/**
+ * Analysis run by a job; it should stop early once the signal is aborted
+ * and report its progress to the listener
+ */
+export type AnalysisTask = (
+  signal: AbortSignal,
+  onProgress: AnalysisProgressListener,
+) => Promise<AnalyzeResponseDto>;
+
+interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  error?: string;
+  result?: AnalyzeResponseDto;
+  progress?: AnalysisProgressEvent;
+  task: AnalysisTask;
+  abortController: AbortController;
+  events: Subject<AnalysisJobEvent>;
+}
+
+const FINISHED_STATUSES = [
+  AnalysisJobStatus.COMPLETED,
+  AnalysisJobStatus.FAILED,
+  AnalysisJobStatus.CANCELLED,
+];
+
+@Injectable()
+export class AnalysisJobService implements OnModuleDestroy {
+  private readonly jobs = new Map<string, AnalysisJob>();
+  private readonly queue: AnalysisJob[] = [];
+  private runningCount = 0;
+
+  private readonly concurrency: number;
+  private readonly maxQueued: number;
+  private readonly retentionMs: number;
+
+  constructor(configService: ConfigService) {
+    this.concurrency = Math.max(
+      1,
+      configService.get<number>('analysisJobs.concurrency') ?? 2,
+    );
+    this.maxQueued = Math.max(
+      0,
+      configService.get<number>('analysisJobs.maxQueued') ?? 20,
+    );
+    this.retentionMs =
+      (configService.get<number>('analysisJobs.retentionMinutes') ?? 60) *
+      60 *
+      1000;
+  }
+
+  /**
+   * Queues an analysis and starts it as soon as a slot is free
+   * @param task Analysis to run
+   * @returns The created job
+   * @throws Error when the queue is full
+   */
+  submit(task: AnalysisTask): AnalysisJobDto {
+    this.pruneFinishedJobs();
+
+    if (this.queue.length >= this.maxQueued) {
+      throw new Error(
+        `Analysis queue is full (${this.queue.length} jobs waiting)`,
+      );
+    }
+
+    const job: AnalysisJob = {
+      id: randomUUID(),
+      status: AnalysisJobStatus.QUEUED,
+      createdAt: new Date(),
+      task,
+      abortController: new AbortController(),
+      events: new Subject(),
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+    this.drain();
+
+    return this.toDto(job);
+  }
+
+  /**
+   * Queues an analysis like submit() and waits for it, so requests answered
+   * with the results share the concurrency and queue limits of the jobs.
+   * The job is forgotten once it finishes.
+   * @param task Analysis to run
+   * @returns Analysis results
+   * @throws Error when the queue is full (thrown right away), or when the analysis fails or is cancelled
+   */
+  run(task: AnalysisTask): Promise<AnalyzeResponseDto> {
+    const job = this.jobs.get(this.submit(task).id)!;
+
+    return lastValueFrom(job.events, { defaultValue: undefined }).then(() => {
+      this.jobs.delete(job.id);
+      if (job.status !== AnalysisJobStatus.COMPLETED) {
+        throw new Error(job.error ?? 'Analysis cancelled');
+      }
+      return job.result!;
+    });
+  }
+
+  /**
+   * Gets the status of a job
+   * @param id Job ID
+   * @returns Job status, or undefined for unknown or expired jobs
+   */
+  getJob(id: string): AnalysisJobDto | undefined {
+    this.pruneFinishedJobs();
+    const job = this.jobs.get(id);
+    return job && this.toDto(job);
+  }
+
+  /**
+   * Gets the result of a completed job
+   * @param id Job ID
+   * @returns Analysis results, or undefined when the job has not completed
+   */
+  getResult(id: string): AnalyzeResponseDto | undefined {
+    return this.jobs.get(id)?.result;
+  }
+
+  /**
+   * Streams a job's events: its latest progress and current status first,
+   * then every change until the job finishes
+   * @param id Job ID
+   * @returns Event stream that completes with the final status, or undefined for unknown or expired jobs
+   */
+  watch(id: string): Observable<AnalysisJobEvent> | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+
+    const current: AnalysisJobEvent[] = [
+      ...(job.progress
+        ? [{ type: 'progress' as const, data: job.progress }]
+        : []),
+      { type: 'status', data: this.toDto(job) },
+    ];
+
+    return FINISHED_STATUSES.includes(job.status)
+      ? of(...current)
+      : concat(of(...current), job.events);
+  }
+
+  /**
+   * Cancels a job. Queued jobs are removed from the queue; running jobs are
+   * signalled to stop and release their slot once the analysis returns.
+   * @param id Job ID
+   * @returns Updated job status, or undefined for unknown or expired jobs
+   */
+  cancel(id: string): AnalysisJobDto | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+
+    if (job.status === AnalysisJobStatus.QUEUED) {
+      this.queue.splice(this.queue.indexOf(job), 1);
+      this.finish(job, AnalysisJobStatus.CANCELLED);
+    } else if (job.status === AnalysisJobStatus.RUNNING) {
+      job.abortController.abort(new Error('Analysis cancelled'));
+      this.finish(job, AnalysisJobStatus.CANCELLED);
+    }
+
+    return this.toDto(job);
+  }
+
+  /**
+   * Signals all unfinished jobs to stop when the application shuts down
+   */
+  onModuleDestroy(): void {
+    this.queue.splice(0);
+    this.jobs.forEach((job) => {
+      if (!FINISHED_STATUSES.includes(job.status)) {
+        job.abortController.abort(new Error('Server is shutting down'));
+        this.finish(job, AnalysisJobStatus.CANCELLED);
+      }
+    });
+  }
+
+  /**
+   * Starts queued jobs while there are free slots
+   */
+  private drain(): void {
+    while (this.runningCount < this.concurrency && this.queue.length > 0) {
+      void this.start(this.queue.shift()!);
+    }
+  }
+
+  /**
+   * Runs a job and records its outcome
+   * @param job Job to run
+   */
+  private async start(job: AnalysisJob): Promise<void> {
+    this.runningCount++;
+    job.status = AnalysisJobStatus.RUNNING;
+    job.startedAt = new Date();
+    job.events.next({ type: 'status', data: this.toDto(job) });
+
+    try {
+      const result = await job.task(job.abortController.signal, (event) => {
+        if (job.status === AnalysisJobStatus.RUNNING) {
+          job.progress = event;
+          job.events.next({ type: 'progress', data: event });
+        }
+      });
+      // A job cancelled while running may still return; its result is dropped
+      if (job.status === AnalysisJobStatus.RUNNING) {
+        job.result = result;
+        this.finish(job, AnalysisJobStatus.COMPLETED);
+      }
+    } catch (error) {
+      if (job.status === AnalysisJobStatus.RUNNING) {
+        job.error = (error as Error).message;
+        this.finish(job, AnalysisJobStatus.FAILED);
+      }
+    } finally {
+      this.runningCount--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Moves a job to a final status and ends its event stream
+   */
+  private finish(job: AnalysisJob, status: AnalysisJobStatus): void {
+    job.status = status;
+    job.finishedAt = new Date();
+    job.events.next({ type: 'status', data: this.toDto(job) });
+    job.events.complete();
+  }
+
+  /**
+   * Forgets finished jobs (and their results) after the retention period
+   */
+  private pruneFinishedJobs(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    this.jobs.forEach((job, id) => {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Converts a job to its public representation
+   */
+  private toDto(job: AnalysisJob): AnalysisJobDto {
+    const queueIndex = this.queue.indexOf(job);
+
+    return {
+      id: job.id,
+      status: job.status,
+      ...(queueIndex >= 0 && { queuePosition: queueIndex + 1 }),
+      createdAt: job.createdAt.toISOString(),
+      ...(job.startedAt && { startedAt: job.startedAt.toISOString() }),
+      ...(job.finishedAt && { finishedAt: job.finishedAt.toISOString() }),
+      ...(job.error && { error: job.error }),
+      ...(job.progress && { progress: job.progress }),
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { AnalyzerService } from './analyzer.service';
+import { AnalysisHistoryService } from './analysis-history.service';
+import { AnalysisCacheService } from './analysis-cache.service';
+import { BatchAnalysisService } from './batch-analysis.service';
+import { BotDetectionService } from './bot-detection.service';
+import { ContributorIdentityService } from './contributor-identity.service';
+import { GitService } from './git.service';
+import { TempService } from './temp.service';
+import { BasicMetricsService } from './metrics/basic-metrics.service';
+import { GitSizeService } from './metrics/ai-indicators/git-size.service';
+import { GitMessagesService } from './metrics/ai-indicators/git-messages.service';
+import { GitTimingService } from './metrics/ai-indicators/git-timing.service';
+import { GitSignaturesService } from './metrics/ai-indicators/git-signatures.service';
+import { CodeQualityService } from './metrics/ai-indicators/code-quality.service';
+import { CodeCommentAnalysisService } from './metrics/ai-indicators/code-comment-analysis.service';
+import { CodeNonTypicalExpressionsService } from './metrics/ai-indicators/code-non-typical-expressions.service';
+import { FileSystemScannerService } from './metrics/ai-indicators/file-system-scanner.service';
+import { AIScoreService } from './metrics/ai-score.service';
+import { PolicyService } from './policy.service';
+import { ProjectConfigService } from './project-config.service';
+import { ReportComparisonService } from './report-comparison.service';
+import { IndicatorBreakdownService } from './metrics/indicator-breakdown.service';
+import { MetricRegistryService } from './metrics/metric-registry.service';
+import { AvgLinesPerCommitMetric } from './metrics/plugins/avg-lines-per-commit.metric';
+import { LargeCommitPercentageMetric } from './metrics/plugins/large-commit-percentage.metric';
+import { FirstCommitAnalysisMetric } from './metrics/plugins/first-commit-analysis.metric';
+import { AvgFilesPerCommitMetric } from './metrics/plugins/avg-files-per-commit.metric';
+import { CommitMessagePatternsMetric } from './metrics/plugins/commit-message-patterns.metric';
+import { BurstyCommitPercentageMetric } from './metrics/plugins/bursty-commit-percentage.metric';
+import { TypingSpeedMetric } from './metrics/plugins/typing-speed.metric';
+import { TestFileRatioMetric } from './metrics/plugins/test-file-ratio.metric';
+import { CodeCommentRatioMetric } from './metrics/plugins/code-comment-ratio.metric';
+import { CodeNonTypicalExpressionRatioMetric } from './metrics/plugins/code-non-typical-expression-ratio.metric';
+import { AIToolSignaturesMetric } from './metrics/plugins/ai-tool-signatures.metric';
+
+/**
+ * Metric plugins, in the order their indicators are reported
+ */
+export const METRIC_PLUGINS = [
+  AvgLinesPerCommitMetric,
+  LargeCommitPercentageMetric,
+  FirstCommitAnalysisMetric,
+  AvgFilesPerCommitMetric,
+  CommitMessagePatternsMetric,
+  BurstyCommitPercentageMetric,
+  TypingSpeedMetric,
+  TestFileRatioMetric,
+  CodeCommentRatioMetric,
+  CodeNonTypicalExpressionRatioMetric,
+  AIToolSignaturesMetric,
+];
+
+/**
+ * Analysis pipeline without HTTP concerns, shared by the API and the CLI
+ */
+@Module({
+  imports: [DiscoveryModule],
+  providers: [
+    AnalyzerService,
+    GitService,
+    TempService,
+    BasicMetricsService,
+    GitSizeService,
+    GitMessagesService,
+    GitTimingService,
+    GitSignaturesService,
+    CodeQualityService,
+    FileSystemScannerService,
+    CodeCommentAnalysisService,
+    CodeNonTypicalExpressionsService,
+    AIScoreService,
+    IndicatorBreakdownService,
+    MetricRegistryService,
+    PolicyService,
+    ProjectConfigService,
+    ReportComparisonService,
+    BatchAnalysisService,
+    AnalysisHistoryService,
+    AnalysisCacheService,
+    ContributorIdentityService,
+    BotDetectionService,
+    ...METRIC_PLUGINS,
+  ],
+  exports: [
+    AnalyzerService,
+    GitService,
+    BatchAnalysisService,
+    AnalysisHistoryService,
+    AnalysisCacheService,
+    MetricRegistryService,
+    PolicyService,
+    ProjectConfigService,
+    ReportComparisonService,
+  ],
+})
+export class AnalysisModule {}
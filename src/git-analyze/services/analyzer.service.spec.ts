@@ -1,5 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { AnalyzerService } from './analyzer.service';
+import { AnalysisModule } from './analysis.module';
 import { GitService } from './git.service';
 import { TempService } from './temp.service';
 import { BasicMetricsService } from './metrics/basic-metrics.service';
@@ -10,6 +14,10 @@ import { CodeQualityService } from './metrics/ai-indicators/code-quality.service
 import { CodeCommentAnalysisService } from './metrics/ai-indicators/code-comment-analysis.service';
 import { CodeNonTypicalExpressionsService } from './metrics/ai-indicators/code-non-typical-expressions.service';
 import { FileSystemScannerService } from './metrics/ai-indicators/file-system-scanner.service';
+import { AIScoreService } from './metrics/ai-score.service';
+import { AnalysisCacheService } from './analysis-cache.service';
+import { TimeSeriesInterval } from '../routes/dto/analyze-request.dto';
+import { AnalysisProgressEvent } from '../routes/dto/analysis-progress.dto';
 
 describe('AnalyzerService', () => {
   let service: AnalyzerService;
@@ -23,23 +31,14 @@ describe('AnalyzerService', () => {
   let fileSystemScannerService: FileSystemScannerService;
   let codeCommentAnalysisService: CodeCommentAnalysisService;
   let codeNonTypicalExpressionsService: CodeNonTypicalExpressionsService;
+  let aiScoreService: AIScoreService;
+  let analysisCacheService: AnalysisCacheService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [
-        AnalyzerService,
-        GitService,
-        TempService,
-        BasicMetricsService,
-        GitSizeService,
-        GitMessagesService,
-        GitTimingService,
-        CodeQualityService,
-        FileSystemScannerService,
-        CodeCommentAnalysisService,
-        CodeNonTypicalExpressionsService,
-      ],
+      imports: [AnalysisModule],
     }).compile();
+    await module.init();
 
     service = module.get<AnalyzerService>(AnalyzerService);
     gitService = module.get<GitService>(GitService);
@@ -59,6 +58,14 @@ describe('AnalyzerService', () => {
       module.get<CodeNonTypicalExpressionsService>(
         CodeNonTypicalExpressionsService,
       );
+    aiScoreService = module.get<AIScoreService>(AIScoreService);
+    analysisCacheService =
+      module.get<AnalysisCacheService>(AnalysisCacheService);
+
+    // Repositories without a mailmap keep their identities
+    jest
+      .spyOn(gitService, 'resolveMailmap')
+      .mockImplementation((_git, identities) => Promise.resolve(identities));
   });
 
   afterEach(() => {
@@ -133,6 +140,7 @@ describe('AnalyzerService', () => {
 
       expect(result).toEqual({
         repository: 'user/repo',
+        repositoryId: 'github.com/user/repo',
         branch: 'main',
         metrics: {
           totalCommits: 3,
@@ -154,47 +162,85 @@ describe('AnalyzerService', () => {
               commitCount: 1,
             },
           ],
+          contributorIndicators: [
+            expect.objectContaining({
+              email: 'author1@example.com',
+              commitCount: 2,
+            }),
+            expect.objectContaining({
+              email: 'author2@example.com',
+              commitCount: 1,
+            }),
+          ],
           aiIndicators: {
-            avgLinesPerCommit: {
+            avgLinesPerCommit: expect.objectContaining({
               value: 39,
+              label: expect.any(String),
               description: expect.any(String),
-            },
-            largeCommitPercentage: {
+            }),
+            largeCommitPercentage: expect.objectContaining({
               value: 0,
+              label: expect.any(String),
               description: expect.any(String),
-            },
-            firstCommitAnalysis: {
+            }),
+            firstCommitAnalysis: expect.objectContaining({
               value: {
                 lines: 60,
                 isSuspicious: false,
               },
+              label: expect.any(String),
               description: expect.any(String),
-            },
-            avgFilesPerCommit: {
+            }),
+            avgFilesPerCommit: expect.objectContaining({
               value: 3.33,
+              label: expect.any(String),
               description: expect.any(String),
-            },
-            commitMessagePatterns: {
+            }),
+            commitMessagePatterns: expect.objectContaining({
               value: 0,
+              label: expect.any(String),
               description: expect.any(String),
-            },
-            burstyCommitPercentage: {
+            }),
+            burstyCommitPercentage: expect.objectContaining({
               value: 0,
+              label: expect.any(String),
               description: expect.any(String),
-            },
-            testFileRatio: {
+            }),
+            typingSpeed: expect.objectContaining({
+              value: {
+                fastCommitPercentage: 0,
+                measuredCommits: 0,
+                fastestCommits: [],
+              },
+              label: expect.any(String),
+              description: expect.any(String),
+            }),
+            testFileRatio: expect.objectContaining({
               value: 0,
+              label: expect.any(String),
               description: expect.any(String),
-            },
-            codeCommentRatio: {
+            }),
+            codeCommentRatio: expect.objectContaining({
               value: 0,
+              label: expect.any(String),
               description: expect.any(String),
-            },
-            codeNonTypicalExpressionRatio: {
+            }),
+            codeNonTypicalExpressionRatio: expect.objectContaining({
               value: 0,
+              label: expect.any(String),
               description: expect.any(String),
-            },
+            }),
+            aiToolSignatures: expect.objectContaining({
+              value: { commitPercentage: 0, authorPercentage: 0, tools: [] },
+              label: expect.any(String),
+              description: expect.any(String),
+            }),
           },
+          aiScore: expect.any(Object),
+          timeSeries: expect.objectContaining({ interval: 'month' }),
+          fileScan: { scannedFiles: 0, exclusions: [] },
+          languageIndicators: [],
+          findings: [],
         },
         analyzedAt: expect.any(String),
       });
@@ -202,6 +248,7 @@ describe('AnalyzerService', () => {
       expect(gitService.cloneRepository).toHaveBeenCalledWith(
         'https://github.com/user/repo.git',
         'main',
+        undefined,
       );
       expect(gitService.isValidRepository).toHaveBeenCalled();
       expect(gitService.getCommitHistory).toHaveBeenCalled();
@@ -211,6 +258,36 @@ describe('AnalyzerService', () => {
       );
     });
 
+    it('should limit analysis to the requested commits', async () => {
+      const result = await service.analyzeRepository(
+        'https://github.com/user/repo.git',
+        'main',
+        {
+          filter: { since: '2024-01-02', fromRef: 'v1.0.0', until: undefined },
+        },
+      );
+
+      expect(gitService.getCommitHistory).toHaveBeenCalledWith(
+        {},
+        { since: '2024-01-02', fromRef: 'v1.0.0' },
+        undefined,
+        undefined,
+      );
+      expect(result.commitFilter).toEqual({
+        since: '2024-01-02',
+        fromRef: 'v1.0.0',
+      });
+    });
+
+    it('should not report a commit filter for the entire history', async () => {
+      const result = await service.analyzeRepository(
+        'https://github.com/user/repo.git',
+        'main',
+      );
+
+      expect(result).not.toHaveProperty('commitFilter');
+    });
+
     it('should handle invalid repository', async () => {
       jest.spyOn(gitService, 'isValidRepository').mockResolvedValue(false);
 
@@ -219,6 +296,28 @@ describe('AnalyzerService', () => {
       ).rejects.toThrow('Analysis failed: Invalid Git repository');
     });
 
+    it('should stop before scanning files when cancelled', async () => {
+      const abortController = new AbortController();
+      jest.spyOn(fileSystemScannerService, 'scanRepository');
+      jest
+        .spyOn(gitService, 'getCommitHistory')
+        .mockImplementation((_git, _filter, signal) => {
+          abortController.abort(new Error('Analysis cancelled'));
+          expect(signal).toBe(abortController.signal);
+          return Promise.resolve([]);
+        });
+
+      await expect(
+        service.analyzeRepository('https://github.com/user/repo.git', 'main', {
+          signal: abortController.signal,
+        }),
+      ).rejects.toThrow('Analysis failed: Analysis cancelled');
+      expect(fileSystemScannerService.scanRepository).not.toHaveBeenCalled();
+      expect(gitService.cleanupRepository).toHaveBeenCalledWith(
+        '/tmp/test-repo',
+      );
+    });
+
     it('should handle clone errors', async () => {
       jest
         .spyOn(gitService, 'cloneRepository')
@@ -246,47 +345,76 @@ describe('AnalyzerService', () => {
         avgCommitsPerDay: 0,
         topContributor: '',
         contributorStats: [],
+        contributorIndicators: [],
         aiIndicators: {
-          avgLinesPerCommit: {
+          avgLinesPerCommit: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          largeCommitPercentage: {
+          }),
+          largeCommitPercentage: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          firstCommitAnalysis: {
+          }),
+          firstCommitAnalysis: expect.objectContaining({
             value: {
               lines: 0,
               isSuspicious: false,
             },
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          avgFilesPerCommit: {
+          }),
+          avgFilesPerCommit: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          commitMessagePatterns: {
+          }),
+          commitMessagePatterns: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          burstyCommitPercentage: {
+          }),
+          burstyCommitPercentage: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          testFileRatio: {
+          }),
+          typingSpeed: expect.objectContaining({
+            value: {
+              fastCommitPercentage: 0,
+              measuredCommits: 0,
+              fastestCommits: [],
+            },
+            label: expect.any(String),
+            description: expect.any(String),
+          }),
+          testFileRatio: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          codeCommentRatio: {
+          }),
+          codeCommentRatio: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          codeNonTypicalExpressionRatio: {
+          }),
+          codeNonTypicalExpressionRatio: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
+          }),
+          aiToolSignatures: expect.objectContaining({
+            value: { commitPercentage: 0, authorPercentage: 0, tools: [] },
+            label: expect.any(String),
+            description: expect.any(String),
+          }),
         },
+        aiScore: expect.any(Object),
+        timeSeries: { interval: 'month', buckets: [] },
+        fileScan: { scannedFiles: 0, exclusions: [] },
+        languageIndicators: [],
+        findings: [],
       });
     });
 
@@ -304,8 +432,681 @@ describe('AnalyzerService', () => {
     });
   });
 
+  describe('analyzeLocalRepository', () => {
+    const mockCommits = [
+      {
+        hash: 'hash1',
+        author: 'Author 1',
+        email: 'author1@example.com',
+        date: new Date('2024-01-01T00:00:00Z'),
+        message: 'First commit',
+        filesChanged: 1,
+        insertions: 10,
+        deletions: 0,
+        files: ['file1.ts'],
+      },
+    ];
+
+    beforeEach(() => {
+      jest.spyOn(gitService, 'cloneRepository');
+      jest.spyOn(gitService, 'isValidRepository').mockResolvedValue(true);
+      jest.spyOn(gitService, 'getCommitHistory').mockResolvedValue(mockCommits);
+      jest.spyOn(gitService, 'getRepositoryInfo').mockResolvedValue({
+        branch: 'feature/local',
+        remote: 'unknown',
+      });
+      jest.spyOn(gitService, 'cleanupRepository').mockImplementation(() => {});
+      jest
+        .spyOn(fileSystemScannerService, 'scanRepository')
+        .mockResolvedValue({ scannedFiles: 0, exclusions: [], languages: {} });
+    });
+
+    it('should analyze a working tree in place without cloning or cleanup', async () => {
+      const git = {} as any;
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+
+      const result = await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo/packages/app',
+      );
+
+      expect(gitService.openRepository).toHaveBeenCalledWith(
+        '/home/user/projects/monorepo/packages/app',
+      );
+      expect(gitService.getCommitHistory).toHaveBeenCalledWith(
+        git,
+        {},
+        undefined,
+        undefined,
+      );
+      expect(fileSystemScannerService.scanRepository).toHaveBeenCalledWith(
+        '/home/user/projects/monorepo',
+        expect.any(Array),
+        expect.any(Function),
+        { skip: undefined },
+      );
+      expect(gitService.cloneRepository).not.toHaveBeenCalled();
+      expect(gitService.cleanupRepository).not.toHaveBeenCalled();
+      expect(result.repository).toBe('monorepo');
+      expect(result.repositoryId).toBe('/home/user/projects/monorepo');
+      expect(result.branch).toBe('feature/local');
+      expect(result.metrics.totalCommits).toBe(1);
+    });
+
+    it('should report progress events instead of writing to stdout', async () => {
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+      jest
+        .spyOn(fileSystemScannerService, 'scanRepository')
+        .mockImplementation((_repoPath, _analyzers, onProgress) => {
+          [1, 2, 3, 4].forEach((current) => onProgress?.(current, 4));
+          return Promise.resolve({
+            scannedFiles: 4,
+            exclusions: [],
+            languages: {},
+          });
+        });
+      const write = jest.spyOn(process.stdout, 'write');
+      const onProgress = jest.fn<void, [AnalysisProgressEvent]>();
+
+      await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+        undefined,
+        { onProgress },
+      );
+
+      expect(write).not.toHaveBeenCalled();
+      expect(
+        onProgress.mock.calls.map(([event]) => [event.phase, event.state]),
+      ).toEqual([
+        ['open', 'started'],
+        ['open', 'completed'],
+        ['history', 'started'],
+        ['history', 'completed'],
+        ['scan', 'started'],
+        ['scan', 'running'],
+        ['scan', 'running'],
+        ['scan', 'running'],
+        ['scan', 'running'],
+        ['scan', 'completed'],
+      ]);
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: 'open',
+          state: 'completed',
+          repoPath: '/home/user/projects/monorepo',
+        }),
+      );
+      expect(onProgress).toHaveBeenCalledWith(
+        expect.objectContaining({
+          phase: 'history',
+          state: 'completed',
+          percentage: 100,
+          commits: 1,
+        }),
+      );
+      expect(onProgress).toHaveBeenCalledWith({
+        phase: 'scan',
+        state: 'running',
+        elapsedMs: expect.any(Number),
+        percentage: 50,
+        filesScanned: 2,
+        totalFiles: 4,
+      });
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          phase: 'scan',
+          state: 'completed',
+          percentage: 100,
+          filesScanned: 4,
+          totalFiles: 4,
+        }),
+      );
+      write.mockRestore();
+    });
+
+    it('should analyze the requested ref', async () => {
+      const git = {} as any;
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+
+      const result = await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+        'release',
+      );
+
+      expect(gitService.getCommitHistory).toHaveBeenCalledWith(
+        git,
+        { toRef: 'release' },
+        undefined,
+        undefined,
+      );
+      expect(result.branch).toBe('release');
+    });
+
+    it('should combine the requested ref with a date window', async () => {
+      const git = {} as any;
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+
+      const result = await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+        'release',
+        { filter: { since: '2024-07-01' } },
+      );
+
+      expect(gitService.getCommitHistory).toHaveBeenCalledWith(
+        git,
+        { since: '2024-07-01', toRef: 'release' },
+        undefined,
+        undefined,
+      );
+      expect(result.commitFilter).toEqual({ since: '2024-07-01' });
+    });
+
+    it('should skip file-based analysis for bare repositories', async () => {
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/srv/git/project.git',
+        isBare: true,
+      });
+      const resetSpy = jest.spyOn(codeCommentAnalysisService, 'reset');
+
+      const result = await service.analyzeLocalRepository(
+        '/srv/git/project.git',
+      );
+
+      expect(fileSystemScannerService.scanRepository).not.toHaveBeenCalled();
+      expect(resetSpy).toHaveBeenCalled();
+      expect(result.repository).toBe('project');
+      expect(result.metrics.aiIndicators?.codeCommentRatio.value).toBe(0);
+      expect(
+        result.metrics.aiScore?.contributions.map((c) => c.indicator),
+      ).not.toContain('codeCommentRatio');
+    });
+
+    it('should bucket the time series by the requested interval', async () => {
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+
+      const result = await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+        undefined,
+        { interval: TimeSeriesInterval.WEEK },
+      );
+
+      expect(result.metrics.timeSeries?.interval).toBe('week');
+      expect(result.metrics.timeSeries?.buckets[0].period).toBe('2024-W01');
+    });
+
+    it('should pass the worker count and abort signal to the file scan', async () => {
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+      const abortController = new AbortController();
+
+      await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+        undefined,
+        { scanWorkers: 3, signal: abortController.signal },
+      );
+
+      expect(fileSystemScannerService.scanRepository).toHaveBeenCalledWith(
+        '/home/user/projects/monorepo',
+        expect.any(Array),
+        expect.any(Function),
+        { skip: undefined, workers: 3, signal: abortController.signal },
+      );
+    });
+
+    it('should read commits and file analyses through the cache when asked', async () => {
+      const git = {} as any;
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+
+      await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+        undefined,
+        { cache: true },
+      );
+
+      expect(gitService.getCommitHistory).toHaveBeenCalledWith(
+        git,
+        {},
+        undefined,
+        analysisCacheService,
+      );
+      expect(fileSystemScannerService.scanRepository).toHaveBeenCalledWith(
+        '/home/user/projects/monorepo',
+        expect.any(Array),
+        expect.any(Function),
+        expect.objectContaining({ cache: analysisCacheService }),
+      );
+    });
+
+    it('should report the commits and files behind the indicators', async () => {
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+      jest.spyOn(gitService, 'getCommitHistory').mockResolvedValue([
+        ...mockCommits,
+        {
+          ...mockCommits[0],
+          hash: 'abcdef1234567890',
+          message: 'Add generated client',
+          insertions: 1100,
+          deletions: 100,
+          files: ['src/client.ts', 'src/index.ts'],
+        },
+      ]);
+      jest
+        .spyOn(fileSystemScannerService, 'scanRepository')
+        .mockImplementation((repoPath, analyzers) => {
+          analyzers.forEach((analyzer) => {
+            analyzer.reset();
+            analyzer.analyzeFile(
+              `${repoPath}/src/docs.py`,
+              [...Array(6).fill('# Note'), ...Array(10).fill('x = 1')].join(
+                '\n',
+              ),
+              '.py',
+            );
+            analyzer.analyzeFile(
+              `${repoPath}/src/loop.c`,
+              'int main() {\n  for (;;) {}\n}',
+              '.c',
+            );
+          });
+          return Promise.resolve({
+            scannedFiles: 2,
+            exclusions: [],
+            languages: {},
+          });
+        });
+
+      const result = await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+      );
+
+      expect(result.metrics.findings).toEqual([
+        {
+          indicator: 'largeCommitPercentage',
+          severity: 'error',
+          message:
+            'Commit abcdef1 changes 1200 lines (more than 500): Add generated client',
+          commit: 'abcdef1234567890',
+        },
+        // Committed at the same time as the author's first commit
+        {
+          indicator: 'typingSpeed',
+          severity: 'error',
+          message:
+            'Commit abcdef1 by Author 1 adds 1100 lines 1 minute after their previous commit (1100 lines per minute, more than 20): Add generated client',
+          commit: 'abcdef1234567890',
+        },
+        {
+          indicator: 'codeCommentRatio',
+          severity: 'error',
+          message:
+            '6 comment lines for 10 code lines (60%, Python threshold 30%)',
+          file: 'src/docs.py',
+        },
+        {
+          indicator: 'codeNonTypicalExpressionRatio',
+          severity: 'warning',
+          message:
+            '1 loop or switch statement (C files with them: 100%, threshold 70%)',
+          file: 'src/loop.c',
+          line: 2,
+        },
+      ]);
+    });
+
+    it('should run concurrent file scans one at a time', async () => {
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+      const finishScans: Array<() => void> = [];
+      jest
+        .spyOn(fileSystemScannerService, 'scanRepository')
+        .mockImplementation(
+          () =>
+            new Promise((resolve) =>
+              finishScans.push(() =>
+                resolve({ scannedFiles: 0, exclusions: [], languages: {} }),
+              ),
+            ),
+        );
+      const waitForScans = async (count: number) => {
+        while (finishScans.length < count) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      };
+
+      const first = service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+      );
+      const second = service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+      );
+      await waitForScans(1);
+      // Give the second analysis time to reach its scan
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(fileSystemScannerService.scanRepository).toHaveBeenCalledTimes(1);
+
+      finishScans[0]();
+      await first;
+      await waitForScans(2);
+      finishScans[1]();
+      await second;
+      expect(fileSystemScannerService.scanRepository).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject invalid score weights before opening the repository', async () => {
+      const openSpy = jest.spyOn(gitService, 'openRepository');
+
+      await expect(
+        service.analyzeLocalRepository(
+          '/home/user/projects/monorepo',
+          undefined,
+          {
+            scoreWeights: { codeCommentRatio: -1 },
+          },
+        ),
+      ).rejects.toThrow(
+        'Analysis failed: Score weight for codeCommentRatio must be a non-negative number',
+      );
+      expect(openSpy).not.toHaveBeenCalled();
+    });
+
+    it('should pass score weight overrides to the score calculation', async () => {
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+      const scoreSpy = jest.spyOn(aiScoreService, 'calculateScore');
+
+      await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+        undefined,
+        {
+          scoreWeights: { codeCommentRatio: 3 },
+        },
+      );
+
+      expect(scoreSpy).toHaveBeenCalledWith(
+        expect.any(Object),
+        { totalCommits: 1, plugins: expect.any(Array) },
+        { codeCommentRatio: 3 },
+      );
+    });
+
+    it('should apply the configuration file at the repository root', async () => {
+      const repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'analyzer-'));
+      try {
+        fs.writeFileSync(
+          path.join(repoPath, '.gitanalyzerrc.yml'),
+          [
+            'thresholds:',
+            '  avgLinesPerCommit: 5',
+            'indicators:',
+            '  testFileRatio: false',
+            'skip:',
+            '  - fixtures/**',
+          ].join('\n'),
+        );
+        jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+          git: {} as any,
+          repoPath,
+          isBare: false,
+        });
+
+        const result = await service.analyzeLocalRepository(repoPath);
+
+        expect(result.config).toEqual({
+          source: '.gitanalyzerrc.yml',
+          thresholds: { avgLinesPerCommit: 5 },
+          disabledIndicators: ['testFileRatio'],
+          skip: ['fixtures/**'],
+        });
+        expect(
+          result.metrics.aiIndicators?.avgLinesPerCommit.threshold,
+        ).toEqual({ value: 5, direction: 'above' });
+        expect(result.metrics.aiIndicators).not.toHaveProperty('testFileRatio');
+        expect(
+          result.metrics.aiScore?.contributions.map(
+            ({ indicator }) => indicator,
+          ),
+        ).not.toContain('testFileRatio');
+        expect(
+          result.metrics.contributorIndicators?.[0].indicators,
+        ).not.toHaveProperty('testFileRatio');
+        expect(fileSystemScannerService.scanRepository).toHaveBeenCalledWith(
+          repoPath,
+          expect.any(Array),
+          expect.any(Function),
+          { skip: ['fixtures/**'] },
+        );
+      } finally {
+        fs.rmSync(repoPath, { recursive: true, force: true });
+      }
+    });
+
+    it('should leave bot commits out of the AI indicators unless bots are included', async () => {
+      jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/home/user/projects/monorepo',
+        isBare: false,
+      });
+      jest.spyOn(gitService, 'getCommitHistory').mockResolvedValue([
+        ...mockCommits,
+        {
+          ...mockCommits[0],
+          hash: 'bot1',
+          author: 'dependabot[bot]',
+          email: '49699333+dependabot[bot]@users.noreply.github.com',
+          message: 'Bump lodash from 4.17.20 to 4.17.21',
+          insertions: 990,
+        },
+      ]);
+
+      const result = await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+      );
+      const withBots = await service.analyzeLocalRepository(
+        '/home/user/projects/monorepo',
+        undefined,
+        { includeBots: true },
+      );
+
+      expect(result.metrics.totalCommits).toBe(2);
+      expect(result.metrics.botActivity).toEqual({
+        commitCount: 1,
+        commitPercentage: 50,
+        excluded: true,
+        accounts: [
+          expect.objectContaining({
+            bot: 'Dependabot',
+            commitCount: 1,
+            insertions: 990,
+            matchedBy: 'account',
+          }),
+        ],
+      });
+      expect(result.metrics.aiIndicators?.avgLinesPerCommit.value).toBe(10);
+      expect(
+        result.metrics.contributorIndicators?.map(({ email }) => email),
+      ).toEqual(['author1@example.com']);
+      expect(withBots.metrics.botActivity?.excluded).toBe(false);
+      expect(withBots.metrics.aiIndicators?.avgLinesPerCommit.value).toBe(500);
+    });
+
+    it('should count the mailmap, configured aliases and matching names as one contributor', async () => {
+      const repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'analyzer-'));
+      try {
+        fs.writeFileSync(
+          path.join(repoPath, '.gitanalyzerrc.yml'),
+          [
+            'identities:',
+            '  aliases:',
+            '    author1@example.com:',
+            '      - a1@laptop.local',
+          ].join('\n'),
+        );
+        const git = {} as any;
+        jest.spyOn(gitService, 'openRepository').mockResolvedValue({
+          git,
+          repoPath,
+          isBare: false,
+        });
+        jest.spyOn(gitService, 'getCommitHistory').mockResolvedValue([
+          ...[
+            'author1@example.com',
+            'a1@laptop.local',
+            'a1@old.example.com',
+          ].map((email, index) => ({
+            ...mockCommits[0],
+            hash: `a${index}`,
+            email,
+          })),
+          {
+            ...mockCommits[0],
+            hash: 'b1',
+            author: 'Author 2',
+            email: 'author2@example.com',
+          },
+          {
+            ...mockCommits[0],
+            hash: 'b2',
+            author: 'author 2',
+            email: 'author2@users.noreply.github.com',
+          },
+        ]);
+        jest
+          .spyOn(gitService, 'resolveMailmap')
+          .mockImplementation((_git, identities) =>
+            Promise.resolve(
+              identities.map((identity) =>
+                identity.email === 'a1@old.example.com'
+                  ? { ...identity, email: 'author1@example.com' }
+                  : identity,
+              ),
+            ),
+          );
+
+        const withoutNames = await service.analyzeLocalRepository(repoPath);
+        const result = await service.analyzeLocalRepository(
+          repoPath,
+          undefined,
+          { mergeByName: true },
+        );
+
+        expect(gitService.resolveMailmap).toHaveBeenCalledWith(
+          git,
+          [
+            { name: 'Author 1', email: 'author1@example.com' },
+            { name: 'Author 1', email: 'a1@laptop.local' },
+            { name: 'Author 1', email: 'a1@old.example.com' },
+            { name: 'Author 2', email: 'author2@example.com' },
+            { name: 'author 2', email: 'author2@users.noreply.github.com' },
+          ],
+          undefined,
+        );
+        expect(withoutNames.metrics.contributors).toBe(3);
+        expect(result.metrics.contributors).toBe(2);
+        expect(result.metrics.identityMerges).toEqual([
+          {
+            name: 'Author 1',
+            email: 'author1@example.com',
+            identities: [
+              {
+                name: 'Author 1',
+                email: 'a1@laptop.local',
+                commitCount: 1,
+                source: 'alias',
+              },
+              {
+                name: 'Author 1',
+                email: 'a1@old.example.com',
+                commitCount: 1,
+                source: 'mailmap',
+              },
+            ],
+          },
+          {
+            name: 'Author 2',
+            email: 'author2@example.com',
+            identities: [
+              {
+                name: 'author 2',
+                email: 'author2@users.noreply.github.com',
+                commitCount: 1,
+                source: 'name',
+              },
+            ],
+          },
+        ]);
+      } finally {
+        fs.rmSync(repoPath, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject an invalid configuration file before opening the repository', async () => {
+      const openSpy = jest.spyOn(gitService, 'openRepository');
+
+      await expect(
+        service.analyzeLocalRepository(
+          '/home/user/projects/monorepo',
+          undefined,
+          { configPath: '/home/user/projects/missing.yml' },
+        ),
+      ).rejects.toThrow(
+        'Analysis failed: Failed to read configuration file /home/user/projects/missing.yml',
+      );
+      expect(openSpy).not.toHaveBeenCalled();
+    });
+
+    it('should handle open errors', async () => {
+      jest
+        .spyOn(gitService, 'openRepository')
+        .mockRejectedValue(
+          new Error('Failed to open repository: /missing is not a directory'),
+        );
+
+      await expect(service.analyzeLocalRepository('/missing')).rejects.toThrow(
+        'Analysis failed: Failed to open repository: /missing is not a directory',
+      );
+      expect(gitService.cleanupRepository).not.toHaveBeenCalled();
+    });
+  });
+
   describe('calculateMetrics', () => {
-    it('should orchestrate all metric services correctly', () => {
+    it('should orchestrate all metric services correctly', async () => {
       const commits = [
         {
           hash: 'hash1',
@@ -338,15 +1139,18 @@ describe('AnalyzerService', () => {
         ],
       });
 
-      jest.spyOn(gitSizeService, 'calculateSizeMetrics').mockReturnValue({
-        avgLinesPerCommit: 60,
-        largeCommitPercentage: 0,
-        firstCommitAnalysis: {
-          lines: 60,
-          isSuspicious: false,
-        },
-        avgFilesPerCommit: 5,
-      });
+      jest
+        .spyOn(gitSizeService, 'calculateAvgLinesPerCommit')
+        .mockReturnValue(60);
+      jest
+        .spyOn(gitSizeService, 'calculateLargeCommitPercentage')
+        .mockReturnValue(0);
+      jest
+        .spyOn(gitSizeService, 'calculateFirstCommitAnalysis')
+        .mockReturnValue({ lines: 60, isSuspicious: false });
+      jest
+        .spyOn(gitSizeService, 'calculateAvgFilesPerCommit')
+        .mockReturnValue(5);
 
       jest
         .spyOn(gitMessagesService, 'analyzeCommitMessagePatterns')
@@ -357,13 +1161,15 @@ describe('AnalyzerService', () => {
       // Mock the new file-based architecture
       jest
         .spyOn(fileSystemScannerService, 'scanRepository')
-        .mockImplementation(() => {});
+        .mockResolvedValue({ scannedFiles: 0, exclusions: [], languages: {} });
       jest.spyOn(codeCommentAnalysisService, 'getResult').mockReturnValue(0);
       jest
         .spyOn(codeNonTypicalExpressionsService, 'getResult')
         .mockReturnValue(0);
 
-      const metrics = (service as any).calculateMetrics(
+      const scoreSpy = jest.spyOn(aiScoreService, 'calculateScore');
+
+      const metrics = await (service as any).calculateMetrics(
         commits,
         '/tmp/test-repo',
       );
@@ -372,7 +1178,9 @@ describe('AnalyzerService', () => {
       expect(basicMetricsService.calculateBasicMetrics).toHaveBeenCalledWith(
         commits,
       );
-      expect(gitSizeService.calculateSizeMetrics).toHaveBeenCalledWith(commits);
+      expect(gitSizeService.calculateFirstCommitAnalysis).toHaveBeenCalledWith(
+        commits,
+      );
       expect(
         gitMessagesService.analyzeCommitMessagePatterns,
       ).toHaveBeenCalledWith(commits);
@@ -386,9 +1194,19 @@ describe('AnalyzerService', () => {
         '/tmp/test-repo',
         [codeCommentAnalysisService, codeNonTypicalExpressionsService],
         expect.any(Function),
+        { skip: undefined },
       );
       expect(codeCommentAnalysisService.getResult).toHaveBeenCalled();
       expect(codeNonTypicalExpressionsService.getResult).toHaveBeenCalled();
+      expect(scoreSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          avgLinesPerCommit: 60,
+          firstCommitAnalysis: { lines: 60, isSuspicious: false },
+          codeCommentRatio: 0,
+        }),
+        { totalCommits: 1, plugins: expect.any(Array) },
+        undefined,
+      );
 
       // Verify the structure is correct
       expect(metrics).toEqual({
@@ -406,47 +1224,108 @@ describe('AnalyzerService', () => {
             commitCount: 1,
           },
         ],
+        contributorIndicators: [
+          {
+            name: 'Author 1',
+            email: 'author1@example.com',
+            commitCount: 1,
+            indicators: {
+              avgLinesPerCommit: 60,
+              largeCommitPercentage: 0,
+              avgFilesPerCommit: 5,
+              commitMessagePatterns: 0,
+              burstyCommitPercentage: 0,
+              typingSpeed: 0,
+              testFileRatio: 0,
+              aiToolSignatures: 0,
+            },
+          },
+        ],
         aiIndicators: {
           avgLinesPerCommit: {
             value: 60,
+            label: 'Avg Lines/Commit',
+            shortLabel: 'Avg Lines',
+            unit: 'lines',
+            formattedValue: '60',
+            threshold: { value: 100, direction: 'above' },
             description: expect.any(String),
           },
-          largeCommitPercentage: {
+          largeCommitPercentage: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
+          }),
           firstCommitAnalysis: {
             value: {
               lines: 60,
               isSuspicious: false,
             },
+            label: 'First Commit Size',
+            shortLabel: 'First Commit',
+            unit: 'lines',
+            formattedValue: '60 lines - ✓ Normal',
             description: expect.any(String),
           },
-          avgFilesPerCommit: {
+          avgFilesPerCommit: expect.objectContaining({
             value: 5,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          commitMessagePatterns: {
+          }),
+          commitMessagePatterns: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          burstyCommitPercentage: {
+          }),
+          burstyCommitPercentage: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          testFileRatio: {
+          }),
+          typingSpeed: expect.objectContaining({
+            value: {
+              fastCommitPercentage: 0,
+              measuredCommits: 0,
+              fastestCommits: [],
+            },
+            label: expect.any(String),
+            description: expect.any(String),
+          }),
+          testFileRatio: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          codeCommentRatio: {
+          }),
+          codeCommentRatio: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
-          codeNonTypicalExpressionRatio: {
+          }),
+          codeNonTypicalExpressionRatio: expect.objectContaining({
             value: 0,
+            label: expect.any(String),
             description: expect.any(String),
-          },
+          }),
+          aiToolSignatures: expect.objectContaining({
+            value: { commitPercentage: 0, authorPercentage: 0, tools: [] },
+            label: expect.any(String),
+            description: expect.any(String),
+          }),
+        },
+        aiScore: expect.any(Object),
+        timeSeries: {
+          interval: 'month',
+          buckets: [
+            expect.objectContaining({
+              period: '2024-01',
+              start: '2024-01-01T00:00:00.000Z',
+              commitCount: 1,
+            }),
+          ],
         },
+        fileScan: { scannedFiles: 0, exclusions: [] },
+        languageIndicators: [],
+        findings: [],
       });
     });
   });
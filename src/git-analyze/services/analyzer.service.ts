@@ -1,206 +1,605 @@
-import { Injectable } from '@nestjs/common';
-import { GitService, CommitInfo, SimpleGit } from './git.service';
+import { Injectable, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import {
+  GitService,
+  CommitInfo,
+  CommitHistoryFilter,
+  SimpleGit,
+} from './git.service';
 import { TempService } from './temp.service';
+import { AnalysisCacheService } from './analysis-cache.service';
 import {
   AnalyzeResponseDto,
+  AppliedConfig,
+  FileScanSummary,
   GitMetrics,
+  IndicatorFinding,
+  LanguageIndicators,
 } from '../routes/dto/analyze-response.dto';
 import { BasicMetricsService } from './metrics/basic-metrics.service';
-import { GitSizeService } from './metrics/ai-indicators/git-size.service';
-import { GitMessagesService } from './metrics/ai-indicators/git-messages.service';
-import { GitTimingService } from './metrics/ai-indicators/git-timing.service';
-import { CodeQualityService } from './metrics/ai-indicators/code-quality.service';
-import { CodeCommentAnalysisService } from './metrics/ai-indicators/code-comment-analysis.service';
-import { CodeNonTypicalExpressionsService } from './metrics/ai-indicators/code-non-typical-expressions.service';
-import { FileSystemScannerService } from './metrics/ai-indicators/file-system-scanner.service';
-import { METRIC_DESCRIPTIONS } from './metrics/metric-thresholds.constants';
+import {
+  FileAnalysisCache,
+  FileAnalyzer,
+  FileScanOptions,
+  FileScanResult,
+  FileSystemScannerService,
+} from './metrics/ai-indicators/file-system-scanner.service';
+import { AIScoreService, AIScoreWeights } from './metrics/ai-score.service';
+import { IndicatorBreakdownService } from './metrics/indicator-breakdown.service';
+import { MetricRegistryService } from './metrics/metric-registry.service';
+import { CommitMetricPlugin, FileMetricPlugin } from './metrics/metric-plugin';
+import { ProjectConfigService } from './project-config.service';
+import { BotDetectionService } from './bot-detection.service';
+import {
+  ContributorIdentityService,
+  formatIdentity,
+  IdentityResolution,
+} from './contributor-identity.service';
+import { TimeSeriesInterval } from '../routes/dto/analyze-request.dto';
+import {
+  AnalysisPhase,
+  AnalysisProgressEvent,
+  AnalysisProgressListener,
+} from '../routes/dto/analysis-progress.dto';
+
+/**
+ * Per-run options shared by remote and local analysis
+ */
+export interface AnalysisOptions {
+  /** Date window and commit range limiting the analyzed commits */
+  filter?: CommitHistoryFilter;
+  /** Overrides for the AI likelihood score weights */
+  scoreWeights?: AIScoreWeights;
+  /** Bucket size of the indicator time series (default: month) */
+  interval?: TimeSeriesInterval;
+  /** Project configuration file (default: a .gitanalyzerrc file at the repository root, if any) */
+  configPath?: string;
+  /** Merges the authors whose names are the same once normalised (default: identities.mergeByName of the project configuration) */
+  mergeByName?: boolean;
+  /** Keeps the commits of bot accounts in the AI indicators and the score (default: false, they are only reported as bot activity) */
+  includeBots?: boolean;
+  /** Worker threads of the file scan (default: SCAN_WORKERS; 0 scans on the main thread) */
+  scanWorkers?: number;
+  /** Reuses the commits and file analyses of earlier runs from the analysis cache and stores the new ones (default: analysisCache.enabled; the CLI caches unless --no-cache is passed) */
+  cache?: boolean;
+  /** Stops the analysis between phases (and any running clone or log) when aborted */
+  signal?: AbortSignal;
+  /** Receives clone, history and file scan progress (nothing is reported when omitted) */
+  onProgress?: AnalysisProgressListener;
+}
 
 @Injectable()
 export class AnalyzerService {
+  /** Last scan queued; file analyzers are shared singletons, so scans run one at a time */
+  private scanQueue: Promise<unknown> = Promise.resolve();
+
+  /** Whether analyses use the cache unless their options say otherwise */
+  private readonly cacheByDefault: boolean;
+
+  /**
+   * @param configService Application configuration (absent in the CLI), read for analysisCache.enabled
+   */
   constructor(
     private readonly gitService: GitService,
     private readonly tempService: TempService,
     private readonly basicMetricsService: BasicMetricsService,
-    private readonly gitSizeService: GitSizeService,
-    private readonly gitMessagesService: GitMessagesService,
-    private readonly gitTimingService: GitTimingService,
-    private readonly codeQualityService: CodeQualityService,
     private readonly fileSystemScannerService: FileSystemScannerService,
-    private readonly codeCommentAnalysisService: CodeCommentAnalysisService,
-    private readonly codeNonTypicalExpressionsService: CodeNonTypicalExpressionsService,
-  ) {}
+    private readonly metricRegistry: MetricRegistryService,
+    private readonly aiScoreService: AIScoreService,
+    private readonly indicatorBreakdownService: IndicatorBreakdownService,
+    private readonly projectConfigService: ProjectConfigService,
+    private readonly analysisCacheService: AnalysisCacheService,
+    private readonly contributorIdentityService: ContributorIdentityService,
+    private readonly botDetectionService: BotDetectionService,
+    @Optional() configService?: ConfigService,
+  ) {
+    this.cacheByDefault =
+      configService?.get<boolean>('analysisCache.enabled') ?? false;
+  }
 
   /**
    * Analyzes a Git repository and returns metrics
    * @param repositoryUrl Git repository URL
    * @param branch Branch to analyze (default: main)
+   * @param options Optional commit filter and score weights
    * @returns Analysis results
    */
   async analyzeRepository(
     repositoryUrl: string,
     branch: string = 'main',
+    options: AnalysisOptions = {},
   ): Promise<AnalyzeResponseDto> {
-    let git: SimpleGit;
     let repoPath: string | undefined;
 
     try {
+      // Reject invalid score weights and configuration before spending time on the clone
+      this.aiScoreService.resolveWeights(options.scoreWeights);
+      const config = this.loadConfigFile(options.configPath);
+
       // Clone the repository with progress indication
-      process.stdout.write('📥 Cloning repository...');
-      const cloneStartTime = Date.now();
-      const cloneProgressInterval = setInterval(() => {
-        const elapsed = Math.floor((Date.now() - cloneStartTime) / 1000);
-        process.stdout.write(`\r📥 Cloning repository... ${elapsed}s`);
-      }, 1000);
-
-      const cloneResult = await this.gitService.cloneRepository(
-        repositoryUrl,
-        branch,
+      const cloneResult = await this.withPhaseProgress(
+        AnalysisPhase.CLONE,
+        options.onProgress,
+        () =>
+          this.gitService.cloneRepository(
+            repositoryUrl,
+            branch,
+            options.signal,
+          ),
       );
-      clearInterval(cloneProgressInterval);
-      git = cloneResult.git;
       repoPath = cloneResult.repoPath;
-      const cloneTotalTime = Math.floor((Date.now() - cloneStartTime) / 1000);
-      process.stdout.write(
-        `\r✓ Repository cloned successfully (${cloneTotalTime}s)\n`,
-      );
 
-      // Validate repository
-      const isValid = await this.gitService.isValidRepository(git);
-      if (!isValid) {
-        throw new Error('Invalid Git repository');
+      return await this.runAnalysis(
+        cloneResult.git,
+        this.tempService.extractRepoName(repositoryUrl),
+        this.tempService.extractRepoIdentity(repositoryUrl),
+        repoPath,
+        options,
+        config,
+      );
+    } catch (error) {
+      throw new Error(`Analysis failed: ${(error as Error).message}`);
+    } finally {
+      // Clean up repository
+      if (repoPath) {
+        this.gitService.cleanupRepository(repoPath);
       }
+    }
+  }
+
+  /**
+   * Analyzes a repository that already exists on disk, without cloning or cleanup
+   * @param repositoryPath Path to a working tree or bare repository
+   * @param branch Optional ref to analyze (default: currently checked out HEAD)
+   * @param options Optional commit filter and score weights
+   * @returns Analysis results
+   */
+  async analyzeLocalRepository(
+    repositoryPath: string,
+    branch?: string,
+    options: AnalysisOptions = {},
+  ): Promise<AnalyzeResponseDto> {
+    try {
+      this.aiScoreService.resolveWeights(options.scoreWeights);
+      const config = this.loadConfigFile(options.configPath);
 
-      // Get commit history with progress indication
-      process.stdout.write('📜 Fetching commit history...');
-      const historyStartTime = Date.now();
-      const historyProgressInterval = setInterval(() => {
-        const elapsed = Math.floor((Date.now() - historyStartTime) / 1000);
-        process.stdout.write(`\r📜 Fetching commit history... ${elapsed}s`);
-      }, 1000);
-
-      const commits = await this.gitService.getCommitHistory(git);
-      clearInterval(historyProgressInterval);
-      const historyTotalTime = Math.floor(
-        (Date.now() - historyStartTime) / 1000,
+      const { git, repoPath, isBare } = await this.withPhaseProgress(
+        AnalysisPhase.OPEN,
+        options.onProgress,
+        () => this.gitService.openRepository(repositoryPath),
+        (result) => ({ repoPath: result.repoPath }),
       );
-      process.stdout.write(
-        `\r✓ Loaded ${commits.length} commits (${historyTotalTime}s)\n`,
+
+      // Bare repositories have no working tree, so file-based analysis is skipped
+      return await this.runAnalysis(
+        git,
+        path.basename(repoPath).replace(/\.git$/, ''),
+        // git reports the root with its symbolic links resolved
+        repoPath,
+        isBare ? undefined : repoPath,
+        options,
+        config,
+        branch,
       );
+    } catch (error) {
+      throw new Error(`Analysis failed: ${(error as Error).message}`);
+    }
+  }
 
-      // Get repository info
-      const repoInfo = await this.gitService.getRepositoryInfo(git);
+  /**
+   * Runs the analysis pipeline on an opened repository
+   * @param git SimpleGit instance
+   * @param repository Repository name reported in the results
+   * @param repositoryId Stable identity of the repository reported in the results
+   * @param repoPath Working tree path to scan, or undefined to skip file-based analysis
+   * @param options Commit filter and score weights
+   * @param explicitConfig Configuration loaded from options.configPath, replacing the repository's own file
+   * @param branch Ref whose history is read when the filter has no toRef, also reported in the results (default: checked out HEAD)
+   * @returns Analysis results
+   */
+  private async runAnalysis(
+    git: SimpleGit,
+    repository: string,
+    repositoryId: string,
+    repoPath: string | undefined,
+    options: AnalysisOptions,
+    explicitConfig: AppliedConfig | undefined,
+    branch?: string,
+  ): Promise<AnalyzeResponseDto> {
+    const { filter = {}, signal, onProgress } = options;
+    const cache =
+      (options.cache ?? this.cacheByDefault)
+        ? this.analysisCacheService
+        : undefined;
 
-      // Calculate metrics
-      const metrics = this.calculateMetrics(commits, repoPath);
+    // Validate repository
+    const isValid = await this.gitService.isValidRepository(git);
+    if (!isValid) {
+      throw new Error('Invalid Git repository');
+    }
 
-      // Extract repository name
-      const repository = this.tempService.extractRepoName(repositoryUrl);
+    // Bare repositories have no working tree to hold a configuration file
+    const config =
+      explicitConfig ??
+      (repoPath
+        ? this.projectConfigService.loadFromDirectory(repoPath)
+        : undefined);
 
-      return {
-        repository,
-        branch: repoInfo.branch,
-        metrics,
-        analyzedAt: new Date().toISOString(),
-      };
-    } catch (error) {
-      throw new Error(`Analysis failed: ${(error as Error).message}`);
+    // Get commit history with progress indication
+    const history = await this.withPhaseProgress(
+      AnalysisPhase.HISTORY,
+      onProgress,
+      () =>
+        this.gitService.getCommitHistory(
+          git,
+          {
+            ...filter,
+            toRef: filter.toRef ?? branch,
+          },
+          signal,
+          cache,
+        ),
+      (result) => ({ commits: result.length }),
+    );
+
+    // Count each contributor once, whatever identities they committed with
+    const { commits, merges } = await this.resolveIdentities(
+      git,
+      history,
+      options,
+      config,
+    );
+
+    // Get repository info
+    const [repoInfo, headCommit] = await Promise.all([
+      this.gitService.getRepositoryInfo(git),
+      this.gitService.getHeadCommit(git, filter.toRef ?? branch),
+    ]);
+
+    signal?.throwIfAborted();
+
+    // Calculate metrics
+    const metrics = await this.calculateMetrics(
+      commits,
+      repoPath,
+      { ...options, cache },
+      config,
+    );
+
+    const appliedFilter = this.getAppliedFilter(filter);
+
+    return {
+      repository,
+      repositoryId,
+      branch: branch ?? repoInfo.branch,
+      ...(headCommit && { headCommit }),
+      metrics: {
+        ...metrics,
+        ...(merges.length > 0 && { identityMerges: merges }),
+      },
+      analyzedAt: new Date().toISOString(),
+      ...(appliedFilter && { commitFilter: appliedFilter }),
+      ...(config && { config }),
+    };
+  }
+
+  /**
+   * Attributes the commits to their contributors through the repository's
+   * mailmap, the configured aliases and, when enabled, normalised names
+   * @param git SimpleGit instance
+   * @param commits Commits as written in the history
+   * @param options Whether to merge by name, and the abort signal
+   * @param config Optional project configuration (aliases, merging by name)
+   * @returns Commits attributed to their contributors, and the merged identities
+   */
+  private async resolveIdentities(
+    git: SimpleGit,
+    commits: CommitInfo[],
+    options: Pick<AnalysisOptions, 'mergeByName' | 'signal'>,
+    config?: AppliedConfig,
+  ): Promise<IdentityResolution> {
+    const authors =
+      this.contributorIdentityService.getAuthorIdentities(commits);
+    const mapped = await this.gitService.resolveMailmap(
+      git,
+      authors,
+      options.signal,
+    );
+
+    return this.contributorIdentityService.resolveIdentities(commits, {
+      mailmap: new Map(
+        authors.map((author, index) => [formatIdentity(author), mapped[index]]),
+      ),
+      aliases: config?.identities?.aliases,
+      mergeByName:
+        options.mergeByName ?? config?.identities?.mergeByName ?? false,
+    });
+  }
+
+  /**
+   * Loads an explicitly requested configuration file
+   * @param configPath Path to the configuration file
+   * @returns Applied configuration, or undefined when no path is given
+   */
+  private loadConfigFile(configPath?: string): AppliedConfig | undefined {
+    return configPath
+      ? this.projectConfigService.loadConfigFile(
+          path.resolve(configPath),
+          configPath,
+        )
+      : undefined;
+  }
+
+  /**
+   * Gets the fields of a commit filter that were actually set, for reporting
+   * @param filter Date window and commit range
+   * @returns Filter with only the set fields, or undefined when the whole history is analyzed
+   */
+  private getAppliedFilter(
+    filter: CommitHistoryFilter,
+  ): CommitHistoryFilter | undefined {
+    const { since, until, fromRef, toRef } = filter;
+    const applied = Object.fromEntries(
+      Object.entries({ since, until, fromRef, toRef }).filter(
+        ([, value]) => value,
+      ),
+    ) as CommitHistoryFilter;
+
+    return Object.keys(applied).length > 0 ? applied : undefined;
+  }
+
+  /**
+   * Runs a task while reporting the elapsed time every second
+   * @param phase Analysis phase the task belongs to
+   * @param onProgress Progress listener (the task simply runs when undefined)
+   * @param task Task to run
+   * @param summarize Builds the details of the completion event from the result
+   * @returns Task result
+   */
+  private async withPhaseProgress<T>(
+    phase: AnalysisPhase,
+    onProgress: AnalysisProgressListener | undefined,
+    task: () => Promise<T>,
+    summarize: (
+      result: T,
+    ) => Pick<AnalysisProgressEvent, 'commits' | 'repoPath'> = () => ({}),
+  ): Promise<T> {
+    if (!onProgress) {
+      return task();
+    }
+
+    const startTime = Date.now();
+    onProgress({ phase, state: 'started', elapsedMs: 0 });
+    const progressInterval = setInterval(() => {
+      onProgress({
+        phase,
+        state: 'running',
+        elapsedMs: Date.now() - startTime,
+      });
+    }, 1000);
+
+    try {
+      const result = await task();
+      onProgress({
+        phase,
+        state: 'completed',
+        elapsedMs: Date.now() - startTime,
+        percentage: 100,
+        ...summarize(result),
+      });
+      return result;
     } finally {
-      // Clean up repository
-      if (repoPath) {
-        this.gitService.cleanupRepository(repoPath);
-      }
+      clearInterval(progressInterval);
     }
   }
 
+  /**
+   * Runs the file analyzers over the working tree, reporting each
+   * whole-percent step of the scan
+   * @param repoPath Path to the repository working tree
+   * @param analyzers File analyzers to feed
+   * @param onProgress Optional progress listener
+   * @param scanOptions Skip patterns, worker count and abort signal
+   * @returns Number of scanned files, the exclusions by reason and the counts per language
+   */
+  private async scanSourceFiles(
+    repoPath: string,
+    analyzers: FileAnalyzer[],
+    onProgress: AnalysisProgressListener | undefined,
+    scanOptions: FileScanOptions,
+  ): Promise<FileScanResult> {
+    const startTime = Date.now();
+    let lastPercentage = -1;
+    let totalFiles = 0;
+    const report = (
+      state: AnalysisProgressEvent['state'],
+      filesScanned: number,
+    ) =>
+      onProgress?.({
+        phase: AnalysisPhase.SCAN,
+        state,
+        elapsedMs: Date.now() - startTime,
+        percentage:
+          totalFiles > 0 ? Math.floor((filesScanned / totalFiles) * 100) : 100,
+        filesScanned,
+        totalFiles,
+      });
+
+    onProgress?.({ phase: AnalysisPhase.SCAN, state: 'started', elapsedMs: 0 });
+    const summary = await this.fileSystemScannerService.scanRepository(
+      repoPath,
+      analyzers,
+      (current, total) => {
+        totalFiles = total;
+        const percentage = Math.floor((current / total) * 100);
+        if (percentage > lastPercentage) {
+          lastPercentage = percentage;
+          report('running', current);
+        }
+      },
+      scanOptions,
+    );
+    report('completed', totalFiles);
+    return summary;
+  }
+
+  /**
+   * Runs a task once the scans queued before it have finished
+   * @param task Scan and the reading of its results
+   * @returns Task result
+   */
+  private runExclusiveScan<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.scanQueue.then(task);
+    this.scanQueue = result.catch(() => undefined);
+    return result;
+  }
+
   /**
    * Calculates metrics from commit history
    * @param commits Array of commit information
-   * @param repoPath Path to the cloned repository
+   * @param repoPath Path to the repository working tree (file analysis is skipped when undefined)
+   * @param options Optional score weights, time series interval, bot inclusion, scan workers, file analysis cache, abort signal and progress listener
+   * @param config Optional project configuration (enabled indicators, thresholds, skip patterns)
    * @returns Calculated metrics
    */
-  private calculateMetrics(
+  private async calculateMetrics(
     commits: CommitInfo[],
-    repoPath: string,
-  ): GitMetrics {
+    repoPath?: string,
+    options: Pick<
+      AnalysisOptions,
+      | 'scoreWeights'
+      | 'interval'
+      | 'includeBots'
+      | 'scanWorkers'
+      | 'signal'
+      | 'onProgress'
+    > & { cache?: FileAnalysisCache } = {},
+    config?: AppliedConfig,
+  ): Promise<GitMetrics> {
+    const {
+      scoreWeights,
+      interval,
+      includeBots,
+      scanWorkers,
+      cache,
+      signal,
+      onProgress,
+    } = options;
+    const plugins = this.metricRegistry.resolvePlugins(config);
+
     // Get basic metrics from BasicMetricsService
     const basicMetrics =
       this.basicMetricsService.calculateBasicMetrics(commits);
 
-    // Get size-related metrics from GitSizeService
-    const sizeMetrics = this.gitSizeService.calculateSizeMetrics(commits);
+    // Bot commits are templated and bursty, so they only feed the AI indicators when asked
+    const { analyzedCommits, botActivity } =
+      this.botDetectionService.detectBots(commits, includeBots);
 
-    // Get AI indicator metrics from specialized services
-    const commitMessagePatterns =
-      this.gitMessagesService.analyzeCommitMessagePatterns(commits);
-    const burstyCommitPercentage =
-      this.gitTimingService.analyzeBurstyCommits(commits);
-    const testFileRatio = this.codeQualityService.analyzeTestFileRatio(commits);
+    // Get AI indicator values and findings from the enabled commit-based metric plugins
+    const commitPlugins = plugins.filter(
+      (plugin): plugin is CommitMetricPlugin => plugin.kind === 'commit',
+    );
+    const values = this.metricRegistry.calculateCommitMetrics(
+      analyzedCommits,
+      commitPlugins,
+    );
+    const findings = this.metricRegistry.calculateCommitFindings(
+      analyzedCommits,
+      commitPlugins,
+    );
 
-    // File-based analysis with unified scanning (comments + non-typical expressions)
-    console.log('📝 Analyzing source files...');
-    let lastProgress = 0;
-    this.fileSystemScannerService.scanRepository(
-      repoPath,
-      [this.codeCommentAnalysisService, this.codeNonTypicalExpressionsService],
-      (current, total) => {
-        const progress = Math.floor((current / total) * 100);
-        // Only update every 10% to avoid too much output
-        if (progress >= lastProgress + 10 || current === total) {
-          process.stdout.write(
-            `\r📝 Analyzing source files... ${current}/${total} files (${progress}%)`,
-          );
-          lastProgress = progress;
-          if (current === total) {
-            process.stdout.write('\n');
-          }
-        }
-      },
+    // Attributable indicators, recomputed for each contributor and period
+    const contributorIndicators =
+      this.indicatorBreakdownService.calculateContributorIndicators(
+        analyzedCommits,
+        plugins,
+      );
+    const timeSeries = this.indicatorBreakdownService.calculateTimeSeries(
+      analyzedCommits,
+      interval,
+      scoreWeights,
+      plugins,
+    );
+
+    // File-based plugins share a single scan of the working tree
+    const filePlugins = plugins.filter(
+      (plugin): plugin is FileMetricPlugin => plugin.kind === 'file',
     );
+    const fileAnalyzers = filePlugins.map((plugin) => plugin.analyzer);
+    const { fileScan, languageIndicators, fileFindings } =
+      await this.runExclusiveScan(
+        async (): Promise<{
+          fileScan?: FileScanSummary;
+          languageIndicators?: LanguageIndicators[];
+          fileFindings?: IndicatorFinding[];
+        }> => {
+          if (!repoPath) {
+            fileAnalyzers.forEach((analyzer) => analyzer.reset());
+            filePlugins.forEach((plugin) => {
+              values[plugin.id] = plugin.getResult();
+            });
+            return {};
+          }
 
-    const codeCommentRatio = this.codeCommentAnalysisService.getResult();
-    const codeNonTypicalExpressionRatio =
-      this.codeNonTypicalExpressionsService.getResult();
+          const { languages, ...summary } = await this.scanSourceFiles(
+            repoPath,
+            fileAnalyzers,
+            onProgress,
+            { skip: config?.skip, workers: scanWorkers, cache, signal },
+          );
+          filePlugins.forEach((plugin) => {
+            values[plugin.id] = plugin.getResult();
+          });
+          return {
+            fileScan: summary,
+            // Per-language values and findings are read from the analyzers, so before the next scan starts
+            languageIndicators:
+              this.indicatorBreakdownService.calculateLanguageIndicators(
+                languages,
+                plugins,
+              ),
+            fileFindings: filePlugins
+              .flatMap((plugin) => plugin.getFindings?.() ?? [])
+              .map((finding) => ({
+                ...finding,
+                ...(finding.file && {
+                  file: path
+                    .relative(repoPath, finding.file)
+                    .split(path.sep)
+                    .join('/'),
+                }),
+              })),
+          };
+        },
+      );
+
+    const aiIndicators = this.metricRegistry.toIndicators(values, plugins);
+
+    // Without a working tree, file-based indicators are reported but not scored
+    const scoredValues = repoPath
+      ? values
+      : Object.fromEntries(
+          Object.entries(values).filter(
+            ([id]) => this.metricRegistry.get(id)?.kind !== 'file',
+          ),
+        );
+    const aiScore = this.aiScoreService.calculateScore(
+      scoredValues,
+      { totalCommits: analyzedCommits.length, plugins },
+      scoreWeights,
+    );
 
     return {
       ...basicMetrics,
-      aiIndicators: {
-        avgLinesPerCommit: {
-          value: sizeMetrics.avgLinesPerCommit,
-          description: METRIC_DESCRIPTIONS.avgLinesPerCommit(),
-        },
-        largeCommitPercentage: {
-          value: sizeMetrics.largeCommitPercentage,
-          description: METRIC_DESCRIPTIONS.largeCommitPercentage(),
-        },
-        firstCommitAnalysis: {
-          value: sizeMetrics.firstCommitAnalysis,
-          description: METRIC_DESCRIPTIONS.firstCommitAnalysis(),
-        },
-        avgFilesPerCommit: {
-          value: sizeMetrics.avgFilesPerCommit,
-          description: METRIC_DESCRIPTIONS.avgFilesPerCommit(),
-        },
-        commitMessagePatterns: {
-          value: commitMessagePatterns,
-          description: METRIC_DESCRIPTIONS.commitMessagePatterns(),
-        },
-        burstyCommitPercentage: {
-          value: burstyCommitPercentage,
-          description: METRIC_DESCRIPTIONS.burstyCommitPercentage(),
-        },
-        testFileRatio: {
-          value: testFileRatio,
-          description: METRIC_DESCRIPTIONS.testFileRatio(),
-        },
-        codeCommentRatio: {
-          value: codeCommentRatio,
-          description: METRIC_DESCRIPTIONS.codeCommentRatio(),
-        },
-        codeNonTypicalExpressionRatio: {
-          value: codeNonTypicalExpressionRatio,
-          description: METRIC_DESCRIPTIONS.codeNonTypicalExpressionRatio(),
-        },
-      },
+      ...(botActivity && { botActivity }),
+      contributorIndicators,
+      ...(languageIndicators && { languageIndicators }),
+      aiIndicators,
+      aiScore,
+      timeSeries,
+      findings: [...findings, ...(fileFindings ?? [])],
+      ...(fileScan && { fileScan }),
     };
   }
 }
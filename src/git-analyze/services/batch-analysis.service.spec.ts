@@ -0,0 +1,418 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BatchAnalysisService } from './batch-analysis.service';
+import { AnalysisModule } from './analysis.module';
+import { AnalyzerService } from './analyzer.service';
+import {
+  MetricRegistryService,
+  MetricValues,
+} from './metrics/metric-registry.service';
+import {
+  AIScore,
+  AnalyzeResponseDto,
+} from '../routes/dto/analyze-response.dto';
+import {
+  BatchRepositoryResult,
+  MAX_BATCH_CONCURRENCY,
+} from '../routes/dto/batch-analysis.dto';
+
+describe('BatchAnalysisService', () => {
+  let service: BatchAnalysisService;
+  let analyzerService: AnalyzerService;
+  let registry: MetricRegistryService;
+
+  const createResult = (
+    repository: string,
+    values: MetricValues,
+    aiScore?: number,
+  ): AnalyzeResponseDto =>
+    ({
+      repository,
+      branch: 'main',
+      analyzedAt: '2024-06-01T00:00:00.000Z',
+      metrics: {
+        aiIndicators: registry.toIndicators(values),
+        ...(aiScore !== undefined && {
+          aiScore: { value: aiScore } as AIScore,
+        }),
+      },
+    }) as AnalyzeResponseDto;
+
+  const completed = (result: AnalyzeResponseDto): BatchRepositoryResult => ({
+    name: result.repository,
+    source: `/repos/${result.repository}`,
+    status: 'completed',
+    result,
+    durationMs: 10,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AnalysisModule],
+    }).compile();
+    await module.init();
+
+    service = module.get<BatchAnalysisService>(BatchAnalysisService);
+    analyzerService = module.get<AnalyzerService>(AnalyzerService);
+    registry = module.get<MetricRegistryService>(MetricRegistryService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('loadManifest', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read a YAML manifest and resolve paths against its directory', () => {
+      const manifestPath = path.join(dir, 'repos.yml');
+      fs.writeFileSync(
+        manifestPath,
+        [
+          'concurrency: 3',
+          'repositories:',
+          '  - url: https://github.com/acme/api.git',
+          '    branch: develop',
+          '  - path: ../web',
+          '    config: configs/web.yml',
+          '    name: Web',
+        ].join('\n'),
+      );
+
+      expect(service.loadManifest(manifestPath)).toEqual({
+        concurrency: 3,
+        repositories: [
+          { url: 'https://github.com/acme/api.git', branch: 'develop' },
+          {
+            path: path.resolve(dir, '../web'),
+            config: path.join(dir, 'configs/web.yml'),
+            name: 'Web',
+          },
+        ],
+      });
+    });
+
+    it('should list every invalid setting', () => {
+      const manifestPath = path.join(dir, 'repos.json');
+      fs.writeFileSync(
+        manifestPath,
+        JSON.stringify({
+          concurrency: 0,
+          repositories: [{ branch: 'main' }, { url: 'not a url' }],
+        }),
+      );
+
+      expect(() => service.loadManifest(manifestPath)).toThrow(
+        /repositories\[0\]\.path: Either url or path must be provided\n(.*\n)*.*repositories\[1\]\.url: Repository url must be a valid URL\n.*concurrency: concurrency must not be less than 1$/,
+      );
+    });
+
+    it('should cap the concurrency', () => {
+      const manifestPath = path.join(dir, 'repos.json');
+      fs.writeFileSync(
+        manifestPath,
+        JSON.stringify({
+          concurrency: MAX_BATCH_CONCURRENCY + 1,
+          repositories: [{ path: 'api' }],
+        }),
+      );
+
+      expect(() => service.loadManifest(manifestPath)).toThrow(
+        `concurrency: concurrency must not be greater than ${MAX_BATCH_CONCURRENCY}`,
+      );
+    });
+
+    it('should reject manifests without repositories', () => {
+      const manifestPath = path.join(dir, 'repos.yml');
+      fs.writeFileSync(manifestPath, '- https://github.com/acme/api.git');
+
+      expect(() => service.loadManifest(manifestPath)).toThrow(
+        'expected an object with "repositories"',
+      );
+      expect(() => service.loadManifest(path.join(dir, 'missing.yml'))).toThrow(
+        'Failed to read batch manifest',
+      );
+    });
+  });
+
+  describe('analyzeBatch', () => {
+    it('should keep going after a failed repository', async () => {
+      jest
+        .spyOn(analyzerService, 'analyzeRepository')
+        .mockRejectedValue(new Error('Analysis failed: Repository not found'));
+      jest
+        .spyOn(analyzerService, 'analyzeLocalRepository')
+        .mockImplementation((repositoryPath) =>
+          Promise.resolve(
+            createResult(path.basename(repositoryPath), {
+              largeCommitPercentage: 12,
+            }),
+          ),
+        );
+      const onRepositoryDone = jest.fn();
+
+      const batch = await service.analyzeBatch(
+        {
+          repositories: [
+            { url: 'https://github.com/acme/gone.git', branch: 'main' },
+            { path: '/repos/web', config: '/configs/web.yml' },
+            { path: '/repos/api', name: 'API' },
+          ],
+        },
+        { onRepositoryDone },
+      );
+
+      expect(batch.repositories).toEqual([
+        expect.objectContaining({
+          name: 'gone@main',
+          source: 'https://github.com/acme/gone.git',
+          status: 'failed',
+          error: 'Analysis failed: Repository not found',
+        }),
+        expect.objectContaining({ name: 'web', status: 'completed' }),
+        expect.objectContaining({ name: 'API', status: 'completed' }),
+      ]);
+      expect(analyzerService.analyzeLocalRepository).toHaveBeenCalledWith(
+        '/repos/web',
+        undefined,
+        expect.objectContaining({ configPath: '/configs/web.yml' }),
+      );
+      expect(onRepositoryDone).toHaveBeenCalledTimes(3);
+      expect(onRepositoryDone).toHaveBeenLastCalledWith(
+        expect.anything(),
+        3,
+        3,
+      );
+      expect(batch.leaderboard[0].entries.map((entry) => entry.name)).toEqual([
+        'web',
+        'API',
+      ]);
+    });
+
+    it('should not run more analyses at a time than the concurrency', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      jest
+        .spyOn(analyzerService, 'analyzeLocalRepository')
+        .mockImplementation(async (repositoryPath) => {
+          maxRunning = Math.max(maxRunning, ++running);
+          await new Promise((resolve) => setImmediate(resolve));
+          running--;
+          return createResult(path.basename(repositoryPath), {});
+        });
+
+      const batch = await service.analyzeBatch(
+        {
+          repositories: ['a', 'b', 'c', 'd', 'e'].map((name) => ({
+            path: `/repos/${name}`,
+          })),
+          concurrency: 4,
+        },
+        { concurrency: 2 },
+      );
+
+      expect(maxRunning).toBe(2);
+      expect(batch.repositories.map((repository) => repository.name)).toEqual([
+        'a',
+        'b',
+        'c',
+        'd',
+        'e',
+      ]);
+    });
+
+    it('should run each analysis through the given runner', async () => {
+      const signal = new AbortController().signal;
+      jest
+        .spyOn(analyzerService, 'analyzeLocalRepository')
+        .mockImplementation((repositoryPath) =>
+          Promise.resolve(createResult(path.basename(repositoryPath), {})),
+        );
+      const runAnalysis = jest.fn(
+        (analysis: (signal?: AbortSignal) => Promise<AnalyzeResponseDto>) =>
+          analysis(signal),
+      );
+
+      const batch = await service.analyzeBatch(
+        { repositories: [{ path: '/repos/a' }, { path: '/repos/b' }] },
+        { runAnalysis },
+      );
+
+      expect(runAnalysis).toHaveBeenCalledTimes(2);
+      expect(analyzerService.analyzeLocalRepository).toHaveBeenCalledWith(
+        '/repos/a',
+        undefined,
+        expect.objectContaining({ signal }),
+      );
+      expect(batch.repositories.map((repository) => repository.status)).toEqual(
+        ['completed', 'completed'],
+      );
+    });
+
+    it('should stop when aborted', async () => {
+      const abortController = new AbortController();
+      jest
+        .spyOn(analyzerService, 'analyzeLocalRepository')
+        .mockImplementation(() => {
+          abortController.abort(new Error('Batch cancelled'));
+          return Promise.reject(new Error('Analysis failed: aborted'));
+        });
+
+      await expect(
+        service.analyzeBatch(
+          { repositories: [{ path: '/repos/a' }, { path: '/repos/b' }] },
+          { concurrency: 1, signal: abortController.signal },
+        ),
+      ).rejects.toThrow('Batch cancelled');
+      expect(analyzerService.analyzeLocalRepository).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('buildLeaderboard', () => {
+    it('should rank the repositories by AI score and by each indicator, the most AI-like first', () => {
+      const leaderboard = service.buildLeaderboard([
+        completed(
+          createResult(
+            'api',
+            {
+              largeCommitPercentage: 5,
+              testFileRatio: 30,
+              aiToolSignatures: {
+                commitPercentage: 8,
+                authorPercentage: 50,
+                tools: [],
+              },
+            },
+            40,
+          ),
+        ),
+        completed(
+          createResult(
+            'web',
+            { largeCommitPercentage: 25, testFileRatio: 10 },
+            72.5,
+          ),
+        ),
+        completed(
+          createResult('cli', { largeCommitPercentage: 25, testFileRatio: 45 }),
+        ),
+        {
+          name: 'gone',
+          source: 'https://github.com/acme/gone.git',
+          status: 'failed',
+          error: 'Repository not found',
+          durationMs: 10,
+        },
+      ]);
+
+      expect(leaderboard.map((ranking) => ranking.indicator)).toEqual([
+        'aiScore',
+        'largeCommitPercentage',
+        'testFileRatio',
+        'aiToolSignatures',
+      ]);
+      expect(leaderboard[0].entries).toEqual([
+        {
+          rank: 1,
+          name: 'web',
+          repositoryIndex: 1,
+          value: 72.5,
+          formattedValue: '72.5/100',
+          exceedsThreshold: false,
+        },
+        {
+          rank: 2,
+          name: 'api',
+          repositoryIndex: 0,
+          value: 40,
+          formattedValue: '40/100',
+          exceedsThreshold: false,
+        },
+      ]);
+      // Equal values share a rank
+      expect(leaderboard[1].entries).toEqual([
+        {
+          rank: 1,
+          name: 'web',
+          repositoryIndex: 1,
+          value: 25,
+          formattedValue: '25%',
+          exceedsThreshold: true,
+        },
+        {
+          rank: 1,
+          name: 'cli',
+          repositoryIndex: 2,
+          value: 25,
+          formattedValue: '25%',
+          exceedsThreshold: true,
+        },
+        {
+          rank: 3,
+          name: 'api',
+          repositoryIndex: 0,
+          value: 5,
+          formattedValue: '5%',
+          exceedsThreshold: false,
+        },
+      ]);
+      // Low test file ratios suggest AI assistance
+      expect(
+        leaderboard[2].entries.map(({ name, rank }) => [name, rank]),
+      ).toEqual([
+        ['web', 1],
+        ['api', 2],
+        ['cli', 3],
+      ]);
+      expect(leaderboard[3]).toMatchObject({
+        threshold: { value: 5, direction: 'above' },
+        entries: [
+          {
+            rank: 1,
+            name: 'api',
+            repositoryIndex: 0,
+            value: 8,
+            formattedValue: '8%',
+            exceedsThreshold: true,
+          },
+        ],
+      });
+    });
+
+    it('should tell repositories with the same name apart', () => {
+      const batch = [
+        completed(createResult('api', { largeCommitPercentage: 5 }, 40)),
+        completed(createResult('api', { largeCommitPercentage: 25 }, 72.5)),
+        {
+          name: 'api',
+          source: '/srv/other/api',
+          status: 'failed' as const,
+          error: 'Repository not found',
+          durationMs: 10,
+        },
+      ];
+
+      const leaderboard = service.buildLeaderboard(batch);
+
+      expect(
+        leaderboard[0].entries.map(({ repositoryIndex, rank }) => [
+          repositoryIndex,
+          rank,
+        ]),
+      ).toEqual([
+        [1, 1],
+        [0, 2],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,394 @@
+import { Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, validateSync } from 'class-validator';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import {
+  AIIndicatorMetric,
+  AIIndicatorName,
+  AnalyzeResponseDto,
+} from '../routes/dto/analyze-response.dto';
+import {
+  AnalyzeBatchRequestDto,
+  BatchAnalysisResponseDto,
+  BatchRepositoryDto,
+  BatchRepositoryResult,
+  IndicatorRanking,
+  LeaderboardEntry,
+} from '../routes/dto/batch-analysis.dto';
+import { AnalysisOptions, AnalyzerService } from './analyzer.service';
+import { exceedsThreshold } from './metrics/metric-plugin';
+import { MetricRegistryService } from './metrics/metric-registry.service';
+
+/**
+ * Repositories analyzed at the same time when neither the caller nor the
+ * manifest sets a concurrency
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+const AI_SCORE_INDICATOR = 'aiScore';
+
+export interface BatchAnalysisOptions {
+  /** Repositories analyzed at the same time (default: the manifest's, else DEFAULT_BATCH_CONCURRENCY) */
+  concurrency?: number;
+  /** Worker threads of each file scan */
+  scanWorkers?: number;
+  /** Reuses and stores commits and file analyses in the analysis cache (default: analysisCache.enabled) */
+  cache?: boolean;
+  /** Stops the batch, including the running analyses, when aborted */
+  signal?: AbortSignal;
+  /** Runs the analysis of each repository, e.g. through the API's job queue, passing it the signal to stop on (default: right away, with the batch's signal) */
+  runAnalysis?: (
+    analysis: (signal?: AbortSignal) => Promise<AnalyzeResponseDto>,
+  ) => Promise<AnalyzeResponseDto>;
+  /** Called as each repository completes or fails */
+  onRepositoryDone?: (
+    result: BatchRepositoryResult,
+    done: number,
+    total: number,
+  ) => void;
+}
+
+/**
+ * Leaderboard entry before ranking
+ */
+type UnrankedEntry = Omit<LeaderboardEntry, 'rank'>;
+
+/** Completed repository, with its position in the batch results */
+type RankedRepository = Pick<LeaderboardEntry, 'name' | 'repositoryIndex'>;
+
+@Injectable()
+export class BatchAnalysisService {
+  constructor(
+    private readonly analyzerService: AnalyzerService,
+    private readonly metricRegistry: MetricRegistryService,
+  ) {}
+
+  /**
+   * Reads a batch manifest. Files ending in .json are parsed as JSON,
+   * anything else as YAML (which also accepts JSON). Repository paths and
+   * configuration files are resolved against the manifest's directory.
+   * @param filePath Path to the manifest
+   * @returns Validated manifest
+   * @throws Error if the file cannot be read or parsed, or fails validation
+   */
+  loadManifest(filePath: string): AnalyzeBatchRequestDto {
+    let raw: unknown;
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      raw =
+        path.extname(filePath) === '.json'
+          ? JSON.parse(content)
+          : yaml.load(content);
+    } catch (error) {
+      throw new Error(
+        `Failed to read batch manifest ${filePath}: ${(error as Error).message}`,
+      );
+    }
+
+    const manifest = this.validateManifest(raw, filePath);
+    const baseDir = path.dirname(path.resolve(filePath));
+    manifest.repositories = manifest.repositories.map((repository) => ({
+      ...repository,
+      ...(repository.path && {
+        path: path.resolve(baseDir, repository.path),
+      }),
+      ...(repository.config && {
+        config: path.resolve(baseDir, repository.config),
+      }),
+    }));
+
+    return manifest;
+  }
+
+  /**
+   * Validates a parsed manifest against the batch request schema
+   * @param raw Parsed manifest
+   * @param source Manifest name, for error messages
+   * @returns Validated manifest
+   * @throws Error listing every invalid setting
+   */
+  validateManifest(raw: unknown, source: string): AnalyzeBatchRequestDto {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new Error(
+        `Invalid batch manifest ${source}: expected an object with "repositories"`,
+      );
+    }
+
+    const manifest = plainToInstance(AnalyzeBatchRequestDto, raw);
+    const errors = this.describeErrors(validateSync(manifest));
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid batch manifest ${source}:\n${errors.map((error) => `  - ${error}`).join('\n')}`,
+      );
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Analyzes the repositories of a manifest, a bounded number at a time. A
+   * failed repository is recorded and the others carry on.
+   * @param manifest Repositories to analyze
+   * @param options Concurrency, cancellation and completion callback
+   * @returns Result of each repository and the leaderboard of the completed ones
+   * @throws Error only when the batch is aborted
+   */
+  async analyzeBatch(
+    manifest: AnalyzeBatchRequestDto,
+    options: BatchAnalysisOptions = {},
+  ): Promise<BatchAnalysisResponseDto> {
+    const { repositories } = manifest;
+    const concurrency = Math.max(
+      1,
+      options.concurrency ?? manifest.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+    );
+    const results = new Array<BatchRepositoryResult>(repositories.length);
+    let next = 0;
+    let done = 0;
+
+    const runNext = async (): Promise<void> => {
+      while (next < repositories.length) {
+        options.signal?.throwIfAborted();
+        const index = next++;
+        results[index] = await this.analyzeEntry(repositories[index], options);
+        options.onRepositoryDone?.(results[index], ++done, repositories.length);
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.min(concurrency, repositories.length) },
+        runNext,
+      ),
+    );
+
+    return {
+      analyzedAt: new Date().toISOString(),
+      repositories: results,
+      leaderboard: this.buildLeaderboard(results),
+    };
+  }
+
+  /**
+   * Ranks the completed repositories by AI score and by each indicator, the
+   * most AI-like first: highest values for indicators with an "above"
+   * threshold (and those without one), lowest for "below" thresholds
+   * @param repositories Batch results
+   * @returns Rankings, AI score first; indicators in order of first appearance
+   */
+  buildLeaderboard(repositories: BatchRepositoryResult[]): IndicatorRanking[] {
+    const completed = repositories
+      .map((repository, repositoryIndex) => ({
+        ...repository,
+        repositoryIndex,
+      }))
+      .filter((repository) => repository.result);
+
+    const scoreEntries = completed.flatMap(
+      ({ name, repositoryIndex, result }): UnrankedEntry[] => {
+        const score = result!.metrics.aiScore?.value;
+        return score === undefined
+          ? []
+          : [
+              {
+                name,
+                repositoryIndex,
+                value: score,
+                formattedValue: `${score}/100`,
+                exceedsThreshold: false,
+              },
+            ];
+      },
+    );
+
+    const indicatorIds = [
+      ...new Set(
+        completed.flatMap(({ result }) =>
+          Object.keys(result!.metrics.aiIndicators ?? {}),
+        ),
+      ),
+    ];
+
+    return [
+      ...(scoreEntries.length > 0
+        ? [
+            {
+              indicator: AI_SCORE_INDICATOR,
+              label: 'AI Likelihood Score',
+              shortLabel: 'AI Score',
+              entries: this.rank(scoreEntries, true),
+            },
+          ]
+        : []),
+      ...indicatorIds.map((id) =>
+        this.rankIndicator(
+          id,
+          completed.map(({ name, repositoryIndex, result }) => ({
+            name,
+            repositoryIndex,
+            metric: result!.metrics.aiIndicators?.[id],
+          })),
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Analyzes one repository of the manifest, recording a failure instead of throwing
+   */
+  private async analyzeEntry(
+    repository: BatchRepositoryDto,
+    options: BatchAnalysisOptions,
+  ): Promise<BatchRepositoryResult> {
+    const source = (repository.path ?? repository.url)!;
+    const startedAt = Date.now();
+    const analyze = (signal?: AbortSignal) => {
+      const analysisOptions: AnalysisOptions = {
+        configPath: repository.config,
+        scanWorkers: options.scanWorkers,
+        cache: options.cache,
+        ...(signal && { signal }),
+      };
+      return repository.path
+        ? this.analyzerService.analyzeLocalRepository(
+            repository.path,
+            repository.branch,
+            analysisOptions,
+          )
+        : this.analyzerService.analyzeRepository(
+            repository.url!,
+            repository.branch,
+            analysisOptions,
+          );
+    };
+
+    try {
+      const result = await (options.runAnalysis
+        ? options.runAnalysis(analyze)
+        : analyze(options.signal));
+
+      return {
+        name: this.getName(repository, result.repository),
+        source,
+        ...(repository.branch && { branch: repository.branch }),
+        status: 'completed',
+        result,
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      // A cancelled batch stops instead of recording every remaining repository as failed
+      options.signal?.throwIfAborted();
+
+      return {
+        name: this.getName(
+          repository,
+          path.basename(source).replace(/\.git$/, ''),
+        ),
+        source,
+        ...(repository.branch && { branch: repository.branch }),
+        status: 'failed',
+        error: (error as Error).message,
+        durationMs: Date.now() - startedAt,
+      };
+    }
+  }
+
+  /**
+   * Names a repository in the leaderboard: its manifest name, or the
+   * repository name followed by the branch when one was requested
+   */
+  private getName(repository: BatchRepositoryDto, repositoryName: string) {
+    if (repository.name) {
+      return repository.name;
+    }
+    return repository.branch
+      ? `${repositoryName}@${repository.branch}`
+      : repositoryName;
+  }
+
+  /**
+   * Ranks the repositories that report an indicator, reading its value as a
+   * number with the plugin's toNumber
+   */
+  private rankIndicator(
+    id: AIIndicatorName,
+    repositories: Array<RankedRepository & { metric?: AIIndicatorMetric }>,
+  ): IndicatorRanking {
+    const plugin = this.metricRegistry.get(id);
+    const reported = repositories.filter(
+      (
+        repository,
+      ): repository is RankedRepository & { metric: AIIndicatorMetric } =>
+        repository.metric !== undefined,
+    );
+    const { label, shortLabel, unit, threshold } = reported[0].metric;
+
+    const entries = reported.flatMap(
+      ({ name, repositoryIndex, metric }): UnrankedEntry[] => {
+        const value = plugin
+          ? plugin.toNumber(metric.value)
+          : typeof metric.value === 'number'
+            ? metric.value
+            : undefined;
+        return value === undefined
+          ? []
+          : [
+              {
+                name,
+                repositoryIndex,
+                value,
+                formattedValue: `${value}${unit === 'percent' ? '%' : ''}`,
+                exceedsThreshold: exceedsThreshold(value, metric.threshold),
+              },
+            ];
+      },
+    );
+
+    return {
+      indicator: id,
+      label,
+      shortLabel,
+      unit,
+      ...(threshold && { threshold }),
+      entries: this.rank(entries, threshold?.direction !== 'below'),
+    };
+  }
+
+  /**
+   * Sorts entries and assigns competition ranks (1, 1, 3, ...)
+   */
+  private rank(
+    entries: UnrankedEntry[],
+    descending: boolean,
+  ): LeaderboardEntry[] {
+    const sorted = [...entries].sort((a, b) =>
+      descending ? b.value - a.value : a.value - b.value,
+    );
+    return sorted.map((entry, index) => ({
+      rank:
+        index > 0 && sorted[index - 1].value === entry.value
+          ? sorted.findIndex((other) => other.value === entry.value) + 1
+          : index + 1,
+      ...entry,
+    }));
+  }
+
+  /**
+   * Flattens validation errors into "property.path: message" lines
+   */
+  private describeErrors(errors: ValidationError[], parent = ''): string[] {
+    return errors.flatMap((error) => {
+      const property = parent
+        ? `${parent}${/^\d+$/.test(error.property) ? `[${error.property}]` : `.${error.property}`}`
+        : error.property;
+      return [
+        ...Object.values(error.constraints ?? {}).map(
+          (message) => `${property}: ${message}`,
+        ),
+        ...this.describeErrors(error.children ?? [], property),
+      ];
+    });
+  }
+}
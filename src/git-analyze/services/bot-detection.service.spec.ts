@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BotDetectionService } from './bot-detection.service';
+import { CommitInfo } from './git.service';
+import { GitSignaturesService } from './metrics/ai-indicators/git-signatures.service';
+
+/**
+ * Builds a commit by the given author
+ */
+function commit(
+  author: string,
+  email: string,
+  message = 'Update code',
+  body = '',
+): CommitInfo {
+  return {
+    hash: `${email}-${message}`,
+    author,
+    email,
+    date: new Date('2024-01-01T00:00:00Z'),
+    message,
+    body,
+    filesChanged: 1,
+    insertions: 10,
+    deletions: 0,
+    files: ['package.json'],
+  };
+}
+
+describe('BotDetectionService', () => {
+  let service: BotDetectionService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [BotDetectionService],
+    }).compile();
+
+    service = module.get<BotDetectionService>(BotDetectionService);
+  });
+
+  describe('classifyCommit', () => {
+    it('should recognise known bot accounts', () => {
+      expect(
+        service.classifyCommit(
+          commit(
+            'dependabot[bot]',
+            '49699333+dependabot[bot]@users.noreply.github.com',
+          ),
+        ),
+      ).toEqual({ bot: 'Dependabot', matchedBy: 'account' });
+      expect(
+        service.classifyCommit(commit('Renovate Bot', 'bot@renovateapp.com')),
+      ).toEqual({ bot: 'Renovate', matchedBy: 'account' });
+      expect(
+        service.classifyCommit(
+          commit(
+            'github-actions',
+            '41898282+github-actions[bot]@users.noreply.github.com',
+          ),
+        ),
+      ).toEqual({ bot: 'GitHub Actions', matchedBy: 'account' });
+    });
+
+    it('should recognise unknown bots by the [bot] suffix of their name or email', () => {
+      expect(
+        service.classifyCommit(
+          commit('my-app[bot]', '123+my-app[bot]@users.noreply.github.com'),
+        ),
+      ).toEqual({ bot: 'my-app[bot]', matchedBy: 'suffix' });
+      expect(
+        service.classifyCommit(
+          commit('Deploy', '123+deploy[bot]@users.noreply.github.com'),
+        ),
+      ).toEqual({ bot: 'Deploy', matchedBy: 'suffix' });
+    });
+
+    it('should recognise bot signatures in commit messages', () => {
+      expect(
+        service.classifyCommit(
+          commit(
+            'Jane Doe',
+            'jane@example.com',
+            'Bump lodash from 4.17.20 to 4.17.21',
+            'Signed-off-by: dependabot[bot] <support@github.com>',
+          ),
+        ),
+      ).toEqual({ bot: 'Dependabot', matchedBy: 'message' });
+      expect(
+        service.classifyCommit(
+          commit(
+            'Jane Doe',
+            'jane@example.com',
+            '[pre-commit.ci] auto fixes from pre-commit.com hooks',
+          ),
+        ),
+      ).toEqual({ bot: 'pre-commit.ci', matchedBy: 'message' });
+    });
+
+    it('should not flag humans', () => {
+      [
+        commit('Abbot Costello', 'abbot@example.com'),
+        commit('Robot Fan', 'bottle@example.com'),
+        commit('Ro', 'ro.bot@x.com'),
+        commit('Tal Bot', 'tal@example.com'),
+        commit('Jane Doe', 'jane@example.com', 'Bump lodash to 4.17.21'),
+      ].forEach((human) => {
+        expect(service.classifyCommit(human)).toBeUndefined();
+      });
+    });
+  });
+
+  describe('AI agent accounts', () => {
+    const agentCommits = [
+      commit(
+        'copilot-swe-agent[bot]',
+        '198982749+Copilot@users.noreply.github.com',
+        'Fix login redirect',
+      ),
+      commit(
+        'devin-ai-integration[bot]',
+        '158243242+devin-ai-integration[bot]@users.noreply.github.com',
+        'Add retry logic',
+      ),
+      commit('Jane Doe', 'jane@example.com'),
+    ];
+
+    it('should not classify AI agents as bots', () => {
+      expect(service.classifyCommit(agentCommits[0])).toBeUndefined();
+      expect(service.classifyCommit(agentCommits[1])).toBeUndefined();
+    });
+
+    it('should keep AI agent commits for the AI tool signatures', () => {
+      const result = service.detectBots(agentCommits);
+
+      expect(result).toEqual({ analyzedCommits: agentCommits });
+      expect(
+        new GitSignaturesService().analyzeToolSignatures(result.analyzedCommits)
+          .tools,
+      ).toEqual([
+        { tool: 'Devin', commits: 1, authors: 1 },
+        { tool: 'GitHub Copilot', commits: 1, authors: 1 },
+      ]);
+    });
+  });
+
+  describe('detectBots', () => {
+    const commits = [
+      commit('Jane Doe', 'jane@example.com'),
+      commit('dependabot[bot]', 'dependabot[bot]@users.noreply.github.com'),
+      commit(
+        'dependabot[bot]',
+        'dependabot[bot]@users.noreply.github.com',
+        'Bump jest',
+      ),
+      commit('Jane Doe', 'jane@example.com', 'Fix bug'),
+      commit('my-app[bot]', '123+my-app[bot]@users.noreply.github.com'),
+    ];
+
+    it('should leave bot commits out of the analyzed commits by default', () => {
+      const result = service.detectBots(commits);
+
+      expect(result.analyzedCommits).toEqual([commits[0], commits[3]]);
+      expect(result.botActivity).toEqual({
+        commitCount: 3,
+        commitPercentage: 60,
+        excluded: true,
+        accounts: [
+          {
+            bot: 'Dependabot',
+            name: 'dependabot[bot]',
+            email: 'dependabot[bot]@users.noreply.github.com',
+            commitCount: 2,
+            insertions: 20,
+            matchedBy: 'account',
+          },
+          {
+            bot: 'my-app[bot]',
+            name: 'my-app[bot]',
+            email: '123+my-app[bot]@users.noreply.github.com',
+            commitCount: 1,
+            insertions: 10,
+            matchedBy: 'suffix',
+          },
+        ],
+      });
+    });
+
+    it('should keep bot commits when bots are included', () => {
+      const result = service.detectBots(commits, true);
+
+      expect(result.analyzedCommits).toBe(commits);
+      expect(result.botActivity).toMatchObject({
+        commitCount: 3,
+        excluded: false,
+      });
+    });
+
+    it('should not report bot activity without bot commits', () => {
+      const humans = [commits[0], commits[3]];
+
+      expect(service.detectBots(humans)).toEqual({ analyzedCommits: humans });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from './git.service';
+import {
+  BotAccount,
+  BotActivity,
+  BotMatch,
+} from '../routes/dto/analyze-response.dto';
+import { BOT_SIGNATURES, BotSignature } from './bot-signatures.constants';
+import { AI_TOOL_SIGNATURES } from './metrics/ai-tool-signatures.constants';
+
+/**
+ * Commits split between the AI indicators and the bot activity
+ */
+export interface BotDetection {
+  /** Commits the AI indicators are calculated from: human and AI agent commits only, unless bots are included */
+  analyzedCommits: CommitInfo[];
+  /** Commits made by bot accounts, when there are any */
+  botActivity?: BotActivity;
+}
+
+@Injectable()
+export class BotDetectionService {
+  // GitHub App accounts: "my-app[bot]", "123+my-app[bot]@users.noreply.github.com".
+  // Looser suffixes ("-bot", ".bot") also match people, so those bots go in the catalogue
+  private readonly BOT_SUFFIX = /\[bot\]$/i;
+
+  /**
+   * Finds the commits made by bot accounts
+   * @param commits Array of commit information
+   * @param includeBots Keeps bot commits in the analyzed commits (default: false)
+   * @param signatures Bot signatures to look for (default: BOT_SIGNATURES)
+   * @returns Commits to analyze, and the bot accounts with their commits
+   */
+  detectBots(
+    commits: CommitInfo[],
+    includeBots = false,
+    signatures: BotSignature[] = BOT_SIGNATURES,
+  ): BotDetection {
+    const humanCommits: CommitInfo[] = [];
+    const accounts = new Map<string, BotAccount>();
+    let botCommits = 0;
+
+    commits.forEach((commit) => {
+      const match = this.classifyCommit(commit, signatures);
+      if (!match) {
+        humanCommits.push(commit);
+        return;
+      }
+
+      botCommits++;
+      const key = commit.email.toLowerCase();
+      const account = accounts.get(key) ?? {
+        ...match,
+        name: commit.author,
+        email: commit.email,
+        commitCount: 0,
+        insertions: 0,
+      };
+      account.commitCount++;
+      account.insertions += commit.insertions;
+      accounts.set(key, account);
+    });
+
+    if (botCommits === 0) {
+      return { analyzedCommits: commits };
+    }
+
+    return {
+      analyzedCommits: includeBots ? commits : humanCommits,
+      botActivity: {
+        commitCount: botCommits,
+        commitPercentage:
+          Math.round((botCommits / commits.length) * 100 * 100) / 100,
+        excluded: !includeBots,
+        accounts: [...accounts.values()].sort(
+          (a, b) => b.commitCount - a.commitCount,
+        ),
+      },
+    };
+  }
+
+  /**
+   * Classifies a commit as made by a bot, checking the catalogue against its
+   * author, then the name and email for a "[bot]" suffix, then the catalogue
+   * against each line of its message. Accounts of AI coding agents (e.g.
+   * "copilot-swe-agent[bot]") are not bots: their commits are the AI-authored
+   * code the indicators look for.
+   * @param commit Commit information
+   * @param signatures Bot signatures to look for (default: BOT_SIGNATURES)
+   * @returns Bot name and what matched, or undefined for a human or AI agent commit
+   */
+  classifyCommit(
+    commit: CommitInfo,
+    signatures: BotSignature[] = BOT_SIGNATURES,
+  ): { bot: string; matchedBy: BotMatch } | undefined {
+    const author = `${commit.author} <${commit.email}>`;
+    if (AI_TOOL_SIGNATURES.some((tool) => tool.account?.test(author))) {
+      return undefined;
+    }
+
+    const account = signatures.find((signature) =>
+      signature.author?.test(author),
+    );
+    if (account) {
+      return { bot: account.bot, matchedBy: 'account' };
+    }
+
+    const [localPart] = commit.email.split('@');
+    if (
+      [commit.author.trim(), localPart].some((id) => this.BOT_SUFFIX.test(id))
+    ) {
+      return { bot: commit.author, matchedBy: 'suffix' };
+    }
+
+    const lines = [commit.message, ...(commit.body ?? '').split('\n')].map(
+      (line) => line.trim(),
+    );
+    const signed = signatures.find(
+      (signature) =>
+        signature.message &&
+        lines.some((line) => signature.message!.test(line)),
+    );
+    return signed ? { bot: signed.bot, matchedBy: 'message' } : undefined;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Known signatures of bot accounts that commit to repositories
+ */
+export interface BotSignature {
+  /** Bot name reported in the results */
+  bot: string;
+  /** Matched against the author name and email */
+  author?: RegExp;
+  /** Matched against each line of the commit message */
+  message?: RegExp;
+}
+
+/**
+ * Catalogue of bot signatures. Add an entry here to detect another bot.
+ * Accounts outside the catalogue are still detected by a "[bot]" suffix on
+ * their name or email.
+ */
+export const BOT_SIGNATURES: BotSignature[] = [
+  {
+    bot: 'Dependabot',
+    author: /\bdependabot\b/i,
+    message: /^signed-off-by: dependabot\[bot\]/i,
+  },
+  {
+    bot: 'Renovate',
+    author: /\brenovate(-bot)?\b|@renovateapp\.com/i,
+  },
+  {
+    bot: 'GitHub Actions',
+    author: /\bgithub-actions\b/i,
+  },
+  {
+    bot: 'pre-commit.ci',
+    author: /\bpre-commit-ci\b/i,
+    message: /^\[pre-commit\.ci\]/i,
+  },
+  {
+    bot: 'semantic-release',
+    author: /\bsemantic-release-bot\b/i,
+    message: /^chore\(release\): .*\[skip ci\]/i,
+  },
+  {
+    bot: 'release-please',
+    author: /\brelease-please\b/i,
+  },
+  {
+    bot: 'Snyk',
+    author: /\bsnyk-bot\b|@snyk\.io/i,
+    message: /^\[snyk\]/i,
+  },
+  {
+    bot: 'Greenkeeper',
+    author: /\bgreenkeeper\b/i,
+  },
+  {
+    bot: 'ImgBot',
+    author: /\bimgbot\b/i,
+    message: /^\[imgbot\]/i,
+  },
+  {
+    bot: 'All Contributors',
+    author: /\ballcontributors\b/i,
+  },
+  {
+    bot: 'Mergify',
+    author: /\bmergify\b/i,
+  },
+];
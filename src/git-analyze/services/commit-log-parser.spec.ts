@@ -0,0 +1,209 @@
+import { CommitLogParser } from './commit-log-parser';
+import { CommitInfo } from './git.service';
+
+/**
+ * Builds a header line in the streamed git log format, with a single-line
+ * (or empty) body closed by the body terminator
+ */
+function logHeader(
+  hash: string,
+  author: string,
+  email: string,
+  date: string,
+  subject: string,
+  body = '',
+  parents = '',
+): string {
+  return `\x1e${[hash, parents, author, email, date, subject, `${body}\x1d`].join('\x1f')}`;
+}
+
+describe('CommitLogParser', () => {
+  let commits: CommitInfo[];
+  let parser: CommitLogParser;
+
+  const feed = (lines: string[]) => {
+    lines.forEach((line) => parser.parseLine(line));
+    parser.end();
+  };
+
+  beforeEach(() => {
+    commits = [];
+    parser = new CommitLogParser((commit) => commits.push(commit));
+  });
+
+  describe('parseLine', () => {
+    it('should parse headers and numstat lines into commits', () => {
+      feed([
+        logHeader(
+          'abc123',
+          'Jane Doe',
+          'jane@example.com',
+          '2024-03-01T10:00:00+01:00',
+          'feat: add parser',
+        ),
+        '',
+        '10\t2\tsrc/parser.ts',
+        '5\t0\tsrc/parser.spec.ts',
+      ]);
+
+      expect(commits).toEqual([
+        {
+          hash: 'abc123',
+          parents: [],
+          author: 'Jane Doe',
+          email: 'jane@example.com',
+          date: new Date('2024-03-01T09:00:00Z'),
+          message: 'feat: add parser',
+          body: '',
+          filesChanged: 2,
+          insertions: 15,
+          deletions: 2,
+          files: ['src/parser.ts', 'src/parser.spec.ts'],
+        },
+      ]);
+    });
+
+    it('should emit each commit when the next header starts', () => {
+      parser.parseLine(
+        logHeader('hash2', 'A', 'a@example.com', '2024-01-02T00:00:00Z', 'two'),
+      );
+      parser.parseLine('1\t1\ta.ts');
+
+      expect(commits).toHaveLength(0);
+
+      parser.parseLine(
+        logHeader('hash1', 'A', 'a@example.com', '2024-01-01T00:00:00Z', 'one'),
+      );
+
+      expect(commits.map((c) => c.hash)).toEqual(['hash2']);
+
+      parser.end();
+
+      expect(commits.map((c) => c.hash)).toEqual(['hash2', 'hash1']);
+    });
+
+    it('should collect multi-line bodies up to the terminator', () => {
+      feed([
+        '\x1ebody1\x1f\x1fA\x1fa@example.com\x1f2024-01-01T00:00:00Z\x1ffeat: add parser\x1fParses the streamed log.',
+        '',
+        'Co-authored-by: Jane Doe <jane@example.com>',
+        '\x1d',
+        '',
+        '3\t0\tsrc/parser.ts',
+      ]);
+
+      expect(commits[0]).toMatchObject({
+        message: 'feat: add parser',
+        body: 'Parses the streamed log.\n\nCo-authored-by: Jane Doe <jane@example.com>',
+        insertions: 3,
+        files: ['src/parser.ts'],
+      });
+    });
+
+    it('should parse single-line bodies on the header line', () => {
+      feed([
+        logHeader(
+          'body2',
+          'A',
+          'a@example.com',
+          '2024-01-01T00:00:00Z',
+          'fix: typo',
+          'Signed-off-by: A <a@example.com>',
+        ),
+        '1\t1\tREADME.md',
+      ]);
+
+      expect(commits[0].body).toBe('Signed-off-by: A <a@example.com>');
+      expect(commits[0].files).toEqual(['README.md']);
+    });
+
+    it('should read the parents of merge commits', () => {
+      feed([
+        logHeader(
+          'merge1',
+          'A',
+          'a@example.com',
+          '2024-01-01T00:00:00Z',
+          "Merge branch 'feature'",
+          '',
+          'parent1 parent2',
+        ),
+      ]);
+
+      expect(commits[0].parents).toEqual(['parent1', 'parent2']);
+    });
+
+    it('should keep commits without file changes', () => {
+      feed([
+        logHeader('empty', 'A', 'a@example.com', '2024-01-01T00:00:00Z', 'x'),
+      ]);
+
+      expect(commits[0]).toMatchObject({
+        filesChanged: 0,
+        insertions: 0,
+        deletions: 0,
+        files: [],
+      });
+    });
+
+    it('should count binary files without lines', () => {
+      feed([
+        logHeader('bin', 'A', 'a@example.com', '2024-01-01T00:00:00Z', 'x'),
+        '-\t-\tassets/logo.png',
+        '4\t1\tREADME.md',
+      ]);
+
+      expect(commits[0]).toMatchObject({
+        filesChanged: 2,
+        insertions: 4,
+        deletions: 1,
+        files: ['assets/logo.png', 'README.md'],
+      });
+    });
+
+    it('should ignore lines before the first header', () => {
+      feed([
+        '1\t1\tstray.ts',
+        logHeader('h', 'A', 'a@example.com', '2024-01-01T00:00:00Z', 'x'),
+      ]);
+
+      expect(commits).toHaveLength(1);
+      expect(commits[0].files).toEqual([]);
+    });
+
+    it('should not emit anything for empty output', () => {
+      feed([]);
+
+      expect(commits).toEqual([]);
+    });
+  });
+
+  describe('resolveRenamedPath', () => {
+    it('should return plain paths unchanged', () => {
+      expect(CommitLogParser.resolveRenamedPath('src/index.ts')).toBe(
+        'src/index.ts',
+      );
+    });
+
+    it('should resolve full path renames', () => {
+      expect(CommitLogParser.resolveRenamedPath('old.ts => new.ts')).toBe(
+        'new.ts',
+      );
+    });
+
+    it('should resolve brace renames', () => {
+      expect(
+        CommitLogParser.resolveRenamedPath('src/{utils => helpers}/math.ts'),
+      ).toBe('src/helpers/math.ts');
+    });
+
+    it('should resolve brace renames that add or remove a directory', () => {
+      expect(
+        CommitLogParser.resolveRenamedPath('src/{ => core}/index.ts'),
+      ).toBe('src/core/index.ts');
+      expect(
+        CommitLogParser.resolveRenamedPath('src/{core => }/index.ts'),
+      ).toBe('src/index.ts');
+    });
+  });
+});
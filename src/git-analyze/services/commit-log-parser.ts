@@ -0,0 +1,170 @@
+import { CommitInfo } from './git.service';
+
+/**
+ * Separators used in the `git log` pretty format. Control characters never
+ * appear in names, emails, dates or commit messages.
+ */
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+const BODY_TERMINATOR = '\x1d';
+
+/**
+ * Pretty format passed to `git log --format`: one header line per commit
+ * (hash, parent hashes, author name, author email, strict ISO author date,
+ * subject, start of the body), the remaining body lines up to the body terminator, then that
+ * commit's `--numstat` lines
+ */
+export const COMMIT_LOG_FORMAT = [
+  '%x1e%H',
+  '%P',
+  '%an',
+  '%ae',
+  '%aI',
+  '%s',
+  '%b%x1d',
+].join('%x1f');
+
+/**
+ * Incremental parser for `git log --numstat --format=<COMMIT_LOG_FORMAT>` output.
+ * Lines are fed one at a time and each commit is emitted as soon as the next
+ * header (or the end of the stream) is seen, so the raw log is never buffered.
+ */
+export class CommitLogParser {
+  private current: CommitInfo | null = null;
+  private bodyLines: string[] | null = null;
+
+  /**
+   * @param onCommit Callback invoked for every fully parsed commit
+   */
+  constructor(private readonly onCommit: (commit: CommitInfo) => void) {}
+
+  /**
+   * Parses a single line of log output
+   * @param line Line without the trailing newline
+   */
+  parseLine(line: string): void {
+    if (line.startsWith(RECORD_SEPARATOR)) {
+      this.emitCurrent();
+      const { commit, bodyStart } = this.parseHeader(
+        line.slice(RECORD_SEPARATOR.length),
+      );
+      this.current = commit;
+      this.bodyLines = [];
+      this.parseBodyLine(bodyStart);
+      return;
+    }
+
+    // Multi-line bodies continue until the terminator is seen
+    if (this.bodyLines) {
+      this.parseBodyLine(line);
+      return;
+    }
+
+    if (!this.current || line.trim().length === 0) {
+      return;
+    }
+
+    const [added, deleted, ...pathParts] = line.split('\t');
+    if (pathParts.length === 0) {
+      return;
+    }
+
+    // Binary files are reported as "-\t-\t<path>" and count as zero lines
+    this.current.insertions += parseInt(added, 10) || 0;
+    this.current.deletions += parseInt(deleted, 10) || 0;
+    this.current.files.push(
+      CommitLogParser.resolveRenamedPath(pathParts.join('\t')),
+    );
+    this.current.filesChanged = this.current.files.length;
+  }
+
+  /**
+   * Flushes the last pending commit once the stream has ended
+   */
+  end(): void {
+    this.emitCurrent();
+  }
+
+  /**
+   * Resolves numstat rename notation to the destination path
+   * @param filePath Path as printed by numstat (e.g., "src/{old => new}/file.ts")
+   * @returns Destination path (e.g., "src/new/file.ts")
+   */
+  static resolveRenamedPath(filePath: string): string {
+    const braceMatch = filePath.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+    if (braceMatch) {
+      const [, prefix, , target, suffix] = braceMatch;
+      // "{ => dir}/file" and "dir/{old => }/file" leave doubled slashes behind
+      return `${prefix}${target}${suffix}`.replace(/\/{2,}/g, '/');
+    }
+
+    const arrowIndex = filePath.indexOf(' => ');
+    return arrowIndex === -1 ? filePath : filePath.slice(arrowIndex + 4);
+  }
+
+  /**
+   * Parses a commit header line into an empty commit record
+   * @param header Header fields joined by the field separator
+   * @returns Commit information without body or diff stats, and the first body line
+   */
+  private parseHeader(header: string): {
+    commit: CommitInfo;
+    bodyStart: string;
+  } {
+    const [hash, parents, author, email, date, subject, ...body] =
+      header.split(FIELD_SEPARATOR);
+
+    return {
+      commit: {
+        hash: hash || '',
+        // Space-separated; empty for root commits
+        parents: parents ? parents.split(' ') : [],
+        author: author || '',
+        email: email || '',
+        date: new Date(date || ''),
+        message: subject || '',
+        body: '',
+        filesChanged: 0,
+        insertions: 0,
+        deletions: 0,
+        files: [],
+      },
+      bodyStart: body.join(FIELD_SEPARATOR),
+    };
+  }
+
+  /**
+   * Collects one line of the commit body and closes the body at the terminator
+   * @param line Body line, possibly ending with the body terminator
+   */
+  private parseBodyLine(line: string): void {
+    if (!this.current || !this.bodyLines) {
+      return;
+    }
+
+    const terminatorIndex = line.indexOf(BODY_TERMINATOR);
+    if (terminatorIndex === -1) {
+      this.bodyLines.push(line);
+      return;
+    }
+
+    this.bodyLines.push(line.slice(0, terminatorIndex));
+    this.current.body = this.bodyLines.join('\n').trim();
+    this.bodyLines = null;
+  }
+
+  /**
+   * Emits the commit currently being parsed, if any
+   */
+  private emitCurrent(): void {
+    // A truncated stream may end inside a body; keep what was read
+    if (this.current && this.bodyLines) {
+      this.current.body = this.bodyLines.join('\n').trim();
+      this.bodyLines = null;
+    }
+    if (this.current) {
+      this.onCommit(this.current);
+      this.current = null;
+    }
+  }
+}
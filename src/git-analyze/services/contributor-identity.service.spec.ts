@@ -0,0 +1,321 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ContributorIdentityService,
+  formatIdentity,
+} from './contributor-identity.service';
+import { AuthorIdentity, CommitInfo } from './git.service';
+
+/**
+ * Builds a commit written under the given identity
+ */
+function commit(hash: string, author: string, email: string): CommitInfo {
+  return {
+    hash,
+    author,
+    email,
+    date: new Date('2024-01-01T00:00:00Z'),
+    message: `Commit ${hash}`,
+    filesChanged: 1,
+    insertions: 1,
+    deletions: 0,
+    files: ['file.ts'],
+  };
+}
+
+describe('ContributorIdentityService', () => {
+  let service: ContributorIdentityService;
+
+  const authors = (commits: CommitInfo[]) =>
+    commits.map(({ author, email }) => `${author} <${email}>`);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ContributorIdentityService],
+    }).compile();
+
+    service = module.get<ContributorIdentityService>(
+      ContributorIdentityService,
+    );
+  });
+
+  describe('getAuthorIdentities', () => {
+    it('should list each identity once, in order of appearance', () => {
+      expect(
+        service.getAuthorIdentities([
+          commit('1', 'Jane', 'jane@example.com'),
+          commit('2', 'Bob', 'bob@example.com'),
+          commit('3', 'Jane', 'jane@example.com'),
+          commit('4', 'Jane Doe', 'jane@example.com'),
+        ]),
+      ).toEqual([
+        { name: 'Jane', email: 'jane@example.com' },
+        { name: 'Bob', email: 'bob@example.com' },
+        { name: 'Jane Doe', email: 'jane@example.com' },
+      ]);
+    });
+  });
+
+  describe('resolveIdentities', () => {
+    it('should leave distinct identities untouched', () => {
+      const commits = [
+        commit('1', 'Jane', 'jane@example.com'),
+        commit('2', 'Bob', 'bob@example.com'),
+      ];
+
+      const result = service.resolveIdentities(commits);
+
+      expect(result.commits).toEqual(commits);
+      expect(result.merges).toEqual([]);
+    });
+
+    it('should apply the mailmap', () => {
+      const mailmap = new Map<string, AuthorIdentity>([
+        [
+          formatIdentity({ name: 'jdoe', email: 'jdoe@old.example.com' }),
+          { name: 'Jane Doe', email: 'jane@example.com' },
+        ],
+      ]);
+
+      const result = service.resolveIdentities(
+        [
+          commit('1', 'Jane Doe', 'jane@example.com'),
+          commit('2', 'jdoe', 'jdoe@old.example.com'),
+          commit('3', 'Jane Doe', 'jane@example.com'),
+        ],
+        { mailmap },
+      );
+
+      expect(authors(result.commits)).toEqual([
+        'Jane Doe <jane@example.com>',
+        'Jane Doe <jane@example.com>',
+        'Jane Doe <jane@example.com>',
+      ]);
+      expect(result.merges).toEqual([
+        {
+          name: 'Jane Doe',
+          email: 'jane@example.com',
+          identities: [
+            {
+              name: 'Jane Doe',
+              email: 'jdoe@old.example.com',
+              commitCount: 1,
+              source: 'mailmap',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should split the people sharing an email when the mailmap maps them apart', () => {
+      const mailmap = new Map<string, AuthorIdentity>([
+        [
+          formatIdentity({ name: 'Alice', email: 'root@localhost' }),
+          { name: 'Alice Smith', email: 'alice@example.com' },
+        ],
+        [
+          formatIdentity({ name: 'Bob', email: 'root@localhost' }),
+          { name: 'Bob Jones', email: 'bob@example.com' },
+        ],
+      ]);
+
+      const result = service.resolveIdentities(
+        [
+          commit('1', 'Alice', 'root@localhost'),
+          commit('2', 'Bob', 'root@localhost'),
+          commit('3', 'Bob', 'root@localhost'),
+          commit('4', 'Alice Smith', 'alice@example.com'),
+        ],
+        { mailmap },
+      );
+
+      expect(authors(result.commits)).toEqual([
+        'Alice Smith <alice@example.com>',
+        'Bob Jones <bob@example.com>',
+        'Bob Jones <bob@example.com>',
+        'Alice Smith <alice@example.com>',
+      ]);
+      expect(result.merges).toEqual([
+        {
+          name: 'Alice Smith',
+          email: 'alice@example.com',
+          identities: [
+            {
+              name: 'Alice Smith',
+              email: 'root@localhost',
+              commitCount: 1,
+              source: 'mailmap',
+            },
+          ],
+        },
+        {
+          name: 'Bob Jones',
+          email: 'bob@example.com',
+          identities: [
+            {
+              name: 'Bob Jones',
+              email: 'root@localhost',
+              commitCount: 2,
+              source: 'mailmap',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should count aliases under the configured email, without case', () => {
+      const result = service.resolveIdentities(
+        [
+          commit('1', 'Bob', 'bob@example.com'),
+          commit('2', 'Robert', 'Robert@Work.example.com'),
+          commit('3', 'Robert', 'Robert@Work.example.com'),
+        ],
+        {
+          aliases: { 'bob@example.com': ['robert@work.example.com'] },
+        },
+      );
+
+      // The name with the most commits is the one reported
+      expect(authors(result.commits)).toEqual([
+        'Robert <bob@example.com>',
+        'Robert <bob@example.com>',
+        'Robert <bob@example.com>',
+      ]);
+      expect(result.merges).toEqual([
+        {
+          name: 'Robert',
+          email: 'bob@example.com',
+          identities: [
+            {
+              name: 'Robert',
+              email: 'Robert@Work.example.com',
+              commitCount: 2,
+              source: 'alias',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should report the email with the most commits when merging by name', () => {
+      const result = service.resolveIdentities(
+        [
+          commit('1', 'Bob', 'bob@example.com'),
+          commit('2', 'bob', 'bob@work.example.com'),
+          commit('3', 'bob', 'bob@work.example.com'),
+        ],
+        { mergeByName: true },
+      );
+
+      expect(authors(result.commits)).toEqual(
+        Array(3).fill('bob <bob@work.example.com>'),
+      );
+      expect(result.merges[0].identities).toEqual([
+        {
+          name: 'Bob',
+          email: 'bob@example.com',
+          commitCount: 1,
+          source: 'name',
+        },
+      ]);
+    });
+
+    it('should only merge by name when asked', () => {
+      const commits = [
+        commit('1', 'José Álvarez', 'jose@example.com'),
+        commit('2', 'jose alvarez', 'jalvarez@work.example.com'),
+        commit('3', 'JOSE-ALVAREZ', 'jose@example.com'),
+        commit('4', '', 'anonymous@example.com'),
+        commit('5', '', 'nobody@example.com'),
+      ];
+
+      expect(service.resolveIdentities(commits).merges).toEqual([]);
+
+      const result = service.resolveIdentities(commits, { mergeByName: true });
+
+      expect(authors(result.commits)).toEqual([
+        'José Álvarez <jose@example.com>',
+        'José Álvarez <jose@example.com>',
+        'José Álvarez <jose@example.com>',
+        ' <anonymous@example.com>',
+        ' <nobody@example.com>',
+      ]);
+      expect(result.merges).toEqual([
+        {
+          name: 'José Álvarez',
+          email: 'jose@example.com',
+          identities: [
+            {
+              name: 'jose alvarez',
+              email: 'jalvarez@work.example.com',
+              commitCount: 1,
+              source: 'name',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should chain mailmap, aliases and names into one contributor', () => {
+      const result = service.resolveIdentities(
+        [
+          commit('1', 'Jane Doe', 'jane@example.com'),
+          commit('2', 'Jane Doe', 'jane@example.com'),
+          commit('3', 'jdoe', 'jdoe@old.example.com'),
+          commit('4', 'Jane', 'jane@laptop.local'),
+          commit('5', 'jane doe', 'jane.doe@gmail.com'),
+          commit('6', 'Bob', 'bob@example.com'),
+          commit('7', 'Bob', 'bob@users.noreply.github.com'),
+        ],
+        {
+          mailmap: new Map([
+            [
+              'jdoe <jdoe@old.example.com>',
+              { name: 'Jane Doe', email: 'jane@example.com' },
+            ],
+          ]),
+          aliases: { 'jane@example.com': ['jane@laptop.local'] },
+          mergeByName: true,
+        },
+      );
+
+      expect(authors(result.commits)).toEqual([
+        ...Array(5).fill('Jane Doe <jane@example.com>'),
+        'Bob <bob@example.com>',
+        'Bob <bob@example.com>',
+      ]);
+      expect(result.merges).toEqual([
+        {
+          name: 'Jane Doe',
+          email: 'jane@example.com',
+          identities: [
+            expect.objectContaining({
+              email: 'jdoe@old.example.com',
+              source: 'mailmap',
+            }),
+            expect.objectContaining({
+              name: 'Jane',
+              email: 'jane@laptop.local',
+              source: 'alias',
+            }),
+            expect.objectContaining({
+              email: 'jane.doe@gmail.com',
+              source: 'name',
+            }),
+          ],
+        },
+        {
+          name: 'Bob',
+          email: 'bob@example.com',
+          identities: [
+            {
+              name: 'Bob',
+              email: 'bob@users.noreply.github.com',
+              commitCount: 1,
+              source: 'name',
+            },
+          ],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { Injectable } from '@nestjs/common';
+import { AuthorIdentity, CommitInfo } from './git.service';
+import {
+  IdentityConfig,
+  IdentityMerge,
+  IdentityMergeSource,
+} from '../routes/dto/analyze-response.dto';
+
+/**
+ * How the authors of a history are merged into contributors
+ */
+export interface IdentityResolutionOptions extends IdentityConfig {
+  /** Canonical identity of each author identity from the repository's mailmap, keyed by formatIdentity() */
+  mailmap?: Map<string, AuthorIdentity>;
+}
+
+export interface IdentityResolution {
+  /** Commits attributed to the name and email of their contributor */
+  commits: CommitInfo[];
+  /** Contributors whose commits were written under several emails, most commits first */
+  merges: IdentityMerge[];
+}
+
+/**
+ * Formats an identity the way git prints it
+ * @param identity Author identity
+ * @returns "Name <email>"
+ */
+export function formatIdentity({ name, email }: AuthorIdentity): string {
+  return `${name} <${email}>`;
+}
+
+/**
+ * Identity of the history, as the rules resolve it. The mailmap maps names
+ * and emails together, so the people sharing an email can map to different
+ * contributors.
+ */
+interface ResolvedIdentity {
+  /** Name and email of the commits, as formatIdentity() prints them */
+  key: string;
+  /** Email of the commits */
+  email: string;
+  /** Email the rules resolve it to */
+  target: string;
+  /** Last rule that changed the email */
+  source?: IdentityMergeSource;
+  /** Commits per name after the mailmap, in order of appearance */
+  names: Map<string, number>;
+  commitCount: number;
+}
+
+@Injectable()
+export class ContributorIdentityService {
+  /**
+   * Lists the distinct identities the commits were written with
+   * @param commits Array of commit information
+   * @returns Author identities in order of appearance
+   */
+  getAuthorIdentities(commits: CommitInfo[]): AuthorIdentity[] {
+    const identities = new Map<string, AuthorIdentity>();
+    commits.forEach(({ author, email }) => {
+      const identity = { name: author, email };
+      identities.set(formatIdentity(identity), identity);
+    });
+    return [...identities.values()];
+  }
+
+  /**
+   * Attributes each commit to its contributor. Identities are first mapped
+   * by the mailmap, then by the configured aliases, and finally, when asked,
+   * emails whose authors share a normalised name are merged. Emails are
+   * compared without case.
+   * @param commits Array of commit information
+   * @param options Mailmap, aliases and whether to merge by name
+   * @returns Commits attributed to their contributor, and the merged identities
+   */
+  resolveIdentities(
+    commits: CommitInfo[],
+    options: IdentityResolutionOptions = {},
+  ): IdentityResolution {
+    const { mailmap, aliases = {}, mergeByName = false } = options;
+    const aliasTargets = new Map(
+      Object.entries(aliases).flatMap(([target, emails]) =>
+        emails.map((email) => [email.toLowerCase(), target] as const),
+      ),
+    );
+
+    // Mailmap and aliases, per identity of the history
+    const identities = new Map<string, ResolvedIdentity>();
+    commits.forEach((commit) => {
+      const key = formatIdentity({ name: commit.author, email: commit.email });
+      const mapped = mailmap?.get(key) ?? {
+        name: commit.author,
+        email: commit.email,
+      };
+
+      let resolved = identities.get(key);
+      if (!resolved) {
+        resolved = {
+          key,
+          email: commit.email,
+          target: mapped.email,
+          names: new Map(),
+          commitCount: 0,
+          ...(!this.sameEmail(mapped.email, commit.email) && {
+            source: 'mailmap' as const,
+          }),
+        };
+        const alias = aliasTargets.get(resolved.target.toLowerCase());
+        if (alias !== undefined && !this.sameEmail(alias, resolved.target)) {
+          resolved.target = alias;
+          resolved.source = 'alias';
+        }
+        identities.set(key, resolved);
+      }
+
+      resolved.commitCount++;
+      resolved.names.set(
+        mapped.name,
+        (resolved.names.get(mapped.name) ?? 0) + 1,
+      );
+    });
+
+    const groups = this.groupIdentities([...identities.values()], mergeByName);
+
+    // Each contributor is reported under its most used email and name
+    const contributors = new Map<string, AuthorIdentity>();
+    const merges: Array<{ merge: IdentityMerge; commitCount: number }> = [];
+    groups.forEach((group) => {
+      const email = this.mostUsed(
+        group.map(({ target, commitCount }) => [target, commitCount]),
+      );
+      const name = this.mostUsed(
+        group.flatMap(({ names }) => [...names.entries()]),
+      );
+      group.forEach((resolved) =>
+        contributors.set(resolved.key, { name, email }),
+      );
+
+      // Merged identities are reported per email of the history
+      const byEmail = new Map<string, ResolvedIdentity[]>();
+      group
+        .filter((resolved) => !this.sameEmail(resolved.email, email))
+        .forEach((resolved) =>
+          byEmail.set(resolved.email, [
+            ...(byEmail.get(resolved.email) ?? []),
+            resolved,
+          ]),
+        );
+      const merged = [...byEmail.entries()]
+        .map(([mergedEmail, sameEmail]) => {
+          const [first] = sameEmail;
+          return {
+            name: this.mostUsed(
+              sameEmail.flatMap(({ names }) => [...names.entries()]),
+            ),
+            email: mergedEmail,
+            commitCount: sameEmail.reduce(
+              (sum, resolved) => sum + resolved.commitCount,
+              0,
+            ),
+            source: this.sameEmail(first.target, email)
+              ? (first.source ?? 'name')
+              : 'name',
+          };
+        })
+        .sort((a, b) => b.commitCount - a.commitCount);
+      if (merged.length > 0) {
+        merges.push({
+          merge: { name, email, identities: merged },
+          commitCount: group.reduce(
+            (sum, resolved) => sum + resolved.commitCount,
+            0,
+          ),
+        });
+      }
+    });
+
+    return {
+      commits: commits.map((commit) => {
+        const contributor = contributors.get(
+          formatIdentity({ name: commit.author, email: commit.email }),
+        )!;
+        return contributor.name === commit.author &&
+          contributor.email === commit.email
+          ? commit
+          : { ...commit, author: contributor.name, email: contributor.email };
+      }),
+      merges: merges
+        .sort((a, b) => b.commitCount - a.commitCount)
+        .map(({ merge }) => merge),
+    };
+  }
+
+  /**
+   * Groups the identities resolved to the same email, and, when merging by
+   * name, the groups sharing a normalised author name
+   * @param identities Identities of the history with their resolved email
+   * @param mergeByName Whether to merge groups by name
+   * @returns Groups in order of appearance
+   */
+  private groupIdentities(
+    identities: ResolvedIdentity[],
+    mergeByName: boolean,
+  ): ResolvedIdentity[][] {
+    // Union-find over the identities; each root stands for a contributor
+    const parents = identities.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parents[index] !== index) {
+        parents[index] = parents[parents[index]];
+        index = parents[index];
+      }
+      return index;
+    };
+    const union = (a: number, b: number) => {
+      const [rootA, rootB] = [find(a), find(b)];
+      // The earlier identity stays the root, so groups keep their order of appearance
+      parents[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+    };
+
+    const firstByKey = new Map<string, number>();
+    const link = (key: string, index: number) => {
+      const first = firstByKey.get(key);
+      if (first === undefined) {
+        firstByKey.set(key, index);
+      } else {
+        union(first, index);
+      }
+    };
+
+    identities.forEach((resolved, index) => {
+      link(`email:${resolved.target.toLowerCase()}`, index);
+      if (mergeByName) {
+        [...resolved.names.keys()]
+          .map((name) => this.normalizeName(name))
+          .filter((name) => name.length > 0)
+          .forEach((name) => link(`name:${name}`, index));
+      }
+    });
+
+    const groups = new Map<number, ResolvedIdentity[]>();
+    identities.forEach((resolved, index) => {
+      const root = find(index);
+      groups.set(root, [...(groups.get(root) ?? []), resolved]);
+    });
+    return [...groups.values()];
+  }
+
+  /**
+   * Normalises an author name for merging: accents, case, punctuation and
+   * spacing are ignored
+   * @param name Author name
+   * @returns Normalised name, empty when it holds no letter or digit
+   */
+  private normalizeName(name: string): string {
+    return name
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+
+  /**
+   * Picks the value with the most commits, the first one on a tie
+   * @param counts Values with their commit counts, in order of appearance
+   * @returns Most used value
+   */
+  private mostUsed(counts: Array<[string, number]>): string {
+    const totals = new Map<string, number>();
+    counts.forEach(([value, count]) =>
+      totals.set(value, (totals.get(value) ?? 0) + count),
+    );
+    return [...totals.entries()].reduce((best, entry) =>
+      entry[1] > best[1] ? entry : best,
+    )[0];
+  }
+
+  /**
+   * Compares emails without case, as git does
+   */
+  private sameEmail(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+}
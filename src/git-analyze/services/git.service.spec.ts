@@ -1,12 +1,52 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { GitService } from './git.service';
+import { CommitInfo, GitService } from './git.service';
 import { TempService } from './temp.service';
 import { simpleGit } from 'simple-git';
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { PassThrough, Readable } from 'stream';
+import * as os from 'os';
 
 // Mock simple-git
 jest.mock('simple-git');
 const mockSimpleGit = simpleGit as jest.MockedFunction<typeof simpleGit>;
 
+// Mock the streamed git log process
+jest.mock('child_process', () => ({ spawn: jest.fn() }));
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+/**
+ * Creates a fake child process that prints the given output and exits
+ */
+function createMockProcess(
+  stdout: string,
+  exitCode = 0,
+  stderr = '',
+): ChildProcess {
+  const child = Object.assign(new EventEmitter(), {
+    stdin: new PassThrough(),
+    stdout: Readable.from(stdout ? [stdout] : []),
+    stderr: Readable.from(stderr ? [stderr] : []),
+  });
+  child.stdout.on('end', () =>
+    setImmediate(() => child.emit('close', exitCode)),
+  );
+  return child as unknown as ChildProcess;
+}
+
+/**
+ * Builds a header line with an empty body in the streamed git log format
+ */
+function logHeader(
+  hash: string,
+  author: string,
+  email: string,
+  date: string,
+  subject: string,
+): string {
+  return `\x1e${[hash, '', author, email, date, subject, '\x1d'].join('\x1f')}`;
+}
+
 describe('GitService', () => {
   let service: GitService;
   let tempService: TempService;
@@ -68,72 +108,308 @@ describe('GitService', () => {
     });
   });
 
-  describe('getCommitHistory', () => {
-    it('should return commit history', async () => {
-      const mockGit = {
-        log: jest.fn().mockResolvedValue({
-          all: [
-            {
-              hash: 'hash1',
-              author_name: 'author1',
-              author_email: 'email1',
-              date: '2024-01-01T00:00:00Z',
-              message: 'commit message 1',
-            },
-            {
-              hash: 'hash2',
-              author_name: 'author2',
-              author_email: 'email2',
-              date: '2024-01-02T00:00:00Z',
-              message: 'commit message 2',
-            },
-          ],
-        }),
-        diffSummary: jest.fn().mockResolvedValue({
-          files: [
-            { file: 'file1.ts', insertions: 10, deletions: 5 },
-            { file: 'file2.ts', insertions: 3, deletions: 1 },
-          ],
-          insertions: 13,
-          deletions: 6,
-        }),
+  describe('openRepository', () => {
+    it('should open a working tree in place without cloning', async () => {
+      const mockGit = {
+        revparse: jest
+          .fn()
+          .mockResolvedValueOnce('false\n')
+          .mockResolvedValueOnce('/home/user/repo\n'),
+      };
+      const mockGitInstance = {};
+
+      mockSimpleGit.mockReturnValueOnce(mockGit as any);
+      mockSimpleGit.mockReturnValueOnce(mockGitInstance as any);
+
+      const result = await service.openRepository(os.tmpdir());
+
+      expect(mockGit.revparse).toHaveBeenCalledWith(['--show-toplevel']);
+      expect(mockSimpleGit).toHaveBeenLastCalledWith('/home/user/repo');
+      expect(result).toEqual({
+        git: mockGitInstance,
+        repoPath: '/home/user/repo',
+        isBare: false,
+      });
+    });
+
+    it('should open a bare repository at its git directory', async () => {
+      const mockGit = {
+        revparse: jest
+          .fn()
+          .mockResolvedValueOnce('true\n')
+          .mockResolvedValueOnce('/srv/repo.git\n'),
       };
+      const mockGitInstance = {};
+
+      mockSimpleGit.mockReturnValueOnce(mockGit as any);
+      mockSimpleGit.mockReturnValueOnce(mockGitInstance as any);
+
+      const result = await service.openRepository(os.tmpdir());
+
+      expect(mockGit.revparse).toHaveBeenCalledWith(['--absolute-git-dir']);
+      expect(mockSimpleGit).toHaveBeenLastCalledWith('/srv/repo.git');
+      expect(result).toEqual({
+        git: mockGitInstance,
+        repoPath: '/srv/repo.git',
+        isBare: true,
+      });
+    });
+
+    it('should reject paths that do not exist', async () => {
+      await expect(
+        service.openRepository('/non/existent/repository/path'),
+      ).rejects.toThrow(
+        'Failed to open repository: /non/existent/repository/path is not a directory',
+      );
+      expect(mockSimpleGit).not.toHaveBeenCalled();
+    });
+
+    it('should reject directories that are not repositories', async () => {
+      const mockGit = {
+        revparse: jest
+          .fn()
+          .mockRejectedValue(new Error('not a git repository')),
+      };
+
+      mockSimpleGit.mockReturnValueOnce(mockGit as any);
+
+      await expect(service.openRepository(os.tmpdir())).rejects.toThrow(
+        'Failed to open repository: not a git repository',
+      );
+    });
+  });
+
+  describe('getCommitHistory', () => {
+    const mockGit = {
+      revparse: jest.fn().mockResolvedValue('/tmp/test-repo/.git\n'),
+    };
+
+    it('should return commit history from a single git log pass', async () => {
+      mockSpawn.mockReturnValueOnce(
+        createMockProcess(
+          [
+            logHeader(
+              'hash2',
+              'author2',
+              'email2',
+              '2024-01-02T00:00:00Z',
+              'commit message 2',
+            ),
+            '',
+            '3\t1\tfile2.ts',
+            logHeader(
+              'hash1',
+              'author1',
+              'email1',
+              '2024-01-01T00:00:00Z',
+              'commit message 1',
+            ),
+            '',
+            '10\t5\tfile1.ts',
+            '3\t1\tfile2.ts',
+            '',
+          ].join('\n'),
+        ),
+      );
 
       const result = await service.getCommitHistory(mockGit as any);
 
+      expect(mockGit.revparse).toHaveBeenCalledWith(['--absolute-git-dir']);
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'git',
+        expect.arrayContaining([
+          '--git-dir=/tmp/test-repo/.git',
+          'log',
+          '--numstat',
+        ]),
+        expect.any(Object),
+      );
       expect(result).toHaveLength(2);
       expect(result[0]).toEqual({
+        hash: 'hash2',
+        parents: [],
+        author: 'author2',
+        email: 'email2',
+        date: new Date('2024-01-02T00:00:00Z'),
+        message: 'commit message 2',
+        body: '',
+        filesChanged: 1,
+        insertions: 3,
+        deletions: 1,
+        files: ['file2.ts'],
+      });
+      expect(result[1]).toEqual({
         hash: 'hash1',
+        parents: [],
         author: 'author1',
         email: 'email1',
         date: new Date('2024-01-01T00:00:00Z'),
         message: 'commit message 1',
+        body: '',
         filesChanged: 2,
         insertions: 13,
         deletions: 6,
         files: ['file1.ts', 'file2.ts'],
       });
-      expect(result[1]).toEqual({
-        hash: 'hash2',
-        author: 'author2',
-        email: 'email2',
-        date: new Date('2024-01-02T00:00:00Z'),
-        message: 'commit message 2',
-        filesChanged: 2,
-        insertions: 13,
-        deletions: 6,
-        files: ['file1.ts', 'file2.ts'],
+    });
+
+    it('should only compute diff stats of commits missing from the cache', async () => {
+      const cached = {
+        hash: 'hash1',
+        author: 'author1',
+        email: 'email1',
+        date: new Date('2024-01-01T00:00:00Z'),
+        message: 'commit message 1',
+        body: '',
+        filesChanged: 1,
+        insertions: 10,
+        deletions: 5,
+        files: ['file1.ts'],
+      };
+      const cache = {
+        getCommit: jest.fn((hash: string) =>
+          hash === 'hash1' ? cached : undefined,
+        ),
+        setCommit: jest.fn(),
+      };
+      const logProcess = createMockProcess(
+        [
+          logHeader(
+            'hash2',
+            'author2',
+            'email2',
+            '2024-01-02T00:00:00Z',
+            'commit message 2',
+          ),
+          '',
+          '3\t1\tfile2.ts',
+          '',
+        ].join('\n'),
+      );
+      mockSpawn
+        .mockReturnValueOnce(createMockProcess('hash2\nhash1\n'))
+        .mockReturnValueOnce(logProcess);
+
+      const result = await service.getCommitHistory(
+        mockGit as any,
+        { toRef: 'develop' },
+        undefined,
+        cache,
+      );
+
+      const listArgs = mockSpawn.mock.calls[0][1] as string[];
+      const logArgs = mockSpawn.mock.calls[1][1] as string[];
+      expect(listArgs.slice(-3)).toEqual(['--format=%H', 'develop', '--']);
+      expect(logArgs).toEqual(
+        expect.arrayContaining(['--numstat', '--no-walk=unsorted', '--stdin']),
+      );
+      expect((logProcess.stdin as PassThrough).read()?.toString()).toBe(
+        'hash2\n',
+      );
+      expect(result.map((commit) => commit.hash)).toEqual(['hash2', 'hash1']);
+      expect(result[1]).toBe(cached);
+      expect(cache.setCommit).toHaveBeenCalledTimes(1);
+      expect(cache.setCommit).toHaveBeenCalledWith(
+        expect.objectContaining({ hash: 'hash2', insertions: 3, deletions: 1 }),
+      );
+    });
+
+    it('should not run the diff pass when every commit is cached', async () => {
+      const cache = {
+        getCommit: jest.fn((hash: string) => ({ hash }) as CommitInfo),
+        setCommit: jest.fn(),
+      };
+      mockSpawn.mockReturnValueOnce(createMockProcess('hash1\n'));
+
+      const result = await service.getCommitHistory(
+        mockGit as any,
+        {},
+        undefined,
+        cache,
+      );
+
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+      expect(result).toEqual([{ hash: 'hash1' }]);
+      expect(cache.setCommit).not.toHaveBeenCalled();
+    });
+
+    it('should read the history of a specific ref', async () => {
+      mockSpawn.mockReturnValueOnce(createMockProcess(''));
+
+      const result = await service.getCommitHistory(mockGit as any, {
+        toRef: 'develop',
+      });
+
+      const args = mockSpawn.mock.calls[0][1] as string[];
+      expect(args.slice(-2)).toEqual(['develop', '--']);
+      expect(result).toEqual([]);
+    });
+
+    it('should limit history to a date window', async () => {
+      mockSpawn.mockReturnValueOnce(createMockProcess(''));
+
+      await service.getCommitHistory(mockGit as any, {
+        since: '2024-01-01',
+        until: '3 months ago',
+      });
+
+      const args = mockSpawn.mock.calls[0][1] as string[];
+      expect(args).toContain('--since=2024-01-01');
+      expect(args).toContain('--until=3 months ago');
+      expect(args[args.length - 1]).toBe('--');
+    });
+
+    it('should limit history to a commit range', async () => {
+      mockSpawn.mockReturnValueOnce(createMockProcess(''));
+      mockSpawn.mockReturnValueOnce(createMockProcess(''));
+
+      await service.getCommitHistory(mockGit as any, {
+        fromRef: 'v1.0.0',
+        toRef: 'v2.0.0',
       });
+      await service.getCommitHistory(mockGit as any, { fromRef: 'v1.0.0' });
+
+      const rangeArgs = mockSpawn.mock.calls[0][1] as string[];
+      const openRangeArgs = mockSpawn.mock.calls[1][1] as string[];
+      expect(rangeArgs.slice(-2)).toEqual(['v1.0.0..v2.0.0', '--']);
+      expect(openRangeArgs.slice(-2)).toEqual(['v1.0.0..HEAD', '--']);
+    });
+
+    it('should reject refs that look like options', async () => {
+      await expect(
+        service.getCommitHistory(mockGit as any, {
+          fromRef: '--output=/tmp/pwned',
+        }),
+      ).rejects.toThrow(
+        'Failed to read commit history: Invalid ref: --output=/tmp/pwned',
+      );
+      expect(mockSpawn).not.toHaveBeenCalled();
     });
 
     it('should handle git log errors', async () => {
-      const mockGit = {
-        log: jest.fn().mockRejectedValue(new Error('Git log failed')),
+      mockSpawn.mockReturnValueOnce(
+        createMockProcess('', 128, "fatal: bad revision 'missing'\n"),
+      );
+
+      await expect(
+        service.getCommitHistory(mockGit as any, { toRef: 'missing' }),
+      ).rejects.toThrow(
+        "Failed to read commit history: fatal: bad revision 'missing'",
+      );
+    });
+
+    it('should handle repositories that cannot be resolved', async () => {
+      const brokenGit = {
+        revparse: jest
+          .fn()
+          .mockRejectedValue(new Error('Not a git repository')),
       };
 
-      await expect(service.getCommitHistory(mockGit as any)).rejects.toThrow(
-        'Failed to read commit history: Git log failed',
+      await expect(service.getCommitHistory(brokenGit as any)).rejects.toThrow(
+        'Failed to read commit history: Not a git repository',
       );
+      expect(mockSpawn).not.toHaveBeenCalled();
     });
   });
 
@@ -181,6 +457,110 @@ describe('GitService', () => {
     });
   });
 
+  describe('getHeadCommit', () => {
+    it('should resolve the commit of a ref', async () => {
+      const mockGit = {
+        revparse: jest.fn().mockResolvedValue('a1b2c3d4e5f6\n'),
+      };
+
+      const result = await service.getHeadCommit(mockGit as any, 'v1.0.0');
+
+      expect(result).toBe('a1b2c3d4e5f6');
+      expect(mockGit.revparse).toHaveBeenCalledWith(['v1.0.0^{commit}']);
+    });
+
+    it('should return undefined when the ref does not resolve', async () => {
+      const mockGit = {
+        revparse: jest.fn().mockRejectedValue(new Error('unknown revision')),
+      };
+
+      const result = await service.getHeadCommit(mockGit as any);
+
+      expect(result).toBeUndefined();
+      expect(mockGit.revparse).toHaveBeenCalledWith(['HEAD^{commit}']);
+    });
+  });
+
+  describe('resolveMailmap', () => {
+    const identities = [
+      { name: 'jdoe', email: 'jdoe@old.example.com' },
+      { name: 'Bob', email: 'bob@example.com' },
+    ];
+
+    it('should map identities through check-mailmap in the working tree', async () => {
+      const mockGit = {
+        revparse: jest
+          .fn()
+          .mockResolvedValueOnce('/tmp/test-repo/.git\n')
+          .mockResolvedValueOnce('/tmp/test-repo\n'),
+      };
+      const child = createMockProcess(
+        'Jane Doe <jane@example.com>\nBob <bob@example.com>\n',
+      );
+      const stdin: Buffer[] = [];
+      child.stdin!.on('data', (chunk: Buffer) => stdin.push(chunk));
+      mockSpawn.mockReturnValueOnce(child);
+
+      const result = await service.resolveMailmap(mockGit as any, identities);
+
+      expect(result).toEqual([
+        { name: 'Jane Doe', email: 'jane@example.com' },
+        { name: 'Bob', email: 'bob@example.com' },
+      ]);
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'git',
+        ['--git-dir=/tmp/test-repo/.git', 'check-mailmap', '--stdin'],
+        expect.objectContaining({ cwd: '/tmp/test-repo' }),
+      );
+      expect(Buffer.concat(stdin).toString()).toBe(
+        'jdoe <jdoe@old.example.com>\nBob <bob@example.com>\n',
+      );
+    });
+
+    it('should read bare repositories without a working tree', async () => {
+      const mockGit = {
+        revparse: jest
+          .fn()
+          .mockResolvedValueOnce('/tmp/test-repo.git\n')
+          .mockRejectedValueOnce(
+            new Error('this operation must be run in a work tree'),
+          ),
+      };
+      mockSpawn.mockReturnValueOnce(createMockProcess(''));
+
+      const result = await service.resolveMailmap(mockGit as any, identities);
+
+      expect(result).toEqual(identities);
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'git',
+        expect.any(Array),
+        expect.objectContaining({ cwd: undefined }),
+      );
+    });
+
+    it('should not run git without identities', async () => {
+      const result = await service.resolveMailmap({} as any, []);
+
+      expect(result).toEqual([]);
+      expect(mockSpawn).not.toHaveBeenCalled();
+    });
+
+    it('should throw when git fails', async () => {
+      const mockGit = {
+        revparse: jest.fn().mockResolvedValue('/tmp/test-repo/.git\n'),
+      };
+      mockSpawn.mockReturnValueOnce(
+        createMockProcess('', 128, 'fatal: unable to read mailmap'),
+      );
+
+      await expect(
+        service.resolveMailmap(mockGit as any, identities),
+      ).rejects.toThrow(
+        'Failed to read mailmap: fatal: unable to read mailmap',
+      );
+    });
+  });
+
   describe('isValidRepository', () => {
     it('should return true for valid repository', async () => {
       const mockGit = {
@@ -201,6 +581,22 @@ describe('GitService', () => {
 
       expect(result).toBe(false);
     });
+
+    it('should return true for bare repository', async () => {
+      const mockGit = {
+        status: jest
+          .fn()
+          .mockRejectedValue(
+            new Error('this operation must be run in a work tree'),
+          ),
+        revparse: jest.fn().mockResolvedValue('true\n'),
+      };
+
+      const result = await service.isValidRepository(mockGit as any);
+
+      expect(mockGit.revparse).toHaveBeenCalledWith(['--is-bare-repository']);
+      expect(result).toBe(true);
+    });
   });
 
   describe('cleanupRepository', () => {
@@ -1,21 +1,68 @@
 import { Injectable } from '@nestjs/common';
 import { simpleGit, SimpleGit } from 'simple-git';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
 
 export type { SimpleGit };
 import { TempService } from './temp.service';
+import { COMMIT_LOG_FORMAT, CommitLogParser } from './commit-log-parser';
 
 export interface CommitInfo {
   hash: string;
+  /** Parent commit hashes; merge commits have more than one */
+  parents?: string[];
   author: string;
   email: string;
   date: Date;
   message: string;
+  body?: string;
   filesChanged: number;
   insertions: number;
   deletions: number;
   files: string[];
 }
 
+/**
+ * Limits which commits are read from the history
+ */
+export interface CommitHistoryFilter {
+  /** Only commits after this date (any format accepted by `git log --since`) */
+  since?: string;
+  /** Only commits before this date (any format accepted by `git log --until`) */
+  until?: string;
+  /** Exclusive start of the commit range; commits reachable from it are skipped */
+  fromRef?: string;
+  /** Inclusive end of the commit range (default: HEAD) */
+  toRef?: string;
+}
+
+/**
+ * Store of parsed commits keyed by hash. A commit's hash covers its content
+ * and parents, so a cached commit never goes stale.
+ */
+export interface CommitCache {
+  /**
+   * @param hash Full commit hash
+   * @returns The cached commit, or undefined when it was never stored
+   */
+  getCommit(hash: string): CommitInfo | undefined;
+
+  /**
+   * @param commit Parsed commit, including its diff stats
+   */
+  setCommit(commit: CommitInfo): void;
+}
+
+/**
+ * Name and email a commit is attributed to
+ */
+export interface AuthorIdentity {
+  name: string;
+  email: string;
+}
+
 @Injectable()
 export class GitService {
   constructor(private readonly tempService: TempService) {}
@@ -24,16 +71,18 @@ export class GitService {
    * Clones a repository and returns the git instance
    * @param repositoryUrl Git repository URL
    * @param branch Branch to checkout (default: main)
+   * @param signal Optional signal that stops the clone when aborted
    * @returns SimpleGit instance and repository path
    */
   async cloneRepository(
     repositoryUrl: string,
     branch: string = 'main',
+    signal?: AbortSignal,
   ): Promise<{ git: SimpleGit; repoPath: string }> {
     const repoPath = this.tempService.getRepoPath(repositoryUrl);
 
     try {
-      const git = simpleGit();
+      const git = simpleGit({ abort: signal });
       await git.clone(repositoryUrl, repoPath);
 
       // Checkout the specified branch
@@ -52,54 +101,109 @@ export class GitService {
     }
   }
 
+  /**
+   * Opens an existing local repository in place, without cloning
+   * @param repositoryPath Path to a working tree (or any directory inside it) or a bare repository
+   * @returns SimpleGit instance, repository root path and whether the repository is bare
+   */
+  async openRepository(
+    repositoryPath: string,
+  ): Promise<{ git: SimpleGit; repoPath: string; isBare: boolean }> {
+    const resolvedPath = path.resolve(repositoryPath);
+
+    try {
+      if (
+        !fs.existsSync(resolvedPath) ||
+        !fs.statSync(resolvedPath).isDirectory()
+      ) {
+        throw new Error(`${resolvedPath} is not a directory`);
+      }
+
+      const git = simpleGit(resolvedPath);
+      if (await this.isBareRepository(git)) {
+        // Resolve the repository directory, which git may have found above the path
+        const repoPath = (await git.revparse(['--absolute-git-dir'])).trim();
+        return { git: simpleGit(repoPath), repoPath, isBare: true };
+      }
+
+      // Resolve the working tree root so nested paths scan the whole checkout
+      const repoPath = (await git.revparse(['--show-toplevel'])).trim();
+      return { git: simpleGit(repoPath), repoPath, isBare: false };
+    } catch (error) {
+      throw new Error(`Failed to open repository: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Gets commit history from a git repository
+   *
+   * Reads the whole history with a single streamed `git log --numstat` pass
+   * instead of running one diff process per commit. With a cache, only the
+   * hashes are listed first and the diff stats are computed for the commits
+   * the cache does not hold yet.
    * @param git SimpleGit instance
-   * @returns Array of commit information
+   * @param filter Optional date window and commit range (default: entire history of HEAD)
+   * @param signal Optional signal that stops reading the history when aborted
+   * @param cache Optional store of commits parsed by earlier runs, receiving the new ones
+   * @returns Array of commit information, newest first
    */
-  async getCommitHistory(git: SimpleGit): Promise<CommitInfo[]> {
+  async getCommitHistory(
+    git: SimpleGit,
+    filter: CommitHistoryFilter = {},
+    signal?: AbortSignal,
+    cache?: CommitCache,
+  ): Promise<CommitInfo[]> {
     try {
-      const log = await git.log();
-
-      return Promise.all(
-        log.all.map(async (commit) => {
-          try {
-            // Get detailed diff stats for this commit
-            // Use --root flag for first commit that has no parent
-            const diffSummary = await git
-              .diffSummary([`${commit.hash}^`, commit.hash])
-              .catch(async () => {
-                // If the above fails (first commit), use --root
-                return await git.diffSummary([commit.hash, '--root']);
-              });
-
-            return {
-              hash: commit.hash || '',
-              author: commit.author_name || '',
-              email: commit.author_email || '',
-              date: new Date(commit.date || ''),
-              message: commit.message || '',
-              filesChanged: diffSummary.files.length,
-              insertions: diffSummary.insertions,
-              deletions: diffSummary.deletions,
-              files: diffSummary.files.map((f) => f.file),
-            };
-          } catch {
-            // If diff fails, return commit with zero stats
-            return {
-              hash: commit.hash || '',
-              author: commit.author_name || '',
-              email: commit.author_email || '',
-              date: new Date(commit.date || ''),
-              message: commit.message || '',
-              filesChanged: 0,
-              insertions: 0,
-              deletions: 0,
-              files: [],
-            };
+      const filterArgs = this.buildFilterArgs(filter);
+      const gitDir = (await git.revparse(['--absolute-git-dir'])).trim();
+
+      if (!cache) {
+        const commits: CommitInfo[] = [];
+        await this.streamCommitLog(
+          gitDir,
+          filterArgs,
+          (commit) => commits.push(commit),
+          signal,
+        );
+        return commits;
+      }
+
+      const hashes: string[] = [];
+      await this.streamGitLog(
+        gitDir,
+        ['--format=%H', ...filterArgs],
+        (line) => {
+          if (line) {
+            hashes.push(line);
           }
-        }),
+        },
+        signal,
       );
+
+      const commits = new Map<string, CommitInfo>();
+      const missing = hashes.filter((hash) => {
+        const commit = cache.getCommit(hash);
+        if (commit) {
+          commits.set(hash, commit);
+        }
+        return !commit;
+      });
+
+      if (missing.length > 0) {
+        // The missing hashes go through stdin, so no command line limit applies
+        await this.streamCommitLog(
+          gitDir,
+          ['--no-walk=unsorted', '--stdin'],
+          (commit) => {
+            cache.setCommit(commit);
+            commits.set(commit.hash, commit);
+          },
+          signal,
+          missing,
+        );
+      }
+
+      return hashes.flatMap((hash) => commits.get(hash) ?? []);
     } catch (error) {
       throw new Error(
         `Failed to read commit history: ${(error as Error).message}`,
@@ -107,6 +211,145 @@ export class GitService {
     }
   }
 
+  /**
+   * Converts a commit history filter into `git log` arguments
+   * @param filter Date window and commit range
+   * @returns Arguments placed before the `--` path separator
+   */
+  private buildFilterArgs(filter: CommitHistoryFilter): string[] {
+    const { since, until, fromRef, toRef } = filter;
+
+    // Refs are passed as revision arguments, so they must not look like options
+    [fromRef, toRef].forEach((ref) => {
+      if (ref?.startsWith('-')) {
+        throw new Error(`Invalid ref: ${ref}`);
+      }
+    });
+
+    const revision = fromRef ? `${fromRef}..${toRef || 'HEAD'}` : toRef;
+
+    return [
+      ...(since ? [`--since=${since}`] : []),
+      ...(until ? [`--until=${until}`] : []),
+      ...(revision ? [revision] : []),
+    ];
+  }
+
+  /**
+   * Streams `git log --numstat` output into the commit parser
+   * @param gitDir Absolute path to the repository's git directory
+   * @param logArgs Date window and revision arguments
+   * @param onCommit Callback invoked for every parsed commit
+   * @param signal Optional signal that kills `git log` when aborted
+   * @param revisions Revisions written to stdin, for `--stdin`
+   */
+  private async streamCommitLog(
+    gitDir: string,
+    logArgs: string[],
+    onCommit: (commit: CommitInfo) => void,
+    signal?: AbortSignal,
+    revisions?: string[],
+  ): Promise<void> {
+    const parser = new CommitLogParser(onCommit);
+    await this.streamGitLog(
+      gitDir,
+      [
+        '--numstat',
+        // Merge commits are measured against their first parent
+        '--diff-merges=first-parent',
+        `--format=${COMMIT_LOG_FORMAT}`,
+        ...logArgs,
+      ],
+      (line) => parser.parseLine(line),
+      signal,
+      revisions,
+    );
+    parser.end();
+  }
+
+  /**
+   * Runs `git log` and streams its output line by line
+   * @param gitDir Absolute path to the repository's git directory
+   * @param logArgs Arguments placed before the `--` path separator
+   * @param onLine Callback invoked for every output line
+   * @param signal Optional signal that kills `git log` when aborted
+   * @param revisions Revisions written to stdin, for `--stdin`
+   */
+  private streamGitLog(
+    gitDir: string,
+    logArgs: string[],
+    onLine: (line: string) => void,
+    signal?: AbortSignal,
+    revisions?: string[],
+  ): Promise<void> {
+    return this.streamGit(
+      [`--git-dir=${gitDir}`, 'log', ...logArgs, '--'],
+      onLine,
+      signal,
+      revisions,
+    );
+  }
+
+  /**
+   * Runs a git command and streams its output line by line
+   * @param args Arguments of the git command
+   * @param onLine Callback invoked for every output line
+   * @param signal Optional signal that kills git when aborted
+   * @param input Lines written to stdin, for `--stdin`
+   * @param cwd Directory git runs in (default: the current directory)
+   */
+  private streamGit(
+    args: string[],
+    onLine: (line: string) => void,
+    signal?: AbortSignal,
+    input?: string[],
+    cwd?: string,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', args, {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        signal,
+        cwd,
+      });
+
+      // A pipe closed early by a failing git is reported through its exit code
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(input ? `${input.join('\n')}\n` : undefined);
+
+      const lines = readline.createInterface({
+        input: child.stdout,
+        crlfDelay: Infinity,
+      });
+      lines.on('line', onLine);
+
+      let stderr = '';
+      child.stderr.on('data', (chunk: Buffer) => {
+        // Keep only the tail so a noisy failure can't grow unbounded
+        stderr = (stderr + chunk.toString()).slice(-4096);
+      });
+
+      const linesClosed = new Promise<void>((done) =>
+        lines.once('close', done),
+      );
+
+      child.once('error', reject);
+      child.once('close', (code) => {
+        void linesClosed.then(() => {
+          if (code !== 0) {
+            reject(
+              new Error(
+                stderr.trim() ||
+                  `git ${args.find((arg) => !arg.startsWith('-'))} exited with code ${code}`,
+              ),
+            );
+            return;
+          }
+          resolve();
+        });
+      });
+    });
+  }
+
   /**
    * Gets repository information including branch and remote
    * @param git SimpleGit instance
@@ -132,6 +375,74 @@ export class GitService {
     }
   }
 
+  /**
+   * Resolves the commit at the tip of a ref
+   * @param git SimpleGit instance
+   * @param ref Branch, tag or commit (default: HEAD)
+   * @returns Full commit hash, or undefined when the ref does not resolve (e.g., an empty repository)
+   */
+  async getHeadCommit(
+    git: SimpleGit,
+    ref: string = 'HEAD',
+  ): Promise<string | undefined> {
+    try {
+      return (await git.revparse([`${ref}^{commit}`])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Maps author identities to the canonical names and emails of the
+   * repository's mailmap: `.mailmap` at the root of the working tree (or
+   * `HEAD:.mailmap` in a bare repository) and the `mailmap.file` and
+   * `mailmap.blob` settings, as `git log --use-mailmap` would. Commits are
+   * cached with the identities they were written with, so the mapping is
+   * applied on every run and follows changes to the mailmap.
+   * @param git SimpleGit instance
+   * @param identities Author identities
+   * @param signal Optional signal that stops git when aborted
+   * @returns Canonical identity of each given identity, in the same order; identities without a mailmap entry are returned unchanged
+   * @throws Error if git cannot read the mailmap
+   */
+  async resolveMailmap(
+    git: SimpleGit,
+    identities: AuthorIdentity[],
+    signal?: AbortSignal,
+  ): Promise<AuthorIdentity[]> {
+    if (identities.length === 0) {
+      return [];
+    }
+
+    try {
+      const gitDir = (await git.revparse(['--absolute-git-dir'])).trim();
+      // .mailmap is read from the directory git runs in; bare repositories have none
+      const workTree = await git
+        .revparse(['--show-toplevel'])
+        .then((topLevel) => topLevel.trim())
+        .catch(() => undefined);
+
+      const resolved: AuthorIdentity[] = [];
+      await this.streamGit(
+        [`--git-dir=${gitDir}`, 'check-mailmap', '--stdin'],
+        (line) => {
+          const match = line.match(/^(.*?)\s*<([^>]*)>$/);
+          if (match) {
+            resolved.push({ name: match[1], email: match[2] });
+          }
+        },
+        signal,
+        identities.map(({ name, email }) => `${name} <${email}>`),
+        workTree,
+      );
+
+      // Identities git could not read back keep their original form
+      return identities.map((identity, index) => resolved[index] ?? identity);
+    } catch (error) {
+      throw new Error(`Failed to read mailmap: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Checks if a repository is valid
    * @param git SimpleGit instance
@@ -141,6 +452,21 @@ export class GitService {
     try {
       await git.status();
       return true;
+    } catch {
+      // Bare repositories have no working tree, so status fails on them
+      return this.isBareRepository(git);
+    }
+  }
+
+  /**
+   * Checks if a repository is bare (has no working tree)
+   * @param git SimpleGit instance
+   * @returns True if repository is bare
+   */
+  async isBareRepository(git: SimpleGit): Promise<boolean> {
+    try {
+      const result = await git.revparse(['--is-bare-repository']);
+      return result.trim() === 'true';
     } catch {
       return false;
     }
@@ -207,4 +207,126 @@ end`;
       expect(result).toBe(133.33);
     });
   });
+
+  describe('TypeScript syntax tree', () => {
+    it('should count comments trailing code', () => {
+      service.reset();
+      const content = `const retries = 3; // keep in sync with the API
+const delay = 100; /* ms */
+const timeout = retries * delay;`;
+
+      service.analyzeFile('/test/file.ts', content, '.ts');
+
+      // 2 comment lines, 3 code lines
+      expect(service.getPartialResult().languages).toEqual({
+        TypeScript: { totalLines: 3, codeLines: 3, commentLines: 2 },
+      });
+    });
+
+    // Each fixture was counted as comments by the line heuristics, which still apply to other languages
+    const falsePositives: Array<[string, string]> = [
+      ['comment markers in strings', "const sources = 'src/**/*.ts';"],
+      [
+        'comment markers in template literals',
+        'const banner = `\n// generated banner\n`;',
+      ],
+      ['comment markers in regex literals', 'const leadingSlashes = /^\\/*/;'],
+    ];
+
+    it.each(falsePositives)('should not count %s', (_, content) => {
+      service.reset();
+      service.analyzeFile('/test/file.js', content, '.js');
+      expect(service.getPartialResult().languages.JavaScript.commentLines).toBe(
+        0,
+      );
+    });
+  });
+
+  describe('partial results', () => {
+    it('should merge the line counts of scan workers into the same ratio', () => {
+      const worker = new CodeCommentAnalysisService();
+      worker.analyzeFile('/test/a.ts', '// Comment\nconst x = 1;', '.ts');
+      service.analyzeFile('/test/b.ts', 'const y = 2;\nconst z = 3;', '.ts');
+
+      service.mergePartialResult(worker.getPartialResult());
+
+      expect(worker.getPartialResult()).toEqual({
+        languages: {
+          TypeScript: { totalLines: 2, codeLines: 1, commentLines: 1 },
+        },
+        files: [
+          {
+            filePath: '/test/a.ts',
+            language: 'TypeScript',
+            codeLines: 1,
+            commentLines: 1,
+          },
+        ],
+      });
+      // 1 comment line, 3 code lines
+      expect(service.getResult()).toBe(33.33);
+      expect(service.getFileResults().map((file) => file.filePath)).toEqual([
+        '/test/a.ts',
+      ]);
+    });
+  });
+
+  describe('cached file results', () => {
+    it('should add a content result under any path like analyzeFile does', () => {
+      const content = '// Comment\nconst x = 1;';
+      const result = JSON.parse(
+        JSON.stringify(service.analyzeContent(content, '.ts')),
+      ) as ReturnType<CodeCommentAnalysisService['analyzeContent']>;
+      const direct = new CodeCommentAnalysisService();
+      direct.analyzeFile('/test/copy.ts', content, '.ts');
+
+      service.reset();
+      service.addFileResult('/test/copy.ts', '.ts', result);
+
+      expect(result).toEqual({ totalLines: 2, codeLines: 1, commentLines: 1 });
+      expect(service.getPartialResult()).toEqual(direct.getPartialResult());
+    });
+  });
+
+  describe('getFileResults', () => {
+    it('should calculate the ratio of each commented file', () => {
+      service.reset();
+      service.analyzeFile(
+        '/test/a.py',
+        '# Comment\n# Comment\nx = 1\ny = 2\nz = 3',
+        '.py',
+      );
+      service.analyzeFile('/test/b.py', 'x = 1', '.py');
+
+      expect(service.getFileResults()).toEqual([
+        {
+          filePath: '/test/a.py',
+          language: 'Python',
+          codeLines: 3,
+          commentLines: 2,
+          ratio: 66.67,
+        },
+      ]);
+    });
+  });
+
+  describe('getLanguageResults', () => {
+    it('should calculate the ratio of each language next to the overall one', () => {
+      service.reset();
+      service.analyzeFile('/test/a.ts', '// Comment\nconst x = 1;', '.ts');
+      service.analyzeFile('/test/b.tsx', 'const y = 2;', '.tsx');
+      service.analyzeFile(
+        '/test/main.go',
+        '// Package main\n// runs the tool\npackage main',
+        '.go',
+      );
+
+      expect(service.getLanguageResults()).toEqual({
+        TypeScript: 50,
+        Go: 200,
+      });
+      // 3 comment lines, 3 code lines
+      expect(service.getResult()).toBe(100);
+    });
+  });
 });
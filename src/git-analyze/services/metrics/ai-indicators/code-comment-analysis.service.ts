@@ -1,6 +1,14 @@
 import { Injectable } from '@nestjs/common';
-import { FileAnalyzer } from './file-system-scanner.service';
+import {
+  CacheableFileAnalyzer,
+  ParallelFileAnalyzer,
+} from './file-system-scanner.service';
 import { LanguageUtils } from './language-utils';
+import {
+  analyzeTypeScriptSource,
+  isTypeScriptSource,
+  TypeScriptSourceStructure,
+} from './typescript-source-analysis';
 
 export interface CommentAnalysisResult {
   totalLines: number;
@@ -8,20 +16,49 @@ export interface CommentAnalysisResult {
   commentLines: number;
 }
 
+/**
+ * Line counts keyed by language name
+ */
+export type LanguageCommentCounts = Record<string, CommentAnalysisResult>;
+
+/**
+ * Line counts of a single file
+ */
+export interface FileCommentCounts {
+  filePath: string;
+  language: string;
+  codeLines: number;
+  commentLines: number;
+}
+
+/**
+ * State of the analysis, also exchanged with the scan workers
+ */
+export interface CommentAnalysisPartialResult {
+  languages: LanguageCommentCounts;
+  /** Files with at least one comment line */
+  files: FileCommentCounts[];
+}
+
 @Injectable()
-export class CodeCommentAnalysisService implements FileAnalyzer {
+export class CodeCommentAnalysisService
+  implements
+    ParallelFileAnalyzer<CommentAnalysisPartialResult>,
+    CacheableFileAnalyzer<CommentAnalysisResult>
+{
+  readonly modulePath = __filename;
+  readonly cacheKey = 'code-comment-analysis:v1';
+
   // State maintained during scanning
-  private totalLines = 0;
-  private codeLines = 0;
-  private commentLines = 0;
+  private languages: LanguageCommentCounts = {};
+  private files: FileCommentCounts[] = [];
 
   /**
    * Resets analyzer state before a new scan
    */
   reset(): void {
-    this.totalLines = 0;
-    this.codeLines = 0;
-    this.commentLines = 0;
+    this.languages = {};
+    this.files = [];
   }
 
   /**
@@ -36,25 +73,151 @@ export class CodeCommentAnalysisService implements FileAnalyzer {
    * @param filePath Path to the file
    * @param content File content
    * @param extension File extension
+   * @param structure Syntax tree structure of a TypeScript or JavaScript file, when already parsed
    */
-  analyzeFile(filePath: string, content: string, extension: string): void {
-    const lines = content.split('\n');
-    const result = this.countComments(lines, extension);
+  analyzeFile(
+    filePath: string,
+    content: string,
+    extension: string,
+    structure?: TypeScriptSourceStructure,
+  ): void {
+    this.addFileResult(
+      filePath,
+      extension,
+      this.analyzeContent(content, extension, structure),
+    );
+  }
 
-    this.totalLines += result.totalLines;
-    this.codeLines += result.codeLines;
-    this.commentLines += result.commentLines;
+  /**
+   * Counts the lines of a file content. TypeScript and JavaScript files are
+   * read from their syntax tree, so comments trailing code count too; other
+   * languages are read line by line.
+   * @param content File content
+   * @param extension File extension
+   * @param structure Syntax tree structure of a TypeScript or JavaScript file, when already parsed
+   * @returns Total, code and comment lines
+   */
+  analyzeContent(
+    content: string,
+    extension: string,
+    structure?: TypeScriptSourceStructure,
+  ): CommentAnalysisResult {
+    if (isTypeScriptSource(extension)) {
+      const { totalLines, codeLines, commentLines } =
+        structure ?? analyzeTypeScriptSource(content, extension);
+      return { totalLines, codeLines, commentLines };
+    }
+    return this.countComments(content.split('\n'), extension);
+  }
+
+  /**
+   * Adds the line counts of a file
+   * @param filePath Path to the file
+   * @param extension File extension
+   * @param counts Line counts of the file's content
+   */
+  addFileResult(
+    filePath: string,
+    extension: string,
+    counts: CommentAnalysisResult,
+  ): void {
+    const language = LanguageUtils.getLanguageName(extension);
+    this.addCounts(language, counts);
+    if (counts.commentLines > 0) {
+      this.files.push({
+        filePath,
+        language,
+        codeLines: counts.codeLines,
+        commentLines: counts.commentLines,
+      });
+    }
   }
 
   /**
-   * Gets the calculated comment ratio
+   * Gets the line counts accumulated since the last reset (for scan workers)
+   * @returns Line counts per language and of each commented file
+   */
+  getPartialResult(): CommentAnalysisPartialResult {
+    return { languages: this.languages, files: this.files };
+  }
+
+  /**
+   * Adds the line counts of a scan worker
+   * @param partial Line counts per language and of each commented file of the worker
+   */
+  mergePartialResult(partial: CommentAnalysisPartialResult): void {
+    Object.entries(partial.languages).forEach(([language, counts]) =>
+      this.addCounts(language, counts),
+    );
+    this.files.push(...partial.files);
+  }
+
+  /**
+   * Gets the calculated comment ratio over all languages
    * @returns Comment ratio as percentage
    */
   getResult(): number {
-    if (this.codeLines === 0) {
+    const { codeLines, commentLines } = Object.values(this.languages).reduce(
+      (sum, counts) => ({
+        codeLines: sum.codeLines + counts.codeLines,
+        commentLines: sum.commentLines + counts.commentLines,
+      }),
+      { codeLines: 0, commentLines: 0 },
+    );
+    return this.toRatio(commentLines, codeLines);
+  }
+
+  /**
+   * Gets the comment ratio of each scanned language
+   * @returns Comment ratios as percentages, keyed by language name
+   */
+  getLanguageResults(): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(this.languages).map(([language, counts]) => [
+        language,
+        this.toRatio(counts.commentLines, counts.codeLines),
+      ]),
+    );
+  }
+
+  /**
+   * Gets the comment ratio of each file with at least one comment line
+   * @returns Files with their line counts and comment ratio as percentage
+   */
+  getFileResults(): Array<FileCommentCounts & { ratio: number }> {
+    return this.files.map((file) => ({
+      ...file,
+      ratio: this.toRatio(file.commentLines, file.codeLines),
+    }));
+  }
+
+  /**
+   * Adds line counts to the totals of a language
+   * @param language Language name
+   * @param counts Line counts to add
+   */
+  private addCounts(language: string, counts: CommentAnalysisResult): void {
+    const totals = (this.languages[language] ??= {
+      totalLines: 0,
+      codeLines: 0,
+      commentLines: 0,
+    });
+    totals.totalLines += counts.totalLines;
+    totals.codeLines += counts.codeLines;
+    totals.commentLines += counts.commentLines;
+  }
+
+  /**
+   * Calculates the comment ratio of line counts
+   * @param commentLines Comment lines
+   * @param codeLines Code lines
+   * @returns Comment ratio as percentage, 0 without code lines
+   */
+  private toRatio(commentLines: number, codeLines: number): number {
+    if (codeLines === 0) {
       return 0;
     }
-    return Math.round((this.commentLines / this.codeLines) * 10000) / 100;
+    return Math.round((commentLines / codeLines) * 10000) / 100;
   }
 
   /**
@@ -358,4 +358,140 @@ for (int i = 0; i < 10; i++) {
       expect(service.getResult()).toBe(0);
     });
   });
+
+  describe('analyzeFile - TypeScript syntax tree', () => {
+    // Each fixture was reported by the regex heuristics, which still apply to other languages
+    const falsePositives: Array<[string, string]> = [
+      [
+        'nested template literals',
+        "const text = `${flags.map((flag) => `for (${flag})`).join(' ')}`;",
+      ],
+      ['regex literals', 'const isBlockStart = /^do {$/.test(line);'],
+      [
+        'a quote in a regex literal before a comment',
+        "const quote = /'/;\n// don't switch (mode) here",
+      ],
+    ];
+
+    it.each(falsePositives)(
+      'should not detect expressions in %s',
+      (_, code) => {
+        service.reset();
+        service.analyzeFile('/test/file.ts', code, '.ts');
+        expect(service.getResult()).toBe(0);
+      },
+    );
+
+    it('should detect loops inside template literal expressions', () => {
+      service.reset();
+      service.analyzeFile(
+        '/test/file.tsx',
+        'const List = () => <ul>{`${(() => { while (next()) {} })()}`}</ul>;',
+        '.tsx',
+      );
+      expect(service.getResult()).toBe(100);
+    });
+  });
+
+  describe('partial results', () => {
+    it('should merge the file counts of scan workers', () => {
+      const worker = new CodeNonTypicalExpressionsService();
+      worker.analyzeFile('/test/a.ts', 'for (let i = 0; i < 3; i++) {}', '.ts');
+      service.reset();
+      service.analyzeFile('/test/b.ts', 'items.map((item) => item);', '.ts');
+
+      service.mergePartialResult(worker.getPartialResult());
+
+      expect(worker.getPartialResult()).toEqual({
+        languages: {
+          TypeScript: { totalFiles: 1, filesWithNonTypicalExpressions: 1 },
+        },
+        files: [
+          {
+            filePath: '/test/a.ts',
+            language: 'TypeScript',
+            expressions: 1,
+            line: 1,
+          },
+        ],
+      });
+      expect(service.getResult()).toBe(50);
+      expect(service.getFileResults()).toHaveLength(1);
+    });
+  });
+
+  describe('cached file results', () => {
+    it('should add a content result under any path like analyzeFile does', () => {
+      const content = 'const x = 1;\nwhile (x) {}\nswitch (x) {}';
+      const result = service.analyzeContent(content, '.ts');
+      const direct = new CodeNonTypicalExpressionsService();
+      direct.analyzeFile('/test/copy.ts', content, '.ts');
+
+      service.reset();
+      service.addFileResult('/test/copy.ts', '.ts', result);
+
+      expect(result).toEqual([2, 3]);
+      expect(service.getPartialResult()).toEqual(direct.getPartialResult());
+    });
+  });
+
+  describe('getFileResults', () => {
+    it('should locate the first non-typical expression of each file', () => {
+      service.reset();
+      service.analyzeFile(
+        '/test/main.c',
+        [
+          '/* Loops over',
+          '   the input */',
+          'const char *usage = "for (each) switch (mode)";',
+          'int main(void) {',
+          '  while (running) {',
+          '    for (int i = 0; i < n; i++) {}',
+          '  }',
+          '}',
+        ].join('\n'),
+        '.c',
+      );
+      service.analyzeFile(
+        '/test/app.ts',
+        'const label = `\n`;\nswitch (mode) {}\nfor (const item of items) {}',
+        '.ts',
+      );
+      service.analyzeFile('/test/map.ts', 'items.map(run);', '.ts');
+
+      expect(service.getFileResults()).toEqual([
+        {
+          filePath: '/test/main.c',
+          language: 'C',
+          expressions: 2,
+          line: 5,
+        },
+        {
+          filePath: '/test/app.ts',
+          language: 'TypeScript',
+          expressions: 2,
+          line: 3,
+        },
+      ]);
+    });
+  });
+
+  describe('getLanguageResults', () => {
+    it('should calculate the ratio of each language next to the overall one', () => {
+      service.reset();
+      service.analyzeFile('/test/a.ts', 'items.forEach(run);', '.ts');
+      service.analyzeFile('/test/b.ts', 'items.map((item) => item);', '.ts');
+      service.analyzeFile(
+        '/test/main.c',
+        'for (int i = 0; i < n; i++) {}',
+        '.c',
+      );
+
+      expect(service.getLanguageResults()).toEqual({
+        TypeScript: 0,
+        C: 100,
+      });
+      expect(service.getResult()).toBe(33.33);
+    });
+  });
 });
@@ -1,13 +1,64 @@
 import { Injectable } from '@nestjs/common';
-import { FileAnalyzer } from './file-system-scanner.service';
+import {
+  CacheableFileAnalyzer,
+  ParallelFileAnalyzer,
+} from './file-system-scanner.service';
 import { LanguageUtils } from './language-utils';
+import {
+  analyzeTypeScriptSource,
+  isTypeScriptSource,
+  TypeScriptSourceStructure,
+} from './typescript-source-analysis';
+
+/**
+ * File counts of the non-typical expression analysis
+ */
+export interface NonTypicalExpressionCounts {
+  totalFiles: number;
+  filesWithNonTypicalExpressions: number;
+}
+
+/**
+ * File counts keyed by language name
+ */
+export type LanguageNonTypicalExpressionCounts = Record<
+  string,
+  NonTypicalExpressionCounts
+>;
+
+/**
+ * File containing non-typical expressions
+ */
+export interface NonTypicalExpressionFile {
+  filePath: string;
+  language: string;
+  /** Loops and switch statements in the file */
+  expressions: number;
+  /** 1-based line of the first one */
+  line: number;
+}
+
+/**
+ * State of the analysis, also exchanged with the scan workers
+ */
+export interface NonTypicalExpressionPartialResult {
+  languages: LanguageNonTypicalExpressionCounts;
+  files: NonTypicalExpressionFile[];
+}
 
 /**
  * Service to detect non-typical expressions in code that modern developers typically avoid
  * These patterns are often indicators of AI-generated code or less experienced developers
  */
 @Injectable()
-export class CodeNonTypicalExpressionsService implements FileAnalyzer {
+export class CodeNonTypicalExpressionsService
+  implements
+    ParallelFileAnalyzer<NonTypicalExpressionPartialResult>,
+    CacheableFileAnalyzer<number[]>
+{
+  readonly modulePath = __filename;
+  readonly cacheKey = 'code-non-typical-expressions:v1';
+
   // Detection patterns for non-typical expressions
   private readonly PATTERNS = {
     forLoop: /\bfor\s*\(/g,
@@ -17,15 +68,15 @@ export class CodeNonTypicalExpressionsService implements FileAnalyzer {
   };
 
   // State maintained during scanning
-  private totalFiles = 0;
-  private filesWithNonTypicalExpressions = 0;
+  private languages: LanguageNonTypicalExpressionCounts = {};
+  private files: NonTypicalExpressionFile[] = [];
 
   /**
    * Resets analyzer state before a new scan
    */
   reset(): void {
-    this.totalFiles = 0;
-    this.filesWithNonTypicalExpressions = 0;
+    this.languages = {};
+    this.files = [];
   }
 
   /**
@@ -40,85 +91,203 @@ export class CodeNonTypicalExpressionsService implements FileAnalyzer {
    * @param filePath Path to the file
    * @param content File content
    * @param extension File extension
+   * @param structure Syntax tree structure of a TypeScript or JavaScript file, when already parsed
    */
-  analyzeFile(filePath: string, content: string, extension: string): void {
-    this.totalFiles++;
+  analyzeFile(
+    filePath: string,
+    content: string,
+    extension: string,
+    structure?: TypeScriptSourceStructure,
+  ): void {
+    this.addFileResult(
+      filePath,
+      extension,
+      this.analyzeContent(content, extension, structure),
+    );
+  }
+
+  /**
+   * Finds the non-typical expressions of a file content. TypeScript and
+   * JavaScript files are read from their syntax tree; other languages are
+   * matched with regexes once comments and strings are removed.
+   * @param content File content
+   * @param extension File extension
+   * @param structure Syntax tree structure of a TypeScript or JavaScript file, when already parsed
+   * @returns 1-based lines of the loops and switch statements
+   */
+  analyzeContent(
+    content: string,
+    extension: string,
+    structure?: TypeScriptSourceStructure,
+  ): number[] {
+    if (isTypeScriptSource(extension)) {
+      return (structure ?? analyzeTypeScriptSource(content, extension))
+        .loopAndSwitchLines;
+    }
 
     // Remove comments and strings to avoid false positives
     const cleanedContent = this.removeCommentsAndStrings(content, extension);
+    return this.findNonTypicalExpressions(cleanedContent);
+  }
 
-    // Check if file contains any non-typical expressions
-    const hasNonTypicalExpressions =
-      this.detectNonTypicalExpressions(cleanedContent);
-
-    if (hasNonTypicalExpressions) {
-      this.filesWithNonTypicalExpressions++;
+  /**
+   * Adds the non-typical expressions of a file
+   * @param filePath Path to the file
+   * @param extension File extension
+   * @param expressionLines Lines of the non-typical expressions in the file's content
+   */
+  addFileResult(
+    filePath: string,
+    extension: string,
+    expressionLines: number[],
+  ): void {
+    const language = LanguageUtils.getLanguageName(extension);
+    this.addCounts(language, {
+      totalFiles: 1,
+      filesWithNonTypicalExpressions: expressionLines.length > 0 ? 1 : 0,
+    });
+    if (expressionLines.length > 0) {
+      this.files.push({
+        filePath,
+        language,
+        expressions: expressionLines.length,
+        line: expressionLines[0],
+      });
     }
   }
 
   /**
-   * Gets the calculated non-typical expression ratio
+   * Gets the file counts accumulated since the last reset (for scan workers)
+   * @returns File counts per language and the files containing non-typical expressions
+   */
+  getPartialResult(): NonTypicalExpressionPartialResult {
+    return { languages: this.languages, files: this.files };
+  }
+
+  /**
+   * Adds the file counts of a scan worker
+   * @param partial File counts per language and files containing non-typical expressions of the worker
+   */
+  mergePartialResult(partial: NonTypicalExpressionPartialResult): void {
+    Object.entries(partial.languages).forEach(([language, counts]) =>
+      this.addCounts(language, counts),
+    );
+    this.files.push(...partial.files);
+  }
+
+  /**
+   * Gets the calculated non-typical expression ratio over all languages
    * @returns Percentage of files containing non-typical expressions
    */
   getResult(): number {
-    if (this.totalFiles === 0) {
-      return 0;
-    }
-    return (
-      Math.round(
-        (this.filesWithNonTypicalExpressions / this.totalFiles) * 10000,
-      ) / 100
+    const { totalFiles, filesWithNonTypicalExpressions } = Object.values(
+      this.languages,
+    ).reduce(
+      (sum, counts) => ({
+        totalFiles: sum.totalFiles + counts.totalFiles,
+        filesWithNonTypicalExpressions:
+          sum.filesWithNonTypicalExpressions +
+          counts.filesWithNonTypicalExpressions,
+      }),
+      { totalFiles: 0, filesWithNonTypicalExpressions: 0 },
     );
+    return this.toRatio(filesWithNonTypicalExpressions, totalFiles);
   }
 
   /**
-   * Detects non-typical expressions in code
-   * @param content Cleaned file content
-   * @returns True if non-typical expressions found
+   * Gets the non-typical expression ratio of each scanned language
+   * @returns Percentages of files containing non-typical expressions, keyed by language name
    */
-  private detectNonTypicalExpressions(content: string): boolean {
-    // Reset regex lastIndex for each test
-    this.PATTERNS.forLoop.lastIndex = 0;
-    this.PATTERNS.whileLoop.lastIndex = 0;
-    this.PATTERNS.doWhileLoop.lastIndex = 0;
-    this.PATTERNS.switchStatement.lastIndex = 0;
-
-    // Check for traditional for loops
-    if (this.PATTERNS.forLoop.test(content)) {
-      return true;
-    }
+  getLanguageResults(): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(this.languages).map(([language, counts]) => [
+        language,
+        this.toRatio(counts.filesWithNonTypicalExpressions, counts.totalFiles),
+      ]),
+    );
+  }
 
-    // Check for while loops
-    if (this.PATTERNS.whileLoop.test(content)) {
-      return true;
-    }
+  /**
+   * Gets the files containing non-typical expressions
+   * @returns Files with the number of loops and switch statements and the line of the first one
+   */
+  getFileResults(): NonTypicalExpressionFile[] {
+    return this.files;
+  }
 
-    // Check for do-while loops
-    if (this.PATTERNS.doWhileLoop.test(content)) {
-      return true;
-    }
+  /**
+   * Adds file counts to the totals of a language
+   * @param language Language name
+   * @param counts File counts to add
+   */
+  private addCounts(
+    language: string,
+    counts: NonTypicalExpressionCounts,
+  ): void {
+    const totals = (this.languages[language] ??= {
+      totalFiles: 0,
+      filesWithNonTypicalExpressions: 0,
+    });
+    totals.totalFiles += counts.totalFiles;
+    totals.filesWithNonTypicalExpressions +=
+      counts.filesWithNonTypicalExpressions;
+  }
 
-    // Check for switch statements
-    if (this.PATTERNS.switchStatement.test(content)) {
-      return true;
+  /**
+   * Calculates the percentage of files with non-typical expressions
+   * @param matchingFiles Files containing non-typical expressions
+   * @param totalFiles Analyzed files
+   * @returns Percentage, 0 without files
+   */
+  private toRatio(matchingFiles: number, totalFiles: number): number {
+    if (totalFiles === 0) {
+      return 0;
     }
+    return Math.round((matchingFiles / totalFiles) * 10000) / 100;
+  }
+
+  /**
+   * Finds non-typical expressions in code
+   * @param content Cleaned file content, with the line breaks of the original
+   * @returns 1-based line of each match (for and while loops, do-while loops, switch statements), in source order
+   */
+  private findNonTypicalExpressions(content: string): number[] {
+    const positions = Object.values(this.PATTERNS)
+      .flatMap((pattern) =>
+        Array.from(content.matchAll(pattern), (match) => match.index),
+      )
+      .sort((a, b) => a - b);
 
-    return false;
+    // Count line breaks in a single pass over the content
+    let line = 1;
+    let lineBreak = content.indexOf('\n');
+    return positions.map((position) => {
+      while (lineBreak !== -1 && lineBreak < position) {
+        line++;
+        lineBreak = content.indexOf('\n', lineBreak + 1);
+      }
+      return line;
+    });
   }
 
   /**
-   * Removes comments and string literals to avoid false positives
+   * Removes comments and string literals to avoid false positives. Line
+   * breaks are kept, so matches keep the line numbers of the original.
    * @param content File content
    * @param extension File extension
    * @returns Cleaned content
    */
   private removeCommentsAndStrings(content: string, extension: string): string {
     let cleaned = content;
+    const keepLineBreaks =
+      (replacement: string) =>
+      (match: string): string =>
+        replacement + match.replace(/[^\n]/g, '');
 
     // Remove string literals (simple approach)
-    cleaned = cleaned.replace(/"(?:[^"\\]|\\.)*"/g, '""'); // Double quotes
-    cleaned = cleaned.replace(/'(?:[^'\\]|\\.)*'/g, "''"); // Single quotes
-    cleaned = cleaned.replace(/`(?:[^`\\]|\\.)*`/g, '``'); // Template literals
+    cleaned = cleaned.replace(/"(?:[^"\\]|\\.)*"/g, keepLineBreaks('""')); // Double quotes
+    cleaned = cleaned.replace(/'(?:[^'\\]|\\.)*'/g, keepLineBreaks("''")); // Single quotes
+    cleaned = cleaned.replace(/`(?:[^`\\]|\\.)*`/g, keepLineBreaks('``')); // Template literals
 
     // Remove comments based on language
     const commentSyntax = LanguageUtils.getCommentSyntax(extension);
@@ -136,7 +305,7 @@ export class CodeNonTypicalExpressionsService implements FileAnalyzer {
         `${LanguageUtils.escapeRegex(commentSyntax.blockStart)}[\\s\\S]*?${LanguageUtils.escapeRegex(commentSyntax.blockEnd)}`,
         'g',
       );
-      cleaned = cleaned.replace(blockRegex, '');
+      cleaned = cleaned.replace(blockRegex, keepLineBreaks(''));
     }
 
     return cleaned;
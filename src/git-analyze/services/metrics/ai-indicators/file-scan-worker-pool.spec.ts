@@ -0,0 +1,206 @@
+import { Worker } from 'worker_threads';
+import {
+  FileScanWorkerPool,
+  FileScanWorkerRequest,
+} from './file-scan-worker-pool';
+import { ParallelFileAnalyzer } from './file-system-scanner.service';
+
+// Fake workers answer each batch on the next tick; files named "gen*" count as generated, the others as 10-line TypeScript files
+// (in analyze mode, each file comes back as a 10-line analysis)
+jest.mock('worker_threads', () => {
+  const { EventEmitter } =
+    jest.requireActual<typeof import('events')>('events');
+
+  class MockWorker extends EventEmitter {
+    scanned = 0;
+    terminate = jest.fn(() => Promise.resolve(0));
+
+    constructor(
+      readonly filename: string,
+      readonly options: { eval: boolean; workerData: { mode: string } },
+    ) {
+      super();
+    }
+
+    postMessage(request: FileScanWorkerRequest): void {
+      setImmediate(() => {
+        if (request.type === 'finish') {
+          this.emit('message', { type: 'result', partials: [this.scanned] });
+          return;
+        }
+        if (this.options.workerData.mode === 'analyze') {
+          this.emit('message', {
+            type: 'analyzed',
+            files: request.files.length,
+            analyses: request.files.map((file) => ({
+              filePath: file,
+              blobHash: `hash-${file}`,
+              analysis: { generated: false, lines: 10, results: {} },
+            })),
+          });
+          return;
+        }
+        const generatedFiles = request.files.filter((file) =>
+          file.startsWith('gen'),
+        ).length;
+        this.scanned += request.files.length - generatedFiles;
+        this.emit('message', {
+          type: 'scanned',
+          files: request.files.length,
+          scannedFiles: request.files.length - generatedFiles,
+          generatedFiles,
+          languages: {
+            TypeScript: {
+              files: request.files.length - generatedFiles,
+              lines: (request.files.length - generatedFiles) * 10,
+            },
+          },
+        });
+      });
+    }
+  }
+
+  return {
+    Worker: jest.fn(
+      (
+        filename: string,
+        options: { eval: boolean; workerData: { mode: string } },
+      ) => new MockWorker(filename, options),
+    ),
+  };
+});
+
+describe('FileScanWorkerPool', () => {
+  const MockedWorker = Worker as unknown as jest.Mock;
+
+  class CountingAnalyzer implements ParallelFileAnalyzer<number> {
+    readonly modulePath = '/analyzers/counting-analyzer.js';
+    total = 0;
+    reset(): void {
+      this.total = 0;
+    }
+    getSupportedExtensions(): string[] {
+      return ['.ts'];
+    }
+    analyzeFile(): void {
+      this.total++;
+    }
+    getPartialResult(): number {
+      return this.total;
+    }
+    mergePartialResult(partial: number): void {
+      this.total += partial;
+    }
+  }
+
+  const files = (count: number, prefix = 'file') =>
+    Array.from({ length: count }, (_, index) => `${prefix}${index}.ts`);
+
+  const workers = () =>
+    MockedWorker.mock.results.map(
+      (result) => result.value as { terminate: jest.Mock } & Worker,
+    );
+
+  beforeEach(() => {
+    MockedWorker.mockClear();
+  });
+
+  it('should merge the partial results of every worker', async () => {
+    const analyzer = new CountingAnalyzer();
+    const onProgress = jest.fn();
+
+    const counts = await new FileScanWorkerPool([analyzer], 2).scan(
+      [...files(198), ...files(2, 'gen')],
+      onProgress,
+    );
+
+    expect(MockedWorker).toHaveBeenCalledTimes(2);
+    expect(MockedWorker).toHaveBeenCalledWith(
+      expect.stringContaining('file-scan.worker.ts'),
+      {
+        eval: true,
+        workerData: {
+          analyzers: [
+            {
+              modulePath: '/analyzers/counting-analyzer.js',
+              exportName: 'CountingAnalyzer',
+            },
+          ],
+          mode: 'scan',
+        },
+      },
+    );
+    expect(counts).toEqual({
+      scannedFiles: 198,
+      generatedFiles: 2,
+      languages: { TypeScript: { files: 198, lines: 1980 } },
+    });
+    expect(analyzer.total).toBe(198);
+    // One call per batch of 64 files
+    expect(onProgress.mock.calls).toEqual([
+      [64, 200],
+      [128, 200],
+      [192, 200],
+      [200, 200],
+    ]);
+    workers().forEach((worker) => expect(worker.terminate).toHaveBeenCalled());
+  });
+
+  it('should return the analysis of each file in analyze mode', async () => {
+    const analyzer = new CountingAnalyzer();
+    const onAnalysis = jest.fn();
+    const onProgress = jest.fn();
+
+    await new FileScanWorkerPool([analyzer], 2).analyze(
+      files(100),
+      onAnalysis,
+      onProgress,
+    );
+
+    expect(MockedWorker.mock.calls[0][1]).toMatchObject({
+      workerData: { mode: 'analyze' },
+    });
+    expect(onAnalysis).toHaveBeenCalledTimes(100);
+    expect(onAnalysis).toHaveBeenCalledWith({
+      filePath: 'file0.ts',
+      blobHash: 'hash-file0.ts',
+      analysis: { generated: false, lines: 10, results: {} },
+    });
+    expect(onProgress.mock.calls).toEqual([
+      [64, 100],
+      [100, 100],
+    ]);
+    // The analyses are left to the caller, so nothing is merged
+    expect(analyzer.total).toBe(0);
+    workers().forEach((worker) => expect(worker.terminate).toHaveBeenCalled());
+  });
+
+  it('should not start more workers than there are batches', async () => {
+    await new FileScanWorkerPool([new CountingAnalyzer()], 4).scan(files(70));
+
+    expect(MockedWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail when a worker fails, and stop the others', async () => {
+    const scan = new FileScanWorkerPool([new CountingAnalyzer()], 2).scan(
+      files(200),
+    );
+    workers()[1].emit('error', new Error('Cannot find module'));
+
+    await expect(scan).rejects.toThrow('Cannot find module');
+    workers().forEach((worker) => expect(worker.terminate).toHaveBeenCalled());
+  });
+
+  it('should stop the workers when aborted', async () => {
+    const abortController = new AbortController();
+    const scan = new FileScanWorkerPool([new CountingAnalyzer()], 2).scan(
+      files(200),
+      undefined,
+      abortController.signal,
+    );
+    abortController.abort(new Error('Analysis cancelled'));
+
+    await expect(scan).rejects.toThrow('Analysis cancelled');
+    workers().forEach((worker) => expect(worker.terminate).toHaveBeenCalled());
+  });
+});
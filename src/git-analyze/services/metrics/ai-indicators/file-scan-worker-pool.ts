@@ -0,0 +1,282 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import {
+  addLanguageCounts,
+  FileAnalysisEntry,
+  LanguageFileCounts,
+  ParallelFileAnalyzer,
+} from './file-system-scanner.service';
+
+/** Files handed to a worker at a time; workers ask for the next batch when done */
+const BATCH_SIZE = 64;
+
+/** Worker entry point, next to this module (.js once built, .ts when run from sources) */
+const WORKER_PATH = path.join(
+  __dirname,
+  `file-scan.worker${path.extname(__filename)}`,
+);
+
+/**
+ * Script the workers run. Workers do not inherit the TypeScript loaders of
+ * tsx (perf scripts), so when run from sources they register them first.
+ */
+const WORKER_SCRIPT =
+  path.extname(__filename) === '.ts'
+    ? {
+        filename: `require('tsx/cjs'); require('tsx/esm/api').register(); require(${JSON.stringify(WORKER_PATH)});`,
+        eval: true,
+      }
+    : { filename: WORKER_PATH, eval: false };
+
+/**
+ * Data a scan worker starts with: the analyzers it instantiates, and whether
+ * it feeds them ('scan') or returns the analysis of each file's content
+ * ('analyze', for cacheable analyzers)
+ */
+export interface FileScanWorkerData {
+  analyzers: Array<{ modulePath: string; exportName: string }>;
+  mode: 'scan' | 'analyze';
+}
+
+/**
+ * Messages from the pool to a worker
+ */
+export type FileScanWorkerRequest =
+  | { type: 'scan'; files: string[] }
+  | { type: 'finish' };
+
+/**
+ * Messages from a worker to the pool
+ */
+export type FileScanWorkerResponse =
+  | {
+      type: 'scanned';
+      /** Files of the batch, read or not */
+      files: number;
+      scannedFiles: number;
+      generatedFiles: number;
+      languages: LanguageFileCounts;
+    }
+  | {
+      type: 'analyzed';
+      /** Files of the batch, read or not */
+      files: number;
+      /** Analyses of the files that could be read */
+      analyses: FileAnalysisEntry[];
+    }
+  | {
+      type: 'result';
+      /** Partial result of each analyzer, in the order of FileScanWorkerData.analyzers */
+      partials: unknown[];
+    };
+
+/**
+ * Response of a worker to a batch
+ */
+type FileScanBatchResponse = Exclude<
+  FileScanWorkerResponse,
+  { type: 'result' }
+>;
+
+/**
+ * Outcome of a scan, once the partial results are merged into the analyzers
+ */
+export interface FileScanCounts {
+  scannedFiles: number;
+  /** Files left out because of a generated-file header */
+  generatedFiles: number;
+  /** Scanned files and lines per language */
+  languages: LanguageFileCounts;
+}
+
+/**
+ * Spreads the files of one scan over worker threads. Each worker feeds its
+ * own analyzer instances and returns their partial results, which are merged
+ * into the given analyzers. The workers are stopped when the scan ends.
+ */
+export class FileScanWorkerPool {
+  /**
+   * @param analyzers Analyzers of the main thread, receiving the merged results
+   * @param size Number of worker threads
+   */
+  constructor(
+    private readonly analyzers: ParallelFileAnalyzer[],
+    private readonly size: number,
+  ) {}
+
+  /**
+   * Scans files in the worker threads
+   * @param files Absolute file paths
+   * @param onProgress Optional progress callback, called after each batch
+   * @param signal Stops the workers when aborted
+   * @returns Number of scanned files, of files left out as generated and the counts per language
+   * @throws Error when a worker fails, or the abort reason
+   */
+  async scan(
+    files: string[],
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal,
+  ): Promise<FileScanCounts> {
+    const counts: FileScanCounts = {
+      scannedFiles: 0,
+      generatedFiles: 0,
+      languages: {},
+    };
+    let processedFiles = 0;
+
+    const partials = await this.runWorkers(
+      files,
+      'scan',
+      (response) => {
+        if (response.type !== 'scanned') {
+          return;
+        }
+        processedFiles += response.files;
+        counts.scannedFiles += response.scannedFiles;
+        counts.generatedFiles += response.generatedFiles;
+        addLanguageCounts(counts.languages, response.languages);
+        onProgress?.(processedFiles, files.length);
+      },
+      signal,
+    );
+
+    partials.forEach((workerPartials) =>
+      workerPartials.forEach((partial, index) =>
+        this.analyzers[index].mergePartialResult(partial),
+      ),
+    );
+    return counts;
+  }
+
+  /**
+   * Analyzes the content of files in the worker threads without feeding the
+   * analyzers, so the analyses can be cached before they are added to them
+   * @param files Absolute file paths
+   * @param onAnalysis Receives the analysis of each file that could be read
+   * @param onProgress Optional progress callback, called after each batch
+   * @param signal Stops the workers when aborted
+   * @throws Error when a worker fails, or the abort reason
+   */
+  async analyze(
+    files: string[],
+    onAnalysis: (entry: FileAnalysisEntry) => void,
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    let processedFiles = 0;
+
+    await this.runWorkers(
+      files,
+      'analyze',
+      (response) => {
+        if (response.type !== 'analyzed') {
+          return;
+        }
+        processedFiles += response.files;
+        response.analyses.forEach((entry) => onAnalysis(entry));
+        onProgress?.(processedFiles, files.length);
+      },
+      signal,
+    );
+  }
+
+  /**
+   * Spreads the files over the workers in batches and stops the workers once
+   * every batch is done
+   * @param files Absolute file paths
+   * @param mode Whether the workers feed their analyzers or return the analysis of each file
+   * @param onBatch Receives the response to each finished batch
+   * @param signal Stops the workers when aborted
+   * @returns Partial result of each analyzer, per worker
+   * @throws Error when a worker fails, or the abort reason
+   */
+  private async runWorkers(
+    files: string[],
+    mode: FileScanWorkerData['mode'],
+    onBatch: (response: FileScanBatchResponse) => void,
+    signal?: AbortSignal,
+  ): Promise<unknown[][]> {
+    signal?.throwIfAborted();
+
+    const batches: string[][] = [];
+    for (let start = 0; start < files.length; start += BATCH_SIZE) {
+      batches.push(files.slice(start, start + BATCH_SIZE));
+    }
+
+    const workerData: FileScanWorkerData = {
+      analyzers: this.analyzers.map((analyzer) => ({
+        modulePath: analyzer.modulePath,
+        exportName: analyzer.constructor.name,
+      })),
+      mode,
+    };
+    const workers = Array.from(
+      { length: Math.min(this.size, batches.length) },
+      () =>
+        new Worker(WORKER_SCRIPT.filename, {
+          eval: WORKER_SCRIPT.eval,
+          workerData,
+        }),
+    );
+
+    let onAbort: (() => void) | undefined;
+    try {
+      const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal!.reason as Error);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+      return await Promise.race([
+        Promise.all(
+          workers.map((worker) =>
+            this.run(worker, () => batches.shift(), onBatch),
+          ),
+        ),
+        aborted,
+      ]);
+    } finally {
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+      await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+  }
+
+  /**
+   * Feeds batches to a worker until none are left, then collects its partial results
+   * @param worker Scan worker
+   * @param nextBatch Takes the next batch off the shared queue
+   * @param onBatch Receives the response to each finished batch
+   * @returns Partial result of each analyzer
+   */
+  private run(
+    worker: Worker,
+    nextBatch: () => string[] | undefined,
+    onBatch: (response: FileScanBatchResponse) => void,
+  ): Promise<unknown[]> {
+    return new Promise((resolve, reject) => {
+      const sendNext = () => {
+        const files = nextBatch();
+        const request: FileScanWorkerRequest = files
+          ? { type: 'scan', files }
+          : { type: 'finish' };
+        worker.postMessage(request);
+      };
+
+      worker.on('message', (response: FileScanWorkerResponse) => {
+        if (response.type === 'result') {
+          resolve(response.partials);
+          return;
+        }
+        onBatch(response);
+        sendNext();
+      });
+      worker.on('error', reject);
+      // Settles nothing once the result is in, since the pool terminates the workers itself
+      worker.on('exit', (code) =>
+        reject(new Error(`File scan worker exited with code ${code}`)),
+      );
+
+      sendNext();
+    });
+  }
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import { pathToFileURL } from 'url';
+import { parentPort, workerData } from 'worker_threads';
+import {
+  FileScanWorkerData,
+  FileScanWorkerRequest,
+  FileScanWorkerResponse,
+} from './file-scan-worker-pool';
+import {
+  analyzeFileContent,
+  analyzeSourceFile,
+  FileAnalysisEntry,
+  isCacheableFileAnalyzer,
+  LanguageFileCounts,
+  ParallelFileAnalyzer,
+} from './file-system-scanner.service';
+
+/**
+ * Scan worker started by FileScanWorkerPool: creates its own instance of
+ * each analyzer, feeds them the batches it receives and returns their
+ * partial results when asked to finish. In analyze mode, it returns the
+ * analysis of each file's content instead of feeding the analyzers.
+ */
+const { analyzers: specs, mode } = workerData as FileScanWorkerData;
+
+const analyzersReady: Promise<ParallelFileAnalyzer[]> = Promise.all(
+  specs.map(async ({ modulePath, exportName }) => {
+    const exports = (await import(pathToFileURL(modulePath).href)) as Record<
+      string,
+      new () => ParallelFileAnalyzer
+    >;
+    const analyzer = new exports[exportName]();
+    analyzer.reset();
+    return analyzer;
+  }),
+);
+
+/**
+ * Handles one request of the pool
+ * @param analyzers Analyzers of this worker
+ * @param request Batch to scan, or the signal to return the partial results
+ * @returns Response to the pool
+ */
+function handle(
+  analyzers: ParallelFileAnalyzer[],
+  request: FileScanWorkerRequest,
+): FileScanWorkerResponse {
+  if (request.type === 'finish') {
+    return {
+      type: 'result',
+      partials: analyzers.map((analyzer) => analyzer.getPartialResult()),
+    };
+  }
+
+  if (mode === 'analyze') {
+    const cacheableAnalyzers = analyzers.filter((analyzer) =>
+      isCacheableFileAnalyzer(analyzer),
+    );
+    const analyses: FileAnalysisEntry[] = [];
+    request.files.forEach((file) => {
+      let content: Buffer;
+      try {
+        content = fs.readFileSync(file);
+      } catch {
+        // Silently skip files that can't be read, as on the main thread
+        return;
+      }
+      analyses.push(analyzeFileContent(cacheableAnalyzers, file, content));
+    });
+    return { type: 'analyzed', files: request.files.length, analyses };
+  }
+
+  let scannedFiles = 0;
+  let generatedFiles = 0;
+  const languages: LanguageFileCounts = {};
+  request.files.forEach((file) => {
+    let content: string;
+    try {
+      content = fs.readFileSync(file, 'utf-8');
+    } catch {
+      // Silently skip files that can't be read, as on the main thread
+      return;
+    }
+
+    if (analyzeSourceFile(analyzers, file, content, languages)) {
+      scannedFiles++;
+    } else {
+      generatedFiles++;
+    }
+  });
+
+  return {
+    type: 'scanned',
+    files: request.files.length,
+    scannedFiles,
+    generatedFiles,
+    languages,
+  };
+}
+
+// Requests are handled in order; a failed import rejects and stops the worker with an error
+parentPort!.on('message', (request: FileScanWorkerRequest) => {
+  void analyzersReady.then((analyzers) =>
+    parentPort!.postMessage(handle(analyzers, request)),
+  );
+});
@@ -2,12 +2,22 @@ import { Test, TestingModule } from '@nestjs/testing';
 import {
   FileSystemScannerService,
   FileAnalyzer,
+  ParallelFileAnalyzer,
+  CacheableFileAnalyzer,
+  FileContentAnalysis,
+  getBlobHash,
 } from './file-system-scanner.service';
+import { FileScanWorkerPool } from './file-scan-worker-pool';
 import * as fs from 'fs';
 import * as path from 'path';
 
-// Mock fs module
-jest.mock('fs');
+jest.mock('./file-scan-worker-pool');
+
+// Mock fs module (automocking leaves out the fs.promises getter)
+jest.mock('fs', () => ({
+  ...jest.createMockFromModule<typeof fs>('fs'),
+  promises: { readdir: jest.fn(), readFile: jest.fn() },
+}));
 
 describe('FileSystemScannerService', () => {
   let service: FileSystemScannerService;
@@ -55,32 +65,32 @@ describe('FileSystemScannerService', () => {
   });
 
   describe('scanRepository', () => {
-    it('should call reset on all analyzers before scanning', () => {
+    it('should call reset on all analyzers before scanning', async () => {
       const mockAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
-      mockFs.readdirSync.mockReturnValue([] as any);
+      mockFs.readdir.mockResolvedValue([] as any);
 
-      service.scanRepository('/test/repo', [mockAnalyzer]);
+      await service.scanRepository('/test/repo', [mockAnalyzer]);
 
       expect(mockAnalyzer.wasResetCalled()).toBe(true);
     });
 
-    it('should scan files and pass to analyzers', () => {
+    it('should scan files and pass to analyzers', async () => {
       const mockAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
       // Mock directory structure
-      mockFs.readdirSync.mockReturnValueOnce([
+      mockFs.readdir.mockResolvedValueOnce([
         { name: 'file1.ts', isDirectory: () => false, isFile: () => true },
         { name: 'file2.js', isDirectory: () => false, isFile: () => true },
       ] as any);
 
-      mockFs.readFileSync
-        .mockReturnValueOnce('content of file1')
-        .mockReturnValueOnce('content of file2');
+      mockFs.readFile
+        .mockResolvedValueOnce('content of file1')
+        .mockResolvedValueOnce('content of file2');
 
-      service.scanRepository('/test/repo', [mockAnalyzer]);
+      await service.scanRepository('/test/repo', [mockAnalyzer]);
 
       const files = mockAnalyzer.getFiles();
       expect(files).toHaveLength(2);
@@ -96,31 +106,31 @@ describe('FileSystemScannerService', () => {
       });
     });
 
-    it('should skip unsupported file extensions', () => {
+    it('should skip unsupported file extensions', async () => {
       const mockAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
-      mockFs.readdirSync.mockReturnValueOnce([
+      mockFs.readdir.mockResolvedValueOnce([
         { name: 'file1.ts', isDirectory: () => false, isFile: () => true },
         { name: 'file2.txt', isDirectory: () => false, isFile: () => true },
         { name: 'file3.md', isDirectory: () => false, isFile: () => true },
       ] as any);
 
-      mockFs.readFileSync.mockReturnValue('content');
+      mockFs.readFile.mockResolvedValue('content');
 
-      service.scanRepository('/test/repo', [mockAnalyzer]);
+      await service.scanRepository('/test/repo', [mockAnalyzer]);
 
       const files = mockAnalyzer.getFiles();
       expect(files).toHaveLength(1);
       expect(files[0].ext).toBe('.ts');
     });
 
-    it('should skip directories that should be excluded', () => {
+    it('should skip directories that should be excluded', async () => {
       const mockAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
-      mockFs.readdirSync
-        .mockReturnValueOnce([
+      mockFs.readdir
+        .mockResolvedValueOnce([
           {
             name: 'node_modules',
             isDirectory: () => true,
@@ -130,54 +140,58 @@ describe('FileSystemScannerService', () => {
           { name: 'dist', isDirectory: () => true, isFile: () => false },
           { name: 'src', isDirectory: () => true, isFile: () => false },
         ] as any)
-        .mockReturnValueOnce([
+        .mockResolvedValueOnce([
           { name: 'file.ts', isDirectory: () => false, isFile: () => true },
         ] as any);
 
-      mockFs.readFileSync.mockReturnValue('content');
+      mockFs.readFile.mockResolvedValue('content');
 
-      service.scanRepository('/test/repo', [mockAnalyzer]);
+      await service.scanRepository('/test/repo', [mockAnalyzer]);
 
       const files = mockAnalyzer.getFiles();
       expect(files).toHaveLength(1);
       // Should only process files in 'src', not in node_modules, .git, or dist
     });
 
-    it('should recursively scan subdirectories', () => {
+    it('should recursively scan subdirectories', async () => {
       const mockAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
-      mockFs.readdirSync
-        .mockReturnValueOnce([
+      mockFs.readdir
+        .mockResolvedValueOnce([
           { name: 'subdir', isDirectory: () => true, isFile: () => false },
         ] as any)
-        .mockReturnValueOnce([
+        .mockResolvedValueOnce([
           { name: 'file.ts', isDirectory: () => false, isFile: () => true },
         ] as any);
 
-      mockFs.readFileSync.mockReturnValue('nested content');
+      mockFs.readFile.mockResolvedValue('nested content');
 
-      service.scanRepository('/test/repo', [mockAnalyzer]);
+      await service.scanRepository('/test/repo', [mockAnalyzer]);
 
       const files = mockAnalyzer.getFiles();
       expect(files).toHaveLength(1);
       expect(files[0].path).toBe(path.join('/test/repo', 'subdir', 'file.ts'));
     });
 
-    it('should call progress callback with correct values', () => {
+    it('should call progress callback with correct values', async () => {
       const mockAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
       const progressCallback = jest.fn();
 
-      mockFs.readdirSync.mockReturnValueOnce([
+      mockFs.readdir.mockResolvedValueOnce([
         { name: 'file1.ts', isDirectory: () => false, isFile: () => true },
         { name: 'file2.js', isDirectory: () => false, isFile: () => true },
         { name: 'file3.py', isDirectory: () => false, isFile: () => true },
       ] as any);
 
-      mockFs.readFileSync.mockReturnValue('content');
+      mockFs.readFile.mockResolvedValue('content');
 
-      service.scanRepository('/test/repo', [mockAnalyzer], progressCallback);
+      await service.scanRepository(
+        '/test/repo',
+        [mockAnalyzer],
+        progressCallback,
+      );
 
       expect(progressCallback).toHaveBeenCalledTimes(3);
       expect(progressCallback).toHaveBeenNthCalledWith(1, 1, 3);
@@ -185,7 +199,7 @@ describe('FileSystemScannerService', () => {
       expect(progressCallback).toHaveBeenNthCalledWith(3, 3, 3);
     });
 
-    it('should pass files only to analyzers that support the extension', () => {
+    it('should pass files only to analyzers that support the extension', async () => {
       class TypeScriptOnlyAnalyzer implements FileAnalyzer {
         private files: string[] = [];
         reset(): void {
@@ -204,40 +218,42 @@ describe('FileSystemScannerService', () => {
 
       const tsAnalyzer = new TypeScriptOnlyAnalyzer();
       const allAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
-      mockFs.readdirSync.mockReturnValueOnce([
+      mockFs.readdir.mockResolvedValueOnce([
         { name: 'file1.ts', isDirectory: () => false, isFile: () => true },
         { name: 'file2.js', isDirectory: () => false, isFile: () => true },
       ] as any);
 
-      mockFs.readFileSync.mockReturnValue('content');
+      mockFs.readFile.mockResolvedValue('content');
 
-      service.scanRepository('/test/repo', [tsAnalyzer, allAnalyzer]);
+      await service.scanRepository('/test/repo', [tsAnalyzer, allAnalyzer]);
 
       expect(tsAnalyzer.getFiles()).toHaveLength(1);
       expect(allAnalyzer.getFiles()).toHaveLength(2);
     });
 
-    it('should handle file read errors gracefully', () => {
+    it('should handle file read errors gracefully', async () => {
       const mockAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
-      mockFs.readdirSync.mockReturnValueOnce([
+      mockFs.readdir.mockResolvedValueOnce([
         { name: 'file1.ts', isDirectory: () => false, isFile: () => true },
         { name: 'file2.js', isDirectory: () => false, isFile: () => true },
       ] as any);
 
-      mockFs.readFileSync
-        .mockImplementationOnce(() => {
-          throw new Error('Permission denied');
-        })
-        .mockReturnValueOnce('content of file2');
+      mockFs.readFile
+        .mockRejectedValueOnce(new Error('Permission denied'))
+        .mockResolvedValueOnce('content of file2');
 
       // Should not throw
-      expect(() => {
-        service.scanRepository('/test/repo', [mockAnalyzer]);
-      }).not.toThrow();
+      await expect(
+        service.scanRepository('/test/repo', [mockAnalyzer]),
+      ).resolves.toEqual({
+        scannedFiles: 1,
+        exclusions: [],
+        languages: { JavaScript: { files: 1, lines: 1 } },
+      });
 
       // Should only have file2
       const files = mockAnalyzer.getFiles();
@@ -245,36 +261,34 @@ describe('FileSystemScannerService', () => {
       expect(files[0].path).toContain('file2.js');
     });
 
-    it('should handle directory read errors gracefully', () => {
+    it('should handle directory read errors gracefully', async () => {
       const mockAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
-      mockFs.readdirSync.mockImplementation(() => {
-        throw new Error('Directory not found');
-      });
+      mockFs.readdir.mockRejectedValue(new Error('Directory not found'));
 
       // Should not throw
-      expect(() => {
-        service.scanRepository('/test/repo', [mockAnalyzer]);
-      }).not.toThrow();
+      await expect(
+        service.scanRepository('/test/repo', [mockAnalyzer]),
+      ).resolves.toEqual({ scannedFiles: 0, exclusions: [], languages: {} });
 
       // Should have no files
       const files = mockAnalyzer.getFiles();
       expect(files).toHaveLength(0);
     });
 
-    it('should work with multiple analyzers', () => {
+    it('should work with multiple analyzers', async () => {
       const analyzer1 = new MockAnalyzer();
       const analyzer2 = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
-      mockFs.readdirSync.mockReturnValueOnce([
+      mockFs.readdir.mockResolvedValueOnce([
         { name: 'file.ts', isDirectory: () => false, isFile: () => true },
       ] as any);
 
-      mockFs.readFileSync.mockReturnValue('shared content');
+      mockFs.readFile.mockResolvedValue('shared content');
 
-      service.scanRepository('/test/repo', [analyzer1, analyzer2]);
+      await service.scanRepository('/test/repo', [analyzer1, analyzer2]);
 
       expect(analyzer1.getFiles()).toHaveLength(1);
       expect(analyzer2.getFiles()).toHaveLength(1);
@@ -282,11 +296,11 @@ describe('FileSystemScannerService', () => {
       expect(analyzer2.getFiles()[0].content).toBe('shared content');
     });
 
-    it('should skip system and package lock files', () => {
+    it('should skip system and package lock files', async () => {
       const mockAnalyzer = new MockAnalyzer();
-      const mockFs = fs as jest.Mocked<typeof fs>;
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
 
-      mockFs.readdirSync.mockReturnValueOnce([
+      mockFs.readdir.mockResolvedValueOnce([
         { name: 'file1.ts', isDirectory: () => false, isFile: () => true },
         {
           name: 'package-lock.json',
@@ -299,14 +313,438 @@ describe('FileSystemScannerService', () => {
         { name: '.DS_Store', isDirectory: () => false, isFile: () => true },
       ] as any);
 
-      mockFs.readFileSync.mockReturnValue('content');
+      mockFs.readFile.mockResolvedValue('content');
 
-      service.scanRepository('/test/repo', [mockAnalyzer]);
+      await service.scanRepository('/test/repo', [mockAnalyzer]);
 
       const files = mockAnalyzer.getFiles();
       expect(files).toHaveLength(2);
       expect(files[0].path).toContain('file1.ts');
       expect(files[1].path).toContain('file2.js');
     });
+
+    it('should skip paths matching the configured glob patterns', async () => {
+      const mockAnalyzer = new MockAnalyzer();
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
+
+      mockFs.readdir
+        .mockResolvedValueOnce([
+          { name: 'fixtures', isDirectory: () => true, isFile: () => false },
+          { name: 'src', isDirectory: () => true, isFile: () => false },
+        ] as any)
+        .mockResolvedValueOnce([
+          { name: 'app.ts', isDirectory: () => false, isFile: () => true },
+          { name: 'app.min.js', isDirectory: () => false, isFile: () => true },
+          {
+            name: 'schema.gen.ts',
+            isDirectory: () => false,
+            isFile: () => true,
+          },
+        ] as any);
+
+      mockFs.readFile.mockResolvedValue('content');
+
+      await service.scanRepository('/test/repo', [mockAnalyzer], undefined, {
+        skip: ['fixtures/**', '*.min.js', 'src/*.gen.ts'],
+      });
+
+      // The skipped directory is not even read
+      expect(mockFs.readdir).toHaveBeenCalledTimes(2);
+      expect(mockAnalyzer.getFiles().map((file) => file.path)).toEqual([
+        path.join('/test/repo', 'src', 'app.ts'),
+      ]);
+    });
+
+    describe('worker threads', () => {
+      const MockedPool = FileScanWorkerPool as jest.MockedClass<
+        typeof FileScanWorkerPool
+      >;
+
+      class MockParallelAnalyzer
+        extends MockAnalyzer
+        implements ParallelFileAnalyzer<number>
+      {
+        readonly modulePath = __filename;
+        merged: number[] = [];
+        getPartialResult(): number {
+          return this.getFiles().length;
+        }
+        mergePartialResult(partial: number): void {
+          this.merged.push(partial);
+        }
+      }
+
+      const mockFiles = (count: number) =>
+        (
+          fs.promises as jest.Mocked<typeof fs.promises>
+        ).readdir.mockResolvedValueOnce(
+          Array.from({ length: count }, (_, index) => ({
+            name: `file${index}.ts`,
+            isDirectory: () => false,
+            isFile: () => true,
+          })) as any,
+        );
+
+      beforeEach(() => {
+        MockedPool.prototype.scan.mockResolvedValue({
+          scannedFiles: 1499,
+          generatedFiles: 1,
+          languages: { TypeScript: { files: 1499, lines: 2998 } },
+        });
+      });
+
+      it('should spread large scans over the worker pool', async () => {
+        const analyzer = new MockParallelAnalyzer();
+        const progressCallback = jest.fn();
+        mockFiles(1500);
+
+        const summary = await service.scanRepository(
+          '/test/repo',
+          [analyzer],
+          progressCallback,
+          { workers: 4 },
+        );
+
+        // 500 files per worker at least
+        expect(MockedPool).toHaveBeenCalledWith([analyzer], 3);
+        expect(MockedPool.prototype.scan).toHaveBeenCalledWith(
+          expect.arrayContaining([path.join('/test/repo', 'file0.ts')]),
+          progressCallback,
+          undefined,
+        );
+        expect(fs.promises.readFile).not.toHaveBeenCalled();
+        expect(summary).toEqual({
+          scannedFiles: 1499,
+          exclusions: [
+            { reason: 'generated-header', files: 1, directories: 0 },
+          ],
+          languages: { TypeScript: { files: 1499, lines: 2998 } },
+        });
+      });
+
+      it('should scan on the main thread when an analyzer cannot run in workers', async () => {
+        (
+          fs.promises as jest.Mocked<typeof fs.promises>
+        ).readFile.mockResolvedValue('content');
+        mockFiles(1500);
+
+        await service.scanRepository(
+          '/test/repo',
+          [new MockParallelAnalyzer(), new MockAnalyzer()],
+          undefined,
+          { workers: 4 },
+        );
+
+        expect(MockedPool).not.toHaveBeenCalled();
+        expect(fs.promises.readFile).toHaveBeenCalledTimes(1500);
+      });
+
+      it('should scan small repositories and disabled pools on the main thread', async () => {
+        (
+          fs.promises as jest.Mocked<typeof fs.promises>
+        ).readFile.mockResolvedValue('content');
+        mockFiles(400);
+        mockFiles(1500);
+
+        await service.scanRepository(
+          '/test/repo',
+          [new MockParallelAnalyzer()],
+          undefined,
+          { workers: 4 },
+        );
+        await service.scanRepository(
+          '/test/repo',
+          [new MockParallelAnalyzer()],
+          undefined,
+          { workers: 0 },
+        );
+
+        expect(MockedPool).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('file analysis cache', () => {
+      class MockCacheableAnalyzer
+        extends MockAnalyzer
+        implements CacheableFileAnalyzer<number>, ParallelFileAnalyzer<number>
+      {
+        readonly cacheKey = 'mock:v1';
+        readonly modulePath = __filename;
+        added: Array<{ path: string; result: number }> = [];
+        analyzeContent(content: string): number {
+          return content.length;
+        }
+        addFileResult(filePath: string, extension: string, result: number) {
+          this.added.push({ path: filePath, result });
+        }
+        getPartialResult(): number {
+          return 0;
+        }
+        mergePartialResult(): void {}
+      }
+
+      const createCache = (entries: Record<string, FileContentAnalysis>) => ({
+        getFileAnalysis: jest.fn(
+          (blobHash: string, extension: string) =>
+            entries[`${blobHash}${extension}`],
+        ),
+        setFileAnalysis: jest.fn(),
+      });
+
+      const mockFiles = (contents: Record<string, string>) => {
+        const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
+        mockFs.readdir.mockResolvedValueOnce(
+          Object.keys(contents).map((name) => ({
+            name,
+            isDirectory: () => false,
+            isFile: () => true,
+          })) as any,
+        );
+        // Read as a buffer to be hashed, or as text without a cache
+        mockFs.readFile.mockImplementation(((
+          file: string,
+          encoding?: string,
+        ) => {
+          const content = contents[path.basename(file)];
+          return Promise.resolve(encoding ? content : Buffer.from(content));
+        }) as any);
+      };
+
+      it('should hash contents like git', () => {
+        expect(getBlobHash(Buffer.from('hello\n'))).toBe(
+          'ce013625030ba8dba906f756967f9e9ca394464a',
+        );
+      });
+
+      it('should reuse cached analyses and store the new ones', async () => {
+        const analyzer = new MockCacheableAnalyzer();
+        const cachedHash = getBlobHash(Buffer.from('cached'));
+        const staleHash = getBlobHash(Buffer.from('stale'));
+        const generatedHash = getBlobHash(Buffer.from('generated'));
+        const cache = createCache({
+          [`${cachedHash}.ts`]: {
+            generated: false,
+            lines: 12,
+            results: { 'mock:v1': 42 },
+          },
+          // Written by a scan without this analyzer
+          [`${staleHash}.ts`]: { generated: false, lines: 1, results: {} },
+          [`${generatedHash}.ts`]: { generated: true, lines: 0, results: {} },
+        });
+        mockFiles({
+          'cached.ts': 'cached',
+          'stale.ts': 'stale',
+          'generated.ts': 'generated',
+          'new.ts': 'line 1\nline 2',
+        });
+        const progressCallback = jest.fn();
+
+        const summary = await service.scanRepository(
+          '/test/repo',
+          [analyzer],
+          progressCallback,
+          { workers: 0, cache },
+        );
+
+        expect(analyzer.getFiles()).toEqual([]);
+        expect(analyzer.added).toEqual([
+          { path: path.join('/test/repo', 'cached.ts'), result: 42 },
+          { path: path.join('/test/repo', 'stale.ts'), result: 5 },
+          { path: path.join('/test/repo', 'new.ts'), result: 13 },
+        ]);
+        expect(cache.setFileAnalysis.mock.calls).toEqual([
+          [
+            staleHash,
+            '.ts',
+            { generated: false, lines: 1, results: { 'mock:v1': 5 } },
+          ],
+          [
+            getBlobHash(Buffer.from('line 1\nline 2')),
+            '.ts',
+            { generated: false, lines: 2, results: { 'mock:v1': 13 } },
+          ],
+        ]);
+        expect(summary).toEqual({
+          scannedFiles: 3,
+          exclusions: [
+            { reason: 'generated-header', files: 1, directories: 0 },
+          ],
+          languages: { TypeScript: { files: 3, lines: 15 } },
+        });
+        expect(progressCallback).toHaveBeenLastCalledWith(4, 4);
+      });
+
+      it('should analyze the missing files in the worker pool when there are enough', async () => {
+        const MockedPool = FileScanWorkerPool as jest.MockedClass<
+          typeof FileScanWorkerPool
+        >;
+        MockedPool.prototype.analyze.mockImplementation((files, onAnalysis) => {
+          files.forEach((file) =>
+            onAnalysis({
+              filePath: file,
+              blobHash: 'hash',
+              analysis: {
+                generated: false,
+                lines: 1,
+                results: { 'mock:v1': 7 },
+              },
+            }),
+          );
+          return Promise.resolve();
+        });
+        const analyzer = new MockCacheableAnalyzer();
+        const cache = createCache({});
+        mockFiles(
+          Object.fromEntries(
+            Array.from({ length: 1000 }, (_, index) => [
+              `file${index}.ts`,
+              'content',
+            ]),
+          ),
+        );
+
+        const summary = await service.scanRepository(
+          '/test/repo',
+          [analyzer],
+          undefined,
+          { workers: 4, cache },
+        );
+
+        expect(MockedPool).toHaveBeenCalledWith([analyzer], 2);
+        expect(MockedPool.prototype.scan).not.toHaveBeenCalled();
+        expect(cache.setFileAnalysis).toHaveBeenCalledTimes(1000);
+        expect(analyzer.added).toHaveLength(1000);
+        expect(summary.scannedFiles).toBe(1000);
+      });
+
+      it('should not use the cache when an analyzer cannot be cached', async () => {
+        const cache = createCache({});
+        mockFiles({ 'app.ts': 'content' });
+
+        await service.scanRepository(
+          '/test/repo',
+          [new MockCacheableAnalyzer(), new MockAnalyzer()],
+          undefined,
+          { cache },
+        );
+
+        expect(cache.getFileAnalysis).not.toHaveBeenCalled();
+        expect(cache.setFileAnalysis).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should stop between batches when aborted', async () => {
+      const mockAnalyzer = new MockAnalyzer();
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
+      const abortController = new AbortController();
+
+      mockFs.readdir.mockResolvedValueOnce(
+        Array.from({ length: 100 }, (_, index) => ({
+          name: `file${index}.ts`,
+          isDirectory: () => false,
+          isFile: () => true,
+        })) as any,
+      );
+      mockFs.readFile.mockResolvedValue('content');
+
+      await expect(
+        service.scanRepository(
+          '/test/repo',
+          [mockAnalyzer],
+          (current) => {
+            if (current === 10) {
+              abortController.abort(new Error('Analysis cancelled'));
+            }
+          },
+          { workers: 0, signal: abortController.signal },
+        ),
+      ).rejects.toThrow('Analysis cancelled');
+      expect(mockAnalyzer.getFiles().length).toBeLessThan(100);
+    });
+
+    it('should leave out files with a generated header and report the exclusions', async () => {
+      const mockAnalyzer = new MockAnalyzer();
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
+
+      mockFs.readdir.mockResolvedValueOnce([
+        { name: 'api.pb.ts', isDirectory: () => false, isFile: () => true },
+        { name: 'app.ts', isDirectory: () => false, isFile: () => true },
+        { name: 'app.min.js', isDirectory: () => false, isFile: () => true },
+      ] as any);
+
+      mockFs.readFile
+        .mockResolvedValueOnce('// Code generated by protoc. DO NOT EDIT.\n')
+        .mockResolvedValueOnce('export const app = 1;');
+
+      const summary = await service.scanRepository(
+        '/test/repo',
+        [mockAnalyzer],
+        undefined,
+        { skip: ['*.min.js'] },
+      );
+
+      expect(mockAnalyzer.getFiles().map((file) => file.path)).toEqual([
+        path.join('/test/repo', 'app.ts'),
+      ]);
+      expect(summary).toEqual({
+        scannedFiles: 1,
+        exclusions: [
+          { reason: 'skip-pattern', files: 1, directories: 0 },
+          { reason: 'generated-header', files: 1, directories: 0 },
+        ],
+        languages: { TypeScript: { files: 1, lines: 1 } },
+      });
+    });
+
+    it('should count the scanned files and lines of each language', async () => {
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
+
+      mockFs.readdir.mockResolvedValueOnce([
+        { name: 'main.ts', isDirectory: () => false, isFile: () => true },
+        { name: 'util.ts', isDirectory: () => false, isFile: () => true },
+        { name: 'tool.py', isDirectory: () => false, isFile: () => true },
+      ] as any);
+
+      mockFs.readFile
+        .mockResolvedValueOnce('import { util } from "./util";\n\nutil();\n')
+        .mockResolvedValueOnce('export function util() {}\n')
+        .mockResolvedValueOnce('print("hi")');
+
+      const { languages } = await service.scanRepository('/test/repo', [
+        new MockAnalyzer(),
+      ]);
+
+      expect(languages).toEqual({
+        TypeScript: { files: 2, lines: 6 },
+        Python: { files: 1, lines: 1 },
+      });
+    });
+
+    it('should parse TypeScript files once and pass the structure to every analyzer', async () => {
+      const mockFs = fs.promises as jest.Mocked<typeof fs.promises>;
+
+      mockFs.readdir.mockResolvedValueOnce([
+        { name: 'main.ts', isDirectory: () => false, isFile: () => true },
+        { name: 'tool.py', isDirectory: () => false, isFile: () => true },
+      ] as any);
+
+      mockFs.readFile
+        .mockResolvedValueOnce('for (const x of xs) {} // loop\n')
+        .mockResolvedValueOnce('print("hi")');
+
+      const analyzers = [1, 2].map(() => ({
+        reset: jest.fn(),
+        getSupportedExtensions: () => ['.ts', '.py'],
+        analyzeFile: jest.fn<void, Parameters<FileAnalyzer['analyzeFile']>>(),
+      }));
+
+      await service.scanRepository('/test/repo', analyzers);
+
+      const [[, , , structure], [, , , pythonStructure]] =
+        analyzers[0].analyzeFile.mock.calls;
+      expect(structure).toMatchObject({ loops: 1, commentLines: 1 });
+      expect(analyzers[1].analyzeFile.mock.calls[0][3]).toBe(structure);
+      expect(pythonStructure).toBeUndefined();
+    });
   });
 });
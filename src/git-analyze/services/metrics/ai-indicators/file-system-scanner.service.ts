@@ -1,6 +1,31 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { FileScanSummary } from '../../../routes/dto/analyze-response.dto';
+import { FileScanCounts, FileScanWorkerPool } from './file-scan-worker-pool';
+import { LanguageUtils } from './language-utils';
+import {
+  GitignoreRules,
+  hasGeneratedHeader,
+  SourceFileFilter,
+} from './source-file-filter';
+import {
+  analyzeTypeScriptSource,
+  isTypeScriptSource,
+  TypeScriptSourceStructure,
+} from './typescript-source-analysis';
+
+/** Worker threads used when neither SCAN_WORKERS nor the scan options say otherwise; one core is left to the event loop */
+const DEFAULT_SCAN_WORKERS = Math.min(4, os.availableParallelism() - 1);
+
+/** Smaller scans do not make up for the start-up time of a worker */
+const MIN_FILES_PER_WORKER = 500;
+
+/** Files read concurrently when scanning on the main thread */
+const READ_BATCH_SIZE = 32;
 
 /**
  * Interface for file analyzers that process files during scanning
@@ -11,8 +36,14 @@ export interface FileAnalyzer {
    * @param filePath Absolute path to the file
    * @param content File content as string
    * @param extension File extension (e.g., '.ts', '.js')
+   * @param structure Syntax tree structure of TypeScript and JavaScript files, parsed once for all analyzers
    */
-  analyzeFile(filePath: string, content: string, extension: string): void;
+  analyzeFile(
+    filePath: string,
+    content: string,
+    extension: string,
+    structure?: TypeScriptSourceStructure,
+  ): void;
 
   /**
    * Resets the analyzer state before a new scan
@@ -26,8 +57,335 @@ export interface FileAnalyzer {
   getSupportedExtensions(): string[];
 }
 
+/**
+ * File analyzer that can also run in the scan worker threads. Each worker
+ * creates its own instance, so the class must be exported under its name
+ * from `modulePath` and take no constructor arguments; the partial results
+ * of the workers are then merged into the main-thread instance.
+ */
+export interface ParallelFileAnalyzer<P = unknown> extends FileAnalyzer {
+  /** Module exporting the analyzer class (usually `__filename`) */
+  readonly modulePath: string;
+
+  /**
+   * Gets the state accumulated since the last reset
+   * @returns Partial result that survives structured cloning
+   */
+  getPartialResult(): P;
+
+  /**
+   * Adds the partial result of another instance to this one
+   * @param partial Partial result of a worker
+   */
+  mergePartialResult(partial: P): void;
+}
+
+/**
+ * Checks whether an analyzer can run in the scan worker threads
+ * @param analyzer File analyzer
+ * @returns True if the analyzer implements ParallelFileAnalyzer
+ */
+export function isParallelFileAnalyzer(
+  analyzer: FileAnalyzer,
+): analyzer is ParallelFileAnalyzer {
+  return (
+    'modulePath' in analyzer &&
+    typeof (analyzer as ParallelFileAnalyzer).mergePartialResult === 'function'
+  );
+}
+
+/**
+ * File analyzer whose per-file results can be cached by content. The
+ * analysis is split in two: analyzeContent() depends on nothing but the
+ * content and extension, so its result can be stored under the content's
+ * blob hash and reused wherever that content appears again, while
+ * addFileResult() adds it to the analyzer's state under the file's current
+ * path. analyzeFile() must do the same as both in a row.
+ */
+export interface CacheableFileAnalyzer<R = unknown> extends FileAnalyzer {
+  /** Key of the analyzer's results in the cache; change it whenever the results change shape or meaning */
+  readonly cacheKey: string;
+
+  /**
+   * Analyzes the content of a file
+   * @param content File content as string
+   * @param extension File extension (e.g., '.ts', '.js')
+   * @param structure Syntax tree structure of TypeScript and JavaScript files, parsed once for all analyzers
+   * @returns Result that survives JSON serialization
+   */
+  analyzeContent(
+    content: string,
+    extension: string,
+    structure?: TypeScriptSourceStructure,
+  ): R;
+
+  /**
+   * Adds the result of a file's content to the analyzer state
+   * @param filePath Absolute path to the file
+   * @param extension File extension
+   * @param result Result of analyzeContent(), possibly from an earlier run
+   */
+  addFileResult(filePath: string, extension: string, result: R): void;
+}
+
+/**
+ * Checks whether the results of an analyzer can be cached
+ * @param analyzer File analyzer
+ * @returns True if the analyzer implements CacheableFileAnalyzer
+ */
+export function isCacheableFileAnalyzer(
+  analyzer: FileAnalyzer,
+): analyzer is CacheableFileAnalyzer {
+  return (
+    'cacheKey' in analyzer &&
+    typeof (analyzer as CacheableFileAnalyzer).addFileResult === 'function'
+  );
+}
+
+/**
+ * Analysis of a file content, as stored in the cache
+ */
+export interface FileContentAnalysis {
+  /** Left out because of a generated-file header */
+  generated: boolean;
+  lines: number;
+  /** Result of each analyzer supporting the file's extension, keyed by cache key */
+  results: Record<string, unknown>;
+}
+
+/**
+ * Analysis of a file read during a scan
+ */
+export interface FileAnalysisEntry {
+  filePath: string;
+  /** Hash git gives the content as a blob */
+  blobHash: string;
+  analysis: FileContentAnalysis;
+}
+
+/**
+ * Store of file content analyses keyed by blob hash. The extension is part
+ * of the key, since the same content is analyzed differently per language.
+ */
+export interface FileAnalysisCache {
+  /**
+   * @param blobHash Hash of the file content
+   * @param extension File extension
+   * @returns The cached analysis, or undefined when it was never stored
+   */
+  getFileAnalysis(
+    blobHash: string,
+    extension: string,
+  ): FileContentAnalysis | undefined;
+
+  /**
+   * @param blobHash Hash of the file content
+   * @param extension File extension
+   * @param analysis Analysis of the content
+   */
+  setFileAnalysis(
+    blobHash: string,
+    extension: string,
+    analysis: FileContentAnalysis,
+  ): void;
+}
+
+/**
+ * Hashes a file content the way git hashes blobs
+ * @param content File content
+ * @returns SHA-1 hex digest, equal to the blob hash in a SHA-1 repository
+ */
+export function getBlobHash(content: Buffer): string {
+  return createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+/**
+ * Runs the analyzers supporting a file's extension over its content, unless
+ * it has a generated-file header
+ * @param analyzers Cacheable file analyzers
+ * @param filePath Absolute path to the file
+ * @param content File content
+ * @returns Analysis of the content under its blob hash
+ */
+export function analyzeFileContent(
+  analyzers: CacheableFileAnalyzer[],
+  filePath: string,
+  content: Buffer,
+): FileAnalysisEntry {
+  const blobHash = getBlobHash(content);
+  const text = content.toString('utf-8');
+  if (hasGeneratedHeader(text)) {
+    return {
+      filePath,
+      blobHash,
+      analysis: { generated: true, lines: 0, results: {} },
+    };
+  }
+
+  const extension = path.extname(filePath);
+  const fileAnalyzers = analyzers.filter((analyzer) =>
+    analyzer.getSupportedExtensions().includes(extension),
+  );
+  const structure = parseSourceStructure(fileAnalyzers, text, extension);
+  return {
+    filePath,
+    blobHash,
+    analysis: {
+      generated: false,
+      lines: text.split('\n').length,
+      results: Object.fromEntries(
+        fileAnalyzers.map((analyzer) => [
+          analyzer.cacheKey,
+          analyzer.analyzeContent(text, extension, structure),
+        ]),
+      ),
+    },
+  };
+}
+
+/**
+ * Parses a TypeScript or JavaScript file once for the analyzers that read it
+ * @param analyzers Analyzers supporting the file's extension
+ * @param content File content
+ * @param extension File extension
+ * @returns Structure of the file, or undefined for other languages or without analyzers
+ */
+function parseSourceStructure(
+  analyzers: FileAnalyzer[],
+  content: string,
+  extension: string,
+): TypeScriptSourceStructure | undefined {
+  return analyzers.length > 0 && isTypeScriptSource(extension)
+    ? analyzeTypeScriptSource(content, extension)
+    : undefined;
+}
+
+/**
+ * Scanned files and their lines, keyed by language name
+ */
+export type LanguageFileCounts = Record<
+  string,
+  { files: number; lines: number }
+>;
+
+/**
+ * Adds language counts to others
+ * @param target Counts to add to
+ * @param counts Counts to add
+ */
+export function addLanguageCounts(
+  target: LanguageFileCounts,
+  counts: LanguageFileCounts,
+): void {
+  Object.entries(counts).forEach(([language, { files, lines }]) => {
+    const languageCounts = (target[language] ??= { files: 0, lines: 0 });
+    languageCounts.files += files;
+    languageCounts.lines += lines;
+  });
+}
+
+/**
+ * Passes a file to the analyzers that support its extension, unless it has
+ * a generated-file header
+ * @param analyzers File analyzers
+ * @param filePath Absolute path to the file
+ * @param content File content
+ * @param languages Counts of the scan, updated with the file when it is analyzed
+ * @returns False if the file was left out as generated
+ */
+export function analyzeSourceFile(
+  analyzers: FileAnalyzer[],
+  filePath: string,
+  content: string,
+  languages: LanguageFileCounts,
+): boolean {
+  if (hasGeneratedHeader(content)) {
+    return false;
+  }
+
+  const extension = path.extname(filePath);
+  const fileAnalyzers = analyzers.filter((analyzer) =>
+    analyzer.getSupportedExtensions().includes(extension),
+  );
+  const structure = parseSourceStructure(fileAnalyzers, content, extension);
+  fileAnalyzers.forEach((analyzer) =>
+    analyzer.analyzeFile(filePath, content, extension, structure),
+  );
+  addLanguageCounts(languages, {
+    [LanguageUtils.getLanguageName(extension)]: {
+      files: 1,
+      lines: content.split('\n').length,
+    },
+  });
+  return true;
+}
+
+/**
+ * Adds the analysis of a file's content to the analyzers and the scan counts
+ * @param analyzers Cacheable file analyzers
+ * @param filePath Absolute path to the file
+ * @param analysis Analysis of the file's content
+ * @param counts Counts of the scan
+ */
+export function addFileAnalysis(
+  analyzers: CacheableFileAnalyzer[],
+  filePath: string,
+  analysis: FileContentAnalysis,
+  counts: FileScanCounts,
+): void {
+  if (analysis.generated) {
+    counts.generatedFiles++;
+    return;
+  }
+
+  const extension = path.extname(filePath);
+  analyzers.forEach((analyzer) => {
+    if (analyzer.getSupportedExtensions().includes(extension)) {
+      analyzer.addFileResult(
+        filePath,
+        extension,
+        analysis.results[analyzer.cacheKey],
+      );
+    }
+  });
+  addLanguageCounts(counts.languages, {
+    [LanguageUtils.getLanguageName(extension)]: {
+      files: 1,
+      lines: analysis.lines,
+    },
+  });
+  counts.scannedFiles++;
+}
+
+/**
+ * Outcome of a file scan
+ */
+export interface FileScanResult extends FileScanSummary {
+  /** Scanned files and lines per language */
+  languages: LanguageFileCounts;
+}
+
+/**
+ * Per-scan settings on top of the built-in skip lists
+ */
+export interface FileScanOptions {
+  /** Glob patterns of paths to skip, relative to the repository root (patterns without a slash match file names anywhere) */
+  skip?: string[];
+  /** Worker threads to spread the analyzers over (default: SCAN_WORKERS; 0 scans on the main thread) */
+  workers?: number;
+  /** Reuses the analyses of file contents seen before and stores the new ones; ignored unless every analyzer is a CacheableFileAnalyzer */
+  cache?: FileAnalysisCache;
+  /** Stops the scan when aborted */
+  signal?: AbortSignal;
+}
+
 @Injectable()
 export class FileSystemScannerService {
+  private readonly workers: number;
+
   private readonly SKIP_DIRECTORIES = [
     'node_modules',
     '.git',
@@ -58,16 +416,34 @@ export class FileSystemScannerService {
   ];
 
   /**
-   * Scans repository and passes files to all registered analyzers
+   * @param configService Application configuration (absent in the CLI), read for fileScan.workers
+   */
+  constructor(@Optional() configService?: ConfigService) {
+    this.workers =
+      configService?.get<number>('fileScan.workers') ?? DEFAULT_SCAN_WORKERS;
+  }
+
+  /**
+   * Scans repository and passes files to all registered analyzers. Besides
+   * the built-in skip lists, paths matched by .gitignore files, linguist
+   * attributes in .gitattributes or the skip patterns are left out, as are
+   * files with a generated-file header. When every analyzer is a
+   * ParallelFileAnalyzer and the repository is large enough, the files are
+   * spread over a pool of worker threads; otherwise they are read
+   * asynchronously on the main thread. With a cache, only the files whose
+   * content has not been analyzed before are passed to the analyzers.
    * @param repoPath Path to the repository
    * @param analyzers Array of file analyzers to apply
    * @param onProgress Optional progress callback
+   * @param options Optional skip patterns, worker count, cache and abort signal
+   * @returns Number of scanned files, the exclusions by reason and the counts per language
    */
-  scanRepository(
+  async scanRepository(
     repoPath: string,
     analyzers: FileAnalyzer[],
     onProgress?: (current: number, total: number) => void,
-  ): void {
+    options: FileScanOptions = {},
+  ): Promise<FileScanResult> {
     // Reset all analyzers before scanning
     analyzers.forEach((analyzer) => analyzer.reset());
 
@@ -75,29 +451,240 @@ export class FileSystemScannerService {
     const supportedExtensions = this.getAllSupportedExtensions(analyzers);
 
     // Collect all files matching any analyzer's extensions
-    const files = this.getAllSourceFiles(repoPath, supportedExtensions);
+    const filter = new SourceFileFilter(repoPath, options.skip);
+    const files = await this.getAllSourceFiles(
+      repoPath,
+      supportedExtensions,
+      filter,
+    );
+    options.signal?.throwIfAborted();
 
-    // Process each file
-    files.forEach((file, index) => {
-      if (onProgress) {
-        onProgress(index + 1, files.length);
-      }
+    if (options.cache && analyzers.every(isCacheableFileAnalyzer)) {
+      const { scannedFiles, generatedFiles, languages } =
+        await this.scanWithCache(
+          files,
+          analyzers,
+          options.cache,
+          onProgress,
+          options,
+        );
+      filter.recordGeneratedHeaders(generatedFiles);
+      return { scannedFiles, exclusions: filter.getExclusions(), languages };
+    }
+
+    const workers = this.getWorkerCount(analyzers, files.length, options);
+    const { scannedFiles, generatedFiles, languages } =
+      workers > 0
+        ? await new FileScanWorkerPool(
+            analyzers.filter(isParallelFileAnalyzer),
+            workers,
+          ).scan(files, onProgress, options.signal)
+        : await this.scanOnMainThread(
+            files,
+            analyzers,
+            onProgress,
+            options.signal,
+          );
+
+    filter.recordGeneratedHeaders(generatedFiles);
+    return { scannedFiles, exclusions: filter.getExclusions(), languages };
+  }
+
+  /**
+   * Reads the files in small concurrent batches and feeds the analyzers
+   * between reads, so the event loop keeps running
+   * @param files Absolute file paths
+   * @param analyzers File analyzers to apply
+   * @param onProgress Optional progress callback
+   * @param signal Stops the scan between batches when aborted
+   * @returns Number of scanned files, of files left out as generated and the counts per language
+   */
+  private async scanOnMainThread(
+    files: string[],
+    analyzers: FileAnalyzer[],
+    onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal,
+  ): Promise<FileScanCounts> {
+    let scannedFiles = 0;
+    let generatedFiles = 0;
+    const languages: LanguageFileCounts = {};
+
+    for (let start = 0; start < files.length; start += READ_BATCH_SIZE) {
+      signal?.throwIfAborted();
+      const batch = files.slice(start, start + READ_BATCH_SIZE);
+      // Files that can't be read are silently skipped
+      const contents = await Promise.all(
+        batch.map((file) =>
+          fs.promises.readFile(file, 'utf-8').catch(() => undefined),
+        ),
+      );
+
+      batch.forEach((file, index) => {
+        onProgress?.(start + index + 1, files.length);
+        const content = contents[index];
+        if (content === undefined) {
+          return;
+        }
+        if (analyzeSourceFile(analyzers, file, content, languages)) {
+          scannedFiles++;
+        } else {
+          generatedFiles++;
+        }
+      });
+    }
+
+    return { scannedFiles, generatedFiles, languages };
+  }
+
+  /**
+   * Looks each file's content up in the cache and analyzes only the files
+   * missing from it, in worker threads when there are enough of them. The
+   * new analyses are added to the cache.
+   * @param files Absolute file paths
+   * @param analyzers Cacheable file analyzers to apply
+   * @param cache Analyses of earlier scans
+   * @param onProgress Optional progress callback
+   * @param options Scan options with the worker count and abort signal
+   * @returns Number of scanned files, of files left out as generated and the counts per language
+   */
+  private async scanWithCache(
+    files: string[],
+    analyzers: CacheableFileAnalyzer[],
+    cache: FileAnalysisCache,
+    onProgress: ((current: number, total: number) => void) | undefined,
+    options: FileScanOptions,
+  ): Promise<FileScanCounts> {
+    const counts: FileScanCounts = {
+      scannedFiles: 0,
+      generatedFiles: 0,
+      languages: {},
+    };
+    const missingFiles: string[] = [];
+    let doneFiles = 0;
+
+    for (let start = 0; start < files.length; start += READ_BATCH_SIZE) {
+      options.signal?.throwIfAborted();
+      const batch = files.slice(start, start + READ_BATCH_SIZE);
+      const contents = await Promise.all(
+        batch.map((file) => fs.promises.readFile(file).catch(() => undefined)),
+      );
+
+      batch.forEach((file, index) => {
+        const content = contents[index];
+        // Files that can't be read are silently skipped
+        if (content === undefined) {
+          onProgress?.(++doneFiles, files.length);
+          return;
+        }
 
-      try {
-        const content = fs.readFileSync(file, 'utf-8');
         const extension = path.extname(file);
+        const analysis = cache.getFileAnalysis(getBlobHash(content), extension);
+        if (
+          !analysis ||
+          !this.coversAnalyzers(analysis, analyzers, extension)
+        ) {
+          missingFiles.push(file);
+          return;
+        }
+        addFileAnalysis(analyzers, file, analysis, counts);
+        onProgress?.(++doneFiles, files.length);
+      });
+    }
 
-        // Pass file to all analyzers that support this extension
-        analyzers.forEach((analyzer) => {
-          if (analyzer.getSupportedExtensions().includes(extension)) {
-            analyzer.analyzeFile(file, content, extension);
+    // Missing files are read again rather than held in memory meanwhile
+    const onAnalysis = ({
+      filePath,
+      blobHash,
+      analysis,
+    }: FileAnalysisEntry) => {
+      cache.setFileAnalysis(blobHash, path.extname(filePath), analysis);
+      addFileAnalysis(analyzers, filePath, analysis, counts);
+    };
+    const onMissingProgress = (current: number) =>
+      onProgress?.(doneFiles + current, files.length);
+
+    const workers = this.getWorkerCount(
+      analyzers,
+      missingFiles.length,
+      options,
+    );
+    if (workers > 0) {
+      // Workers are only used when every analyzer can run in them
+      await new FileScanWorkerPool(
+        analyzers as Array<CacheableFileAnalyzer & ParallelFileAnalyzer>,
+        workers,
+      ).analyze(missingFiles, onAnalysis, onMissingProgress, options.signal);
+    } else {
+      for (
+        let start = 0;
+        start < missingFiles.length;
+        start += READ_BATCH_SIZE
+      ) {
+        options.signal?.throwIfAborted();
+        const batch = missingFiles.slice(start, start + READ_BATCH_SIZE);
+        const contents = await Promise.all(
+          batch.map((file) =>
+            fs.promises.readFile(file).catch(() => undefined),
+          ),
+        );
+
+        batch.forEach((file, index) => {
+          const content = contents[index];
+          if (content !== undefined) {
+            onAnalysis(analyzeFileContent(analyzers, file, content));
           }
+          onMissingProgress(start + index + 1);
         });
-      } catch {
-        // Silently skip files that can't be read
-        // This matches the existing behavior in CodeCommentAnalysisService
       }
-    });
+    }
+
+    return counts;
+  }
+
+  /**
+   * Checks whether a cached analysis holds a result for every analyzer
+   * supporting the file, since earlier scans may have run fewer analyzers
+   * @param analysis Cached analysis
+   * @param analyzers Cacheable file analyzers of this scan
+   * @param extension File extension
+   * @returns True if the analysis can be used as is
+   */
+  private coversAnalyzers(
+    analysis: FileContentAnalysis,
+    analyzers: CacheableFileAnalyzer[],
+    extension: string,
+  ): boolean {
+    return (
+      analysis.generated ||
+      analyzers.every(
+        (analyzer) =>
+          !analyzer.getSupportedExtensions().includes(extension) ||
+          analyzer.cacheKey in analysis.results,
+      )
+    );
+  }
+
+  /**
+   * Decides how many worker threads a scan uses
+   * @param analyzers File analyzers to apply
+   * @param fileCount Number of files to scan
+   * @param options Scan options, possibly overriding the configured worker count
+   * @returns Worker count, 0 to scan on the main thread
+   */
+  private getWorkerCount(
+    analyzers: FileAnalyzer[],
+    fileCount: number,
+    options: FileScanOptions,
+  ): number {
+    if (!analyzers.every(isParallelFileAnalyzer)) {
+      return 0;
+    }
+
+    const workers = options.workers ?? this.workers;
+    return Math.max(
+      0,
+      Math.min(workers, Math.floor(fileCount / MIN_FILES_PER_WORKER)),
+    );
   }
 
   /**
@@ -117,41 +704,66 @@ export class FileSystemScannerService {
    * Recursively collects all source files from directory tree
    * @param rootPath Root directory path
    * @param supportedExtensions Array of file extensions to include
+   * @param filter Exclusion rules of the scan, which also count the excluded paths
    * @returns Array of file paths
    */
-  private getAllSourceFiles(
+  private async getAllSourceFiles(
     rootPath: string,
     supportedExtensions: string[],
-  ): string[] {
-    const collectFiles = (dirPath: string): string[] => {
+    filter: SourceFileFilter,
+  ): Promise<string[]> {
+    const collectFiles = async (
+      dirPath: string,
+      relativeDir: string,
+      parentRules: GitignoreRules[],
+    ): Promise<string[]> => {
       try {
-        const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+        const entries = await fs.promises.readdir(dirPath, {
+          withFileTypes: true,
+        });
+        const gitignoreRules = filter.withGitignore(
+          parentRules,
+          dirPath,
+          relativeDir,
+          entries,
+        );
 
-        return entries.flatMap((entry): string[] => {
+        const files: string[] = [];
+        const subdirectories: Promise<string[]>[] = [];
+        entries.forEach((entry) => {
           const fullPath = path.join(dirPath, entry.name);
+          const relativePath = relativeDir + entry.name;
 
+          // Directories get a trailing slash, so "fixtures/**" and "build/" prune the whole tree
           if (entry.isDirectory()) {
-            return this.shouldSkipDirectory(entry.name)
-              ? []
-              : collectFiles(fullPath);
-          }
-
-          if (entry.isFile()) {
+            if (
+              !this.shouldSkipDirectory(entry.name) &&
+              !filter.excludes(`${relativePath}/`, gitignoreRules)
+            ) {
+              subdirectories.push(
+                collectFiles(fullPath, `${relativePath}/`, gitignoreRules),
+              );
+            }
+          } else if (entry.isFile()) {
             const ext = path.extname(entry.name);
-            return supportedExtensions.includes(ext) &&
-              !this.shouldSkipFile(entry.name)
-              ? [fullPath]
-              : [];
+            if (
+              supportedExtensions.includes(ext) &&
+              !this.shouldSkipFile(entry.name) &&
+              !filter.excludes(relativePath, gitignoreRules)
+            ) {
+              files.push(fullPath);
+            }
           }
-
-          return [];
         });
+
+        // Subdirectories are read concurrently
+        return [...files, ...(await Promise.all(subdirectories)).flat()];
       } catch {
         return [];
       }
     };
 
-    return collectFiles(rootPath);
+    return collectFiles(rootPath, '', []);
   }
 
   /**
@@ -0,0 +1,256 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GitSignaturesService } from './git-signatures.service';
+import { CommitInfo } from '../../git.service';
+
+/**
+ * Builds a commit with the given author, subject and body
+ */
+const buildCommit = (
+  email: string,
+  message: string,
+  body = '',
+): CommitInfo => ({
+  hash: `hash-${message}`,
+  author: email.split('@')[0],
+  email,
+  date: new Date('2024-01-01'),
+  message,
+  body,
+  filesChanged: 1,
+  insertions: 10,
+  deletions: 0,
+  files: ['file.ts'],
+});
+
+describe('GitSignaturesService', () => {
+  let service: GitSignaturesService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [GitSignaturesService],
+    }).compile();
+
+    service = module.get<GitSignaturesService>(GitSignaturesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('analyzeToolSignatures', () => {
+    it('should return empty results for empty commits', () => {
+      expect(service.analyzeToolSignatures([])).toEqual({
+        commitPercentage: 0,
+        authorPercentage: 0,
+        tools: [],
+      });
+    });
+
+    it('should report the share of signed commits and authors', () => {
+      const commits = [
+        buildCommit(
+          'alice@example.com',
+          'feat: add login',
+          'Co-authored-by: Copilot <175728472+Copilot@users.noreply.github.com>',
+        ),
+        buildCommit('alice@example.com', 'fix: typo'),
+        buildCommit('bob@example.com', 'docs: update readme'),
+        buildCommit(
+          'alice@example.com',
+          'refactor: split module',
+          'Generated with [Claude Code](https://claude.ai/code)\n\nCo-Authored-By: Claude <noreply@anthropic.com>',
+        ),
+      ];
+
+      const result = service.analyzeToolSignatures(commits);
+
+      expect(result.commitPercentage).toBe(50);
+      expect(result.authorPercentage).toBe(50);
+      expect(result.tools).toEqual([
+        { tool: 'Claude', commits: 1, authors: 1 },
+        { tool: 'GitHub Copilot', commits: 1, authors: 1 },
+      ]);
+    });
+
+    it('should sort detected tools by commit count', () => {
+      const commits = [
+        buildCommit(
+          'a@example.com',
+          'one',
+          'Co-authored-by: Cursor Agent <cursoragent@cursor.com>',
+        ),
+        buildCommit(
+          'b@example.com',
+          'two',
+          'Co-authored-by: Cursor Agent <cursoragent@cursor.com>',
+        ),
+        buildCommit(
+          'a@example.com',
+          'three',
+          'Co-authored-by: aider (gpt-4o) <noreply@aider.chat>',
+        ),
+      ];
+
+      const result = service.analyzeToolSignatures(commits);
+
+      expect(result.tools).toEqual([
+        { tool: 'Cursor', commits: 2, authors: 2 },
+        { tool: 'Aider', commits: 1, authors: 1 },
+      ]);
+      expect(result.commitPercentage).toBe(100);
+    });
+
+    it('should accept a custom signature catalogue', () => {
+      const commits = [
+        buildCommit(
+          'a@example.com',
+          'feat: x',
+          'Co-authored-by: Tabnine <bot@tabnine.com>',
+        ),
+      ];
+
+      expect(service.analyzeToolSignatures(commits).tools).toEqual([]);
+      expect(
+        service.analyzeToolSignatures(commits, [
+          { tool: 'Tabnine', account: /<bot@tabnine\.com>/i },
+        ]).tools,
+      ).toEqual([{ tool: 'Tabnine', commits: 1, authors: 1 }]);
+    });
+  });
+
+  describe('detectTools', () => {
+    it('should ignore human co-authors', () => {
+      const commit = buildCommit(
+        'a@example.com',
+        'feat: pair programming',
+        'Co-authored-by: Jane Doe <jane@example.com>',
+      );
+
+      expect(service.detectTools(commit)).toEqual([]);
+    });
+
+    it('should not mistake humans named like a tool for the tool', () => {
+      const commit = buildCommit(
+        'a@example.com',
+        'feat: pair programming',
+        [
+          'Co-authored-by: Claude Dupont <claude.dupont@acme.fr>',
+          'Co-authored-by: Devin Smith <devin@acme.com>',
+          'Co-authored-by: Gemini Park <gemini@acme.com>',
+          'Co-authored-by: Cursor Lee <cursor@acme.com>',
+        ].join('\n'),
+      );
+
+      expect(service.detectTools(commit)).toEqual([]);
+      expect(
+        service.detectTools({
+          ...commit,
+          author: 'Devin Smith',
+          email: 'devin@acme.com',
+          body: '',
+        }),
+      ).toEqual([]);
+    });
+
+    it('should detect tools by their Co-authored-by identities', () => {
+      const commit = buildCommit(
+        'a@example.com',
+        'feat: add retry logic',
+        [
+          'Co-authored-by: Claude <noreply@anthropic.com>',
+          'Co-authored-by: Cursor Agent <cursoragent@cursor.com>',
+          'Co-authored-by: devin-ai-integration[bot] <158243242+devin-ai-integration[bot]@users.noreply.github.com>',
+        ].join('\n'),
+      );
+
+      expect(service.detectTools(commit)).toEqual([
+        'Claude',
+        'Cursor',
+        'Devin',
+      ]);
+    });
+
+    it('should detect agents committing under their own account', () => {
+      expect(
+        service.detectTools({
+          ...buildCommit(
+            '198982749+Copilot@users.noreply.github.com',
+            'Fix login',
+          ),
+          author: 'copilot-swe-agent[bot]',
+        }),
+      ).toEqual(['GitHub Copilot']);
+      expect(
+        service.detectTools({
+          ...buildCommit(
+            '158243242+devin-ai-integration[bot]@users.noreply.github.com',
+            'Add tests',
+          ),
+          author: 'devin-ai-integration[bot]',
+        }),
+      ).toEqual(['Devin']);
+      expect(
+        service.detectTools({
+          ...buildCommit('jane@example.com', 'Add retry logic'),
+          author: 'Jane Doe (aider)',
+        }),
+      ).toEqual(['Aider']);
+    });
+
+    it('should only match tool names in Co-authored-by trailers', () => {
+      const commit = buildCommit(
+        'a@example.com',
+        'docs: compare Copilot and Cursor',
+      );
+
+      expect(service.detectTools(commit)).toEqual([]);
+    });
+
+    it('should detect generated-with footers', () => {
+      const commit = buildCommit(
+        'a@example.com',
+        'chore: bump deps',
+        'Generated with Cursor',
+      );
+
+      expect(service.detectTools(commit)).toEqual(['Cursor']);
+    });
+
+    it('should detect tool prefixes in the subject', () => {
+      const commit = buildCommit('a@example.com', 'aider: add retry logic');
+
+      expect(service.detectTools(commit)).toEqual(['Aider']);
+    });
+
+    it('should detect agent branch names in merge commits', () => {
+      expect(
+        service.detectTools(
+          buildCommit(
+            'a@example.com',
+            'Merge pull request #42 from acme/copilot/fix-login',
+          ),
+        ),
+      ).toEqual(['GitHub Copilot']);
+      expect(
+        service.detectTools(
+          buildCommit(
+            'a@example.com',
+            "Merge remote-tracking branch 'origin/codex/add-tests'",
+          ),
+        ),
+      ).toEqual(['OpenAI Codex']);
+      expect(
+        service.detectTools(
+          buildCommit('a@example.com', "Merge branch 'feature/copilot-docs'"),
+        ),
+      ).toEqual([]);
+    });
+
+    it('should handle commits without a body', () => {
+      const commit = buildCommit('a@example.com', 'fix: bug');
+      delete commit.body;
+
+      expect(service.detectTools(commit)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import {
+  AIToolDetection,
+  AIToolSignatureAnalysis,
+} from '../../../routes/dto/analyze-response.dto';
+import {
+  AI_TOOL_SIGNATURES,
+  AIToolSignature,
+} from '../ai-tool-signatures.constants';
+
+@Injectable()
+export class GitSignaturesService {
+  private readonly CO_AUTHOR_TRAILER = /^co-authored-by:\s*(.+)$/i;
+
+  // "Merge branch 'x'", "Merge remote-tracking branch 'origin/x'" and "Merge pull request #1 from owner/x"
+  private readonly MERGE_BRANCH_PATTERNS = [
+    /^merge (?:remote-tracking )?branch '([^']+)'/i,
+    /^merge pull request #\d+ from [^/\s]+\/(\S+)/i,
+  ];
+
+  /**
+   * Analyzes commits for signatures left by known AI coding tools
+   * (agent authors, Co-authored-by trailers, "Generated with" footers and
+   * agent branch names)
+   * @param commits Array of commit information
+   * @param signatures Tool signatures to look for (default: AI_TOOL_SIGNATURES)
+   * @returns Share of commits and authors with a signature, and the detected tools
+   */
+  analyzeToolSignatures(
+    commits: CommitInfo[],
+    signatures: AIToolSignature[] = AI_TOOL_SIGNATURES,
+  ): AIToolSignatureAnalysis {
+    if (commits.length === 0) {
+      return { commitPercentage: 0, authorPercentage: 0, tools: [] };
+    }
+
+    const allAuthors = new Set<string>();
+    const signedAuthors = new Set<string>();
+    const toolStats = new Map<
+      string,
+      { commits: number; authors: Set<string> }
+    >();
+    let signedCommits = 0;
+
+    commits.forEach((commit) => {
+      allAuthors.add(commit.email);
+
+      const tools = this.detectTools(commit, signatures);
+      if (tools.length === 0) {
+        return;
+      }
+
+      signedCommits++;
+      signedAuthors.add(commit.email);
+      tools.forEach((tool) => {
+        const stats = toolStats.get(tool) ?? { commits: 0, authors: new Set() };
+        stats.commits++;
+        stats.authors.add(commit.email);
+        toolStats.set(tool, stats);
+      });
+    });
+
+    const tools: AIToolDetection[] = [...toolStats.entries()]
+      .map(([tool, stats]) => ({
+        tool,
+        commits: stats.commits,
+        authors: stats.authors.size,
+      }))
+      .sort((a, b) => b.commits - a.commits || a.tool.localeCompare(b.tool));
+
+    return {
+      commitPercentage: this.toPercentage(signedCommits, commits.length),
+      authorPercentage: this.toPercentage(signedAuthors.size, allAuthors.size),
+      tools,
+    };
+  }
+
+  /**
+   * Detects which AI tools authored or signed a single commit
+   * @param commit Commit information
+   * @param signatures Tool signatures to look for (default: AI_TOOL_SIGNATURES)
+   * @returns Names of the detected tools, in catalogue order
+   */
+  detectTools(
+    commit: CommitInfo,
+    signatures: AIToolSignature[] = AI_TOOL_SIGNATURES,
+  ): string[] {
+    const lines = [commit.message, ...(commit.body ?? '').split('\n')].map(
+      (line) => line.trim(),
+    );
+    const accounts = [
+      `${commit.author} <${commit.email}>`,
+      ...lines
+        .map((line) => line.match(this.CO_AUTHOR_TRAILER)?.[1])
+        .filter((coAuthor): coAuthor is string => Boolean(coAuthor)),
+    ];
+    const branch = this.extractMergedBranch(commit.message);
+
+    return signatures
+      .filter(
+        ({ account, footer, branch: branchPattern }) =>
+          (account && accounts.some((identity) => account.test(identity))) ||
+          (footer && lines.some((line) => footer.test(line))) ||
+          (branchPattern && branch && branchPattern.test(branch)),
+      )
+      .map(({ tool }) => tool);
+  }
+
+  /**
+   * Extracts the merged branch name from a merge commit subject
+   * @param subject Commit subject
+   * @returns Branch name without the remote prefix, or undefined for other commits
+   */
+  private extractMergedBranch(subject: string): string | undefined {
+    for (const pattern of this.MERGE_BRANCH_PATTERNS) {
+      const match = subject.match(pattern);
+      if (match) {
+        return match[1].replace(/^origin\//, '');
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Converts a count to a percentage rounded to 2 decimal places
+   */
+  private toPercentage(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 100 * 100) / 100 : 0;
+  }
+}
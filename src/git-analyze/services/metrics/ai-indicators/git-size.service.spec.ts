@@ -285,6 +285,34 @@ describe('GitSizeService', () => {
     });
   });
 
+  describe('findLargeCommits', () => {
+    it('should return the large commits with their size', () => {
+      const commit = (hash: string, insertions: number) => ({
+        hash,
+        author: 'Author 1',
+        email: 'author1@example.com',
+        date: new Date('2024-01-01'),
+        message: 'Commit',
+        filesChanged: 1,
+        insertions,
+        deletions: 5,
+        files: ['file.ts'],
+      });
+      const commits = [
+        ...Array.from({ length: 10 }, (_, i) => commit(`small${i}`, 5)),
+        commit('large', 600),
+      ];
+
+      expect(service.findLargeCommits(commits)).toEqual([
+        { commit: commits[10], lines: 605 },
+      ]);
+    });
+
+    it('should return no commits for an empty history', () => {
+      expect(service.findLargeCommits([])).toEqual([]);
+    });
+  });
+
   describe('analyzeFirstCommit', () => {
     it('should return 0 for empty commits', () => {
       const result = (service as any).analyzeFirstCommit([]);
@@ -1,14 +1,21 @@
 import { Injectable } from '@nestjs/common';
 import { CommitInfo } from '../../git.service';
+import { FirstCommitAnalysis } from '../../../routes/dto/analyze-response.dto';
 import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
 
+/**
+ * Commit flagged as large, with its size
+ */
+export interface LargeCommit {
+  commit: CommitInfo;
+  /** Lines changed (insertions + deletions) */
+  lines: number;
+}
+
 export interface GitSizeMetrics {
   avgLinesPerCommit: number;
   largeCommitPercentage: number;
-  firstCommitAnalysis: {
-    lines: number;
-    isSuspicious: boolean;
-  };
+  firstCommitAnalysis: FirstCommitAnalysis;
   avgFilesPerCommit: number;
 }
 
@@ -20,29 +27,35 @@ export class GitSizeService {
    * @returns Git size metrics object
    */
   calculateSizeMetrics(commits: CommitInfo[]): GitSizeMetrics {
-    const sortedCommits = [...commits].sort(
-      (a, b) => a.date.getTime() - b.date.getTime(),
-    );
-
-    const firstCommitAnalysis = this.analyzeFirstCommit(sortedCommits);
-
     return {
       avgLinesPerCommit: this.calculateAvgLinesPerCommit(commits),
       largeCommitPercentage: this.calculateLargeCommitPercentage(commits),
-      firstCommitAnalysis: {
-        lines: firstCommitAnalysis.firstCommitLines,
-        isSuspicious: firstCommitAnalysis.isSuspiciouslyLarge,
-      },
+      firstCommitAnalysis: this.calculateFirstCommitAnalysis(commits),
       avgFilesPerCommit: this.calculateAvgFilesPerCommit(commits),
     };
   }
 
+  /**
+   * Finds the chronologically first commit and checks whether it is suspiciously large
+   * @param commits Array of commit information (any order)
+   * @returns First commit size and whether it's suspicious
+   */
+  calculateFirstCommitAnalysis(commits: CommitInfo[]): FirstCommitAnalysis {
+    const sortedCommits = [...commits].sort(
+      (a, b) => a.date.getTime() - b.date.getTime(),
+    );
+    const { firstCommitLines, isSuspiciouslyLarge } =
+      this.analyzeFirstCommit(sortedCommits);
+
+    return { lines: firstCommitLines, isSuspicious: isSuspiciouslyLarge };
+  }
+
   /**
    * Calculates average lines changed per commit
    * @param commits Array of commit information
    * @returns Average lines changed (insertions + deletions)
    */
-  private calculateAvgLinesPerCommit(commits: CommitInfo[]): number {
+  calculateAvgLinesPerCommit(commits: CommitInfo[]): number {
     if (commits.length === 0) {
       return 0;
     }
@@ -60,30 +73,42 @@ export class GitSizeService {
    * @param commits Array of commit information
    * @returns Percentage of commits that are significantly larger than average
    */
-  private calculateLargeCommitPercentage(commits: CommitInfo[]): number {
+  calculateLargeCommitPercentage(commits: CommitInfo[]): number {
     if (commits.length === 0) {
       return 0;
     }
 
+    const largeCommits = this.findLargeCommits(commits);
+
+    return Math.round((largeCommits.length / commits.length) * 10000) / 100;
+  }
+
+  /**
+   * Finds the large commits (outliers)
+   * @param commits Array of commit information
+   * @returns Commits significantly larger than average, in the given order
+   */
+  findLargeCommits(commits: CommitInfo[]): LargeCommit[] {
     const commitSizes = commits.map(
       (commit) => commit.insertions + commit.deletions,
     );
     const { mean, standardDeviation } =
       this.calculateMeanAndStdDev(commitSizes);
 
-    // Count commits that are either:
+    // Keep commits that are either:
     // 1. More than N standard deviations above the mean, OR
     // 2. Above the absolute threshold
-    const largeCommits = commitSizes.filter((lines) => {
-      return (
-        lines >
-          mean +
-            METRIC_THRESHOLDS.LARGE_COMMIT_STD_DEV_MULTIPLIER *
-              standardDeviation || lines > METRIC_THRESHOLDS.LARGE_COMMIT_LINES
-      );
-    });
-
-    return Math.round((largeCommits.length / commits.length) * 10000) / 100;
+    return commits
+      .map((commit, index) => ({ commit, lines: commitSizes[index] }))
+      .filter(({ lines }) => {
+        return (
+          lines >
+            mean +
+              METRIC_THRESHOLDS.LARGE_COMMIT_STD_DEV_MULTIPLIER *
+                standardDeviation ||
+          lines > METRIC_THRESHOLDS.LARGE_COMMIT_LINES
+        );
+      });
   }
 
   /**
@@ -157,7 +182,7 @@ export class GitSizeService {
    * @param commits Array of commit information
    * @returns Average files per commit
    */
-  private calculateAvgFilesPerCommit(commits: CommitInfo[]): number {
+  calculateAvgFilesPerCommit(commits: CommitInfo[]): number {
     if (commits.length === 0) {
       return 0;
     }
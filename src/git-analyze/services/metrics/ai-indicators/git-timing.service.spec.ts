@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { GitTimingService } from './git-timing.service';
+import { CommitInfo } from '../../git.service';
 import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
 
 describe('GitTimingService', () => {
@@ -214,4 +215,126 @@ describe('GitTimingService', () => {
       expect(result).toBe(100);
     });
   });
+
+  describe('analyzeTypingSpeed', () => {
+    /** Builds a commit of an author adding lines at a given time */
+    const commit = (
+      hash: string,
+      email: string,
+      date: string,
+      insertions: number,
+      parents = ['parent'],
+    ): CommitInfo => ({
+      hash,
+      parents,
+      author: email.split('@')[0],
+      email,
+      date: new Date(date),
+      message: `Commit ${hash}`,
+      filesChanged: 1,
+      insertions,
+      deletions: 0,
+      files: [`${hash}.ts`],
+    });
+
+    it('should return no timed commits for empty commits', () => {
+      expect(service.analyzeTypingSpeed([])).toEqual({
+        fastCommitPercentage: 0,
+        measuredCommits: 0,
+        fastestCommits: [],
+      });
+    });
+
+    it('should time each commit against the previous commit of its author', () => {
+      const commits = [
+        commit('a1', 'alice@example.com', '2024-01-01T10:00:00Z', 40),
+        // Bob's commit in between does not reset Alice's clock
+        commit('b1', 'bob@example.com', '2024-01-01T10:02:00Z', 10),
+        commit('a2', 'alice@example.com', '2024-01-01T10:04:00Z', 800),
+        commit('b2', 'bob@example.com', '2024-01-01T10:32:00Z', 90),
+        commit('a3', 'alice@example.com', '2024-01-01T10:34:00Z', 600),
+      ];
+
+      expect(service.analyzeTypingSpeed(commits)).toEqual({
+        // a2 (200 lines/min) and a3 (20 lines/min, not beyond the rate) for Alice, b2 (3 lines/min) for Bob
+        fastCommitPercentage: 33.33,
+        measuredCommits: 3,
+        fastestCommits: [
+          {
+            hash: 'a2',
+            author: 'alice',
+            insertions: 800,
+            minutes: 4,
+            linesPerMinute: 200,
+          },
+        ],
+      });
+    });
+
+    it(`should ignore gaps over ${METRIC_THRESHOLDS.TYPING_SPEED_MAX_GAP_MINUTES} minutes and merge commits`, () => {
+      const commits = [
+        commit('a1', 'alice@example.com', '2024-01-01T08:00:00Z', 40),
+        commit('a2', 'alice@example.com', '2024-01-01T12:00:00Z', 900),
+        commit('m1', 'alice@example.com', '2024-01-01T12:01:00Z', 2000, [
+          'a2',
+          'b1',
+        ]),
+      ];
+
+      expect(service.analyzeTypingSpeed(commits)).toEqual({
+        fastCommitPercentage: 0,
+        measuredCommits: 0,
+        fastestCommits: [],
+      });
+    });
+
+    it(`should only flag commits of at least ${METRIC_THRESHOLDS.TYPING_SPEED_MIN_LINES} lines`, () => {
+      const commits = [
+        commit('a1', 'alice@example.com', '2024-01-01T10:00:00Z', 40),
+        // Same second: counts as one minute
+        commit('a2', 'alice@example.com', '2024-01-01T10:00:00Z', 45),
+        commit('a3', 'alice@example.com', '2024-01-01T10:00:30Z', 300),
+      ];
+
+      const result = service.analyzeTypingSpeed(commits);
+      expect(result.fastCommitPercentage).toBe(50);
+      expect(result.fastestCommits).toEqual([
+        expect.objectContaining({
+          hash: 'a3',
+          minutes: 1,
+          linesPerMinute: 300,
+        }),
+      ]);
+    });
+  });
+
+  describe('findFastCommits', () => {
+    it('should list every fast commit, fastest first', () => {
+      const commits = Array.from({ length: 8 }, (_, index) => ({
+        hash: `hash${index}`,
+        author: 'Author 1',
+        email: 'author1@example.com',
+        date: new Date(Date.UTC(2024, 0, 1, 10, index * 10)),
+        message: `Commit ${index}`,
+        filesChanged: 1,
+        insertions: 100 + index * 100,
+        deletions: 0,
+        files: ['file.ts'],
+      }));
+
+      const fastCommits = service.findFastCommits(commits);
+      expect(fastCommits.map(({ commit }) => commit.hash)).toEqual([
+        'hash7',
+        'hash6',
+        'hash5',
+        'hash4',
+        'hash3',
+        'hash2',
+      ]);
+      expect(fastCommits[0].linesPerMinute).toBe(80);
+      expect(service.analyzeTypingSpeed(commits).fastestCommits).toHaveLength(
+        METRIC_THRESHOLDS.TYPING_SPEED_REPORTED_COMMITS,
+      );
+    });
+  });
 });
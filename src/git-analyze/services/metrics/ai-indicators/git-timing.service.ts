@@ -1,7 +1,19 @@
 import { Injectable } from '@nestjs/common';
 import { CommitInfo } from '../../git.service';
+import { TypingSpeedAnalysis } from '../../../routes/dto/analyze-response.dto';
 import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
 
+/**
+ * Commit timed against its author's previous commit
+ */
+export interface CommitTypingSpeed {
+  commit: CommitInfo;
+  /** Minutes since the author's previous commit */
+  minutes: number;
+  /** Lines added per minute */
+  linesPerMinute: number;
+}
+
 @Injectable()
 export class GitTimingService {
   private readonly BURST_WINDOW_MS =
@@ -33,4 +45,103 @@ export class GitTimingService {
     const percentage = (burstyCommits / (commits.length - 1)) * 100;
     return Math.round(percentage * 100) / 100;
   }
+
+  /**
+   * Analyzes how fast authors add lines between their commits
+   * @param commits Array of commit information (any order)
+   * @returns Share of the timed commits added faster than a plausible human rate, with the fastest ones
+   */
+  analyzeTypingSpeed(commits: CommitInfo[]): TypingSpeedAnalysis {
+    const measured = this.measureTypingSpeed(commits);
+    const fastCommits = this.filterFastCommits(measured);
+    const percentage =
+      measured.length > 0 ? (fastCommits.length / measured.length) * 100 : 0;
+
+    return {
+      fastCommitPercentage: Math.round(percentage * 100) / 100,
+      measuredCommits: measured.length,
+      fastestCommits: fastCommits
+        .slice(0, METRIC_THRESHOLDS.TYPING_SPEED_REPORTED_COMMITS)
+        .map(({ commit, minutes, linesPerMinute }) => ({
+          hash: commit.hash,
+          author: commit.author,
+          insertions: commit.insertions,
+          minutes,
+          linesPerMinute,
+        })),
+    };
+  }
+
+  /**
+   * Finds the commits added faster than a plausible human rate
+   * @param commits Array of commit information (any order)
+   * @returns Fast commits with their speed, fastest first
+   */
+  findFastCommits(commits: CommitInfo[]): CommitTypingSpeed[] {
+    return this.filterFastCommits(this.measureTypingSpeed(commits));
+  }
+
+  /**
+   * Times each commit against the previous commit of the same author.
+   * Merge commits are left out, and so are commits following a gap longer
+   * than TYPING_SPEED_MAX_GAP_MINUTES, whose writing time is unknown.
+   * @param commits Array of commit information (any order)
+   * @returns Timed commits
+   */
+  private measureTypingSpeed(commits: CommitInfo[]): CommitTypingSpeed[] {
+    const commitsByAuthor = new Map<string, CommitInfo[]>();
+    commits
+      .filter((commit) => (commit.parents?.length ?? 0) <= 1)
+      .forEach((commit) => {
+        const key = commit.email.toLowerCase();
+        const authorCommits = commitsByAuthor.get(key);
+        if (authorCommits) {
+          authorCommits.push(commit);
+        } else {
+          commitsByAuthor.set(key, [commit]);
+        }
+      });
+
+    return [...commitsByAuthor.values()].flatMap((authorCommits) => {
+      const sortedCommits = [...authorCommits].sort(
+        (a, b) => a.date.getTime() - b.date.getTime(),
+      );
+
+      return sortedCommits.slice(1).flatMap((commit, index) => {
+        const gapMinutes =
+          (commit.date.getTime() - sortedCommits[index].date.getTime()) / 60000;
+        if (gapMinutes > METRIC_THRESHOLDS.TYPING_SPEED_MAX_GAP_MINUTES) {
+          return [];
+        }
+
+        // Commits within the same minute count as one minute apart, so rates stay finite
+        const minutes = Math.max(1, Math.round(gapMinutes * 100) / 100);
+        return [
+          {
+            commit,
+            minutes,
+            linesPerMinute:
+              Math.round((commit.insertions / minutes) * 100) / 100,
+          },
+        ];
+      });
+    });
+  }
+
+  /**
+   * Keeps the timed commits beyond the human rate, fastest first
+   * @param measured Timed commits
+   * @returns Fast commits
+   */
+  private filterFastCommits(
+    measured: CommitTypingSpeed[],
+  ): CommitTypingSpeed[] {
+    return measured
+      .filter(
+        ({ commit, linesPerMinute }) =>
+          commit.insertions >= METRIC_THRESHOLDS.TYPING_SPEED_MIN_LINES &&
+          linesPerMinute > METRIC_THRESHOLDS.HUMAN_LINES_PER_MINUTE,
+      )
+      .sort((a, b) => b.linesPerMinute - a.linesPerMinute);
+  }
 }
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  GitignoreRules,
+  hasGeneratedHeader,
+  SourceFileFilter,
+} from './source-file-filter';
+
+describe('SourceFileFilter', () => {
+  let rootPath: string;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(rootPath, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const rulesFor = (
+    filter: SourceFileFilter,
+    relativeDirs: string[],
+  ): GitignoreRules[] =>
+    relativeDirs.reduce<GitignoreRules[]>((rules, relativeDir) => {
+      const dirPath = path.join(rootPath, relativeDir);
+      return filter.withGitignore(
+        rules,
+        dirPath,
+        relativeDir,
+        fs.readdirSync(dirPath, { withFileTypes: true }),
+      );
+    }, []);
+
+  beforeEach(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'source-file-filter-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  it('should apply nested .gitignore files with negated patterns', () => {
+    write('.gitignore', 'build/\n*.log.ts\n/generated.ts\n');
+    write('src/.gitignore', '!keep.log.ts\nlocal.ts\n');
+    write('src/keep.log.ts', '');
+
+    const filter = new SourceFileFilter(rootPath);
+    const rootRules = rulesFor(filter, ['']);
+    const srcRules = rulesFor(filter, ['', 'src/']);
+
+    expect(filter.excludes('build/', rootRules)).toBe(true);
+    expect(filter.excludes('debug.log.ts', rootRules)).toBe(true);
+    expect(filter.excludes('generated.ts', rootRules)).toBe(true);
+    expect(filter.excludes('src/generated.ts', srcRules)).toBe(false);
+    expect(filter.excludes('src/local.ts', srcRules)).toBe(true);
+    expect(filter.excludes('src/keep.log.ts', srcRules)).toBe(false);
+    expect(filter.getExclusions()).toEqual([
+      { reason: 'gitignore', files: 3, directories: 1 },
+    ]);
+  });
+
+  it('should exclude linguist-vendored and linguist-generated paths from .gitattributes', () => {
+    write(
+      '.gitattributes',
+      [
+        '# linguist overrides',
+        'third_party/** linguist-vendored',
+        '*.pb.ts linguist-generated=true',
+        'api/keep.pb.ts -linguist-generated',
+        'docs/** text eol=lf',
+      ].join('\n'),
+    );
+
+    const filter = new SourceFileFilter(rootPath);
+
+    expect(filter.excludes('third_party/', [])).toBe(true);
+    expect(filter.excludes('api/user.pb.ts', [])).toBe(true);
+    expect(filter.excludes('user.pb.ts', [])).toBe(true);
+    expect(filter.excludes('api/keep.pb.ts', [])).toBe(false);
+    expect(filter.excludes('docs/guide.ts', [])).toBe(false);
+    expect(filter.getExclusions()).toEqual([
+      { reason: 'linguist-vendored', files: 0, directories: 1 },
+      { reason: 'linguist-generated', files: 2, directories: 0 },
+    ]);
+  });
+
+  it('should report skip patterns first and count generated headers', () => {
+    write('.gitignore', 'fixtures/\n');
+
+    const filter = new SourceFileFilter(rootPath, ['fixtures/**', '*.min.js']);
+    const rules = rulesFor(filter, ['']);
+
+    expect(filter.excludes('fixtures/', rules)).toBe(true);
+    expect(filter.excludes('public/app.min.js', rules)).toBe(true);
+    filter.recordGeneratedHeaders(1);
+
+    expect(filter.getExclusions()).toEqual([
+      { reason: 'skip-pattern', files: 1, directories: 1 },
+      { reason: 'generated-header', files: 1, directories: 0 },
+    ]);
+  });
+
+  it('should detect generated-file headers at the start of a file', () => {
+    expect(
+      hasGeneratedHeader(
+        '// Code generated by protoc-gen-go. DO NOT EDIT.\npackage api',
+      ),
+    ).toBe(true);
+    expect(hasGeneratedHeader('/**\n * @generated\n */\nexport {};')).toBe(
+      true,
+    );
+    expect(hasGeneratedHeader('export const generated = true;')).toBe(false);
+    expect(hasGeneratedHeader(`${'x'.repeat(2000)}\n// @generated`)).toBe(
+      false,
+    );
+  });
+
+  it('should ignore generated-file markers quoted outside a comment line', () => {
+    expect(
+      hasGeneratedHeader(
+        [
+          '/**',
+          ' * Files starting with "Code generated ... DO NOT EDIT." or an',
+          ' * "@generated" tag are skipped',
+          ' */',
+          'const MARKER = /Code generated .* DO NOT EDIT|@generated/;',
+        ].join('\n'),
+      ),
+    ).toBe(false);
+    expect(
+      hasGeneratedHeader(
+        '# Notes\n\nGo tools write "// Code generated by stringer. DO NOT EDIT." at the top.',
+      ),
+    ).toBe(false);
+    expect(
+      hasGeneratedHeader(
+        '#!/bin/sh\n# Code generated by make-scripts; DO NOT EDIT.\necho hi',
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { Minimatch } from 'minimatch';
+import {
+  ScanExclusion,
+  ScanExclusionReason,
+} from '../../../routes/dto/analyze-response.dto';
+
+/**
+ * Generated-file markers: the Go convention ("Code generated ... DO NOT EDIT.")
+ * and the "@generated" tag used by Facebook tooling, protoc plugins and others.
+ * Both must open a comment line, so files quoting them in code or prose are kept.
+ */
+const GENERATED_HEADER_PATTERNS = [
+  /^\s*(?:\/\/|#|\/\*|\*)\s*Code generated .* DO NOT EDIT\.?\s*(?:\*\/)?\s*$/m,
+  /^\s*(?:\/\/|#|\/\*\*?|\*)\s*@generated\b/m,
+];
+
+/** Markers are only looked for at the start of a file */
+const GENERATED_HEADER_LENGTH = 1024;
+
+/** Report order of the exclusion reasons */
+const EXCLUSION_REASONS: ScanExclusionReason[] = [
+  'skip-pattern',
+  'gitignore',
+  'linguist-vendored',
+  'linguist-generated',
+  'generated-header',
+];
+
+type LinguistAttribute = 'linguist-vendored' | 'linguist-generated';
+
+/**
+ * Rules of one .gitignore file
+ */
+export interface GitignoreRules {
+  /** Directory of the .gitignore file relative to the root, with a trailing slash ("" for the root) */
+  base: string;
+  rules: Ignore;
+}
+
+/**
+ * One line of .gitattributes that sets or unsets a linguist attribute
+ */
+interface AttributeRule {
+  pattern: Minimatch;
+  attribute: LinguistAttribute;
+  value: boolean;
+}
+
+/**
+ * Checks whether a file starts with a generated-file marker
+ * @param content File content
+ * @returns True if the file declares itself as generated
+ */
+export function hasGeneratedHeader(content: string): boolean {
+  const header = content.slice(0, GENERATED_HEADER_LENGTH);
+  return GENERATED_HEADER_PATTERNS.some((pattern) => pattern.test(header));
+}
+
+/**
+ * Decides which paths of a working tree the file scan leaves out, the way
+ * git and GitHub linguist would, and counts the exclusions by reason.
+ * One instance serves a single scan.
+ */
+export class SourceFileFilter {
+  private readonly skipPatterns: Minimatch[];
+  private readonly attributeRules: AttributeRule[];
+  private readonly counts = new Map<ScanExclusionReason, ScanExclusion>();
+
+  /**
+   * @param rootPath Repository root; its .gitattributes file is read
+   * @param skipPatterns Glob patterns of the project configuration
+   */
+  constructor(rootPath: string, skipPatterns: string[] = []) {
+    this.skipPatterns = skipPatterns.map((pattern) => this.compile(pattern));
+    this.attributeRules = this.loadAttributeRules(rootPath);
+  }
+
+  /**
+   * Adds the .gitignore file of a directory to the rules of its parents
+   * @param parentRules Rules in effect for the parent directory
+   * @param dirPath Absolute directory path
+   * @param relativeDir Directory relative to the root, with a trailing slash ("" for the root)
+   * @param entries Directory entries, to avoid probing for the file
+   * @returns Rules in effect inside the directory
+   */
+  withGitignore(
+    parentRules: GitignoreRules[],
+    dirPath: string,
+    relativeDir: string,
+    entries: fs.Dirent[],
+  ): GitignoreRules[] {
+    if (!entries.some((entry) => entry.name === '.gitignore')) {
+      return parentRules;
+    }
+
+    try {
+      const content = fs.readFileSync(path.join(dirPath, '.gitignore'), 'utf8');
+      return [
+        ...parentRules,
+        { base: relativeDir, rules: ignore().add(content) },
+      ];
+    } catch {
+      return parentRules;
+    }
+  }
+
+  /**
+   * Checks whether a path is excluded, and counts it when it is
+   * @param relativePath Path relative to the root, with a trailing slash for directories
+   * @param gitignoreRules Rules in effect in the path's directory
+   * @returns True if the path is excluded
+   */
+  excludes(relativePath: string, gitignoreRules: GitignoreRules[]): boolean {
+    const reason = this.getExclusionReason(relativePath, gitignoreRules);
+    if (reason) {
+      this.record(reason, relativePath.endsWith('/'));
+    }
+    return reason !== undefined;
+  }
+
+  /**
+   * Counts files excluded after reading them (generated-file header)
+   * @param count Number of files
+   */
+  recordGeneratedHeaders(count: number): void {
+    if (count > 0) {
+      this.record('generated-header', false, count);
+    }
+  }
+
+  /**
+   * Gets the exclusion counts
+   * @returns Counts of the reasons that excluded anything, in report order
+   */
+  getExclusions(): ScanExclusion[] {
+    return EXCLUSION_REASONS.flatMap((reason) => {
+      const exclusion = this.counts.get(reason);
+      return exclusion ? [exclusion] : [];
+    });
+  }
+
+  /**
+   * Finds the first rule excluding a path: configured skip patterns, then
+   * .gitignore, then linguist attributes
+   */
+  private getExclusionReason(
+    relativePath: string,
+    gitignoreRules: GitignoreRules[],
+  ): ScanExclusionReason | undefined {
+    if (this.skipPatterns.some((pattern) => pattern.match(relativePath))) {
+      return 'skip-pattern';
+    }
+    if (this.isGitignored(relativePath, gitignoreRules)) {
+      return 'gitignore';
+    }
+    if (this.hasAttribute(relativePath, 'linguist-vendored')) {
+      return 'linguist-vendored';
+    }
+    if (this.hasAttribute(relativePath, 'linguist-generated')) {
+      return 'linguist-generated';
+    }
+    return undefined;
+  }
+
+  /**
+   * Applies .gitignore files from the root down; deeper files can re-include
+   * paths with negated patterns
+   */
+  private isGitignored(
+    relativePath: string,
+    gitignoreRules: GitignoreRules[],
+  ): boolean {
+    return gitignoreRules.reduce((ignored, { base, rules }) => {
+      const result = rules.test(relativePath.slice(base.length));
+      return result.ignored || (ignored && !result.unignored);
+    }, false);
+  }
+
+  /**
+   * Resolves a linguist attribute; the last matching .gitattributes line wins
+   */
+  private hasAttribute(
+    relativePath: string,
+    attribute: LinguistAttribute,
+  ): boolean {
+    return this.attributeRules.reduce(
+      (value, rule) =>
+        rule.attribute === attribute && rule.pattern.match(relativePath)
+          ? rule.value
+          : value,
+      false,
+    );
+  }
+
+  /**
+   * Parses the linguist attributes of the root .gitattributes file
+   * @param rootPath Repository root
+   * @returns Attribute rules in file order
+   */
+  private loadAttributeRules(rootPath: string): AttributeRule[] {
+    const filePath = path.join(rootPath, '.gitattributes');
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    return content.split(/\r?\n/).flatMap((line) => {
+      const [pattern, ...attributes] = line.trim().split(/\s+/);
+      if (!pattern || pattern.startsWith('#')) {
+        return [];
+      }
+
+      return attributes.flatMap((token): AttributeRule[] => {
+        const match =
+          /^([-!]?)(linguist-(?:vendored|generated))(?:=(.*))?$/.exec(token);
+        if (!match) {
+          return [];
+        }
+
+        const [, prefix, attribute, value] = match;
+        return [
+          {
+            pattern: this.compile(pattern),
+            attribute: attribute as LinguistAttribute,
+            value: prefix === '' && value !== 'false',
+          },
+        ];
+      });
+    });
+  }
+
+  /**
+   * Compiles a gitignore-style glob: patterns without a slash match names at
+   * any depth, and a leading slash anchors to the root
+   */
+  private compile(pattern: string): Minimatch {
+    return new Minimatch(pattern.replace(/^\//, ''), {
+      dot: true,
+      matchBase: !pattern.includes('/'),
+    });
+  }
+
+  /**
+   * Counts excluded files or directories
+   */
+  private record(
+    reason: ScanExclusionReason,
+    isDirectory: boolean,
+    count = 1,
+  ): void {
+    const exclusion = this.counts.get(reason) ?? {
+      reason,
+      files: 0,
+      directories: 0,
+    };
+    if (isDirectory) {
+      exclusion.directories += count;
+    } else {
+      exclusion.files += count;
+    }
+    this.counts.set(reason, exclusion);
+  }
+}
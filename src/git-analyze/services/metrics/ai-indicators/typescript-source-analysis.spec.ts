@@ -0,0 +1,64 @@
+import {
+  analyzeTypeScriptSource,
+  isTypeScriptSource,
+} from './typescript-source-analysis';
+
+describe('typescript-source-analysis', () => {
+  it('should parse TypeScript and JavaScript files only', () => {
+    expect(['.ts', '.tsx', '.js', '.jsx'].every(isTypeScriptSource)).toBe(true);
+    expect(isTypeScriptSource('.py')).toBe(false);
+  });
+
+  it('should measure lines, loops, switches and function sizes', () => {
+    const content = `/**
+ * Sums the even values
+ */
+export function sumEven(values: number[]): number {
+  let sum = 0; // running total
+  for (const value of values) {
+    switch (value % 2) {
+      case 0:
+        sum += value;
+    }
+  }
+  return sum;
+}
+
+class Queue {
+  private items: string[] = [];
+
+  drain(): void {
+    do {
+      this.items.pop();
+    } while (this.items.length > 0);
+  }
+}
+
+const double = (value: number) => value * 2;`;
+
+    expect(analyzeTypeScriptSource(content, '.ts')).toEqual({
+      totalLines: 25,
+      codeLines: 19,
+      commentLines: 4,
+      loops: 2,
+      switches: 1,
+      loopAndSwitchLines: [6, 7, 19],
+      functionSizes: [10, 5, 1],
+    });
+  });
+
+  it('should count JSX text as code and JSX comments as comments', () => {
+    const content = `export const App = () => (
+  <main>
+    {/* greeting */}
+    Hello, // not a comment
+  </main>
+);`;
+
+    expect(analyzeTypeScriptSource(content, '.jsx')).toMatchObject({
+      totalLines: 6,
+      codeLines: 6,
+      commentLines: 1,
+    });
+  });
+});
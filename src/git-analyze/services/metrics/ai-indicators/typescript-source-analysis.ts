@@ -0,0 +1,147 @@
+import * as ts from 'typescript';
+
+/**
+ * Structure of a TypeScript or JavaScript file, read from its syntax tree
+ */
+export interface TypeScriptSourceStructure {
+  totalLines: number;
+  /** Lines holding at least one token */
+  codeLines: number;
+  /** Lines holding comment text, including comments trailing code */
+  commentLines: number;
+  /** for, for-in, for-of, while and do-while statements */
+  loops: number;
+  switches: number;
+  /** 1-based line of each loop and switch statement, in source order */
+  loopAndSwitchLines: number[];
+  /** Lines spanned by each function with a body (declarations, expressions, arrow functions, methods, accessors, constructors) */
+  functionSizes: number[];
+}
+
+/**
+ * Script kind of each extension parsed with the TypeScript compiler
+ */
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX,
+};
+
+const CODE_LINE = 1;
+const COMMENT_LINE = 2;
+
+/**
+ * Checks whether a file is analyzed from its syntax tree rather than with
+ * the regex heuristics
+ * @param extension File extension (e.g., '.ts')
+ * @returns True for TypeScript and JavaScript files
+ */
+export function isTypeScriptSource(extension: string): boolean {
+  return extension in SCRIPT_KINDS;
+}
+
+/**
+ * Parses a TypeScript or JavaScript file and measures its structure. The
+ * parser tells comments from strings, template literals and regex literals,
+ * so none of them is mistaken for another. The file scan parses each file
+ * once and passes the structure to every analyzer.
+ * @param content File content
+ * @param extension File extension, for which isTypeScriptSource is true
+ * @returns Line counts, loop and switch statements, and function sizes
+ */
+export function analyzeTypeScriptSource(
+  content: string,
+  extension: string,
+): TypeScriptSourceStructure {
+  const sourceFile = ts.createSourceFile(
+    `source${extension}`,
+    content,
+    {
+      languageVersion: ts.ScriptTarget.Latest,
+      jsDocParsingMode: ts.JSDocParsingMode.ParseNone,
+    },
+    false,
+    SCRIPT_KINDS[extension] ?? ts.ScriptKind.TS,
+  );
+  const lineFlags = new Uint8Array(sourceFile.getLineStarts().length);
+  const lineOf = (position: number) =>
+    sourceFile.getLineAndCharacterOfPosition(position).line;
+  const markLines = (start: number, end: number, flag: number) => {
+    for (let line = lineOf(start); line <= lineOf(end); line++) {
+      lineFlags[line] |= flag;
+    }
+  };
+
+  const structure: TypeScriptSourceStructure = {
+    totalLines: content.split('\n').length,
+    codeLines: 0,
+    commentLines: 0,
+    loops: 0,
+    switches: 0,
+    loopAndSwitchLines: [],
+    functionSizes: [],
+  };
+
+  const markComments = (comments: ts.CommentRange[] | undefined) =>
+    comments?.forEach((comment) =>
+      markLines(comment.pos, comment.end - 1, COMMENT_LINE),
+    );
+
+  // Comments on the line of a token trail it; the others lead the next token
+  let previousTokenEnd: number | undefined;
+  const visit = (node: ts.Node): void => {
+    if (ts.isIterationStatement(node, false)) {
+      structure.loops++;
+      structure.loopAndSwitchLines.push(lineOf(node.getStart(sourceFile)) + 1);
+    } else if (ts.isSwitchStatement(node)) {
+      structure.switches++;
+      structure.loopAndSwitchLines.push(lineOf(node.getStart(sourceFile)) + 1);
+    } else if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+      structure.functionSizes.push(
+        lineOf(node.getEnd()) - lineOf(node.getStart(sourceFile)) + 1,
+      );
+    }
+
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0) {
+      children.forEach(visit);
+      return;
+    }
+
+    if (ts.isJsxText(node)) {
+      // JSX text has no trivia, so "//" in it is text; only its non-blank part counts as code
+      const text = node.getText(sourceFile);
+      const start =
+        node.getStart(sourceFile) + text.length - text.trimStart().length;
+      const end = node.end - (text.length - text.trimEnd().length);
+      if (end > start) {
+        markLines(start, end - 1, CODE_LINE);
+      }
+      previousTokenEnd = undefined;
+      return;
+    }
+
+    if (previousTokenEnd !== undefined) {
+      markComments(ts.getTrailingCommentRanges(content, previousTokenEnd));
+    }
+    markComments(ts.getLeadingCommentRanges(content, node.pos));
+    previousTokenEnd = node.end;
+    const start = node.getStart(sourceFile);
+    if (node.kind !== ts.SyntaxKind.EndOfFileToken && node.end > start) {
+      markLines(start, node.end - 1, CODE_LINE);
+    }
+  };
+  visit(sourceFile);
+
+  lineFlags.forEach((flags) => {
+    if (flags & CODE_LINE) {
+      structure.codeLines++;
+    }
+    if (flags & COMMENT_LINE) {
+      structure.commentLines++;
+    }
+  });
+
+  return structure;
+}
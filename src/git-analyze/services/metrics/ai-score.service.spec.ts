@@ -0,0 +1,237 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AIScoreService, AIScoreWeights } from './ai-score.service';
+import { MetricValues } from './metric-registry.service';
+import { AnalysisModule } from '../analysis.module';
+
+/**
+ * Builds raw metric values, keyed by plugin ID
+ */
+const buildValues = (values: {
+  avgLinesPerCommit: number;
+  largeCommitPercentage: number;
+  isFirstCommitSuspicious: boolean;
+  avgFilesPerCommit: number;
+  commitMessagePatterns: number;
+  burstyCommitPercentage: number;
+  fastCommitPercentage: number;
+  testFileRatio: number;
+  codeCommentRatio: number;
+  codeNonTypicalExpressionRatio: number;
+  aiToolSignatureCommitPercentage: number;
+}): MetricValues => ({
+  avgLinesPerCommit: values.avgLinesPerCommit,
+  largeCommitPercentage: values.largeCommitPercentage,
+  firstCommitAnalysis: {
+    lines: 0,
+    isSuspicious: values.isFirstCommitSuspicious,
+  },
+  avgFilesPerCommit: values.avgFilesPerCommit,
+  commitMessagePatterns: values.commitMessagePatterns,
+  burstyCommitPercentage: values.burstyCommitPercentage,
+  typingSpeed: {
+    fastCommitPercentage: values.fastCommitPercentage,
+    measuredCommits: 0,
+    fastestCommits: [],
+  },
+  testFileRatio: values.testFileRatio,
+  codeCommentRatio: values.codeCommentRatio,
+  codeNonTypicalExpressionRatio: values.codeNonTypicalExpressionRatio,
+  aiToolSignatures: {
+    commitPercentage: values.aiToolSignatureCommitPercentage,
+    authorPercentage: 0,
+    tools: [],
+  },
+});
+
+describe('AIScoreService', () => {
+  let service: AIScoreService;
+
+  // Every indicator sits exactly at its threshold
+  const atThreshold = buildValues({
+    avgLinesPerCommit: 100,
+    largeCommitPercentage: 10,
+    isFirstCommitSuspicious: false,
+    avgFilesPerCommit: 10,
+    commitMessagePatterns: 50,
+    burstyCommitPercentage: 30,
+    fastCommitPercentage: 10,
+    testFileRatio: 20,
+    codeCommentRatio: 30,
+    codeNonTypicalExpressionRatio: 30,
+    aiToolSignatureCommitPercentage: 5,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AnalysisModule],
+    }).compile();
+    await module.init();
+
+    service = module.get<AIScoreService>(AIScoreService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('calculateScore', () => {
+    it('should return 0 when no indicator shows an AI signal', () => {
+      const indicators = buildValues({
+        avgLinesPerCommit: 0,
+        largeCommitPercentage: 0,
+        isFirstCommitSuspicious: false,
+        avgFilesPerCommit: 0,
+        commitMessagePatterns: 0,
+        burstyCommitPercentage: 0,
+        fastCommitPercentage: 0,
+        testFileRatio: 40,
+        codeCommentRatio: 0,
+        codeNonTypicalExpressionRatio: 0,
+        aiToolSignatureCommitPercentage: 0,
+      });
+
+      const result = service.calculateScore(indicators, { totalCommits: 10 });
+
+      expect(result.value).toBe(0);
+      expect(result.contributions).toHaveLength(11);
+      expect(result.description).toEqual(expect.any(String));
+    });
+
+    it('should return 100 when every indicator is saturated', () => {
+      const indicators = buildValues({
+        avgLinesPerCommit: 500,
+        largeCommitPercentage: 50,
+        isFirstCommitSuspicious: true,
+        avgFilesPerCommit: 40,
+        commitMessagePatterns: 100,
+        burstyCommitPercentage: 90,
+        fastCommitPercentage: 40,
+        testFileRatio: 0,
+        codeCommentRatio: 80,
+        codeNonTypicalExpressionRatio: 60,
+        aiToolSignatureCommitPercentage: 25,
+      });
+
+      const result = service.calculateScore(indicators, { totalCommits: 10 });
+
+      expect(result.value).toBe(100);
+    });
+
+    it('should weight each indicator signal by its default weight', () => {
+      const result = service.calculateScore(atThreshold, {
+        totalCommits: 10,
+      });
+
+      // 12 of 12.5 weight points at a 0.5 signal; the first commit is not suspicious
+      expect(result.value).toBe(48);
+      expect(result.contributions[0]).toEqual({
+        indicator: 'avgLinesPerCommit',
+        signal: 50,
+        weight: 1,
+        contribution: 4,
+      });
+      expect(
+        result.contributions.find((c) => c.indicator === 'firstCommitAnalysis'),
+      ).toEqual({
+        indicator: 'firstCommitAnalysis',
+        signal: 0,
+        weight: 0.5,
+        contribution: 0,
+      });
+    });
+
+    it('should apply weight overrides', () => {
+      const result = service.calculateScore(
+        atThreshold,
+        { totalCommits: 10 },
+        { firstCommitAnalysis: 0 },
+      );
+
+      expect(result.value).toBe(50);
+    });
+
+    it('should leave indicators without a value out of the score', () => {
+      const commitValues = Object.fromEntries(
+        Object.entries(atThreshold).filter(
+          ([id]) =>
+            !['codeCommentRatio', 'codeNonTypicalExpressionRatio'].includes(id),
+        ),
+      );
+      const result = service.calculateScore(commitValues, {
+        totalCommits: 150,
+      });
+
+      expect(result.contributions.map((c) => c.indicator)).not.toContain(
+        'codeCommentRatio',
+      );
+      expect(result.contributions).toHaveLength(9);
+      // Remaining 10 weight points: 9.5 at a 0.5 signal, first commit at 0
+      expect(result.value).toBe(47.5);
+      // Only 80% of the weight is covered, so confidence cannot be high
+      expect(result.confidence).toBe('medium');
+    });
+
+    it('should derive confidence from the number of commits', () => {
+      expect(
+        service.calculateScore(atThreshold, { totalCommits: 5 }).confidence,
+      ).toBe('low');
+      expect(
+        service.calculateScore(atThreshold, { totalCommits: 20 }).confidence,
+      ).toBe('medium');
+      expect(
+        service.calculateScore(atThreshold, { totalCommits: 100 }).confidence,
+      ).toBe('high');
+    });
+
+    it('should return a low-confidence zero score when all weights are zero', () => {
+      const weights: AIScoreWeights = {
+        avgLinesPerCommit: 0,
+        largeCommitPercentage: 0,
+        firstCommitAnalysis: 0,
+        avgFilesPerCommit: 0,
+        commitMessagePatterns: 0,
+        burstyCommitPercentage: 0,
+        typingSpeed: 0,
+        testFileRatio: 0,
+        codeCommentRatio: 0,
+        codeNonTypicalExpressionRatio: 0,
+        aiToolSignatures: 0,
+      };
+
+      const result = service.calculateScore(
+        atThreshold,
+        { totalCommits: 500 },
+        weights,
+      );
+
+      expect(result.value).toBe(0);
+      expect(result.confidence).toBe('low');
+    });
+  });
+
+  describe('resolveWeights', () => {
+    it('should merge overrides with the default weights', () => {
+      const result = service.resolveWeights({ codeCommentRatio: 3 });
+
+      expect(result.codeCommentRatio).toBe(3);
+      expect(result.avgLinesPerCommit).toBe(1);
+    });
+
+    it('should reject unknown indicators', () => {
+      expect(() =>
+        service.resolveWeights({ linesOfCode: 1 } as AIScoreWeights),
+      ).toThrow('Unknown AI indicator in score weights: linesOfCode');
+    });
+
+    it('should reject negative or non-numeric weights', () => {
+      expect(() => service.resolveWeights({ testFileRatio: -1 })).toThrow(
+        'Score weight for testFileRatio must be a non-negative number',
+      );
+      expect(() =>
+        service.resolveWeights({
+          testFileRatio: 'high',
+        } as unknown as AIScoreWeights),
+      ).toThrow('Score weight for testFileRatio must be a non-negative number');
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AIIndicatorName,
+  AIScore,
+  AIScoreConfidence,
+  AIScoreContribution,
+} from '../../routes/dto/analyze-response.dto';
+import {
+  METRIC_DESCRIPTIONS,
+  METRIC_THRESHOLDS,
+} from './metric-thresholds.constants';
+import { MetricPlugin } from './metric-plugin';
+import { MetricRegistryService, MetricValues } from './metric-registry.service';
+
+/**
+ * Weight overrides for the composite score, keyed by indicator name
+ */
+export type AIScoreWeights = Partial<Record<AIIndicatorName, number>>;
+
+export interface AIScoreContext {
+  /** Number of commits the commit-based indicators were computed from */
+  totalCommits: number;
+  /** Plugins enabled for the analysis, with their thresholds (default: all registered plugins) */
+  plugins?: MetricPlugin[];
+}
+
+@Injectable()
+export class AIScoreService {
+  constructor(private readonly metricRegistry: MetricRegistryService) {}
+
+  /**
+   * Combines all AI indicators into a single 0-100 likelihood score
+   * @param values Calculated indicator values keyed by plugin ID; enabled indicators without a value are left out of the score
+   * @param context Sample size of the commit-based indicators and enabled plugins
+   * @param weights Optional weight overrides (default: each plugin's default weight)
+   * @returns Score with confidence level and per-indicator contributions
+   */
+  calculateScore(
+    values: MetricValues,
+    context: AIScoreContext,
+    weights?: AIScoreWeights,
+  ): AIScore {
+    const resolvedWeights = this.resolveWeights(weights);
+    const plugins = context.plugins ?? this.metricRegistry.getAll();
+    const available = plugins.filter((plugin) => plugin.id in values);
+
+    const totalWeight = this.sumWeights(plugins, resolvedWeights);
+    const availableWeight = this.sumWeights(available, resolvedWeights);
+
+    // Each contribution is the share of the 0-100 score earned by one indicator
+    const rawContributions = available.map((plugin) => {
+      const signal = this.normalize(plugin, values[plugin.id]);
+      const weight = resolvedWeights[plugin.id];
+      const points =
+        availableWeight > 0 ? ((signal * weight) / availableWeight) * 100 : 0;
+      return { name: plugin.id, signal, weight, points };
+    });
+
+    const contributions: AIScoreContribution[] = rawContributions.map(
+      ({ name, signal, weight, points }) => ({
+        indicator: name,
+        signal: this.round(signal * 100),
+        weight,
+        contribution: this.round(points),
+      }),
+    );
+
+    const value = this.round(
+      rawContributions.reduce((sum, { points }) => sum + points, 0),
+    );
+
+    return {
+      value,
+      confidence: this.calculateConfidence(
+        context.totalCommits,
+        totalWeight > 0 ? availableWeight / totalWeight : 0,
+      ),
+      contributions,
+      description: METRIC_DESCRIPTIONS.aiScore(),
+    };
+  }
+
+  /**
+   * Merges weight overrides with the plugins' default weights and validates them
+   * @param weights Optional weight overrides
+   * @returns Weight for every registered indicator
+   * @throws Error if an override names an unknown indicator or is not a non-negative number
+   */
+  resolveWeights(
+    weights: AIScoreWeights = {},
+  ): Record<AIIndicatorName, number> {
+    Object.entries(weights).forEach(([name, weight]) => {
+      if (!this.metricRegistry.get(name)) {
+        throw new Error(`Unknown AI indicator in score weights: ${name}`);
+      }
+      if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+        throw new Error(
+          `Score weight for ${name} must be a non-negative number`,
+        );
+      }
+    });
+
+    return {
+      ...Object.fromEntries(
+        this.metricRegistry
+          .getAll()
+          .map((plugin) => [plugin.id, plugin.defaultWeight]),
+      ),
+      ...weights,
+    } as Record<AIIndicatorName, number>;
+  }
+
+  /**
+   * Maps an indicator value to an AI signal between 0 and 1.
+   * An indicator exactly at its threshold maps to 0.5 and reaches 1 at twice
+   * the threshold; for "below" thresholds the scale is inverted.
+   * @param plugin Metric plugin of the indicator
+   * @param value Calculated value
+   * @returns Signal between 0 and 1
+   */
+  private normalize(plugin: MetricPlugin, value: unknown): number {
+    if (plugin.signal) {
+      return plugin.signal(value);
+    }
+    if (!plugin.threshold) {
+      return 0;
+    }
+
+    const signal = this.aboveThreshold(
+      plugin.toNumber(value),
+      plugin.threshold.value,
+    );
+    return plugin.threshold.direction === 'below' ? 1 - signal : signal;
+  }
+
+  /**
+   * Determines how much the score can be trusted
+   * @param totalCommits Number of analyzed commits
+   * @param weightCoverage Share of the total weight backed by available indicators (0-1)
+   * @returns Confidence level
+   */
+  private calculateConfidence(
+    totalCommits: number,
+    weightCoverage: number,
+  ): AIScoreConfidence {
+    if (
+      totalCommits >= METRIC_THRESHOLDS.SCORE_HIGH_CONFIDENCE_MIN_COMMITS &&
+      weightCoverage >= 0.9
+    ) {
+      return 'high';
+    }
+    if (
+      totalCommits >= METRIC_THRESHOLDS.SCORE_MEDIUM_CONFIDENCE_MIN_COMMITS &&
+      weightCoverage >= 0.5
+    ) {
+      return 'medium';
+    }
+    return 'low';
+  }
+
+  /**
+   * Normalizes a value where exceeding the threshold suggests AI assistance
+   * @param value Indicator value
+   * @param threshold Indicator threshold
+   * @returns Signal between 0 and 1 (0.5 at the threshold)
+   */
+  private aboveThreshold(value: number, threshold: number): number {
+    return Math.min(1, Math.max(0, value / (threshold * 2)));
+  }
+
+  /**
+   * Sums the weights of the given indicators
+   */
+  private sumWeights(
+    plugins: MetricPlugin[],
+    weights: Record<AIIndicatorName, number>,
+  ): number {
+    return plugins.reduce((sum, plugin) => sum + weights[plugin.id], 0);
+  }
+
+  /**
+   * Rounds to 2 decimal places
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Known signatures AI coding tools leave in commits
+ */
+export interface AIToolSignature {
+  /** Tool name reported in the results */
+  tool: string;
+  /**
+   * Matched against "Name <email>" of the commit author and of each
+   * Co-authored-by trailer. Match the tool's own account or noreply email,
+   * never a bare name people can share (e.g. "Claude", "Devin")
+   */
+  account?: RegExp;
+  /** Matched against each line of the commit message (e.g., "Generated with ..." footers) */
+  footer?: RegExp;
+  /** Matched against branch names found in merge commit subjects */
+  branch?: RegExp;
+}
+
+/**
+ * Catalogue of AI tool signatures. Add an entry here to detect another tool.
+ */
+export const AI_TOOL_SIGNATURES: AIToolSignature[] = [
+  {
+    tool: 'GitHub Copilot',
+    account:
+      /[<+]copilot@users\.noreply\.github\.com>|\bcopilot-swe-agent\[bot\]/i,
+    footer: /generated (with|by) (github )?copilot/i,
+    branch: /^copilot\//i,
+  },
+  {
+    tool: 'Claude',
+    account: /<noreply@anthropic\.com>|\bclaude\[bot\]/i,
+    footer: /generated (with|by) \[?claude/i,
+    branch: /^claude\//i,
+  },
+  {
+    tool: 'Cursor',
+    account: /<cursoragent@cursor\.com>|\bcursor\[bot\]/i,
+    footer: /generated (with|by) cursor/i,
+    branch: /^cursor\//i,
+  },
+  {
+    tool: 'OpenAI Codex',
+    account: /<noreply@openai\.com>|\bchatgpt-codex-connector\[bot\]/i,
+    footer: /generated (with|by) (openai )?(codex|chatgpt)/i,
+    branch: /^codex\//i,
+  },
+  {
+    tool: 'Aider',
+    account: /<noreply@aider\.chat>|\(aider\) </i,
+    footer: /^aider: /i,
+    branch: /^aider\//i,
+  },
+  {
+    tool: 'Devin',
+    account: /\bdevin-ai-integration\[bot\]/i,
+    branch: /^devin\//i,
+  },
+  {
+    tool: 'Gemini',
+    account: /\bgemini-code-assist\[bot\]/i,
+    footer: /generated (with|by) gemini/i,
+    branch: /^gemini\//i,
+  },
+  {
+    tool: 'Amazon Q',
+    account: /\bamazon-q-developer\[bot\]/i,
+    footer: /generated (with|by) amazon q/i,
+  },
+  {
+    tool: 'Windsurf',
+    account: /\bwindsurf(-bot)?\[bot\]/i,
+    footer: /generated (with|by) (windsurf|codeium)/i,
+  },
+];
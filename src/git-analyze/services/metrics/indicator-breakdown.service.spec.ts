@@ -0,0 +1,336 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { IndicatorBreakdownService } from './indicator-breakdown.service';
+import { GitSizeService } from './ai-indicators/git-size.service';
+import { CodeCommentAnalysisService } from './ai-indicators/code-comment-analysis.service';
+import { CodeNonTypicalExpressionsService } from './ai-indicators/code-non-typical-expressions.service';
+import { MetricRegistryService } from './metric-registry.service';
+import { AnalysisModule } from '../analysis.module';
+import { TimeSeriesInterval } from '../../routes/dto/analyze-request.dto';
+import { CommitInfo } from '../git.service';
+
+describe('IndicatorBreakdownService', () => {
+  let service: IndicatorBreakdownService;
+  let gitSizeService: GitSizeService;
+  let module: TestingModule;
+
+  const commits: CommitInfo[] = [
+    {
+      hash: 'hash1',
+      author: 'Alice',
+      email: 'alice@example.com',
+      date: new Date('2024-01-01T10:00:00Z'),
+      message: 'feat: add login',
+      body: 'Co-authored-by: Copilot <175728472+Copilot@users.noreply.github.com>',
+      filesChanged: 4,
+      insertions: 300,
+      deletions: 20,
+      files: ['src/login.ts', 'src/login.spec.ts', 'src/a.ts', 'src/b.ts'],
+    },
+    {
+      hash: 'hash2',
+      author: 'Bob',
+      email: 'bob@example.com',
+      date: new Date('2024-01-01T11:00:00Z'),
+      message: 'Tweak button color',
+      filesChanged: 1,
+      insertions: 2,
+      deletions: 2,
+      files: ['src/button.css'],
+    },
+    {
+      hash: 'hash3',
+      author: 'Alice',
+      email: 'alice@example.com',
+      date: new Date('2024-01-01T10:02:00Z'),
+      message: 'feat: add logout',
+      filesChanged: 2,
+      insertions: 80,
+      deletions: 0,
+      files: ['src/logout.ts', 'src/session.ts'],
+    },
+  ];
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [AnalysisModule],
+    }).compile();
+    await module.init();
+
+    service = module.get<IndicatorBreakdownService>(IndicatorBreakdownService);
+    gitSizeService = module.get<GitSizeService>(GitSizeService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('calculateContributorIndicators', () => {
+    it('should return no rows for empty commits', () => {
+      expect(service.calculateContributorIndicators([])).toEqual([]);
+    });
+
+    it('should recompute the indicators for each contributor', () => {
+      const result = service.calculateContributorIndicators(commits);
+
+      expect(result).toEqual([
+        {
+          name: 'Alice',
+          email: 'alice@example.com',
+          commitCount: 2,
+          indicators: {
+            avgLinesPerCommit: 200,
+            largeCommitPercentage: 0,
+            avgFilesPerCommit: 3,
+            commitMessagePatterns: 100,
+            burstyCommitPercentage: 100,
+            // 80 lines two minutes after the first commit
+            typingSpeed: 100,
+            testFileRatio: 50,
+            aiToolSignatures: 50,
+          },
+        },
+        {
+          name: 'Bob',
+          email: 'bob@example.com',
+          commitCount: 1,
+          indicators: {
+            avgLinesPerCommit: 4,
+            largeCommitPercentage: 0,
+            avgFilesPerCommit: 1,
+            commitMessagePatterns: 0,
+            burstyCommitPercentage: 0,
+            typingSpeed: 0,
+            testFileRatio: 0,
+            aiToolSignatures: 0,
+          },
+        },
+      ]);
+    });
+
+    it('should pass only the contributor commits to each indicator service', () => {
+      const sizeSpy = jest.spyOn(gitSizeService, 'calculateAvgLinesPerCommit');
+      const firstCommitSpy = jest.spyOn(
+        gitSizeService,
+        'calculateFirstCommitAnalysis',
+      );
+
+      service.calculateContributorIndicators(commits);
+
+      expect(sizeSpy).toHaveBeenCalledTimes(2);
+      expect(sizeSpy).toHaveBeenCalledWith([commits[0], commits[2]]);
+      expect(sizeSpy).toHaveBeenCalledWith([commits[1]]);
+      // The first commit analysis is repository-wide, so it is not attributable
+      expect(firstCommitSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('calculateTimeSeries', () => {
+    /**
+     * Builds one commit per day of the given month, optionally signed by an AI tool
+     */
+    const buildMonth = (month: string, aiAssisted: boolean): CommitInfo[] =>
+      [1, 2, 3, 4].map((day) => ({
+        hash: `${month}-${day}`,
+        author: 'Alice',
+        email: 'alice@example.com',
+        date: new Date(`${month}-0${day}T12:00:00Z`),
+        message: aiAssisted ? 'feat: generated change' : 'Tweak layout',
+        body: aiAssisted
+          ? 'Co-authored-by: Claude <noreply@anthropic.com>'
+          : '',
+        filesChanged: aiAssisted ? 12 : 1,
+        insertions: aiAssisted ? 400 : 10,
+        deletions: 0,
+        files: aiAssisted ? ['src/a.ts'] : ['src/a.ts', 'src/a.spec.ts'],
+      }));
+
+    it('should return no buckets for empty commits', () => {
+      expect(service.calculateTimeSeries([])).toEqual({
+        interval: 'month',
+        buckets: [],
+      });
+    });
+
+    it('should bucket commits by month in chronological order', () => {
+      const result = service.calculateTimeSeries([
+        ...buildMonth('2024-03', false),
+        ...buildMonth('2024-01', false),
+      ]);
+
+      expect(result.buckets.map((b) => b.period)).toEqual([
+        '2024-01',
+        '2024-03',
+      ]);
+      expect(result.buckets[0]).toEqual({
+        period: '2024-01',
+        start: '2024-01-01T00:00:00.000Z',
+        commitCount: 4,
+        indicators: expect.objectContaining({
+          avgLinesPerCommit: 10,
+          testFileRatio: 100,
+        }),
+        aiScore: expect.any(Number),
+      });
+    });
+
+    it('should bucket commits by ISO week starting on Monday', () => {
+      const result = service.calculateTimeSeries(
+        [
+          // Sunday of ISO week 2020-W53, then Monday of 2021-W01
+          { ...commits[1], date: new Date('2021-01-03T23:00:00Z') },
+          { ...commits[1], date: new Date('2021-01-04T01:00:00Z') },
+        ],
+        TimeSeriesInterval.WEEK,
+      );
+
+      expect(
+        result.buckets.map(({ period, start }) => ({ period, start })),
+      ).toEqual([
+        { period: '2020-W53', start: '2020-12-28T00:00:00.000Z' },
+        { period: '2021-W01', start: '2021-01-04T00:00:00.000Z' },
+      ]);
+    });
+
+    it('should detect the period where the AI score shifted', () => {
+      const result = service.calculateTimeSeries([
+        ...buildMonth('2024-01', false),
+        ...buildMonth('2024-02', false),
+        ...buildMonth('2024-03', false),
+        ...buildMonth('2024-04', true),
+        ...buildMonth('2024-05', true),
+      ]);
+
+      expect(result.changePoint).toEqual({
+        period: '2024-04',
+        start: '2024-04-01T00:00:00.000Z',
+        scoreBefore: result.buckets[0].aiScore,
+        scoreAfter: result.buckets[3].aiScore,
+      });
+      expect(result.changePoint!.scoreAfter).toBeGreaterThan(
+        result.changePoint!.scoreBefore + 15,
+      );
+    });
+
+    it('should not report a change point for a stable score', () => {
+      const result = service.calculateTimeSeries([
+        ...buildMonth('2024-01', false),
+        ...buildMonth('2024-02', false),
+        ...buildMonth('2024-03', false),
+        ...buildMonth('2024-04', false),
+      ]);
+
+      expect(result.buckets).toHaveLength(4);
+      expect(result.changePoint).toBeUndefined();
+    });
+
+    it('should not report a change point with too few periods', () => {
+      const result = service.calculateTimeSeries([
+        ...buildMonth('2024-01', false),
+        ...buildMonth('2024-02', false),
+        ...buildMonth('2024-03', true),
+      ]);
+
+      expect(result.changePoint).toBeUndefined();
+    });
+  });
+
+  describe('calculateLanguageIndicators', () => {
+    it('should split the file-based indicators by language, against the language baselines', () => {
+      const commentAnalysis = module.get(CodeCommentAnalysisService);
+      commentAnalysis.reset();
+      // 35% comments: above the overall threshold, below the Java baseline
+      const content = [
+        ...Array<string>(7).fill('// note'),
+        ...Array<string>(20).fill('x = 1;'),
+      ].join('\n');
+      commentAnalysis.analyzeFile('/repo/App.java', content, '.java');
+      commentAnalysis.analyzeFile('/repo/app.ts', content, '.ts');
+
+      const result = service.calculateLanguageIndicators({
+        TypeScript: { files: 1, lines: 27 },
+        Java: { files: 3, lines: 120 },
+      });
+
+      expect(result.map((row) => [row.language, row.files, row.lines])).toEqual(
+        [
+          ['Java', 3, 120],
+          ['TypeScript', 1, 27],
+        ],
+      );
+      expect(result[0].indicators.codeCommentRatio).toEqual({
+        value: 35,
+        formattedValue: '35%',
+        threshold: { value: 40, direction: 'above' },
+      });
+      expect(result[1].indicators.codeCommentRatio).toEqual({
+        value: 35,
+        formattedValue: '35%',
+        threshold: { value: 30, direction: 'above' },
+      });
+      expect(Object.keys(result[0].indicators)).not.toContain(
+        'avgLinesPerCommit',
+      );
+    });
+
+    it('should judge a Go-only repository against the Go baselines', () => {
+      const content = [
+        'package main',
+        '',
+        '// sum adds the values',
+        'func sum(values []int) (total int) {',
+        '\tfor i := 0; i < len(values); i++ {',
+        '\t\ttotal += values[i]',
+        '\t}',
+        '\treturn',
+        '}',
+      ].join('\n');
+      module
+        .get(CodeCommentAnalysisService)
+        .analyzeFile('/repo/sum.go', content, '.go');
+      module
+        .get(CodeNonTypicalExpressionsService)
+        .analyzeFile('/repo/sum.go', content, '.go');
+
+      const [row] = service.calculateLanguageIndicators({
+        Go: { files: 1, lines: 9 },
+      });
+
+      expect(row.language).toBe('Go');
+      expect(row.indicators.codeNonTypicalExpressionRatio.threshold).toEqual({
+        value: 70,
+        direction: 'above',
+      });
+      expect(row.indicators.codeCommentRatio.threshold).toEqual({
+        value: 40,
+        direction: 'above',
+      });
+    });
+
+    it('should leave out the indicators of disabled plugins', () => {
+      const content = 'package main\n\n// main runs the tool\nfunc main() {}';
+      module
+        .get(CodeCommentAnalysisService)
+        .analyzeFile('/repo/main.go', content, '.go');
+      module
+        .get(CodeNonTypicalExpressionsService)
+        .analyzeFile('/repo/main.go', content, '.go');
+      const plugins = module.get(MetricRegistryService).resolvePlugins({
+        thresholds: {},
+        disabledIndicators: ['codeCommentRatio'],
+      });
+
+      const [row] = service.calculateLanguageIndicators(
+        { Go: { files: 1, lines: 4 } },
+        plugins,
+      );
+
+      expect(Object.keys(row.indicators)).toEqual([
+        'codeNonTypicalExpressionRatio',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../git.service';
+import {
+  AITimeSeries,
+  CommitIndicatorValues,
+  ContributorIndicators,
+  LanguageIndicator,
+  LanguageIndicators,
+  TimeSeriesBucket,
+  TimeSeriesChangePoint,
+} from '../../routes/dto/analyze-response.dto';
+import { TimeSeriesInterval } from '../../routes/dto/analyze-request.dto';
+import { AIScoreService, AIScoreWeights } from './ai-score.service';
+import { MetricRegistryService, MetricValues } from './metric-registry.service';
+import {
+  CommitMetricPlugin,
+  FileMetricPlugin,
+  getLanguageThreshold,
+  MetricPlugin,
+} from './metric-plugin';
+import { METRIC_THRESHOLDS } from './metric-thresholds.constants';
+import { LanguageFileCounts } from './ai-indicators/file-system-scanner.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class IndicatorBreakdownService {
+  constructor(
+    private readonly metricRegistry: MetricRegistryService,
+    private readonly aiScoreService: AIScoreService,
+  ) {}
+
+  /**
+   * Recomputes the attributable commit-based AI indicators for each
+   * contributor. Repository-wide and file-based indicators cannot be
+   * attributed to authors, so they are left out.
+   * @param commits Array of commit information
+   * @param plugins Plugins enabled for the analysis (default: all registered plugins)
+   * @returns One row per contributor (by email), sorted by commit count
+   */
+  calculateContributorIndicators(
+    commits: CommitInfo[],
+    plugins: MetricPlugin[] = this.metricRegistry.getAll(),
+  ): ContributorIndicators[] {
+    const commitsByEmail = this.groupBy(commits, (commit) => commit.email);
+
+    return [...commitsByEmail.entries()]
+      .map(([email, authorCommits]) => ({
+        name: authorCommits[0].author,
+        email,
+        commitCount: authorCommits.length,
+        indicators: this.calculateIndicatorValues(authorCommits, plugins),
+      }))
+      .sort((a, b) => b.commitCount - a.commitCount);
+  }
+
+  /**
+   * Recomputes the commit-based AI indicators and the AI score for each
+   * week or month, and detects the period where the score shifted.
+   * Periods without commits are omitted.
+   * @param commits Array of commit information
+   * @param interval Bucket size (default: month)
+   * @param scoreWeights Optional overrides for the AI score weights
+   * @param plugins Plugins enabled for the analysis (default: all registered plugins)
+   * @returns Chronological buckets and the detected change point, if any
+   */
+  calculateTimeSeries(
+    commits: CommitInfo[],
+    interval: TimeSeriesInterval = TimeSeriesInterval.MONTH,
+    scoreWeights?: AIScoreWeights,
+    plugins: MetricPlugin[] = this.metricRegistry.getAll(),
+  ): AITimeSeries {
+    const commitsByPeriod = this.groupBy(commits, (commit) =>
+      this.getPeriodStart(commit.date, interval).getTime(),
+    );
+
+    const buckets: TimeSeriesBucket[] = [...commitsByPeriod.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([startMs, periodCommits]) => {
+        const start = new Date(startMs);
+        const values = this.calculateAttributableValues(periodCommits, plugins);
+
+        return {
+          period: this.formatPeriod(start, interval),
+          start: start.toISOString(),
+          commitCount: periodCommits.length,
+          indicators: this.toNumbers(values),
+          // Indicators that are not attributable have no value and are left out of the score
+          aiScore: this.aiScoreService.calculateScore(
+            values,
+            { totalCommits: periodCommits.length, plugins },
+            scoreWeights,
+          ).value,
+        };
+      });
+
+    const changePoint = this.detectChangePoint(buckets);
+
+    return {
+      interval,
+      buckets,
+      ...(changePoint && { changePoint }),
+    };
+  }
+
+  /**
+   * Splits the file-based AI indicators by language, once the scan has
+   * finished. Each value is compared against the baseline of its language
+   * where the plugin declares one, and against the overall threshold otherwise.
+   * @param languages Scanned files and lines per language
+   * @param plugins Plugins enabled for the analysis (default: all registered plugins)
+   * @returns One row per language, sorted by line count
+   */
+  calculateLanguageIndicators(
+    languages: LanguageFileCounts,
+    plugins: MetricPlugin[] = this.metricRegistry.getAll(),
+  ): LanguageIndicators[] {
+    const filePlugins = plugins.filter(
+      (plugin): plugin is FileMetricPlugin =>
+        plugin.kind === 'file' && plugin.getLanguageResults !== undefined,
+    );
+    const results = filePlugins.map((plugin) => ({
+      plugin,
+      values: plugin.getLanguageResults!(),
+    }));
+
+    return Object.entries(languages)
+      .map(([language, { files, lines }]) => {
+        const indicators = Object.fromEntries(
+          results
+            .filter(({ values }) => language in values)
+            .map(({ plugin, values }): [string, LanguageIndicator] => {
+              const threshold = getLanguageThreshold(plugin, language);
+              return [
+                plugin.id,
+                {
+                  value: plugin.toNumber(values[language]),
+                  formattedValue: this.metricRegistry.formatValue(
+                    plugin,
+                    values[language],
+                  ),
+                  ...(threshold && { threshold }),
+                },
+              ];
+            }),
+        );
+        return { language, files, lines, indicators };
+      })
+      .sort((a, b) => b.lines - a.lines);
+  }
+
+  /**
+   * Calculates the attributable commit-based AI indicators for a set of commits
+   * @param commits Array of commit information
+   * @param plugins Plugins enabled for the analysis (default: all registered plugins)
+   * @returns Numeric indicator values keyed by plugin ID
+   */
+  calculateIndicatorValues(
+    commits: CommitInfo[],
+    plugins: MetricPlugin[] = this.metricRegistry.getAll(),
+  ): CommitIndicatorValues {
+    return this.toNumbers(this.calculateAttributableValues(commits, plugins));
+  }
+
+  /**
+   * Finds the single split of the score series that best separates two
+   * levels (largest between-segment variance), and reports it when the
+   * segment means differ enough
+   * @param buckets Chronological time series buckets
+   * @returns First period after the shift, or undefined when the score is stable
+   */
+  private detectChangePoint(
+    buckets: TimeSeriesBucket[],
+  ): TimeSeriesChangePoint | undefined {
+    const minSegment = METRIC_THRESHOLDS.CHANGE_POINT_MIN_SEGMENT_PERIODS;
+    const scores = buckets.map((bucket) => bucket.aiScore);
+    const n = scores.length;
+    const mean = (values: number[]) =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    let best: { index: number; gain: number } | undefined;
+    for (let index = minSegment; index <= n - minSegment; index++) {
+      const shift = mean(scores.slice(index)) - mean(scores.slice(0, index));
+      const gain = ((index * (n - index)) / n) * shift * shift;
+      if (!best || gain > best.gain) {
+        best = { index, gain };
+      }
+    }
+
+    if (!best) {
+      return undefined;
+    }
+
+    const scoreBefore = this.round(mean(scores.slice(0, best.index)));
+    const scoreAfter = this.round(mean(scores.slice(best.index)));
+    if (
+      Math.abs(scoreAfter - scoreBefore) <
+      METRIC_THRESHOLDS.CHANGE_POINT_MIN_SCORE_SHIFT
+    ) {
+      return undefined;
+    }
+
+    return {
+      period: buckets[best.index].period,
+      start: buckets[best.index].start,
+      scoreBefore,
+      scoreAfter,
+    };
+  }
+
+  /**
+   * Gets the UTC start of the week (Monday) or month containing a date
+   * @param date Commit date
+   * @param interval Bucket size
+   * @returns Period start
+   */
+  private getPeriodStart(date: Date, interval: TimeSeriesInterval): Date {
+    if (interval === TimeSeriesInterval.MONTH) {
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    }
+
+    const dayStart = Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+    );
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return new Date(dayStart - daysSinceMonday * DAY_MS);
+  }
+
+  /**
+   * Formats a period start as a label
+   * @param start Period start
+   * @param interval Bucket size
+   * @returns "YYYY-MM" for months, ISO week "YYYY-Www" for weeks
+   */
+  private formatPeriod(start: Date, interval: TimeSeriesInterval): string {
+    const year = start.getUTCFullYear();
+    if (interval === TimeSeriesInterval.MONTH) {
+      return `${year}-${String(start.getUTCMonth() + 1).padStart(2, '0')}`;
+    }
+
+    // The ISO week belongs to the year of its Thursday
+    const thursday = new Date(start.getTime() + 3 * DAY_MS);
+    const isoYear = thursday.getUTCFullYear();
+    const week =
+      Math.floor(
+        (thursday.getTime() - Date.UTC(isoYear, 0, 1)) / (7 * DAY_MS),
+      ) + 1;
+    return `${isoYear}-W${String(week).padStart(2, '0')}`;
+  }
+
+  /**
+   * Calculates the raw values of the attributable commit-based plugins
+   */
+  private calculateAttributableValues(
+    commits: CommitInfo[],
+    plugins: MetricPlugin[],
+  ): MetricValues {
+    return this.metricRegistry.calculateCommitMetrics(
+      commits,
+      plugins.filter(
+        (plugin): plugin is CommitMetricPlugin =>
+          plugin.kind === 'commit' && plugin.attributable,
+      ),
+    );
+  }
+
+  /**
+   * Reduces raw plugin values to their numeric form
+   */
+  private toNumbers(values: MetricValues): CommitIndicatorValues {
+    return Object.fromEntries(
+      Object.entries(values).map(([id, value]) => [
+        id,
+        this.metricRegistry.get(id)!.toNumber(value),
+      ]),
+    );
+  }
+
+  /**
+   * Groups commits by a key, preserving commit order within each group
+   */
+  private groupBy<K>(
+    commits: CommitInfo[],
+    getKey: (commit: CommitInfo) => K,
+  ): Map<K, CommitInfo[]> {
+    const groups = new Map<K, CommitInfo[]>();
+    commits.forEach((commit) => {
+      const key = getKey(commit);
+      const group = groups.get(key);
+      if (group) {
+        group.push(commit);
+      } else {
+        groups.set(key, [commit]);
+      }
+    });
+    return groups;
+  }
+
+  /**
+   * Rounds to 2 decimal places
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,165 @@
+import { DiscoveryService } from '@nestjs/core';
+import { CommitInfo } from '../git.service';
+import {
+  AIIndicatorName,
+  FindingSeverity,
+  IndicatorFinding,
+  MetricThreshold,
+  MetricUnit,
+} from '../../routes/dto/analyze-response.dto';
+import { FileAnalyzer } from './ai-indicators/file-system-scanner.service';
+import { METRIC_THRESHOLDS } from './metric-thresholds.constants';
+
+/**
+ * Fields shared by every metric plugin
+ */
+interface MetricPluginBase<T> {
+  /** Key of the indicator in the response and in score weights */
+  readonly id: AIIndicatorName;
+  readonly label: string;
+  /** Compact label for table columns and chart legends */
+  readonly shortLabel: string;
+  readonly unit: MetricUnit;
+  /** Value at which the indicator counts as an AI signal; omit when the plugin computes its own signal */
+  readonly threshold?: MetricThreshold;
+  readonly description: string;
+  /** Weight of the indicator in the AI likelihood score */
+  readonly defaultWeight: number;
+
+  /**
+   * Reduces a value to the number compared against the threshold and
+   * reported in per-contributor and per-period breakdowns
+   * @param value Calculated value
+   * @returns Numeric value
+   */
+  toNumber(value: T): number;
+
+  /**
+   * Maps a value to an AI signal, for plugins without a threshold
+   * @param value Calculated value
+   * @returns Signal between 0 and 1
+   */
+  signal?(value: T): number;
+
+  /**
+   * Formats a value for reports (default: the numeric value, with "%" for percentages)
+   * @param value Calculated value
+   * @returns Display text
+   */
+  format?(value: T): string;
+}
+
+/**
+ * Indicator calculated from the commit history
+ */
+export interface CommitMetricPlugin<T = unknown> extends MetricPluginBase<T> {
+  readonly kind: 'commit';
+  /** Whether the indicator can be recomputed for a subset of commits (per contributor and per period) */
+  readonly attributable: boolean;
+
+  /**
+   * Calculates the indicator
+   * @param commits Array of commit information
+   * @returns Indicator value
+   */
+  calculate(commits: CommitInfo[]): T;
+
+  /**
+   * Lists the commits behind the indicator; omit for indicators that only
+   * have an aggregate value
+   * @param commits Array of commit information
+   * @returns Findings locating individual commits
+   */
+  calculateFindings?(commits: CommitInfo[]): IndicatorFinding[];
+}
+
+/**
+ * Indicator calculated from the source files of the working tree
+ */
+export interface FileMetricPlugin<T = unknown> extends MetricPluginBase<T> {
+  readonly kind: 'file';
+  /** Analyzer fed by the file system scan */
+  readonly analyzer: FileAnalyzer;
+  /** Baselines of the languages whose code differs from the overall threshold, keyed by language name */
+  readonly languageThresholds?: Record<string, number>;
+
+  /**
+   * Gets the indicator once the scan has finished
+   * @returns Indicator value
+   */
+  getResult(): T;
+
+  /**
+   * Gets the indicator for each language once the scan has finished;
+   * omit for indicators that cannot be split by language
+   * @returns Indicator values keyed by language name
+   */
+  getLanguageResults?(): Record<string, T>;
+
+  /**
+   * Lists the files behind the indicator once the scan has finished; omit
+   * for indicators that only have an aggregate value
+   * @returns Findings locating individual files, by the path given to the analyzer
+   */
+  getFindings?(): IndicatorFinding[];
+}
+
+export type MetricPlugin = CommitMetricPlugin | FileMetricPlugin;
+
+/**
+ * Gets the threshold a file-based plugin applies to a language: its baseline
+ * where the plugin declares one, and the overall threshold otherwise
+ * @param plugin File-based metric plugin
+ * @param language Language name
+ * @returns Threshold, or undefined for plugins without a threshold
+ */
+export function getLanguageThreshold(
+  plugin: FileMetricPlugin,
+  language: string,
+): MetricThreshold | undefined {
+  const baseline = plugin.languageThresholds?.[language];
+  return plugin.threshold && baseline !== undefined
+    ? { ...plugin.threshold, value: baseline }
+    : plugin.threshold;
+}
+
+/**
+ * Checks whether a numeric indicator value is beyond its threshold, on the AI side
+ * @param value Numeric indicator value
+ * @param threshold Indicator threshold
+ * @returns True when the value suggests AI assistance; false without a threshold
+ */
+export function exceedsThreshold(
+  value: number,
+  threshold?: MetricThreshold,
+): boolean {
+  if (!threshold) {
+    return false;
+  }
+  return threshold.direction === 'above'
+    ? value > threshold.value
+    : value < threshold.value;
+}
+
+/**
+ * Grades a commit or file by how far its own value goes beyond a threshold
+ * (values above it suggest AI assistance)
+ * @param value Value of the commit or file
+ * @param threshold Threshold the value is compared against
+ * @returns "error" from FINDING_ERROR_MULTIPLIER times the threshold, "warning" beyond it, "note" otherwise
+ */
+export function getFindingSeverity(
+  value: number,
+  threshold: number,
+): FindingSeverity {
+  if (value >= threshold * METRIC_THRESHOLDS.FINDING_ERROR_MULTIPLIER) {
+    return 'error';
+  }
+  return value > threshold ? 'warning' : 'note';
+}
+
+/**
+ * Registers a provider as a metric plugin. Decorated providers are picked up
+ * by MetricRegistryService in the order they are listed in their module.
+ */
+export const Metric = DiscoveryService.createDecorator();
@@ -0,0 +1,152 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { MetricRegistryService } from './metric-registry.service';
+import { CommitMetricPlugin, Metric } from './metric-plugin';
+import { AnalysisModule } from '../analysis.module';
+import { CommitInfo } from '../git.service';
+
+@Injectable()
+@Metric()
+class MergeCommitMetric implements CommitMetricPlugin<number> {
+  readonly kind = 'commit';
+  readonly id = 'mergeCommitPercentage';
+  readonly label = 'Merge Commits %';
+  readonly shortLabel = 'Merges %';
+  readonly unit = 'percent';
+  readonly threshold = { value: 40, direction: 'above' } as const;
+  readonly defaultWeight = 1;
+  readonly attributable = true;
+  readonly description = 'Percentage of merge commits.';
+
+  calculate(commits: CommitInfo[]): number {
+    const merges = commits.filter((commit) =>
+      commit.message.startsWith('Merge'),
+    );
+    return commits.length > 0 ? (merges.length / commits.length) * 100 : 0;
+  }
+
+  toNumber(value: number): number {
+    return value;
+  }
+}
+
+describe('MetricRegistryService', () => {
+  let registry: MetricRegistryService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AnalysisModule],
+    }).compile();
+    await module.init();
+
+    registry = module.get<MetricRegistryService>(MetricRegistryService);
+  });
+
+  it('should discover the built-in plugins in module order', () => {
+    expect(registry.getAll().map((plugin) => plugin.id)).toEqual([
+      'avgLinesPerCommit',
+      'largeCommitPercentage',
+      'firstCommitAnalysis',
+      'avgFilesPerCommit',
+      'commitMessagePatterns',
+      'burstyCommitPercentage',
+      'typingSpeed',
+      'testFileRatio',
+      'codeCommentRatio',
+      'codeNonTypicalExpressionRatio',
+      'aiToolSignatures',
+    ]);
+  });
+
+  it('should split plugins by kind and attribution', () => {
+    expect(registry.getFileMetrics().map((plugin) => plugin.id)).toEqual([
+      'codeCommentRatio',
+      'codeNonTypicalExpressionRatio',
+    ]);
+    expect(
+      registry.getAttributableMetrics().map((plugin) => plugin.id),
+    ).not.toContain('firstCommitAnalysis');
+    expect(registry.getCommitMetrics()).toHaveLength(9);
+  });
+
+  it('should describe values with their plugin metadata', () => {
+    const indicators = registry.toIndicators({
+      testFileRatio: 12.5,
+      aiToolSignatures: {
+        commitPercentage: 20,
+        authorPercentage: 50,
+        tools: [{ tool: 'Copilot', commits: 2, authors: 1 }],
+      },
+      unknownMetric: 1,
+    });
+
+    expect(Object.keys(indicators)).toEqual([
+      'testFileRatio',
+      'aiToolSignatures',
+    ]);
+    expect(indicators.testFileRatio).toEqual({
+      value: 12.5,
+      label: 'Test File Ratio %',
+      shortLabel: 'Tests %',
+      unit: 'percent',
+      formattedValue: '12.5%',
+      threshold: { value: 20, direction: 'below' },
+      description: expect.stringContaining('test files'),
+    });
+    expect(indicators.aiToolSignatures.formattedValue).toBe(
+      '20% of commits, 50% of authors\nDetected: Copilot (2)',
+    );
+  });
+
+  it('should resolve the plugins enabled by a configuration', () => {
+    const plugins = registry.resolvePlugins({
+      thresholds: { codeCommentRatio: 50 },
+      disabledIndicators: ['firstCommitAnalysis'],
+    });
+
+    expect(plugins.map((plugin) => plugin.id)).not.toContain(
+      'firstCommitAnalysis',
+    );
+    const commentRatio = plugins.find(
+      (plugin) => plugin.id === 'codeCommentRatio',
+    )!;
+    expect(commentRatio.threshold).toEqual({ value: 50, direction: 'above' });
+    expect(commentRatio.kind === 'file' && commentRatio.getResult()).toBe(0);
+    // An overridden threshold applies to every language
+    expect(
+      commentRatio.kind === 'file' && commentRatio.languageThresholds,
+    ).toBeUndefined();
+    expect(registry.get('codeCommentRatio')!.threshold?.value).not.toBe(50);
+    expect(registry.get('codeCommentRatio')!.description).not.toContain('50%');
+    const indicator = registry.toIndicators(
+      { codeCommentRatio: 60 },
+      plugins,
+    ).codeCommentRatio;
+    expect(indicator.threshold).toEqual({ value: 50, direction: 'above' });
+    expect(indicator.description).toContain('High values (>50%)');
+  });
+
+  it('should reject duplicate plugin IDs', () => {
+    expect(() => registry.register(new MergeCommitMetric())).not.toThrow();
+    expect(() => registry.register(new MergeCommitMetric())).toThrow(
+      'Metric plugin already registered: mergeCommitPercentage',
+    );
+  });
+
+  it('should discover any provider decorated with @Metric()', async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [MetricRegistryService, MergeCommitMetric],
+    }).compile();
+    await module.init();
+
+    const customRegistry = module.get(MetricRegistryService);
+    expect(
+      customRegistry.calculateCommitMetrics([
+        { message: 'Merge branch main' },
+        { message: 'Fix typo' },
+      ] as CommitInfo[]),
+    ).toEqual({ mergeCommitPercentage: 50 });
+  });
+});
@@ -0,0 +1,202 @@
+import { Injectable, OnModuleInit, Optional } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { CommitInfo } from '../git.service';
+import {
+  AIIndicatorName,
+  AIIndicators,
+  AppliedConfig,
+  IndicatorFinding,
+} from '../../routes/dto/analyze-response.dto';
+import {
+  CommitMetricPlugin,
+  FileMetricPlugin,
+  Metric,
+  MetricPlugin,
+} from './metric-plugin';
+
+/**
+ * Calculated metric values keyed by plugin ID
+ */
+export type MetricValues = Record<AIIndicatorName, unknown>;
+
+@Injectable()
+export class MetricRegistryService implements OnModuleInit {
+  private readonly plugins = new Map<AIIndicatorName, MetricPlugin>();
+
+  constructor(
+    @Optional() private readonly discoveryService?: DiscoveryService,
+  ) {}
+
+  /**
+   * Registers every provider decorated with @Metric()
+   */
+  onModuleInit(): void {
+    this.discoveryService
+      ?.getProviders({ metadataKey: Metric.KEY })
+      .forEach((wrapper) => this.register(wrapper.instance as MetricPlugin));
+  }
+
+  /**
+   * Adds metric plugins, for wiring without Nest DI
+   * @param plugins Metric plugins, in display order
+   * @throws Error if a plugin ID is already registered
+   */
+  register(...plugins: MetricPlugin[]): void {
+    plugins.forEach((plugin) => {
+      if (this.plugins.has(plugin.id)) {
+        throw new Error(`Metric plugin already registered: ${plugin.id}`);
+      }
+      this.plugins.set(plugin.id, plugin);
+    });
+  }
+
+  /**
+   * Gets all registered plugins in registration order
+   */
+  getAll(): MetricPlugin[] {
+    return [...this.plugins.values()];
+  }
+
+  /**
+   * Gets a plugin by ID
+   * @param id Plugin ID
+   * @returns Plugin, or undefined for unknown IDs
+   */
+  get(id: AIIndicatorName): MetricPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  /**
+   * Gets the plugins enabled by a project configuration, with its threshold
+   * overrides applied. An overridden threshold also replaces the language
+   * baselines of the plugin. The registered plugins are left unchanged.
+   * @param config Validated project configuration (default: all plugins as registered)
+   * @returns Enabled plugins in registration order
+   */
+  resolvePlugins(
+    config?: Pick<AppliedConfig, 'thresholds' | 'disabledIndicators'>,
+  ): MetricPlugin[] {
+    const plugins = this.getAll();
+    if (!config) {
+      return plugins;
+    }
+
+    return plugins
+      .filter((plugin) => !config.disabledIndicators.includes(plugin.id))
+      .map((plugin) => {
+        const value = config.thresholds[plugin.id];
+        if (value === undefined || !plugin.threshold) {
+          return plugin;
+        }
+
+        // Inherit from the plugin so its methods keep working on its own state
+        return Object.create(plugin, {
+          threshold: {
+            value: { ...plugin.threshold, value },
+            enumerable: true,
+          },
+          ...(plugin.kind === 'file' && {
+            languageThresholds: { value: undefined, enumerable: true },
+          }),
+        }) as MetricPlugin;
+      });
+  }
+
+  /**
+   * Gets the plugins calculated from the commit history
+   */
+  getCommitMetrics(): CommitMetricPlugin[] {
+    return this.getAll().filter(
+      (plugin): plugin is CommitMetricPlugin => plugin.kind === 'commit',
+    );
+  }
+
+  /**
+   * Gets the commit-based plugins that can be recomputed per contributor and per period
+   */
+  getAttributableMetrics(): CommitMetricPlugin[] {
+    return this.getCommitMetrics().filter((plugin) => plugin.attributable);
+  }
+
+  /**
+   * Gets the plugins calculated from the source files
+   */
+  getFileMetrics(): FileMetricPlugin[] {
+    return this.getAll().filter(
+      (plugin): plugin is FileMetricPlugin => plugin.kind === 'file',
+    );
+  }
+
+  /**
+   * Calculates every commit-based metric
+   * @param commits Array of commit information
+   * @param plugins Plugins to calculate (default: all commit-based plugins)
+   * @returns Values keyed by plugin ID
+   */
+  calculateCommitMetrics(
+    commits: CommitInfo[],
+    plugins: CommitMetricPlugin[] = this.getCommitMetrics(),
+  ): MetricValues {
+    return Object.fromEntries(
+      plugins.map((plugin) => [plugin.id, plugin.calculate(commits)]),
+    );
+  }
+
+  /**
+   * Lists the commits behind the commit-based metrics that report individual commits
+   * @param commits Array of commit information
+   * @param plugins Plugins to consult (default: all commit-based plugins)
+   * @returns Findings in plugin order
+   */
+  calculateCommitFindings(
+    commits: CommitInfo[],
+    plugins: CommitMetricPlugin[] = this.getCommitMetrics(),
+  ): IndicatorFinding[] {
+    return plugins.flatMap(
+      (plugin) => plugin.calculateFindings?.(commits) ?? [],
+    );
+  }
+
+  /**
+   * Describes calculated values with the metadata of their plugins
+   * @param values Values keyed by plugin ID (unknown IDs are ignored)
+   * @param plugins Plugins describing the values (default: all registered plugins)
+   * @returns AI indicators in registration order
+   */
+  toIndicators(
+    values: MetricValues,
+    plugins: MetricPlugin[] = this.getAll(),
+  ): AIIndicators {
+    return Object.fromEntries(
+      plugins
+        .filter((plugin) => plugin.id in values)
+        .map((plugin) => {
+          const value = values[plugin.id];
+          return [
+            plugin.id,
+            {
+              value,
+              label: plugin.label,
+              shortLabel: plugin.shortLabel,
+              unit: plugin.unit,
+              formattedValue: this.formatValue(plugin, value),
+              ...(plugin.threshold && { threshold: plugin.threshold }),
+              description: plugin.description,
+            },
+          ];
+        }),
+    );
+  }
+
+  /**
+   * Formats a value of a plugin for reports
+   * @param plugin Metric plugin that calculated the value
+   * @param value Calculated value
+   * @returns Display text (default: the numeric value, with "%" for percentages)
+   */
+  formatValue(plugin: MetricPlugin, value: unknown): string {
+    return plugin.format
+      ? plugin.format(value)
+      : `${plugin.toNumber(value)}${plugin.unit === 'percent' ? '%' : ''}`;
+  }
+}
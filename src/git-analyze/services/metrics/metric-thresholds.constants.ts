@@ -1,3 +1,5 @@
+import { LANGUAGE_NAMES } from './ai-indicators/language-utils';
+
 /**
  * Configuration constants for AI indicator metrics
  * These values are used in calculations and descriptions
@@ -8,53 +10,83 @@ export const METRIC_THRESHOLDS = {
   LARGE_COMMIT_LINES: 500, // Lines threshold for large commits
   LARGE_COMMIT_STD_DEV_MULTIPLIER: 2, // Standard deviations above mean for large commits
   AVG_LINES_HIGH_THRESHOLD: 100, // Lines per commit suggesting AI assistance
+  HIGH_LARGE_COMMIT_PERCENTAGE: 10, // Percentage of large commits suggesting AI assistance
+  AVG_FILES_HIGH_THRESHOLD: 10, // Files per commit suggesting AI assistance
 
   // First Commit Analysis
   FIRST_COMMIT_SINGLE_THRESHOLD: 500, // Lines threshold for single commit repos
   FIRST_COMMIT_ABSOLUTE_THRESHOLD: 1000, // Absolute lines threshold for suspicious first commit
   FIRST_COMMIT_MULTIPLIER: 3, // Multiple of average for suspicious first commit
 
+  // Commit Message Patterns
+  HIGH_COMMIT_MESSAGE_PATTERN_PERCENTAGE: 50, // Percentage of templated messages suggesting AI assistance
+
   // Git Timing Metrics
   BURST_WINDOW_MINUTES: 5, // Minutes window for bursty commits
+  HIGH_BURSTY_COMMIT_PERCENTAGE: 30, // Percentage of bursty commits suggesting AI assistance
+
+  // Typing Speed
+  HUMAN_LINES_PER_MINUTE: 20, // Lines added per minute beyond a plausible human rate
+  TYPING_SPEED_MIN_LINES: 50, // Lines a commit must add before its speed is judged
+  TYPING_SPEED_MAX_GAP_MINUTES: 120, // Minutes after which the time since the previous commit no longer measures writing time
+  HIGH_FAST_COMMIT_PERCENTAGE: 10, // Percentage of commits added faster than a human suggesting AI assistance
+  TYPING_SPEED_REPORTED_COMMITS: 5, // Fastest commits listed with the indicator
 
   // Test File Ratio
   LOW_TEST_COVERAGE_THRESHOLD: 20, // Percentage threshold for low test coverage
 
   // Code Comment Ratio
   HIGH_COMMENT_RATIO_THRESHOLD: 30, // Percentage threshold for excessive comments
+  COMMENT_DENSITY_MIN_CODE_LINES: 10, // Code lines a file needs before its own comment ratio is reported
 
   // Non-Typical Expressions
   HIGH_NON_TYPICAL_EXPRESSION_THRESHOLD: 30, // Percentage threshold for non-typical code patterns
-} as const;
-
-/**
- * Metric descriptions with threshold interpolation
- */
-export const METRIC_DESCRIPTIONS = {
-  avgLinesPerCommit: () =>
-    `Average lines changed per commit. High values (>${METRIC_THRESHOLDS.AVG_LINES_HIGH_THRESHOLD}) may indicate AI-assisted bulk changes.`,
 
-  largeCommitPercentage: () =>
-    `Percentage of commits with >${METRIC_THRESHOLDS.LARGE_COMMIT_LINES} lines changed. High values may suggest AI-generated code dumps.`,
+  // AI Tool Signatures
+  HIGH_AI_SIGNATURE_COMMIT_PERCENTAGE: 5, // Percentage of commits signed by AI tools suggesting AI assistance
 
-  firstCommitAnalysis: () =>
-    `Size and suspicion level of the first commit. Large first commits (>${METRIC_THRESHOLDS.FIRST_COMMIT_MULTIPLIER}x average or >${METRIC_THRESHOLDS.FIRST_COMMIT_ABSOLUTE_THRESHOLD} lines) may indicate AI-generated project scaffolding.`,
+  // Findings
+  FINDING_ERROR_MULTIPLIER: 2, // Multiple of its threshold at which a commit or file is reported as an error
 
-  avgFilesPerCommit: () =>
-    `Average number of files changed per commit. Very high values may indicate automated refactoring or AI assistance.`,
+  // AI Likelihood Score
+  SCORE_HIGH_CONFIDENCE_MIN_COMMITS: 100, // Commits needed for a high-confidence score
+  SCORE_MEDIUM_CONFIDENCE_MIN_COMMITS: 20, // Commits needed for a medium-confidence score
 
-  commitMessagePatterns: () =>
-    `Percentage of commits with AI-like message patterns (e.g., "Add:", "Update:", "Fix:"). High values suggest automated or templated commits.`,
-
-  burstyCommitPercentage: () =>
-    `Percentage of commits made within ${METRIC_THRESHOLDS.BURST_WINDOW_MINUTES} minutes of the previous commit. High values may indicate rapid AI-assisted development.`,
+  // Time Series
+  CHANGE_POINT_MIN_SCORE_SHIFT: 15, // AI score points between period means to report a change point
+  CHANGE_POINT_MIN_SEGMENT_PERIODS: 2, // Periods required on each side of a change point
+} as const;
 
-  testFileRatio: () =>
-    `Percentage of commits that modify test files. Low values (<${METRIC_THRESHOLDS.LOW_TEST_COVERAGE_THRESHOLD}%) might suggest AI-generated code without proper test coverage.`,
+/**
+ * Baselines of the file-based indicators for languages whose idioms differ
+ * from the overall thresholds, keyed by language name
+ */
+export const LANGUAGE_THRESHOLDS = {
+  // Doc comments on every public declaration are the norm (Javadoc, XML docs, godoc, rustdoc)
+  CODE_COMMENT_RATIO: {
+    [LANGUAGE_NAMES.JAVA]: 40,
+    [LANGUAGE_NAMES.CSHARP]: 40,
+    [LANGUAGE_NAMES.GO]: 40,
+    [LANGUAGE_NAMES.RUST]: 40,
+  },
 
-  codeCommentRatio: () =>
-    `Percentage of comment lines relative to code lines. High values (>${METRIC_THRESHOLDS.HIGH_COMMENT_RATIO_THRESHOLD}%) may indicate AI-generated code with excessive explanatory comments.`,
+  // Without map/filter in the standard library, C-family and Go code loops and switches imperatively
+  NON_TYPICAL_EXPRESSION: {
+    [LANGUAGE_NAMES.C]: 70,
+    [LANGUAGE_NAMES.GO]: 70,
+    [LANGUAGE_NAMES.CPP]: 60,
+    [LANGUAGE_NAMES.JAVA]: 50,
+    [LANGUAGE_NAMES.CSHARP]: 50,
+    [LANGUAGE_NAMES.PHP]: 50,
+    [LANGUAGE_NAMES.KOTLIN]: 40,
+  },
+} as const;
 
-  codeNonTypicalExpressionRatio: () =>
-    `Percentage of files containing non-typical expressions (for/while loops, switch statements). High values (>${METRIC_THRESHOLDS.HIGH_NON_TYPICAL_EXPRESSION_THRESHOLD}%) may suggest AI-generated code using outdated patterns instead of modern declarative approaches.`,
+/**
+ * Descriptions of derived metrics with threshold interpolation.
+ * Indicator descriptions are declared by their metric plugins.
+ */
+export const METRIC_DESCRIPTIONS = {
+  aiScore: () =>
+    `Weighted 0-100 combination of all AI indicators, each normalized against its threshold (an indicator exactly at its threshold contributes half its weight). Higher values suggest more AI-assisted development.`,
 } as const;
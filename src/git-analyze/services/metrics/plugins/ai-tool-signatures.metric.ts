@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import { AIToolSignatureAnalysis } from '../../../routes/dto/analyze-response.dto';
+import { CommitMetricPlugin, Metric } from '../metric-plugin';
+import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
+import { GitSignaturesService } from '../ai-indicators/git-signatures.service';
+
+@Injectable()
+@Metric()
+export class AIToolSignaturesMetric
+  implements CommitMetricPlugin<AIToolSignatureAnalysis>
+{
+  readonly kind = 'commit';
+  readonly id = 'aiToolSignatures';
+  readonly label = 'AI Tool Signatures %';
+  readonly shortLabel = 'AI Signed %';
+  readonly unit = 'percent';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.HIGH_AI_SIGNATURE_COMMIT_PERCENTAGE,
+    direction: 'above',
+  } as const;
+  readonly defaultWeight = 2;
+  readonly attributable = true;
+
+  get description(): string {
+    return `Share of commits and authors carrying signatures of known AI coding tools (agent authors, Co-authored-by trailers, "Generated with" footers, agent branch names). Any value is direct evidence of AI assistance; >${this.threshold.value}% of commits indicates routine use.`;
+  }
+
+  constructor(private readonly gitSignaturesService: GitSignaturesService) {}
+
+  calculate(commits: CommitInfo[]): AIToolSignatureAnalysis {
+    return this.gitSignaturesService.analyzeToolSignatures(commits);
+  }
+
+  toNumber(value: AIToolSignatureAnalysis): number {
+    return value.commitPercentage;
+  }
+
+  format(value: AIToolSignatureAnalysis): string {
+    const detectedTools = value.tools
+      .map(({ tool, commits }) => `${tool} (${commits})`)
+      .join(', ');
+
+    return `${value.commitPercentage}% of commits, ${value.authorPercentage}% of authors${detectedTools ? `\nDetected: ${detectedTools}` : ''}`;
+  }
+}
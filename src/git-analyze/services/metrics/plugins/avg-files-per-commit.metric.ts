@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import { CommitMetricPlugin, Metric } from '../metric-plugin';
+import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
+import { GitSizeService } from '../ai-indicators/git-size.service';
+
+@Injectable()
+@Metric()
+export class AvgFilesPerCommitMetric implements CommitMetricPlugin<number> {
+  readonly kind = 'commit';
+  readonly id = 'avgFilesPerCommit';
+  readonly label = 'Avg Files/Commit';
+  readonly shortLabel = 'Avg Files';
+  readonly unit = 'files';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.AVG_FILES_HIGH_THRESHOLD,
+    direction: 'above',
+  } as const;
+  readonly defaultWeight = 0.5;
+  readonly attributable = true;
+  readonly description =
+    'Average number of files changed per commit. Very high values may indicate automated refactoring or AI assistance.';
+
+  constructor(private readonly gitSizeService: GitSizeService) {}
+
+  calculate(commits: CommitInfo[]): number {
+    return this.gitSizeService.calculateAvgFilesPerCommit(commits);
+  }
+
+  toNumber(value: number): number {
+    return value;
+  }
+}
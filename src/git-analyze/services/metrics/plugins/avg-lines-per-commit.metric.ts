@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import { CommitMetricPlugin, Metric } from '../metric-plugin';
+import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
+import { GitSizeService } from '../ai-indicators/git-size.service';
+
+@Injectable()
+@Metric()
+export class AvgLinesPerCommitMetric implements CommitMetricPlugin<number> {
+  readonly kind = 'commit';
+  readonly id = 'avgLinesPerCommit';
+  readonly label = 'Avg Lines/Commit';
+  readonly shortLabel = 'Avg Lines';
+  readonly unit = 'lines';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.AVG_LINES_HIGH_THRESHOLD,
+    direction: 'above',
+  } as const;
+  readonly defaultWeight = 1;
+  readonly attributable = true;
+
+  get description(): string {
+    return `Average lines changed per commit. High values (>${this.threshold.value}) may indicate AI-assisted bulk changes.`;
+  }
+
+  constructor(private readonly gitSizeService: GitSizeService) {}
+
+  calculate(commits: CommitInfo[]): number {
+    return this.gitSizeService.calculateAvgLinesPerCommit(commits);
+  }
+
+  toNumber(value: number): number {
+    return value;
+  }
+}
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import { CommitMetricPlugin, Metric } from '../metric-plugin';
+import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
+import { GitTimingService } from '../ai-indicators/git-timing.service';
+
+@Injectable()
+@Metric()
+export class BurstyCommitPercentageMetric
+  implements CommitMetricPlugin<number>
+{
+  readonly kind = 'commit';
+  readonly id = 'burstyCommitPercentage';
+  readonly label = 'Bursty Commits %';
+  readonly shortLabel = 'Bursty %';
+  readonly unit = 'percent';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.HIGH_BURSTY_COMMIT_PERCENTAGE,
+    direction: 'above',
+  } as const;
+  readonly defaultWeight = 1;
+  readonly attributable = true;
+  readonly description = `Percentage of commits made within ${METRIC_THRESHOLDS.BURST_WINDOW_MINUTES} minutes of the previous commit. High values may indicate rapid AI-assisted development.`;
+
+  constructor(private readonly gitTimingService: GitTimingService) {}
+
+  calculate(commits: CommitInfo[]): number {
+    return this.gitTimingService.analyzeBurstyCommits(commits);
+  }
+
+  toNumber(value: number): number {
+    return value;
+  }
+}
@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { IndicatorFinding } from '../../../routes/dto/analyze-response.dto';
+import {
+  FileMetricPlugin,
+  getFindingSeverity,
+  getLanguageThreshold,
+  Metric,
+} from '../metric-plugin';
+import {
+  LANGUAGE_THRESHOLDS,
+  METRIC_THRESHOLDS,
+} from '../metric-thresholds.constants';
+import { CodeCommentAnalysisService } from '../ai-indicators/code-comment-analysis.service';
+
+@Injectable()
+@Metric()
+export class CodeCommentRatioMetric implements FileMetricPlugin<number> {
+  readonly kind = 'file';
+  readonly id = 'codeCommentRatio';
+  readonly label = 'Code Comment Ratio %';
+  readonly shortLabel = 'Comments %';
+  readonly unit = 'percent';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.HIGH_COMMENT_RATIO_THRESHOLD,
+    direction: 'above',
+  } as const;
+  readonly languageThresholds = LANGUAGE_THRESHOLDS.CODE_COMMENT_RATIO;
+  readonly defaultWeight = 1.5;
+
+  get description(): string {
+    return `Percentage of comment lines relative to code lines. High values (>${this.threshold.value}%) may indicate AI-generated code with excessive explanatory comments.`;
+  }
+
+  constructor(readonly analyzer: CodeCommentAnalysisService) {}
+
+  getResult(): number {
+    return this.analyzer.getResult();
+  }
+
+  getLanguageResults(): Record<string, number> {
+    return this.analyzer.getLanguageResults();
+  }
+
+  /**
+   * Lists the files whose own comment ratio is beyond the threshold of their
+   * language; files with few code lines are left out
+   */
+  getFindings(): IndicatorFinding[] {
+    return this.analyzer.getFileResults().flatMap((file) => {
+      const threshold = getLanguageThreshold(this, file.language)!.value;
+      if (
+        file.codeLines < METRIC_THRESHOLDS.COMMENT_DENSITY_MIN_CODE_LINES ||
+        file.ratio <= threshold
+      ) {
+        return [];
+      }
+      return [
+        {
+          indicator: this.id,
+          severity: getFindingSeverity(file.ratio, threshold),
+          message: `${file.commentLines} comment lines for ${file.codeLines} code lines (${file.ratio}%, ${file.language} threshold ${threshold}%)`,
+          file: file.filePath,
+        },
+      ];
+    });
+  }
+
+  toNumber(value: number): number {
+    return value;
+  }
+}
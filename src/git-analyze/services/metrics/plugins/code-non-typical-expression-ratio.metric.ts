@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { IndicatorFinding } from '../../../routes/dto/analyze-response.dto';
+import {
+  FileMetricPlugin,
+  getLanguageThreshold,
+  Metric,
+} from '../metric-plugin';
+import {
+  LANGUAGE_THRESHOLDS,
+  METRIC_THRESHOLDS,
+} from '../metric-thresholds.constants';
+import { CodeNonTypicalExpressionsService } from '../ai-indicators/code-non-typical-expressions.service';
+
+@Injectable()
+@Metric()
+export class CodeNonTypicalExpressionRatioMetric
+  implements FileMetricPlugin<number>
+{
+  readonly kind = 'file';
+  readonly id = 'codeNonTypicalExpressionRatio';
+  readonly label = 'Non-typical Expr. %';
+  readonly shortLabel = 'Non-typical %';
+  readonly unit = 'percent';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.HIGH_NON_TYPICAL_EXPRESSION_THRESHOLD,
+    direction: 'above',
+  } as const;
+  readonly languageThresholds = LANGUAGE_THRESHOLDS.NON_TYPICAL_EXPRESSION;
+  readonly defaultWeight = 1;
+
+  get description(): string {
+    return `Percentage of files containing non-typical expressions (for/while loops, switch statements). High values (>${this.threshold.value}%) may suggest AI-generated code using outdated patterns instead of modern declarative approaches.`;
+  }
+
+  constructor(readonly analyzer: CodeNonTypicalExpressionsService) {}
+
+  getResult(): number {
+    return this.analyzer.getResult();
+  }
+
+  getLanguageResults(): Record<string, number> {
+    return this.analyzer.getLanguageResults();
+  }
+
+  /**
+   * Lists the files containing non-typical expressions. A single file has
+   * no ratio of its own, so they are warnings when their language is beyond
+   * its threshold, and notes otherwise.
+   */
+  getFindings(): IndicatorFinding[] {
+    const languageResults = this.analyzer.getLanguageResults();
+    return this.analyzer.getFileResults().map((file) => {
+      const threshold = getLanguageThreshold(this, file.language)!.value;
+      return {
+        indicator: this.id,
+        severity:
+          languageResults[file.language] > threshold ? 'warning' : 'note',
+        message: `${file.expressions} ${file.expressions === 1 ? 'loop or switch statement' : 'loops and switch statements'} (${file.language} files with them: ${languageResults[file.language]}%, threshold ${threshold}%)`,
+        file: file.filePath,
+        line: file.line,
+      };
+    });
+  }
+
+  toNumber(value: number): number {
+    return value;
+  }
+}
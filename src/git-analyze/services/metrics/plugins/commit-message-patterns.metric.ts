@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import { CommitMetricPlugin, Metric } from '../metric-plugin';
+import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
+import { GitMessagesService } from '../ai-indicators/git-messages.service';
+
+@Injectable()
+@Metric()
+export class CommitMessagePatternsMetric implements CommitMetricPlugin<number> {
+  readonly kind = 'commit';
+  readonly id = 'commitMessagePatterns';
+  readonly label = 'Commit Msg Patterns %';
+  readonly shortLabel = 'Msg Patterns %';
+  readonly unit = 'percent';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.HIGH_COMMIT_MESSAGE_PATTERN_PERCENTAGE,
+    direction: 'above',
+  } as const;
+  readonly defaultWeight = 1;
+  readonly attributable = true;
+  readonly description =
+    'Percentage of commits with AI-like message patterns (e.g., "Add:", "Update:", "Fix:"). High values suggest automated or templated commits.';
+
+  constructor(private readonly gitMessagesService: GitMessagesService) {}
+
+  calculate(commits: CommitInfo[]): number {
+    return this.gitMessagesService.analyzeCommitMessagePatterns(commits);
+  }
+
+  toNumber(value: number): number {
+    return value;
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import { FirstCommitAnalysis } from '../../../routes/dto/analyze-response.dto';
+import { CommitMetricPlugin, Metric } from '../metric-plugin';
+import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
+import { GitSizeService } from '../ai-indicators/git-size.service';
+
+@Injectable()
+@Metric()
+export class FirstCommitAnalysisMetric
+  implements CommitMetricPlugin<FirstCommitAnalysis>
+{
+  readonly kind = 'commit';
+  readonly id = 'firstCommitAnalysis';
+  readonly label = 'First Commit Size';
+  readonly shortLabel = 'First Commit';
+  readonly unit = 'lines';
+  readonly defaultWeight = 0.5;
+  // Only one commit is the first, so the indicator is repository-wide
+  readonly attributable = false;
+  readonly description = `Size and suspicion level of the first commit. Large first commits (>${METRIC_THRESHOLDS.FIRST_COMMIT_MULTIPLIER}x average or >${METRIC_THRESHOLDS.FIRST_COMMIT_ABSOLUTE_THRESHOLD} lines) may indicate AI-generated project scaffolding.`;
+
+  constructor(private readonly gitSizeService: GitSizeService) {}
+
+  calculate(commits: CommitInfo[]): FirstCommitAnalysis {
+    return this.gitSizeService.calculateFirstCommitAnalysis(commits);
+  }
+
+  toNumber(value: FirstCommitAnalysis): number {
+    return value.lines;
+  }
+
+  /**
+   * The threshold depends on the other commits, so the suspicion flag is the signal
+   */
+  signal(value: FirstCommitAnalysis): number {
+    return value.isSuspicious ? 1 : 0;
+  }
+
+  format(value: FirstCommitAnalysis): string {
+    return `${value.lines} lines - ${value.isSuspicious ? '⚠️  Suspicious' : '✓ Normal'}`;
+  }
+}
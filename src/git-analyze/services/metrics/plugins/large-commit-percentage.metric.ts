@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import { IndicatorFinding } from '../../../routes/dto/analyze-response.dto';
+import {
+  CommitMetricPlugin,
+  getFindingSeverity,
+  Metric,
+} from '../metric-plugin';
+import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
+import { GitSizeService } from '../ai-indicators/git-size.service';
+
+@Injectable()
+@Metric()
+export class LargeCommitPercentageMetric implements CommitMetricPlugin<number> {
+  readonly kind = 'commit';
+  readonly id = 'largeCommitPercentage';
+  readonly label = 'Large Commits %';
+  readonly shortLabel = 'Large %';
+  readonly unit = 'percent';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.HIGH_LARGE_COMMIT_PERCENTAGE,
+    direction: 'above',
+  } as const;
+  readonly defaultWeight = 1.5;
+  readonly attributable = true;
+  readonly description = `Percentage of commits with >${METRIC_THRESHOLDS.LARGE_COMMIT_LINES} lines changed. High values may suggest AI-generated code dumps.`;
+
+  constructor(private readonly gitSizeService: GitSizeService) {}
+
+  calculate(commits: CommitInfo[]): number {
+    return this.gitSizeService.calculateLargeCommitPercentage(commits);
+  }
+
+  /**
+   * Lists the large commits, graded against the absolute size threshold;
+   * commits only flagged as statistical outliers are notes
+   */
+  calculateFindings(commits: CommitInfo[]): IndicatorFinding[] {
+    return this.gitSizeService
+      .findLargeCommits(commits)
+      .map(({ commit, lines }) => ({
+        indicator: this.id,
+        severity: getFindingSeverity(
+          lines,
+          METRIC_THRESHOLDS.LARGE_COMMIT_LINES,
+        ),
+        message:
+          lines > METRIC_THRESHOLDS.LARGE_COMMIT_LINES
+            ? `Commit ${commit.hash.slice(0, 7)} changes ${lines} lines (more than ${METRIC_THRESHOLDS.LARGE_COMMIT_LINES}): ${commit.message}`
+            : `Commit ${commit.hash.slice(0, 7)} changes ${lines} lines, more than ${METRIC_THRESHOLDS.LARGE_COMMIT_STD_DEV_MULTIPLIER} standard deviations above the average commit: ${commit.message}`,
+        commit: commit.hash,
+      }));
+  }
+
+  toNumber(value: number): number {
+    return value;
+  }
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import { CommitMetricPlugin, Metric } from '../metric-plugin';
+import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
+import { CodeQualityService } from '../ai-indicators/code-quality.service';
+
+@Injectable()
+@Metric()
+export class TestFileRatioMetric implements CommitMetricPlugin<number> {
+  readonly kind = 'commit';
+  readonly id = 'testFileRatio';
+  readonly label = 'Test File Ratio %';
+  readonly shortLabel = 'Tests %';
+  readonly unit = 'percent';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.LOW_TEST_COVERAGE_THRESHOLD,
+    direction: 'below',
+  } as const;
+  readonly defaultWeight = 1;
+  readonly attributable = true;
+
+  get description(): string {
+    return `Percentage of commits that modify test files. Low values (<${this.threshold.value}%) might suggest AI-generated code without proper test coverage.`;
+  }
+
+  constructor(private readonly codeQualityService: CodeQualityService) {}
+
+  calculate(commits: CommitInfo[]): number {
+    return this.codeQualityService.analyzeTestFileRatio(commits);
+  }
+
+  toNumber(value: number): number {
+    return value;
+  }
+}
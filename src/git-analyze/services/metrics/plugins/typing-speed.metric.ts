@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { CommitInfo } from '../../git.service';
+import {
+  IndicatorFinding,
+  TypingSpeedAnalysis,
+} from '../../../routes/dto/analyze-response.dto';
+import {
+  CommitMetricPlugin,
+  getFindingSeverity,
+  Metric,
+} from '../metric-plugin';
+import { METRIC_THRESHOLDS } from '../metric-thresholds.constants';
+import { GitTimingService } from '../ai-indicators/git-timing.service';
+
+@Injectable()
+@Metric()
+export class TypingSpeedMetric
+  implements CommitMetricPlugin<TypingSpeedAnalysis>
+{
+  readonly kind = 'commit';
+  readonly id = 'typingSpeed';
+  readonly label = 'Superhuman Typing Speed %';
+  readonly shortLabel = 'Fast Typing %';
+  readonly unit = 'percent';
+  readonly threshold = {
+    value: METRIC_THRESHOLDS.HIGH_FAST_COMMIT_PERCENTAGE,
+    direction: 'above',
+  } as const;
+  readonly defaultWeight = 1.5;
+  readonly attributable = true;
+  readonly description = `Percentage of commits adding at least ${METRIC_THRESHOLDS.TYPING_SPEED_MIN_LINES} lines at more than ${METRIC_THRESHOLDS.HUMAN_LINES_PER_MINUTE} lines per minute since the author's previous commit. Merges and gaps over ${METRIC_THRESHOLDS.TYPING_SPEED_MAX_GAP_MINUTES} minutes are not timed. Humans rarely write hundreds of lines in minutes.`;
+
+  constructor(private readonly gitTimingService: GitTimingService) {}
+
+  calculate(commits: CommitInfo[]): TypingSpeedAnalysis {
+    return this.gitTimingService.analyzeTypingSpeed(commits);
+  }
+
+  /**
+   * Lists the commits added faster than a human, fastest first, graded
+   * against the human rate
+   */
+  calculateFindings(commits: CommitInfo[]): IndicatorFinding[] {
+    return this.gitTimingService
+      .findFastCommits(commits)
+      .map(({ commit, minutes, linesPerMinute }) => ({
+        indicator: this.id,
+        severity: getFindingSeverity(
+          linesPerMinute,
+          METRIC_THRESHOLDS.HUMAN_LINES_PER_MINUTE,
+        ),
+        message: `Commit ${commit.hash.slice(0, 7)} by ${commit.author} adds ${commit.insertions} lines ${minutes} minute${minutes === 1 ? '' : 's'} after their previous commit (${linesPerMinute} lines per minute, more than ${METRIC_THRESHOLDS.HUMAN_LINES_PER_MINUTE}): ${commit.message}`,
+        commit: commit.hash,
+      }));
+  }
+
+  toNumber(value: TypingSpeedAnalysis): number {
+    return value.fastCommitPercentage;
+  }
+
+  format(value: TypingSpeedAnalysis): string {
+    const fastestCommits = value.fastestCommits
+      .map(
+        ({ hash, author, linesPerMinute }) =>
+          `${hash.slice(0, 7)} by ${author} (${linesPerMinute} lines/min)`,
+      )
+      .join(', ');
+
+    return `${value.fastCommitPercentage}% of ${value.measuredCommits} timed commits${fastestCommits ? `\nFastest: ${fastestCommits}` : ''}`;
+  }
+}
@@ -0,0 +1,101 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PolicyService } from './policy.service';
+import { AnalysisModule } from './analysis.module';
+import { MetricRegistryService } from './metrics/metric-registry.service';
+import {
+  AIScore,
+  AnalyzeResponseDto,
+} from '../routes/dto/analyze-response.dto';
+
+describe('PolicyService', () => {
+  let service: PolicyService;
+  let result: AnalyzeResponseDto;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AnalysisModule],
+    }).compile();
+    await module.init();
+
+    service = module.get<PolicyService>(PolicyService);
+    const registry = module.get<MetricRegistryService>(MetricRegistryService);
+    result = {
+      metrics: {
+        aiIndicators: registry.toIndicators({
+          largeCommitPercentage: 25,
+          testFileRatio: 30,
+          aiToolSignatures: {
+            commitPercentage: 10,
+            authorPercentage: 50,
+            tools: [],
+          },
+        }),
+        aiScore: { value: 42 } as AIScore,
+      },
+    } as AnalyzeResponseDto;
+  });
+
+  it('should parse comma-separated rules', () => {
+    expect(
+      service.parseRules('largeCommitPercentage>20, testFileRatio <= 12.5'),
+    ).toEqual([
+      { indicator: 'largeCommitPercentage', operator: '>', limit: 20 },
+      { indicator: 'testFileRatio', operator: '<=', limit: 12.5 },
+    ]);
+    expect(service.parseRules(['aiScore>=60'])).toEqual([
+      { indicator: 'aiScore', operator: '>=', limit: 60 },
+    ]);
+  });
+
+  it('should reject malformed rules and unknown indicators', () => {
+    expect(() => service.parseRules('largeCommitPercentage=20')).toThrow(
+      'Invalid policy rule "largeCommitPercentage=20"',
+    );
+    expect(() => service.parseRules('mergeCommits>5')).toThrow(
+      'Unknown indicator in policy rule "mergeCommits>5"',
+    );
+  });
+
+  it('should report the rules crossed by the results', () => {
+    const rules = service.parseRules(
+      'largeCommitPercentage>20,testFileRatio<20,aiToolSignatures>=10,aiScore>50',
+    );
+
+    expect(service.evaluate(result, rules)).toEqual([
+      { rule: rules[0], value: 25, label: 'Large Commits %' },
+      { rule: rules[2], value: 10, label: 'AI Tool Signatures %' },
+    ]);
+  });
+
+  it('should not fail on indicators missing from the results', () => {
+    const rules = service.parseRules('codeCommentRatio>0');
+
+    expect(service.evaluate(result, rules)).toEqual([]);
+  });
+
+  it('should load rules from a policy file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'));
+    try {
+      const policyPath = path.join(dir, 'policy.json');
+      fs.writeFileSync(
+        policyPath,
+        JSON.stringify({ failOn: ['codeCommentRatio>35', 'aiScore>=60'] }),
+      );
+      expect(service.loadPolicyFile(policyPath)).toHaveLength(2);
+
+      fs.writeFileSync(policyPath, JSON.stringify({ failOn: 35 }));
+      expect(() => service.loadPolicyFile(policyPath)).toThrow(
+        '"failOn" must be a rule string or an array of rule strings',
+      );
+
+      expect(() =>
+        service.loadPolicyFile(path.join(dir, 'missing.json')),
+      ).toThrow('Failed to read policy file');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,168 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import {
+  AIIndicatorName,
+  AnalyzeResponseDto,
+} from '../routes/dto/analyze-response.dto';
+import { MetricRegistryService } from './metrics/metric-registry.service';
+
+export type PolicyOperator = '>' | '>=' | '<' | '<=';
+
+/**
+ * Limit on an indicator; the policy is violated when the comparison holds
+ */
+export interface PolicyRule {
+  /** Indicator ID, or "aiScore" for the composite score */
+  indicator: AIIndicatorName;
+  operator: PolicyOperator;
+  limit: number;
+}
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  /** Numeric indicator value that crossed the limit */
+  value: number;
+  /** Display label of the indicator */
+  label: string;
+}
+
+/**
+ * Policy file contents: rules in the same syntax as --fail-on
+ */
+export interface PolicyFile {
+  failOn: string | string[];
+}
+
+const AI_SCORE_INDICATOR = 'aiScore';
+
+const RULE_PATTERN = /^([A-Za-z]\w*)\s*(>=|<=|>|<)\s*(-?\d+(?:\.\d+)?)$/;
+
+const COMPARATORS: Record<
+  PolicyOperator,
+  (value: number, limit: number) => boolean
+> = {
+  '>': (value, limit) => value > limit,
+  '>=': (value, limit) => value >= limit,
+  '<': (value, limit) => value < limit,
+  '<=': (value, limit) => value <= limit,
+};
+
+@Injectable()
+export class PolicyService {
+  constructor(private readonly metricRegistry: MetricRegistryService) {}
+
+  /**
+   * Parses comma-separated rules such as "largeCommitPercentage>20,aiScore>=60"
+   * @param spec Rule list
+   * @returns Parsed rules
+   * @throws Error if a rule is malformed or names an unknown indicator
+   */
+  parseRules(spec: string | string[]): PolicyRule[] {
+    const rules = Array.isArray(spec) ? spec : spec.split(',');
+
+    return rules
+      .map((rule) => rule.trim())
+      .filter((rule) => rule.length > 0)
+      .map((rule) => {
+        const match = RULE_PATTERN.exec(rule);
+        if (!match) {
+          throw new Error(
+            `Invalid policy rule "${rule}": expected "<indicator><operator><number>" with one of >, >=, <, <=`,
+          );
+        }
+
+        const [, indicator, operator, limit] = match;
+        if (
+          indicator !== AI_SCORE_INDICATOR &&
+          !this.metricRegistry.get(indicator)
+        ) {
+          throw new Error(
+            `Unknown indicator in policy rule "${rule}". Known indicators: ${[
+              ...this.metricRegistry.getAll().map((plugin) => plugin.id),
+              AI_SCORE_INDICATOR,
+            ].join(', ')}`,
+          );
+        }
+
+        return {
+          indicator,
+          operator: operator as PolicyOperator,
+          limit: Number(limit),
+        };
+      });
+  }
+
+  /**
+   * Reads the rules of a JSON policy file
+   * @param filePath Path to a file like {"failOn": ["codeCommentRatio>35"]}
+   * @returns Parsed rules
+   * @throws Error if the file cannot be read, is not valid JSON or has invalid rules
+   */
+  loadPolicyFile(filePath: string): PolicyRule[] {
+    let policy: Partial<PolicyFile>;
+    try {
+      policy = JSON.parse(fs.readFileSync(filePath, 'utf8')) as PolicyFile;
+    } catch (error) {
+      throw new Error(
+        `Failed to read policy file ${filePath}: ${(error as Error).message}`,
+      );
+    }
+
+    const failOn = policy?.failOn;
+    const isRuleList =
+      typeof failOn === 'string' ||
+      (Array.isArray(failOn) &&
+        failOn.every((rule) => typeof rule === 'string'));
+    if (!isRuleList) {
+      throw new Error(
+        `Invalid policy file ${filePath}: "failOn" must be a rule string or an array of rule strings`,
+      );
+    }
+
+    return this.parseRules(failOn);
+  }
+
+  /**
+   * Checks analysis results against policy rules. Rules on indicators missing
+   * from the results cannot be violated.
+   * @param result Analysis results
+   * @param rules Policy rules
+   * @returns Violated rules with the offending values
+   */
+  evaluate(result: AnalyzeResponseDto, rules: PolicyRule[]): PolicyViolation[] {
+    return rules.flatMap((rule) => {
+      const measured = this.measure(result, rule.indicator);
+      return measured && COMPARATORS[rule.operator](measured.value, rule.limit)
+        ? [{ rule, ...measured }]
+        : [];
+    });
+  }
+
+  /**
+   * Formats a rule in --fail-on syntax
+   * @param rule Policy rule
+   * @returns Rule text (e.g., "codeCommentRatio>35")
+   */
+  formatRule(rule: PolicyRule): string {
+    return `${rule.indicator}${rule.operator}${rule.limit}`;
+  }
+
+  /**
+   * Gets the numeric value and label of an indicator from the results
+   */
+  private measure(
+    result: AnalyzeResponseDto,
+    indicator: AIIndicatorName,
+  ): { value: number; label: string } | undefined {
+    const { aiScore, aiIndicators } = result.metrics;
+    if (indicator === AI_SCORE_INDICATOR) {
+      return aiScore && { value: aiScore.value, label: 'AI Likelihood Score' };
+    }
+
+    const metric = aiIndicators?.[indicator];
+    const plugin = this.metricRegistry.get(indicator);
+    return metric && plugin
+      ? { value: plugin.toNumber(metric.value), label: metric.label }
+      : undefined;
+  }
+}
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectConfigService } from './project-config.service';
+import { AnalysisModule } from './analysis.module';
+
+describe('ProjectConfigService', () => {
+  let service: ProjectConfigService;
+  let repoPath: string;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AnalysisModule],
+    }).compile();
+    await module.init();
+
+    service = module.get<ProjectConfigService>(ProjectConfigService);
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'project-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should load a YAML configuration from the repository root', () => {
+    fs.writeFileSync(
+      path.join(repoPath, '.gitanalyzerrc'),
+      [
+        'thresholds:',
+        '  largeCommitPercentage: 25',
+        'indicators:',
+        '  firstCommitAnalysis: false',
+        '  codeCommentRatio: true',
+        'skip:',
+        '  - "fixtures/**"',
+        'formats: [console, html]',
+      ].join('\n'),
+    );
+
+    expect(service.loadFromDirectory(repoPath)).toEqual({
+      source: '.gitanalyzerrc',
+      thresholds: { largeCommitPercentage: 25 },
+      disabledIndicators: ['firstCommitAnalysis'],
+      skip: ['fixtures/**'],
+      formats: ['console', 'html'],
+    });
+  });
+
+  it('should load a JSON configuration and default the missing settings', () => {
+    fs.writeFileSync(
+      path.join(repoPath, '.gitanalyzerrc.json'),
+      JSON.stringify({ skip: ['*.min.js'] }),
+    );
+
+    expect(service.loadFromDirectory(repoPath)).toEqual({
+      source: '.gitanalyzerrc.json',
+      thresholds: {},
+      disabledIndicators: [],
+      skip: ['*.min.js'],
+    });
+  });
+
+  it('should apply identity settings only when they are set', () => {
+    const identities = {
+      aliases: { 'jane@example.com': ['jane@old.example.com'] },
+      mergeByName: true,
+    };
+
+    expect(service.validate({ identities }, 'rc').identities).toEqual(
+      identities,
+    );
+    expect(service.validate({}, 'rc')).not.toHaveProperty('identities');
+  });
+
+  it('should return undefined when the repository has no configuration file', () => {
+    expect(service.loadFromDirectory(repoPath)).toBeUndefined();
+  });
+
+  it('should list every invalid setting', () => {
+    expect(() =>
+      service.validate(
+        {
+          thresholds: {
+            largeCommitPercentage: -5,
+            firstCommitAnalysis: 10,
+            mergeCommits: 3,
+          },
+          indicators: { testFileRatio: 'no' },
+          skip: 'fixtures/**',
+          formats: ['pdf'],
+          failOn: [],
+        },
+        '.gitanalyzerrc',
+      ),
+    ).toThrow(
+      [
+        'Invalid configuration in .gitanalyzerrc:',
+        '  - unknown setting "failOn" (expected thresholds, indicators, skip, identities, formats)',
+        '  - thresholds.largeCommitPercentage must be a positive number',
+        '  - thresholds.firstCommitAnalysis: First Commit Size has no threshold',
+        '  - thresholds.mergeCommits: unknown indicator',
+      ].join('\n'),
+    );
+  });
+
+  it('should explain unknown indicators, formats and malformed files', () => {
+    const validate = (raw: unknown) => () => service.validate(raw, 'rc');
+
+    expect(validate({ indicators: { mergeCommits: false } })).toThrow(
+      'indicators.mergeCommits: unknown indicator (known indicators: avgLinesPerCommit,',
+    );
+    expect(validate({ indicators: { testFileRatio: 'no' } })).toThrow(
+      'indicators.testFileRatio must be true or false',
+    );
+    expect(validate({ skip: 'fixtures/**' })).toThrow(
+      '"skip" must be a list of glob patterns',
+    );
+    expect(validate({ formats: ['pdf'] })).toThrow(
+      'unknown format "pdf" in "formats"',
+    );
+    expect(validate(['thresholds'])).toThrow(
+      'Invalid configuration in rc: expected an object',
+    );
+
+    expect(
+      validate({
+        identities: {
+          aliases: { 'jane@example.com': 'jane@old.example.com' },
+          mergeByName: 'yes',
+          byName: true,
+        },
+      }),
+    ).toThrow(
+      [
+        'Invalid configuration in rc:',
+        '  - unknown setting "identities.byName" (expected aliases, mergeByName)',
+        '  - identities.aliases.jane@example.com must be a list of emails (e.g. ["jane@old.example.com"])',
+        '  - identities.mergeByName must be true or false',
+      ].join('\n'),
+    );
+
+    fs.writeFileSync(path.join(repoPath, '.gitanalyzerrc.yml'), 'skip: [');
+    expect(() => service.loadFromDirectory(repoPath)).toThrow(
+      'Failed to read configuration file .gitanalyzerrc.yml',
+    );
+  });
+});
@@ -0,0 +1,285 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import {
+  AIIndicatorName,
+  AppliedConfig,
+  IdentityConfig,
+} from '../routes/dto/analyze-response.dto';
+import { OutputFormat } from '../routes/dto/analyze-request.dto';
+import { MetricRegistryService } from './metrics/metric-registry.service';
+
+/**
+ * Contents of a .gitanalyzerrc file
+ */
+export interface ProjectConfig {
+  /** Threshold values keyed by indicator ID */
+  thresholds?: Record<AIIndicatorName, number>;
+  /** Indicators to enable (true) or disable (false), keyed by indicator ID */
+  indicators?: Record<AIIndicatorName, boolean>;
+  /** Glob patterns of files to leave out of the file scan, relative to the repository root */
+  skip?: string[];
+  /** How author identities are merged into contributors */
+  identities?: IdentityConfig;
+  /** Default output formats of the CLI */
+  formats?: OutputFormat[];
+}
+
+/**
+ * Configuration file names looked up at the repository root, in order of precedence
+ */
+export const CONFIG_FILE_NAMES = [
+  '.gitanalyzerrc',
+  '.gitanalyzerrc.json',
+  '.gitanalyzerrc.yaml',
+  '.gitanalyzerrc.yml',
+];
+
+const CONFIG_KEYS: (keyof ProjectConfig)[] = [
+  'thresholds',
+  'indicators',
+  'skip',
+  'identities',
+  'formats',
+];
+
+const IDENTITY_KEYS: (keyof IdentityConfig)[] = ['aliases', 'mergeByName'];
+
+@Injectable()
+export class ProjectConfigService {
+  constructor(private readonly metricRegistry: MetricRegistryService) {}
+
+  /**
+   * Loads the configuration file at the root of a repository, if there is one
+   * @param repoPath Path to the repository working tree
+   * @returns Applied configuration, or undefined when the repository has no configuration file
+   * @throws Error if the configuration file is invalid
+   */
+  loadFromDirectory(repoPath: string): AppliedConfig | undefined {
+    const fileName = CONFIG_FILE_NAMES.find((name) =>
+      fs.existsSync(path.join(repoPath, name)),
+    );
+
+    return fileName
+      ? this.loadConfigFile(path.join(repoPath, fileName), fileName)
+      : undefined;
+  }
+
+  /**
+   * Loads a configuration file. Files ending in .json are parsed as JSON,
+   * anything else as YAML (which also accepts JSON).
+   * @param filePath Path to the configuration file
+   * @param source Name reported in the results (default: the file path)
+   * @returns Applied configuration
+   * @throws Error if the file cannot be read or parsed, or fails validation
+   */
+  loadConfigFile(filePath: string, source: string = filePath): AppliedConfig {
+    let raw: unknown;
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      raw =
+        path.extname(filePath) === '.json'
+          ? JSON.parse(content)
+          : yaml.load(content);
+    } catch (error) {
+      throw new Error(
+        `Failed to read configuration file ${source}: ${(error as Error).message}`,
+      );
+    }
+
+    return this.validate(raw ?? {}, source);
+  }
+
+  /**
+   * Validates raw configuration and resolves it into the applied settings
+   * @param raw Parsed configuration file
+   * @param source Name of the configuration file, for error messages
+   * @returns Applied configuration
+   * @throws Error listing every invalid setting
+   */
+  validate(raw: unknown, source: string): AppliedConfig {
+    if (!this.isRecord(raw)) {
+      throw new Error(
+        `Invalid configuration in ${source}: expected an object with ${CONFIG_KEYS.join(', ')}`,
+      );
+    }
+
+    const errors = Object.keys(raw)
+      .filter((key) => !CONFIG_KEYS.includes(key as keyof ProjectConfig))
+      .map(
+        (key) =>
+          `unknown setting "${key}" (expected ${CONFIG_KEYS.join(', ')})`,
+      );
+    const {
+      thresholds = {},
+      indicators = {},
+      skip = [],
+      identities,
+      formats,
+    } = raw;
+
+    errors.push(
+      ...this.validateThresholds(thresholds),
+      ...this.validateIndicators(indicators),
+      ...this.validateSkip(skip),
+      ...(identities === undefined ? [] : this.validateIdentities(identities)),
+      ...(formats === undefined ? [] : this.validateFormats(formats)),
+    );
+
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid configuration in ${source}:\n${errors.map((error) => `  - ${error}`).join('\n')}`,
+      );
+    }
+
+    const config = raw as ProjectConfig;
+    return {
+      source,
+      thresholds: config.thresholds ?? {},
+      disabledIndicators: Object.entries(config.indicators ?? {})
+        .filter(([, enabled]) => !enabled)
+        .map(([id]) => id),
+      skip: config.skip ?? [],
+      ...(config.identities && { identities: config.identities }),
+      ...(config.formats && { formats: config.formats }),
+    };
+  }
+
+  /**
+   * Checks that thresholds name indicators with a threshold and are positive numbers
+   */
+  private validateThresholds(thresholds: unknown): string[] {
+    if (!this.isRecord(thresholds)) {
+      return ['"thresholds" must map indicator IDs to numbers'];
+    }
+
+    return Object.entries(thresholds).flatMap(([id, value]) => {
+      const plugin = this.metricRegistry.get(id);
+      if (!plugin) {
+        return [this.unknownIndicator('thresholds', id)];
+      }
+      if (!plugin.threshold) {
+        return [`thresholds.${id}: ${plugin.label} has no threshold`];
+      }
+      return typeof value === 'number' && isFinite(value) && value > 0
+        ? []
+        : [`thresholds.${id} must be a positive number`];
+    });
+  }
+
+  /**
+   * Checks that indicator switches name known indicators and are booleans
+   */
+  private validateIndicators(indicators: unknown): string[] {
+    if (!this.isRecord(indicators)) {
+      return ['"indicators" must map indicator IDs to true or false'];
+    }
+
+    return Object.entries(indicators).flatMap(([id, enabled]) => {
+      if (!this.metricRegistry.get(id)) {
+        return [this.unknownIndicator('indicators', id)];
+      }
+      return typeof enabled === 'boolean'
+        ? []
+        : [`indicators.${id} must be true or false`];
+    });
+  }
+
+  /**
+   * Checks that skip patterns are a list of non-empty strings
+   */
+  private validateSkip(skip: unknown): string[] {
+    const isPatternList =
+      Array.isArray(skip) &&
+      skip.every(
+        (pattern) => typeof pattern === 'string' && pattern.trim().length > 0,
+      );
+
+    return isPatternList
+      ? []
+      : ['"skip" must be a list of glob patterns (e.g. ["fixtures/**"])'];
+  }
+
+  /**
+   * Checks that identity aliases map emails to lists of emails, and that
+   * mergeByName is a boolean
+   */
+  private validateIdentities(identities: unknown): string[] {
+    if (!this.isRecord(identities)) {
+      return [
+        `"identities" must be an object with ${IDENTITY_KEYS.join(', ')}`,
+      ];
+    }
+
+    const errors = Object.keys(identities)
+      .filter((key) => !IDENTITY_KEYS.includes(key as keyof IdentityConfig))
+      .map(
+        (key) =>
+          `unknown setting "identities.${key}" (expected ${IDENTITY_KEYS.join(', ')})`,
+      );
+    const { aliases = {}, mergeByName = false } = identities;
+
+    if (!this.isRecord(aliases)) {
+      errors.push(
+        '"identities.aliases" must map emails to lists of alias emails',
+      );
+    } else {
+      Object.entries(aliases).forEach(([email, alternates]) => {
+        const isEmailList =
+          Array.isArray(alternates) &&
+          alternates.every(
+            (alternate) =>
+              typeof alternate === 'string' && alternate.trim().length > 0,
+          );
+        if (!isEmailList) {
+          errors.push(
+            `identities.aliases.${email} must be a list of emails (e.g. ["jane@old.example.com"])`,
+          );
+        }
+      });
+    }
+
+    if (typeof mergeByName !== 'boolean') {
+      errors.push('identities.mergeByName must be true or false');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Checks that default formats are a non-empty list of output formats
+   */
+  private validateFormats(formats: unknown): string[] {
+    const validFormats = Object.values(OutputFormat) as string[];
+    if (!Array.isArray(formats) || formats.length === 0) {
+      return [
+        `"formats" must be a non-empty list of: ${validFormats.join(', ')}`,
+      ];
+    }
+
+    return formats
+      .filter((format) => !validFormats.includes(format as string))
+      .map(
+        (format) =>
+          `unknown format "${String(format)}" in "formats" (expected ${validFormats.join(', ')})`,
+      );
+  }
+
+  /**
+   * Describes an unknown indicator ID, listing the known ones
+   */
+  private unknownIndicator(setting: string, id: string): string {
+    return `${setting}.${id}: unknown indicator (known indicators: ${this.metricRegistry
+      .getAll()
+      .map((plugin) => plugin.id)
+      .join(', ')})`;
+  }
+
+  /**
+   * Checks for a plain object
+   */
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
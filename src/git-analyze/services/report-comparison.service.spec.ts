@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReportComparisonService } from './report-comparison.service';
+import { AnalysisModule } from './analysis.module';
+import {
+  MetricRegistryService,
+  MetricValues,
+} from './metrics/metric-registry.service';
+import {
+  AIScore,
+  AnalyzeResponseDto,
+  ContributorStats,
+} from '../routes/dto/analyze-response.dto';
+
+describe('ReportComparisonService', () => {
+  let service: ReportComparisonService;
+  let registry: MetricRegistryService;
+
+  const createReport = (
+    values: MetricValues,
+    contributorStats: ContributorStats[],
+    aiScore?: number,
+  ): AnalyzeResponseDto => ({
+    repository: '/repos/app',
+    branch: 'main',
+    analyzedAt: '2024-06-01T00:00:00.000Z',
+    metrics: {
+      totalCommits: contributorStats.reduce(
+        (sum, contributor) => sum + contributor.commitCount,
+        0,
+      ),
+      contributors: contributorStats.length,
+      firstCommit: '2024-01-01T00:00:00.000Z',
+      lastCommit: '2024-05-31T00:00:00.000Z',
+      duration: '151 days',
+      avgCommitsPerDay: 1,
+      topContributor: contributorStats[0].email,
+      contributorStats,
+      aiIndicators: registry.toIndicators(values),
+      ...(aiScore !== undefined && { aiScore: { value: aiScore } as AIScore }),
+    },
+  });
+
+  const signatures = (commitPercentage: number) => ({
+    commitPercentage,
+    authorPercentage: 50,
+    tools: [],
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AnalysisModule],
+    }).compile();
+    await module.init();
+
+    service = module.get<ReportComparisonService>(ReportComparisonService);
+    registry = module.get<MetricRegistryService>(MetricRegistryService);
+  });
+
+  it('should compute the delta of each indicator and of the AI score', () => {
+    const before = createReport(
+      { largeCommitPercentage: 4, aiToolSignatures: signatures(2.5) },
+      [{ email: 'alice@example.com', name: 'Alice', commitCount: 10 }],
+      20,
+    );
+    const after = createReport(
+      { largeCommitPercentage: 6.5, aiToolSignatures: signatures(1) },
+      [{ email: 'alice@example.com', name: 'Alice', commitCount: 10 }],
+      32.5,
+    );
+
+    const comparison = service.compare(before, after);
+
+    expect(comparison.aiScoreDelta).toBe(12.5);
+    expect(comparison.before).toMatchObject({ totalCommits: 10, aiScore: 20 });
+    expect(comparison.after).toMatchObject({ totalCommits: 10, aiScore: 32.5 });
+    expect(comparison.indicators).toEqual([
+      {
+        indicator: 'largeCommitPercentage',
+        label: 'Large Commits %',
+        shortLabel: expect.any(String),
+        unit: 'percent',
+        before: 4,
+        after: 6.5,
+        formattedBefore: '4%',
+        formattedAfter: '6.5%',
+        delta: 2.5,
+        threshold: { value: 10, direction: 'above' },
+      },
+      expect.objectContaining({
+        indicator: 'aiToolSignatures',
+        before: 2.5,
+        after: 1,
+        delta: -1.5,
+      }),
+    ]);
+  });
+
+  it('should flag the indicators that crossed their threshold', () => {
+    const before = createReport(
+      {
+        largeCommitPercentage: 8,
+        testFileRatio: 30,
+        aiToolSignatures: signatures(0),
+      },
+      [{ email: 'alice@example.com', name: 'Alice', commitCount: 10 }],
+    );
+    const after = createReport(
+      {
+        largeCommitPercentage: 12,
+        testFileRatio: 35,
+        aiToolSignatures: signatures(10),
+      },
+      [{ email: 'alice@example.com', name: 'Alice', commitCount: 10 }],
+    );
+
+    const crossings = Object.fromEntries(
+      service
+        .compare(before, after)
+        .indicators.map(({ indicator, crossing }) => [indicator, crossing]),
+    );
+    expect(crossings).toEqual({
+      largeCommitPercentage: 'raised',
+      testFileRatio: undefined,
+      aiToolSignatures: 'raised',
+    });
+
+    const reversed = service.compare(after, before);
+    expect(reversed.indicators[0].crossing).toBe('cleared');
+  });
+
+  it('should keep indicators reported on one side only, without a delta', () => {
+    const before = createReport({ largeCommitPercentage: 5 }, [
+      { email: 'alice@example.com', name: 'Alice', commitCount: 10 },
+    ]);
+    const after = createReport({ testFileRatio: 10 }, [
+      { email: 'alice@example.com', name: 'Alice', commitCount: 10 },
+    ]);
+
+    const comparison = service.compare(before, after);
+
+    expect(comparison.aiScoreDelta).toBeUndefined();
+    expect(comparison.indicators).toEqual([
+      expect.objectContaining({ indicator: 'testFileRatio', after: 10 }),
+      expect.objectContaining({
+        indicator: 'largeCommitPercentage',
+        before: 5,
+      }),
+    ]);
+    comparison.indicators.forEach((indicator) => {
+      expect(indicator.delta).toBeUndefined();
+      expect(indicator.crossing).toBeUndefined();
+    });
+  });
+
+  it('should list the contributors who appeared, left or changed', () => {
+    const before = createReport({}, [
+      { email: 'alice@example.com', name: 'Alice', commitCount: 10 },
+      { email: 'bob@example.com', name: 'Bob', commitCount: 5 },
+      { email: 'carol@example.com', name: 'Carol', commitCount: 3 },
+    ]);
+    const after = createReport({}, [
+      { email: 'alice@example.com', name: 'Alice', commitCount: 40 },
+      { email: 'dave@example.com', name: 'Dave', commitCount: 8 },
+      { email: 'carol@example.com', name: 'Carol', commitCount: 3 },
+    ]);
+
+    expect(service.compare(before, after).contributors).toEqual([
+      {
+        email: 'alice@example.com',
+        name: 'Alice',
+        status: 'changed',
+        commitsBefore: 10,
+        commitsAfter: 40,
+        commitDelta: 30,
+      },
+      {
+        email: 'dave@example.com',
+        name: 'Dave',
+        status: 'added',
+        commitsBefore: 0,
+        commitsAfter: 8,
+        commitDelta: 8,
+      },
+      {
+        email: 'bob@example.com',
+        name: 'Bob',
+        status: 'removed',
+        commitsBefore: 5,
+        commitsAfter: 0,
+        commitDelta: -5,
+      },
+    ]);
+  });
+
+  it('should load reports written with the JSON format', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'compare-'));
+    try {
+      const reportPath = path.join(dir, 'report.json');
+      const report = createReport({ largeCommitPercentage: 5 }, [
+        { email: 'alice@example.com', name: 'Alice', commitCount: 10 },
+      ]);
+      fs.writeFileSync(reportPath, JSON.stringify(report));
+      expect(service.loadReport(reportPath)).toEqual(report);
+
+      fs.writeFileSync(reportPath, JSON.stringify({ failOn: [] }));
+      expect(() => service.loadReport(reportPath)).toThrow(
+        'expected the output of "analyze --format json"',
+      );
+
+      expect(() => service.loadReport(path.join(dir, 'missing.json'))).toThrow(
+        'Failed to read report',
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,226 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import {
+  AIIndicatorMetric,
+  AIIndicatorName,
+  AnalyzeResponseDto,
+  ContributorStats,
+} from '../routes/dto/analyze-response.dto';
+import {
+  ComparedReport,
+  ContributorChange,
+  IndicatorDelta,
+  ReportComparison,
+  ThresholdCrossing,
+} from '../routes/dto/report-comparison.dto';
+import { exceedsThreshold } from './metrics/metric-plugin';
+import { MetricRegistryService } from './metrics/metric-registry.service';
+
+@Injectable()
+export class ReportComparisonService {
+  constructor(private readonly metricRegistry: MetricRegistryService) {}
+
+  /**
+   * Reads an analysis report written with the JSON output format
+   * @param filePath Path to the report
+   * @returns Analysis results
+   * @throws Error if the file cannot be read, is not valid JSON or is not an analysis report
+   */
+  loadReport(filePath: string): AnalyzeResponseDto {
+    let report: Partial<AnalyzeResponseDto>;
+    try {
+      report = JSON.parse(
+        fs.readFileSync(filePath, 'utf8'),
+      ) as AnalyzeResponseDto;
+    } catch (error) {
+      throw new Error(
+        `Failed to read report ${filePath}: ${(error as Error).message}`,
+      );
+    }
+
+    const metrics = report?.metrics;
+    if (
+      typeof report?.repository !== 'string' ||
+      typeof metrics?.totalCommits !== 'number' ||
+      !Array.isArray(metrics.contributorStats)
+    ) {
+      throw new Error(
+        `Invalid report ${filePath}: expected the output of "analyze --format json"`,
+      );
+    }
+
+    return report as AnalyzeResponseDto;
+  }
+
+  /**
+   * Compares two analysis reports, such as a repository before and after
+   * adopting an AI assistant, or the repositories of two teams
+   * @param before Baseline results
+   * @param after Results compared against the baseline
+   * @returns Indicator and AI score deltas, threshold crossings and contributor changes
+   */
+  compare(
+    before: AnalyzeResponseDto,
+    after: AnalyzeResponseDto,
+  ): ReportComparison {
+    const beforeScore = before.metrics.aiScore?.value;
+    const afterScore = after.metrics.aiScore?.value;
+
+    return {
+      before: this.summarize(before),
+      after: this.summarize(after),
+      ...(beforeScore !== undefined &&
+        afterScore !== undefined && {
+          aiScoreDelta: this.round(afterScore - beforeScore),
+        }),
+      indicators: this.compareIndicators(before, after),
+      contributors: this.compareContributors(
+        before.metrics.contributorStats,
+        after.metrics.contributorStats,
+      ),
+    };
+  }
+
+  private summarize(report: AnalyzeResponseDto): ComparedReport {
+    const { metrics } = report;
+    return {
+      repository: report.repository,
+      branch: report.branch,
+      analyzedAt: report.analyzedAt,
+      ...(report.commitFilter && { commitFilter: report.commitFilter }),
+      totalCommits: metrics.totalCommits,
+      contributors: metrics.contributors,
+      ...(metrics.aiScore && { aiScore: metrics.aiScore.value }),
+    };
+  }
+
+  /**
+   * Pairs the indicators of both reports; indicators missing from one of them
+   * have no delta and cannot cross their threshold
+   */
+  private compareIndicators(
+    before: AnalyzeResponseDto,
+    after: AnalyzeResponseDto,
+  ): IndicatorDelta[] {
+    const beforeIndicators = before.metrics.aiIndicators ?? {};
+    const afterIndicators = after.metrics.aiIndicators ?? {};
+    const ids = [
+      ...new Set([
+        ...Object.keys(afterIndicators),
+        ...Object.keys(beforeIndicators),
+      ]),
+    ];
+
+    return ids.map((id) => {
+      const previous = beforeIndicators[id];
+      const current = afterIndicators[id];
+      const reference = current ?? previous;
+      const beforeValue = previous && this.toNumber(id, previous);
+      const afterValue = current && this.toNumber(id, current);
+      const crossing =
+        beforeValue !== undefined && afterValue !== undefined
+          ? this.detectCrossing(
+              exceedsThreshold(beforeValue, previous.threshold),
+              exceedsThreshold(afterValue, current.threshold),
+            )
+          : undefined;
+
+      return {
+        indicator: id,
+        label: reference.label,
+        shortLabel: reference.shortLabel,
+        unit: reference.unit,
+        ...(beforeValue !== undefined && {
+          before: beforeValue,
+          formattedBefore: previous.formattedValue,
+        }),
+        ...(afterValue !== undefined && {
+          after: afterValue,
+          formattedAfter: current.formattedValue,
+        }),
+        ...(beforeValue !== undefined &&
+          afterValue !== undefined && {
+            delta: this.round(afterValue - beforeValue),
+          }),
+        ...(reference.threshold && { threshold: reference.threshold }),
+        ...(crossing && { crossing }),
+      };
+    });
+  }
+
+  /**
+   * Lists the contributors who appeared, left or changed their commit count,
+   * matched by email; the largest changes come first
+   */
+  private compareContributors(
+    before: ContributorStats[],
+    after: ContributorStats[],
+  ): ContributorChange[] {
+    const previousStats = new Map(
+      before.map((contributor) => [contributor.email, contributor]),
+    );
+    const currentEmails = new Set(
+      after.map((contributor) => contributor.email),
+    );
+
+    const changes: ContributorChange[] = [
+      ...after.map((contributor): ContributorChange => {
+        const previous = previousStats.get(contributor.email);
+        const commitsBefore = previous?.commitCount ?? 0;
+        return {
+          email: contributor.email,
+          name: contributor.name,
+          status: previous ? 'changed' : 'added',
+          commitsBefore,
+          commitsAfter: contributor.commitCount,
+          commitDelta: contributor.commitCount - commitsBefore,
+        };
+      }),
+      ...before
+        .filter((contributor) => !currentEmails.has(contributor.email))
+        .map(
+          (contributor): ContributorChange => ({
+            email: contributor.email,
+            name: contributor.name,
+            status: 'removed',
+            commitsBefore: contributor.commitCount,
+            commitsAfter: 0,
+            commitDelta: -contributor.commitCount,
+          }),
+        ),
+    ];
+
+    return changes
+      .filter((change) => change.commitDelta !== 0)
+      .sort((a, b) => Math.abs(b.commitDelta) - Math.abs(a.commitDelta));
+  }
+
+  /**
+   * Gets the numeric value of an indicator; indicators without a registered
+   * plugin (e.g., from a newer version) count only when their value is a number
+   */
+  private toNumber(
+    id: AIIndicatorName,
+    metric: AIIndicatorMetric,
+  ): number | undefined {
+    const plugin = this.metricRegistry.get(id);
+    if (plugin) {
+      return plugin.toNumber(metric.value);
+    }
+    return typeof metric.value === 'number' ? metric.value : undefined;
+  }
+
+  private detectCrossing(
+    exceededBefore: boolean,
+    exceedsAfter: boolean,
+  ): ThresholdCrossing | undefined {
+    if (exceededBefore === exceedsAfter) {
+      return undefined;
+    }
+    return exceedsAfter ? 'raised' : 'cleared';
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
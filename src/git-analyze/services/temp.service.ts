@@ -80,6 +80,36 @@ export class TempService {
     }
   }
 
+  /**
+   * Identifies a repository by its URL, keeping the host so repositories
+   * with the same path on different servers stay apart. Credentials, the
+   * scheme, a ".git" suffix and trailing slashes are dropped, and scp-like
+   * URLs ("git@host:owner/name") read like the others.
+   * @param repositoryUrl Git repository URL
+   * @returns Host and path (e.g., "github.com/user/repo" from "https://github.com/user/repo.git")
+   */
+  extractRepoIdentity(repositoryUrl: string): string {
+    let host: string;
+    let pathname: string;
+    try {
+      const url = new URL(repositoryUrl);
+      host = url.host;
+      pathname = url.pathname;
+    } catch {
+      const scp = repositoryUrl.match(/^(?:[^@/]+@)?([^:/]+):(.*)$/);
+      if (!scp) {
+        return repositoryUrl;
+      }
+      [, host, pathname] = scp;
+    }
+
+    const repoPath = pathname
+      .replace(/\/+$/, '')
+      .replace(/\.git$/, '')
+      .replace(/^\/+/, '');
+    return host ? `${host.toLowerCase()}/${repoPath}` : `/${repoPath}`;
+  }
+
   /**
    * Gets the full path for a repository clone
    * @param repositoryUrl Git repository URL
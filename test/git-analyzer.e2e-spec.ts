@@ -1,6 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
 import request from 'supertest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { AppModule } from '../src/app.module';
 import { GitService } from '../src/git-analyze/services/git.service';
 import { TempService } from '../src/git-analyze/services/temp.service';
@@ -9,8 +12,13 @@ describe('GitAnalyzer (e2e)', () => {
   let app: INestApplication;
   let gitService: GitService;
   let tempService: TempService;
+  let historyDirectory: string;
 
   beforeAll(async () => {
+    // Keep the recorded runs out of the user's history
+    historyDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'history-e2e-'));
+    process.env.ANALYSIS_HISTORY_DIR = historyDirectory;
+
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     }).compile();
@@ -25,6 +33,8 @@ describe('GitAnalyzer (e2e)', () => {
   afterAll(async () => {
     await app.close();
     tempService.cleanupAll();
+    fs.rmSync(historyDirectory, { recursive: true, force: true });
+    delete process.env.ANALYSIS_HISTORY_DIR;
   });
 
   describe('/git-analyzer/health (POST)', () => {
@@ -71,6 +81,9 @@ describe('GitAnalyzer (e2e)', () => {
         branch: 'main',
         remote: 'https://github.com/octocat/Hello-World.git',
       });
+      jest
+        .spyOn(gitService, 'resolveMailmap')
+        .mockImplementation((_git, identities) => Promise.resolve(identities));
       jest.spyOn(gitService, 'cleanupRepository').mockImplementation(() => {});
       jest
         .spyOn(tempService, 'extractRepoName')
@@ -191,6 +204,184 @@ describe('GitAnalyzer (e2e)', () => {
     });
   });
 
+  describe('/git-analyzer/jobs', () => {
+    it('should queue an analysis and serve its result when completed', async () => {
+      jest.spyOn(gitService, 'cloneRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/tmp/test-repo',
+      });
+      jest.spyOn(gitService, 'isValidRepository').mockResolvedValue(true);
+      jest.spyOn(gitService, 'getCommitHistory').mockResolvedValue([]);
+      jest.spyOn(gitService, 'getRepositoryInfo').mockResolvedValue({
+        branch: 'main',
+        remote: 'https://github.com/octocat/Hello-World.git',
+      });
+      jest.spyOn(gitService, 'cleanupRepository').mockImplementation(() => {});
+      jest
+        .spyOn(tempService, 'extractRepoName')
+        .mockReturnValue('octocat/Hello-World');
+
+      const submitted = await request(app.getHttpServer())
+        .post('/git-analyzer/jobs')
+        .send({
+          repositoryUrl: 'https://github.com/octocat/Hello-World.git',
+          branch: 'main',
+        })
+        .expect(202);
+
+      expect(submitted.body).toHaveProperty('id');
+      expect(submitted.body).toHaveProperty('createdAt');
+
+      let status = submitted.body.status;
+      for (let attempt = 0; attempt < 50 && status !== 'completed'; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        const job = await request(app.getHttpServer())
+          .get(`/git-analyzer/jobs/${submitted.body.id}`)
+          .expect(200);
+        status = job.body.status;
+      }
+      expect(status).toBe('completed');
+
+      return request(app.getHttpServer())
+        .get(`/git-analyzer/jobs/${submitted.body.id}/result`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('repository', 'octocat/Hello-World');
+          expect(res.body).toHaveProperty('metrics');
+        });
+    });
+
+    it('should stream job status and progress as server-sent events', async () => {
+      jest.spyOn(gitService, 'cloneRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/tmp/test-repo',
+      });
+      jest.spyOn(gitService, 'isValidRepository').mockResolvedValue(true);
+      jest.spyOn(gitService, 'getCommitHistory').mockResolvedValue([]);
+      jest.spyOn(gitService, 'getRepositoryInfo').mockResolvedValue({
+        branch: 'main',
+        remote: 'https://github.com/octocat/Hello-World.git',
+      });
+      jest.spyOn(gitService, 'cleanupRepository').mockImplementation(() => {});
+
+      const submitted = await request(app.getHttpServer())
+        .post('/git-analyzer/jobs')
+        .send({ repositoryUrl: 'https://github.com/octocat/Hello-World.git' })
+        .expect(202);
+
+      // The stream ends once the job has finished
+      const res = await request(app.getHttpServer())
+        .get(`/git-analyzer/jobs/${submitted.body.id}/events`)
+        .buffer(true)
+        .parse((response, callback) => {
+          let text = '';
+          response.on('data', (chunk: Buffer) => (text += chunk.toString()));
+          response.on('end', () => callback(null, text));
+        })
+        .expect(200)
+        .expect('Content-Type', /text\/event-stream/);
+
+      const events = (res.body as string)
+        .split('\n\n')
+        .filter((block) => block.trim())
+        .map((block) => ({
+          type: /^event: (.+)$/m.exec(block)?.[1],
+          data: JSON.parse(/^data: (.+)$/m.exec(block)![1]),
+        }));
+
+      expect(events).toContainEqual({
+        type: 'progress',
+        data: expect.objectContaining({ phase: 'scan', state: 'completed' }),
+      });
+      expect(events[events.length - 1]).toEqual({
+        type: 'status',
+        data: expect.objectContaining({ status: 'completed' }),
+      });
+    });
+
+    it('should respond with 404 for unknown jobs', () => {
+      return request(app.getHttpServer())
+        .get('/git-analyzer/jobs/unknown')
+        .expect(404)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('message', 'Analysis job not found');
+        });
+    });
+  });
+
+  describe('/git-analyzer/repositories/:repository/history', () => {
+    it('should list the recorded analyses and diff them against the baseline', async () => {
+      jest.spyOn(gitService, 'cloneRepository').mockResolvedValue({
+        git: {} as any,
+        repoPath: '/tmp/test-repo',
+      });
+      jest.spyOn(gitService, 'isValidRepository').mockResolvedValue(true);
+      jest.spyOn(gitService, 'getCommitHistory').mockResolvedValue([]);
+      jest.spyOn(gitService, 'getRepositoryInfo').mockResolvedValue({
+        branch: 'main',
+        remote: 'https://github.com/octocat/History.git',
+      });
+      jest.spyOn(gitService, 'cleanupRepository').mockImplementation(() => {});
+      jest
+        .spyOn(tempService, 'extractRepoName')
+        .mockReturnValue('octocat/History');
+
+      const server = app.getHttpServer();
+      for (let i = 0; i < 2; i++) {
+        await request(server)
+          .post('/git-analyzer/analyze')
+          .send({ repositoryUrl: 'https://github.com/octocat/History.git' })
+          .expect(201);
+      }
+
+      await request(server)
+        .put('/git-analyzer/repositories/octocat%2FHistory/baseline')
+        .send({ runId: 1 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({ id: 1, isBaseline: true });
+        });
+
+      await request(server)
+        .get('/git-analyzer/repositories/octocat%2FHistory/history')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({
+            repository: 'octocat/History',
+            baselineRunId: 1,
+            runs: [
+              { id: 1, branch: 'main', isBaseline: true },
+              { id: 2, branch: 'main', isBaseline: false },
+            ],
+          });
+        });
+
+      await request(server)
+        .get('/git-analyzer/repositories/octocat%2FHistory/history/2')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('baselineRunId', 1);
+          expect(res.body).toHaveProperty('baselineComparison');
+          expect(res.body.result).toHaveProperty(
+            'repository',
+            'octocat/History',
+          );
+        });
+    });
+
+    it('should respond with 404 for repositories without history', () => {
+      return request(app.getHttpServer())
+        .get('/git-analyzer/repositories/unknown/history')
+        .expect(404)
+        .expect((res) => {
+          expect(res.body).toHaveProperty(
+            'message',
+            'Analysis history not found',
+          );
+        });
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle network timeouts gracefully', async () => {
       const analyzeRequest = {
@@ -7,10 +7,29 @@ import { BasicMetricsService } from '../../../src/git-analyze/services/metrics/b
 import { GitSizeService } from '../../../src/git-analyze/services/metrics/ai-indicators/git-size.service';
 import { GitMessagesService } from '../../../src/git-analyze/services/metrics/ai-indicators/git-messages.service';
 import { GitTimingService } from '../../../src/git-analyze/services/metrics/ai-indicators/git-timing.service';
+import { GitSignaturesService } from '../../../src/git-analyze/services/metrics/ai-indicators/git-signatures.service';
 import { CodeQualityService } from '../../../src/git-analyze/services/metrics/ai-indicators/code-quality.service';
 import { CodeCommentAnalysisService } from '../../../src/git-analyze/services/metrics/ai-indicators/code-comment-analysis.service';
 import { CodeNonTypicalExpressionsService } from '../../../src/git-analyze/services/metrics/ai-indicators/code-non-typical-expressions.service';
 import { FileSystemScannerService } from '../../../src/git-analyze/services/metrics/ai-indicators/file-system-scanner.service';
+import { AIScoreService } from '../../../src/git-analyze/services/metrics/ai-score.service';
+import { IndicatorBreakdownService } from '../../../src/git-analyze/services/metrics/indicator-breakdown.service';
+import { MetricRegistryService } from '../../../src/git-analyze/services/metrics/metric-registry.service';
+import { ProjectConfigService } from '../../../src/git-analyze/services/project-config.service';
+import { AnalysisCacheService } from '../../../src/git-analyze/services/analysis-cache.service';
+import { ContributorIdentityService } from '../../../src/git-analyze/services/contributor-identity.service';
+import { BotDetectionService } from '../../../src/git-analyze/services/bot-detection.service';
+import { AvgLinesPerCommitMetric } from '../../../src/git-analyze/services/metrics/plugins/avg-lines-per-commit.metric';
+import { LargeCommitPercentageMetric } from '../../../src/git-analyze/services/metrics/plugins/large-commit-percentage.metric';
+import { FirstCommitAnalysisMetric } from '../../../src/git-analyze/services/metrics/plugins/first-commit-analysis.metric';
+import { AvgFilesPerCommitMetric } from '../../../src/git-analyze/services/metrics/plugins/avg-files-per-commit.metric';
+import { CommitMessagePatternsMetric } from '../../../src/git-analyze/services/metrics/plugins/commit-message-patterns.metric';
+import { BurstyCommitPercentageMetric } from '../../../src/git-analyze/services/metrics/plugins/bursty-commit-percentage.metric';
+import { TypingSpeedMetric } from '../../../src/git-analyze/services/metrics/plugins/typing-speed.metric';
+import { TestFileRatioMetric } from '../../../src/git-analyze/services/metrics/plugins/test-file-ratio.metric';
+import { CodeCommentRatioMetric } from '../../../src/git-analyze/services/metrics/plugins/code-comment-ratio.metric';
+import { CodeNonTypicalExpressionRatioMetric } from '../../../src/git-analyze/services/metrics/plugins/code-non-typical-expression-ratio.metric';
+import { AIToolSignaturesMetric } from '../../../src/git-analyze/services/metrics/plugins/ai-tool-signatures.metric';
 import { GitMetrics } from '../../../src/git-analyze/routes/dto/analyze-response.dto';
 import {
   MockDataGenerator,
@@ -54,23 +73,44 @@ async function runBenchmarks() {
     const gitSizeService = new GitSizeService();
     const gitMessagesService = new GitMessagesService();
     const gitTimingService = new GitTimingService();
+    const gitSignaturesService = new GitSignaturesService();
     const codeQualityService = new CodeQualityService();
     const fileSystemScannerService = new FileSystemScannerService();
     const codeCommentAnalysisService = new CodeCommentAnalysisService();
     const codeNonTypicalExpressionsService =
       new CodeNonTypicalExpressionsService();
+    const metricRegistry = new MetricRegistryService();
+    metricRegistry.register(
+      new AvgLinesPerCommitMetric(gitSizeService),
+      new LargeCommitPercentageMetric(gitSizeService),
+      new FirstCommitAnalysisMetric(gitSizeService),
+      new AvgFilesPerCommitMetric(gitSizeService),
+      new CommitMessagePatternsMetric(gitMessagesService),
+      new BurstyCommitPercentageMetric(gitTimingService),
+      new TypingSpeedMetric(gitTimingService),
+      new TestFileRatioMetric(codeQualityService),
+      new CodeCommentRatioMetric(codeCommentAnalysisService),
+      new CodeNonTypicalExpressionRatioMetric(codeNonTypicalExpressionsService),
+      new AIToolSignaturesMetric(gitSignaturesService),
+    );
+    const aiScoreService = new AIScoreService(metricRegistry);
+    const indicatorBreakdownService = new IndicatorBreakdownService(
+      metricRegistry,
+      aiScoreService,
+    );
 
     const analyzerService = new AnalyzerService(
       gitService,
       tempService,
       basicMetricsService,
-      gitSizeService,
-      gitMessagesService,
-      gitTimingService,
-      codeQualityService,
       fileSystemScannerService,
-      codeCommentAnalysisService,
-      codeNonTypicalExpressionsService,
+      metricRegistry,
+      aiScoreService,
+      indicatorBreakdownService,
+      new ProjectConfigService(metricRegistry),
+      new AnalysisCacheService(),
+      new ContributorIdentityService(),
+      new BotDetectionService(),
     );
 
     console.log('\n========================================');
@@ -83,10 +123,13 @@ async function runBenchmarks() {
     );
     const smallBench = new Bench({ time: 1000 });
 
-    smallBench.add('AnalyzerService - 100 commits', () => {
+    smallBench.add('AnalyzerService - 100 commits', async () => {
       const restore = suppressConsoleOutput();
       try {
-        (analyzerService as any).calculateMetrics(smallCommits, mockRepoPath);
+        await (analyzerService as any).calculateMetrics(
+          smallCommits,
+          mockRepoPath,
+        );
       } finally {
         restore();
       }
@@ -112,10 +155,13 @@ async function runBenchmarks() {
     );
     const mediumBench = new Bench({ time: 1000 });
 
-    mediumBench.add('AnalyzerService - 1,000 commits', () => {
+    mediumBench.add('AnalyzerService - 1,000 commits', async () => {
       const restore = suppressConsoleOutput();
       try {
-        (analyzerService as any).calculateMetrics(mediumCommits, mockRepoPath);
+        await (analyzerService as any).calculateMetrics(
+          mediumCommits,
+          mockRepoPath,
+        );
       } finally {
         restore();
       }
@@ -141,10 +187,13 @@ async function runBenchmarks() {
     );
     const largeBench = new Bench({ time: 1000 });
 
-    largeBench.add('AnalyzerService - 10,000 commits', () => {
+    largeBench.add('AnalyzerService - 10,000 commits', async () => {
       const restore = suppressConsoleOutput();
       try {
-        (analyzerService as any).calculateMetrics(largeCommits, mockRepoPath);
+        await (analyzerService as any).calculateMetrics(
+          largeCommits,
+          mockRepoPath,
+        );
       } finally {
         restore();
       }
@@ -182,7 +231,7 @@ async function runBenchmarks() {
     const restore = suppressConsoleOutput();
     let metrics: GitMetrics;
     try {
-      metrics = (analyzerService as any).calculateMetrics(
+      metrics = await (analyzerService as any).calculateMetrics(
         worstCaseCommits,
         mockRepoPath,
       );
@@ -197,10 +246,10 @@ async function runBenchmarks() {
     console.log(`Total commits: ${metrics.totalCommits}`);
     console.log(`Contributors: ${metrics.contributors}`);
     console.log(
-      `Avg files/commit: ${metrics.aiIndicators?.avgFilesPerCommit.value}`,
+      `Avg files/commit: ${metrics.aiIndicators?.avgFilesPerCommit.formattedValue}`,
     );
     console.log(
-      `Avg lines/commit: ${metrics.aiIndicators?.avgLinesPerCommit.value}`,
+      `Avg lines/commit: ${metrics.aiIndicators?.avgLinesPerCommit.formattedValue}`,
     );
 
     const withinThreshold = executionTime < 1000;
@@ -0,0 +1,112 @@
+import { performance } from 'perf_hooks';
+import { simpleGit, SimpleGit } from 'simple-git';
+import {
+  CommitInfo,
+  GitService,
+} from '../../../src/git-analyze/services/git.service';
+import { TempService } from '../../../src/git-analyze/services/temp.service';
+import { MockRepositoryGenerator } from '../utils/performance-helpers';
+
+/**
+ * Previous history loader: one `git diffSummary` process per commit
+ * Kept here only as the baseline the streamed loader is measured against
+ */
+async function loadHistoryPerCommit(git: SimpleGit): Promise<CommitInfo[]> {
+  const log = await git.log();
+
+  return Promise.all(
+    log.all.map(async (commit) => {
+      const diffSummary = await git
+        .diffSummary([`${commit.hash}^`, commit.hash])
+        .catch(() => git.diffSummary([commit.hash, '--root']));
+
+      return {
+        hash: commit.hash,
+        author: commit.author_name,
+        email: commit.author_email,
+        date: new Date(commit.date),
+        message: commit.message,
+        filesChanged: diffSummary.files.length,
+        insertions: diffSummary.insertions,
+        deletions: diffSummary.deletions,
+        files: diffSummary.files.map((f) => f.file),
+      };
+    }),
+  );
+}
+
+/**
+ * Measures wall time and heap growth of a history loader
+ */
+async function measure(
+  name: string,
+  load: () => Promise<CommitInfo[]>,
+): Promise<number> {
+  global.gc?.();
+  const startMemory = process.memoryUsage().heapUsed;
+  const startTime = performance.now();
+
+  const commits = await load();
+
+  const elapsed = performance.now() - startTime;
+  const memoryDelta =
+    (process.memoryUsage().heapUsed - startMemory) / 1024 / 1024;
+
+  console.log(`${name}`);
+  console.log(`  Commits loaded: ${commits.length.toLocaleString()}`);
+  console.log(`  Time: ${elapsed.toFixed(2)}ms`);
+  console.log(`  Heap delta: ${memoryDelta.toFixed(2)}MB\n`);
+
+  return elapsed;
+}
+
+async function runBenchmarks() {
+  const gitService = new GitService(new TempService());
+
+  console.log('\n========================================');
+  console.log('Commit History Loading Performance');
+  console.log('========================================\n');
+
+  // The per-commit loader spawns one process per commit, so it is only
+  // measured on the smaller histories
+  const scenarios = [
+    { commitCount: 500, compareLegacy: true },
+    { commitCount: 2000, compareLegacy: true },
+    { commitCount: 20000, compareLegacy: false },
+  ];
+
+  for (const { commitCount, compareLegacy } of scenarios) {
+    console.log(`Creating repository with ${commitCount} commits...`);
+    const repoPath = MockRepositoryGenerator.createMockGitRepository({
+      commitCount,
+    });
+
+    try {
+      const git = simpleGit(repoPath);
+
+      const streamedTime = await measure(
+        `Streamed git log --numstat - ${commitCount.toLocaleString()} commits`,
+        () => gitService.getCommitHistory(git),
+      );
+
+      if (compareLegacy) {
+        const legacyTime = await measure(
+          `Per-commit diffSummary - ${commitCount.toLocaleString()} commits`,
+          () => loadHistoryPerCommit(git),
+        );
+        console.log(
+          `✓ Speedup: ${(legacyTime / streamedTime).toFixed(1)}x faster\n`,
+        );
+      }
+    } finally {
+      MockRepositoryGenerator.cleanupMockRepository(repoPath);
+    }
+  }
+
+  console.log('✅ All benchmarks completed successfully!\n');
+}
+
+runBenchmarks().catch((error) => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
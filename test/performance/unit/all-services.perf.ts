@@ -3,6 +3,7 @@ import { BasicMetricsService } from '../../../src/git-analyze/services/metrics/b
 import { GitSizeService } from '../../../src/git-analyze/services/metrics/ai-indicators/git-size.service';
 import { GitMessagesService } from '../../../src/git-analyze/services/metrics/ai-indicators/git-messages.service';
 import { GitTimingService } from '../../../src/git-analyze/services/metrics/ai-indicators/git-timing.service';
+import { GitSignaturesService } from '../../../src/git-analyze/services/metrics/ai-indicators/git-signatures.service';
 import { CodeQualityService } from '../../../src/git-analyze/services/metrics/ai-indicators/code-quality.service';
 import {
   MockDataGenerator,
@@ -15,6 +16,7 @@ async function runBenchmarks() {
   const gitSizeService = new GitSizeService();
   const gitMessagesService = new GitMessagesService();
   const gitTimingService = new GitTimingService();
+  const gitSignaturesService = new GitSignaturesService();
   const codeQualityService = new CodeQualityService();
 
   console.log('\n========================================');
@@ -46,6 +48,10 @@ async function runBenchmarks() {
     })
     .add('GitTimingService', () => {
       gitTimingService.analyzeBurstyCommits(commits);
+      gitTimingService.analyzeTypingSpeed(commits);
+    })
+    .add('GitSignaturesService', () => {
+      gitSignaturesService.analyzeToolSignatures(commits);
     })
     .add('CodeQualityService', () => {
       codeQualityService.analyzeTestFileRatio(commits);
@@ -55,6 +61,8 @@ async function runBenchmarks() {
       gitSizeService.calculateSizeMetrics(commits);
       gitMessagesService.analyzeCommitMessagePatterns(commits);
       gitTimingService.analyzeBurstyCommits(commits);
+      gitTimingService.analyzeTypingSpeed(commits);
+      gitSignaturesService.analyzeToolSignatures(commits);
       codeQualityService.analyzeTestFileRatio(commits);
     });
 
@@ -92,6 +100,7 @@ async function runBenchmarks() {
   gitSizeService.calculateSizeMetrics(xlargeCommits);
   gitMessagesService.analyzeCommitMessagePatterns(xlargeCommits);
   gitTimingService.analyzeBurstyCommits(xlargeCommits);
+  gitSignaturesService.analyzeToolSignatures(xlargeCommits);
   codeQualityService.analyzeTestFileRatio(xlargeCommits);
 
   const endTime = performance.now();
@@ -35,8 +35,8 @@ async function runBenchmarks() {
   const commentSmallBench = new Bench({ time: 1000 });
   const commentSmallAnalyzer = new CodeCommentAnalysisService();
 
-  commentSmallBench.add('CodeCommentAnalysis - 100 files', () => {
-    scannerService.scanRepository(smallRepo, [commentSmallAnalyzer]);
+  commentSmallBench.add('CodeCommentAnalysis - 100 files', async () => {
+    await scannerService.scanRepository(smallRepo, [commentSmallAnalyzer]);
   });
 
   await commentSmallBench.run();
@@ -70,8 +70,8 @@ async function runBenchmarks() {
   const commentMediumBench = new Bench({ time: 1000 });
   const commentMediumAnalyzer = new CodeCommentAnalysisService();
 
-  commentMediumBench.add('CodeCommentAnalysis - 1,000 files', () => {
-    scannerService.scanRepository(mediumRepo, [commentMediumAnalyzer]);
+  commentMediumBench.add('CodeCommentAnalysis - 1,000 files', async () => {
+    await scannerService.scanRepository(mediumRepo, [commentMediumAnalyzer]);
   });
 
   await commentMediumBench.run();
@@ -102,8 +102,8 @@ async function runBenchmarks() {
   const commentLargeBench = new Bench({ time: 1000 });
   const commentLargeAnalyzer = new CodeCommentAnalysisService();
 
-  commentLargeBench.add('CodeCommentAnalysis - 5,000 files', () => {
-    scannerService.scanRepository(largeRepo, [commentLargeAnalyzer]);
+  commentLargeBench.add('CodeCommentAnalysis - 5,000 files', async () => {
+    await scannerService.scanRepository(largeRepo, [commentLargeAnalyzer]);
   });
 
   await commentLargeBench.run();
@@ -138,8 +138,8 @@ async function runBenchmarks() {
   const ntSmallBench = new Bench({ time: 1000 });
   const ntSmallAnalyzer = new CodeNonTypicalExpressionsService();
 
-  ntSmallBench.add('NonTypicalExpressions - 100 files', () => {
-    scannerService.scanRepository(ntSmallRepo, [ntSmallAnalyzer]);
+  ntSmallBench.add('NonTypicalExpressions - 100 files', async () => {
+    await scannerService.scanRepository(ntSmallRepo, [ntSmallAnalyzer]);
   });
 
   await ntSmallBench.run();
@@ -176,8 +176,8 @@ async function runBenchmarks() {
   const ntMediumBench = new Bench({ time: 1000 });
   const ntMediumAnalyzer = new CodeNonTypicalExpressionsService();
 
-  ntMediumBench.add('NonTypicalExpressions - 1,000 files', () => {
-    scannerService.scanRepository(ntMediumRepo, [ntMediumAnalyzer]);
+  ntMediumBench.add('NonTypicalExpressions - 1,000 files', async () => {
+    await scannerService.scanRepository(ntMediumRepo, [ntMediumAnalyzer]);
   });
 
   await ntMediumBench.run();
@@ -211,8 +211,8 @@ async function runBenchmarks() {
   const ntLargeBench = new Bench({ time: 1000 });
   const ntLargeAnalyzer = new CodeNonTypicalExpressionsService();
 
-  ntLargeBench.add('NonTypicalExpressions - 5,000 files', () => {
-    scannerService.scanRepository(ntLargeRepo, [ntLargeAnalyzer]);
+  ntLargeBench.add('NonTypicalExpressions - 5,000 files', async () => {
+    await scannerService.scanRepository(ntLargeRepo, [ntLargeAnalyzer]);
   });
 
   await ntLargeBench.run();
@@ -278,8 +278,8 @@ async function runBenchmarks() {
   const smallFilesBench = new Bench({ time: 1000 });
   const smallFilesAnalyzer = new CodeCommentAnalysisService();
 
-  smallFilesBench.add('Small files', () => {
-    scannerService.scanRepository(smallFilesRepo, [smallFilesAnalyzer]);
+  smallFilesBench.add('Small files', async () => {
+    await scannerService.scanRepository(smallFilesRepo, [smallFilesAnalyzer]);
   });
 
   await smallFilesBench.run();
@@ -310,8 +310,8 @@ async function runBenchmarks() {
   const largeFilesBench = new Bench({ time: 1000 });
   const largeFilesAnalyzer = new CodeCommentAnalysisService();
 
-  largeFilesBench.add('Large files', () => {
-    scannerService.scanRepository(largeFilesRepo, [largeFilesAnalyzer]);
+  largeFilesBench.add('Large files', async () => {
+    await scannerService.scanRepository(largeFilesRepo, [largeFilesAnalyzer]);
   });
 
   await largeFilesBench.run();
@@ -1,4 +1,6 @@
 import 'reflect-metadata';
+import * as os from 'os';
+import { monitorEventLoopDelay } from 'perf_hooks';
 import { Bench } from 'tinybench';
 import { FileSystemScannerService } from '../../../src/git-analyze/services/metrics/ai-indicators/file-system-scanner.service';
 import { CodeCommentAnalysisService } from '../../../src/git-analyze/services/metrics/ai-indicators/code-comment-analysis.service';
@@ -10,7 +12,8 @@ import {
 
 /**
  * Performance tests for FileSystemScannerService
- * Tests file system scanning and filtering performance across different repository sizes
+ * Tests file system scanning and filtering performance across different repository sizes,
+ * and how the scan scales with worker threads
  */
 
 async function runBenchmarks() {
@@ -32,8 +35,8 @@ async function runBenchmarks() {
   const smallBench = new Bench({ time: 1000 });
   const smallAnalyzer = new CodeCommentAnalysisService();
 
-  smallBench.add('FileSystemScanner - 100 files', () => {
-    scannerService.scanRepository(smallRepo, [smallAnalyzer]);
+  smallBench.add('FileSystemScanner - 100 files', async () => {
+    await scannerService.scanRepository(smallRepo, [smallAnalyzer]);
   });
 
   await smallBench.run();
@@ -69,8 +72,8 @@ async function runBenchmarks() {
   const mediumBench = new Bench({ time: 1000 });
   const mediumAnalyzer = new CodeCommentAnalysisService();
 
-  mediumBench.add('FileSystemScanner - 1,000 files', () => {
-    scannerService.scanRepository(mediumRepo, [mediumAnalyzer]);
+  mediumBench.add('FileSystemScanner - 1,000 files', async () => {
+    await scannerService.scanRepository(mediumRepo, [mediumAnalyzer]);
   });
 
   await mediumBench.run();
@@ -106,8 +109,8 @@ async function runBenchmarks() {
   const largeBench = new Bench({ time: 1000 });
   const largeAnalyzer = new CodeCommentAnalysisService();
 
-  largeBench.add('FileSystemScanner - 5,000 files', () => {
-    scannerService.scanRepository(largeRepo, [largeAnalyzer]);
+  largeBench.add('FileSystemScanner - 5,000 files', async () => {
+    await scannerService.scanRepository(largeRepo, [largeAnalyzer]);
   });
 
   await largeBench.run();
@@ -149,8 +152,8 @@ async function runBenchmarks() {
   const singleBench = new Bench({ time: 1000 });
   const singleAnalyzer = new CodeCommentAnalysisService();
 
-  singleBench.add('Single analyzer', () => {
-    scannerService.scanRepository(multiRepo, [singleAnalyzer]);
+  singleBench.add('Single analyzer', async () => {
+    await scannerService.scanRepository(multiRepo, [singleAnalyzer]);
   });
 
   await singleBench.run();
@@ -172,8 +175,8 @@ async function runBenchmarks() {
   const commentAnalyzer = new CodeCommentAnalysisService();
   const expressionAnalyzer = new CodeNonTypicalExpressionsService();
 
-  multiBench.add('Multiple analyzers', () => {
-    scannerService.scanRepository(multiRepo, [
+  multiBench.add('Multiple analyzers', async () => {
+    await scannerService.scanRepository(multiRepo, [
       commentAnalyzer,
       expressionAnalyzer,
     ]);
@@ -219,8 +222,8 @@ async function runBenchmarks() {
   const filterBench = new Bench({ time: 1000 });
   const filterAnalyzer = new CodeCommentAnalysisService();
 
-  filterBench.add('With filtering (node_modules skipped)', () => {
-    scannerService.scanRepository(filteredRepo, [filterAnalyzer]);
+  filterBench.add('With filtering (node_modules skipped)', async () => {
+    await scannerService.scanRepository(filteredRepo, [filterAnalyzer]);
   });
 
   await filterBench.run();
@@ -266,6 +269,80 @@ async function runBenchmarks() {
     `\n  ✓ Scaling is ${scalingReasonable ? 'reasonable (roughly linear)' : 'concerning (may indicate bottlenecks)'}: ${scalingReasonable ? '✅' : '❌'}`,
   );
 
+  // Test 7: Worker thread scaling
+  console.log('\n========================================');
+  console.log('Worker Thread Scaling');
+  console.log('========================================\n');
+
+  console.log(
+    `Creating repository (10,000 files, ${os.availableParallelism()} CPU cores available)...`,
+  );
+  const workersRepo = MockRepositoryGenerator.createMockRepository({
+    fileCount: 10000,
+    maxDepth: 7,
+    fileTypes: ['.ts', '.js', '.py'],
+    avgFileSize: 'medium',
+    includeNonTypicalCode: true,
+  });
+
+  const workerCounts = [0, 1, 2, 4];
+  const workerTimes: number[] = [];
+  for (const workers of workerCounts) {
+    const workersBench = new Bench({ time: 2000, iterations: 5 });
+    const analyzers = [
+      new CodeCommentAnalysisService(),
+      new CodeNonTypicalExpressionsService(),
+    ];
+
+    workersBench.add(`${workers} workers`, async () => {
+      await scannerService.scanRepository(workersRepo, analyzers, undefined, {
+        workers,
+      });
+    });
+
+    // The longest event loop stall is what an API request waits for during a scan
+    const eventLoopDelay = monitorEventLoopDelay({ resolution: 10 });
+    eventLoopDelay.enable();
+    await workersBench.run();
+    eventLoopDelay.disable();
+
+    const workersResult = workersBench.tasks[0].result;
+    console.log(
+      formatBenchmarkResults({
+        name: `FileSystemScanner - 10,000 files, ${workers === 0 ? 'main thread' : `${workers} worker${workers === 1 ? '' : 's'}`}`,
+        ops: workersResult?.throughput.mean || 0,
+        margin: workersResult?.latency.rme || 0,
+        samples: workersResult?.latency.samples.length || 0,
+        mean: workersResult?.latency.mean || 0,
+        min: workersResult?.latency.min || 0,
+        max: workersResult?.latency.max || 0,
+      }),
+    );
+    console.log(
+      `  Longest event loop stall: ${(eventLoopDelay.max / 1e6).toFixed(1)}ms`,
+    );
+    workerTimes.push((workersResult?.latency.mean || 0) * 1000);
+  }
+
+  console.log('');
+  workerCounts.forEach((workers, index) => {
+    console.log(
+      `  ${workers} workers: ${workerTimes[index].toFixed(2)}ms (${(workerTimes[0] / workerTimes[index]).toFixed(2)}x)`,
+    );
+  });
+
+  // Workers can only help with spare cores
+  const twoWorkerSpeedup = workerTimes[0] / workerTimes[2];
+  if (os.availableParallelism() > 2) {
+    console.log(
+      `\n  ✓ 2 workers are faster than the main thread (${twoWorkerSpeedup.toFixed(2)}x > 1.2x): ${twoWorkerSpeedup > 1.2 ? '✅' : '❌'}`,
+    );
+  } else {
+    console.log('\n  ⚠ Fewer than 3 CPU cores: worker speedup is not checked');
+  }
+
+  MockRepositoryGenerator.cleanupMockRepository(workersRepo);
+
   console.log('\n✅ All benchmarks completed successfully!\n');
 }
 
@@ -1,4 +1,5 @@
 import { CommitInfo } from '../../../src/git-analyze/services/git.service';
+import { execFileSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -566,6 +567,65 @@ class DataAnalyzer:
     return 'typescript'; // default
   }
 
+  /**
+   * Creates a temporary Git repository with real commit history
+   * Commits are written with `git fast-import`, so large histories are generated in seconds
+   * @param options Configuration for history generation
+   * @returns Path to the repository working tree
+   */
+  static createMockGitRepository(options: {
+    commitCount: number;
+    filesPerCommit?: number;
+    linesPerFile?: number;
+  }): string {
+    const { commitCount, filesPerCommit = 3, linesPerFile = 20 } = options;
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'perf-git-repo-'));
+    execFileSync('git', ['init', '--quiet', '--initial-branch=main', tempDir]);
+
+    const startTime = Math.floor(
+      new Date('2024-01-01T00:00:00Z').getTime() / 1000,
+    );
+    const chunks: string[] = [];
+
+    for (let i = 0; i < commitCount; i++) {
+      const author = `Developer ${(i % 10) + 1} <dev${(i % 10) + 1}@example.com>`;
+      const timestamp = `${startTime + i * 3600} +0000`;
+      const message = `feat: change ${i}\n`;
+
+      chunks.push(
+        'commit refs/heads/main',
+        `author ${author} ${timestamp}`,
+        `committer ${author} ${timestamp}`,
+        `data ${Buffer.byteLength(message)}`,
+        message,
+      );
+
+      for (let f = 0; f < filesPerCommit; f++) {
+        const fileIndex = (i * filesPerCommit + f) % (filesPerCommit * 20);
+        const content =
+          Array.from(
+            { length: linesPerFile },
+            (_, line) => `export const value${line} = ${i * line};`,
+          ).join('\n') + '\n';
+        chunks.push(
+          `M 644 inline src/module${fileIndex % 10}/file${fileIndex}.ts`,
+          `data ${Buffer.byteLength(content)}`,
+          content,
+        );
+      }
+    }
+
+    execFileSync('git', ['fast-import', '--quiet'], {
+      cwd: tempDir,
+      input: chunks.join('\n'),
+      maxBuffer: 1024 * 1024 * 1024,
+    });
+    execFileSync('git', ['checkout', '--quiet', 'main'], { cwd: tempDir });
+
+    return tempDir;
+  }
+
   /**
    * Cleans up a mock repository
    * @param repoPath Path to the repository to clean up